@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { LayoutDashboard, Stethoscope, Settings as SettingsIcon, LogOut, CheckCircle, Save, Loader, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { Dashboard } from './components/Dashboard';
 import { VisitHistory } from './components/VisitHistory';
@@ -14,11 +14,18 @@ import { LoginPage } from './components/LoginPage';
 import { SignupPage } from './components/SignupPage';
 import { useConsultations } from './hooks/useApi';
 import { useMultiProviderLLM } from './hooks/useMultiProviderLLM';
-import { medicalAnalysisToPrescription } from './utils/llmConverters';
-import { MedicalAnalysisAgent } from './services/agents/MedicalAnalysisAgent';
+import { MedicalAnalysisAgent, type AnalysisResult, type PartialAnalysisUpdate } from './services/agents/MedicalAnalysisAgent';
 import { MedicineDatabase } from './services/database/MedicineDatabase';
-import { LLMManager } from './services/llm/LLMManager';
-import { Patient, Prescription } from './types';
+import type { LLMProvider } from './services/llm/types';
+import { getDefaultModel } from './services/llm/models';
+import { fetchClinicSettings, getSessionAccessToken, serviceManager } from './services/ServiceManager';
+import { Patient, Prescription, TranscriptSegment } from './types';
+import type { ConsultationAudio } from './services/audio/ConsultationRecorder';
+import { formatTranscriptForLLM, rawTranscriptText, segmentsToPlainText } from './utils/transcript';
+import { medicalAnalysisToPrescription } from './utils/llmConverters';
+import { emptyPrescription } from './utils/prescription';
+import { currentMedications } from './services/stt/vocabulary';
+import { DEFAULT_CONSULTATION_LANGUAGE, type OutputScript } from './utils/language';
 import { toast, Toaster } from 'sonner';
 
 import { AuthProvider, useAuth } from './contexts/AuthContext';
@@ -32,28 +39,21 @@ function AppContent() {
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [transcript, setTranscript] = useState('');
-  const [selectedLanguage, setSelectedLanguage] = useState('hinglish');
-  const [prescription, setPrescription] = useState<Prescription>({
-    chiefComplaint: '',
-    symptoms: [],
-    medicalHistory: '',
-    previousMedication: [],
-    previousReports: '',
-    diagnosis: '',
-    medications: [],
-    investigations: [],
-    advice: '',
-    followUp: '',
-  });
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
+  const [selectedLanguage, setSelectedLanguage] = useState<string>(DEFAULT_CONSULTATION_LANGUAGE);
+  const [outputScript, setOutputScript] = useState<OutputScript>('native');
+  const [prescription, setPrescription] = useState<Prescription>(emptyPrescription);
   const [currentConsultationId, setCurrentConsultationId] = useState<string | null>(null);
   const [isSaved, setIsSaved] = useState(false);
   const [isGeneratingLive, setIsGeneratingLive] = useState(false);
-  const [aiAnalysis, setAiAnalysis] = useState<Prescription | null>(null);
   const [liveAnalysisError, setLiveAnalysisError] = useState<string | null>(null);
+  // Provider that produced the latest analysis - differs from the chosen one after a fallback
+  const [analysisProvider, setAnalysisProvider] = useState<LLMProvider | null>(null);
   const [selectedModel, setSelectedModel] = useState<string>(() => 
-    LLMManager.getDefaultModel('openai')
+    getDefaultModel(serviceManager.getLLMProvider())
   );
   const transcriptRef = useRef('');
+  const segmentsRef = useRef<TranscriptSegment[]>([]);
   const medicalAgentRef = useRef<MedicalAnalysisAgent | null>(null);
 
   const {
@@ -63,32 +63,120 @@ function AppContent() {
     updateConsultation,
     fetchConsultations,
   } = useConsultations(selectedPatient?.member_id);
+  // Boosted in speech recognition - the drug names most likely to come up
+  const patientMedications = useMemo(() => currentMedications(consultations), [consultations]);
 
   // Initialize multi-provider LLM
   const llm = useMultiProviderLLM({
-    defaultProvider: 'openai',
-    apiKeys: {
-      openai: import.meta.env.VITE_OPENAI_API_KEY || '',
-      claude: import.meta.env.VITE_CLAUDE_API_KEY || '',
-      gemini: import.meta.env.VITE_GEMINI_API_KEY || ''
-    },
-    fallbackProviders: ['openai', 'claude', 'gemini']
+    defaultProvider: serviceManager.getLLMProvider(),
   });
 
+  // Sync the clinic's provider selection so every device uses the same engines
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    fetchClinicSettings()
+      .then(({ service_providers }) => {
+        if (Object.keys(service_providers).length === 0) return;
+        try {
+          const selection = serviceManager.applySelection(service_providers);
+          llm.switchProvider(selection.llm);
+        } catch (error) {
+          console.warn('Clinic provider selection is invalid, keeping current providers:', error);
+        }
+      })
+      .catch((error) => console.warn('Could not load the clinic provider selection:', error));
+  }, [isAuthenticated]);
+
   // Update ref when transcript changes
   useEffect(() => {
     transcriptRef.current = transcript;
   }, [transcript]);
 
-  // Convert AI analysis to prescription format
   useEffect(() => {
-    if (llm.analysis) {
-      const convertedPrescription = medicalAnalysisToPrescription(llm.analysis);
-      setAiAnalysis(convertedPrescription);
+    segmentsRef.current = transcriptSegments;
+  }, [transcriptSegments]);
+
+  // Agent for the active provider and model; null when the Edge Function is not configured
+  // With a conversationId the agent sends only new transcript lines (live sessions)
+  const createMedicalAgent = (conversationId?: string): MedicalAnalysisAgent | null => {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    if (!llm.activeProvider || !supabaseUrl) {
+      return null;
     }
-  }, [llm.analysis]);
 
-  // Live analysis using MedicalAnalysisAgent - triggers every 5 seconds while recording
+    return new MedicalAnalysisAgent({
+      provider: llm.activeProvider,
+      model: selectedModel,
+      analysisIntervalSeconds: 20,
+      minTranscriptLength: 30,
+      edgeFunctionUrl: supabaseUrl,
+      anonKey: supabaseAnonKey, // Pass the anonymous key for authentication
+      getAccessToken: getSessionAccessToken,
+      language: selectedLanguage,
+      conversationId,
+    });
+  };
+
+  // Fields stream in while the model is still writing - show each as it lands
+  const handlePartialAnalysis = (update: PartialAnalysisUpdate) => {
+    const streamed = medicalAnalysisToPrescription(update.analysis);
+    // Keep the medicines enriched from the database until new ones arrive
+    setPrescription((current) => ({
+      ...streamed,
+      medications: update.fields.medications ? streamed.medications : current.medications,
+    }));
+  };
+
+  const handleAnalysisResult = async (result: AnalysisResult) => {
+    setIsGeneratingLive(medicalAgentRef.current?.isCurrentlyAnalyzing() || false);
+    
+    if (result.error) {
+      console.error('Agent analysis error:', result.error);
+      setLiveAnalysisError(result.error);
+      return;
+    }
+
+    if (result.analysis) {
+      console.log('✅ Live analysis complete:', {
+        chiefComplaint: result.analysis.chiefComplaint?.substring(0, 50),
+        medications: result.analysis.medications?.length,
+      });
+
+      // Convert to prescription format
+      const convertedPrescription = medicalAnalysisToPrescription(result.analysis);
+
+      setPrescription(convertedPrescription);
+      setAnalysisProvider(result.provider);
+      setLiveAnalysisError(null);
+
+      // Optionally enrich medications with composition data
+      if (convertedPrescription.medications?.length > 0) {
+        const enrichedMeds = await Promise.all(
+          convertedPrescription.medications.map(async (med) => ({
+            ...med,
+            medicineInfo: await MedicineDatabase.searchMedicine(med.name),
+          }))
+        );
+        
+        console.log('💊 Enriched medications:', enrichedMeds);
+
+        // Fill in compositions the consultation did not mention, unless a newer analysis arrived meanwhile
+        const medications = enrichedMeds.map(({ medicineInfo, ...med }) =>
+          med.composition?.length || !medicineInfo?.composition?.length
+            ? med
+            : { ...med, composition: medicineInfo.composition }
+        );
+        setPrescription((current) =>
+          current === convertedPrescription ? { ...current, medications } : current
+        );
+      }
+    }
+  };
+
+  // Live analysis using MedicalAnalysisAgent - triggers when an utterance ends, with a 20 second fallback
   useEffect(() => {
     if (!isRecording) {
       // Stop agent if recording stops
@@ -108,84 +196,15 @@ function AppContent() {
     }
 
     // Initialize agent when recording starts
-    const apiKey = (import.meta.env as any)[`VITE_${llm.activeProvider.toUpperCase()}_API_KEY`];
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-    
-    console.log('[App] Agent initialization check:');
-    console.log('[App] - activeProvider:', llm.activeProvider);
-    console.log('[App] - hasApiKey:', !!apiKey);
-    console.log('[App] - supabaseUrl:', supabaseUrl);
-    console.log('[App] - hasAnonKey:', !!supabaseAnonKey);
-    console.log('[App] - selectedModel:', selectedModel);
-    
-    if (!medicalAgentRef.current && llm.activeProvider && (apiKey || supabaseUrl)) {
-      console.log('🚀 [App] Initializing Medical Analysis Agent with', llm.activeProvider, 'model:', selectedModel);
-      console.log('[App] - Using Edge Function:', !!supabaseUrl);
-      
-      medicalAgentRef.current = new MedicalAnalysisAgent({
-        provider: llm.activeProvider,
-        apiKey: apiKey || '',
-        model: selectedModel,
-        analysisIntervalSeconds: 5,
-        minTranscriptLength: 30,
-        edgeFunctionUrl: supabaseUrl, // Optional: Use Edge Function if Supabase URL is available
-        anonKey: supabaseAnonKey, // Pass the anonymous key for authentication
-      });
-      
-      console.log('[App] ✅ Agent created successfully');
-
-      // Start analyzing
-      medicalAgentRef.current.startAnalysis(
-        () => transcriptRef.current,
-        async (result) => {
-          setIsGeneratingLive(medicalAgentRef.current?.isCurrentlyAnalyzing() || false);
-          
-          if (result.error) {
-            console.error('Agent analysis error:', result.error);
-            setLiveAnalysisError(result.error);
-            return;
-          }
-
-          if (result.analysis) {
-            console.log('✅ Live analysis complete:', {
-              chiefComplaint: result.analysis.chiefComplaint?.substring(0, 50),
-              medications: result.analysis.medications?.length,
-            });
-
-            // Convert to prescription format
-            const convertedPrescription: Prescription = {
-              chiefComplaint: result.analysis.chiefComplaint || '',
-              symptoms: result.analysis.symptoms || [],
-              medicalHistory: result.analysis.medicalHistory || '',
-              previousMedication: [],
-              previousReports: '',
-              diagnosis: result.analysis.diagnosis || '',
-              medications: result.analysis.medications || [],
-              investigations: result.analysis.investigationsSuggested || [],
-              advice: result.analysis.instructions?.join('\n') || '',
-              followUp: result.analysis.followUp || '',
-            };
-
-            setPrescription(convertedPrescription);
-            setLiveAnalysisError(null);
-
-            // Optionally enrich medications with composition data
-            if (convertedPrescription.medications?.length > 0) {
-              const enrichedMeds = await Promise.all(
-                convertedPrescription.medications.map(async (med) => ({
-                  ...med,
-                  medicineInfo: await MedicineDatabase.searchMedicine(med.name),
-                }))
-              );
-              
-              // You can store this for display in the UI if needed
-              console.log('💊 Enriched medications:', enrichedMeds);
-            }
-          }
-        }
-      );
-    }
+    medicalAgentRef.current = createMedicalAgent(currentConsultationId || undefined);
+
+    // Start analyzing
+    // Send speaker-attributed turns when available so extraction knows who said what
+    medicalAgentRef.current?.startAnalysis(
+      () => formatTranscriptForLLM(segmentsRef.current) || transcriptRef.current,
+      handleAnalysisResult,
+      handlePartialAnalysis
+    );
 
     return () => {
       // Cleanup when component unmounts or recording stops
@@ -193,7 +212,91 @@ function AppContent() {
         medicalAgentRef.current.stopAnalysis();
       }
     };
-  }, [isRecording, llm.activeProvider, selectedModel]);
+  }, [isRecording, llm.activeProvider, selectedModel, currentConsultationId]);
+
+  // The doctor corrected the transcript after the session - extract again from the corrected text
+  const handleRerunExtraction = async () => {
+    const agent = createMedicalAgent();
+    if (!agent) {
+      toast.error('No AI provider configured for extraction');
+      return;
+    }
+
+    setIsGeneratingLive(true);
+    try {
+      await agent.analyzeOnce(formatTranscriptForLLM(segmentsRef.current) || transcriptRef.current, handleAnalysisResult);
+      setIsSaved(false);
+    } finally {
+      agent.destroy();
+      setIsGeneratingLive(false);
+    }
+  };
+
+  // A pre-recorded consultation was transcribed - extract it and save it as a
+  // completed consultation, then leave it open for review like a live session.
+  // If extraction fails the consultation stays a draft for the doctor to fill in.
+  const handleRecordingUploaded = async (segments: TranscriptSegment[]) => {
+    if (!selectedPatient) {
+      toast.error('Please select a patient first');
+      return;
+    }
+
+    const text = segmentsToPlainText(segments);
+    segmentsRef.current = segments;
+    transcriptRef.current = text;
+    setTranscript(text);
+    setTranscriptSegments(segments);
+    setPrescription(emptyPrescription());
+    setIsSaved(false);
+
+    const consultation = await createConsultation({
+      memberId: selectedPatient.member_id,
+      transcript: text,
+      prescription: {},
+    });
+    setCurrentConsultationId(consultation.consultation_id);
+
+    // Assigned in the agent callback, which control flow analysis cannot see
+    let extracted = null as Prescription | null;
+    let extractionError = 'No AI provider configured';
+    const agent = createMedicalAgent();
+    if (agent) {
+      setIsGeneratingLive(true);
+      try {
+        await agent.analyzeOnce(formatTranscriptForLLM(segments) || text, async (result) => {
+          if (result.analysis) extracted = medicalAnalysisToPrescription(result.analysis);
+          if (result.error) extractionError = result.error;
+          await handleAnalysisResult(result);
+        });
+      } finally {
+        agent.destroy();
+        setIsGeneratingLive(false);
+      }
+    }
+
+    const transcriptFields = {
+      transcript: text,
+      raw_transcript: rawTranscriptText(segments),
+      transcript_segments: segments,
+    };
+
+    if (!extracted) {
+      // Keep the transcript, leave the consultation ongoing
+      await updateConsultation(consultation.consultation_id, transcriptFields);
+      toast.error(`Could not extract the prescription: ${extractionError}. Fill it in manually and save.`);
+      fetchConsultations(selectedPatient.member_id);
+      return;
+    }
+
+    await updateConsultation(consultation.consultation_id, {
+      ...transcriptFields,
+      prescription: extracted,
+      status: 'completed',
+    });
+    setIsSaved(true);
+    toast.success('Recording processed and consultation saved');
+    fetchConsultations(selectedPatient.member_id);
+  };
 
   const handleRecordingChange = async (recording: boolean) => {
     if (recording) {
@@ -212,6 +315,7 @@ function AppContent() {
         setCurrentConsultationId(consultation.consultation_id);
         setIsRecording(true);
         setTranscript('');
+        setTranscriptSegments([]);
         setIsSaved(false);
         toast.success('Consultation started - Recording in progress');
       } catch (error) {
@@ -233,6 +337,8 @@ function AppContent() {
     try {
       await updateConsultation(currentConsultationId, {
         transcript,
+        raw_transcript: rawTranscriptText(transcriptSegments),
+        transcript_segments: transcriptSegments,
         prescription,
         status: 'completed',
       });
@@ -248,21 +354,29 @@ function AppContent() {
     }
   };
 
+  // Audio finishes uploading after recording stops, possibly after the consultation was saved
+  const handleAudioRecorded = async (consultationId: string, audio: ConsultationAudio) => {
+    try {
+      await updateConsultation(consultationId, { audio_recording: audio });
+      if (selectedPatient) {
+        fetchConsultations(selectedPatient.member_id);
+      }
+    } catch (error) {
+      console.error('Failed to link audio recording:', error);
+      toast.error('Consultation audio was recorded but could not be linked');
+    }
+  };
+
+  // End of an utterance from the voice activity detector
+  const handleUtteranceEnd = () => {
+    medicalAgentRef.current?.notifyUtteranceEnd();
+  };
+
   const handlePatientSelect = (patient: Patient) => {
     setSelectedPatient(patient);
     setTranscript('');
-    setPrescription({
-      chiefComplaint: '',
-      symptoms: [],
-      medicalHistory: '',
-      previousMedication: [],
-      previousReports: '',
-      diagnosis: '',
-      medications: [],
-      investigations: [],
-      advice: '',
-      followUp: '',
-    });
+    setTranscriptSegments([]);
+    setPrescription(emptyPrescription());
     setCurrentConsultationId(null);
     setIsSaved(false);
     setIsRecording(false);
@@ -273,18 +387,8 @@ function AppContent() {
   const handleNewConsultation = () => {
     setSelectedPatient(null);
     setTranscript('');
-    setPrescription({
-      chiefComplaint: '',
-      symptoms: [],
-      medicalHistory: '',
-      previousMedication: [],
-      previousReports: '',
-      diagnosis: '',
-      medications: [],
-      investigations: [],
-      advice: '',
-      followUp: '',
-    });
+    setTranscriptSegments([]);
+    setPrescription(emptyPrescription());
     setCurrentConsultationId(null);
     setIsSaved(false);
     setIsRecording(false);
@@ -440,31 +544,23 @@ function AppContent() {
                     {/* Live Transcription */}
                     <LiveTranscription
                       onTranscriptUpdate={setTranscript}
+                      onSegmentsUpdate={setTranscriptSegments}
                       isRecording={isRecording}
                       onRecordingChange={handleRecordingChange}
                       selectedLanguage={selectedLanguage}
                       onLanguageChange={setSelectedLanguage}
+                      outputScript={outputScript}
+                      onOutputScriptChange={setOutputScript}
+                      consultationId={currentConsultationId}
+                      onAudioRecorded={handleAudioRecorded}
+                      onUtteranceEnd={handleUtteranceEnd}
+                      patientMedications={patientMedications}
+                      onTranscriptEdited={() => setIsSaved(false)}
+                      onRerunExtraction={handleRerunExtraction}
+                      isExtracting={isGeneratingLive}
+                      onRecordingUploaded={handleRecordingUploaded}
                     />
 
-                    {/* AI Analysis Button - Now automatic via MedicalAnalysisAgent */}
-                    {/* Commented out since live analysis runs every 5 seconds
-                    <Button
-                      onClick={() => {
-                        if (messages.length > 0) {
-                          llm.analyzeConsultation(messages, transcript);
-                        }
-                      }}
-                      disabled={
-                        llm.isAnalyzing ||
-                        llm.getAvailableProviders().length === 0
-                      }
-                      className="w-full gap-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-                    >
-                      <Zap className="h-4 w-4" />
-                      {llm.isAnalyzing ? 'Analyzing...' : 'Analyze with AI'}
-                    </Button>
-                    */}
-
                     {llm.error && (
                       <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
                         {llm.error}
@@ -497,21 +593,21 @@ function AppContent() {
                       <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md flex items-center gap-2">
                         <CheckCircle2 className="h-4 w-4 text-green-600" />
                         <span className="text-sm text-green-700 font-medium">
-                          ✨ Live prescription updating with {llm.getProviderName(llm.activeProvider)}
+                          ✨ Live prescription updating with {llm.getProviderName(analysisProvider || llm.activeProvider)}
                         </span>
                       </div>
                     )}
 
                     <LivePrescription
-                      prescription={aiAnalysis || prescription}
-                      onPrescriptionUpdate={(updated) => {
-                        setAiAnalysis(null);
-                        setPrescription(updated);
-                      }}
+                      prescription={prescription}
+                      onPrescriptionUpdate={setPrescription}
                       providerSelector={
                         <LLMProviderSelector
                           activeProvider={llm.activeProvider}
-                          onProviderChange={llm.switchProvider}
+                          onProviderChange={(provider) => {
+                            llm.switchProvider(provider);
+                            setSelectedModel(getDefaultModel(provider));
+                          }}
                           providerStatus={llm.providerStatus}
                           isAnalyzing={isGeneratingLive}
                           compact={true}
@@ -564,7 +660,14 @@ function AppContent() {
         )}
 
         {activeTab === 'lifecycle' && <PatientLifecycle onPatientSelect={handleLifecyclePatientSelect} />}
-        {activeTab === 'settings' && <Settings />}
+        {activeTab === 'settings' && (
+          <Settings
+            onProviderSelectionChange={(selection) => {
+              llm.switchProvider(selection.llm);
+              setSelectedModel(getDefaultModel(selection.llm));
+            }}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,78 @@
+/**
+ * The relay mints AssemblyAI streaming tokens without the API key ever
+ * reaching the browser, and only for signed-in doctors
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { Server } from "http";
+import { listening, signJwt, startRelay, stopRelay } from "./test-helpers";
+
+const API_KEY = "assemblyai-secret-key";
+
+// What the mock AssemblyAI API answers with; a broken upstream echoes the key back
+let upstreamToken = "temp-streaming-token";
+let upstreamAuthorization: string | undefined;
+
+const upstream = http.createServer((req, res) => {
+  upstreamAuthorization = req.headers.authorization;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ token: upstreamToken }));
+});
+
+let relay: Server;
+let relayUrl: string;
+
+const doctorToken = signJwt({
+  sub: "doctor-1",
+  role: "authenticated",
+  exp: Math.floor(Date.now() / 1000) + 3600,
+});
+
+async function requestToken(headers: Record<string, string> = {}) {
+  const response = await fetch(`${relayUrl}/api/assemblyai/token`, { method: "POST", headers });
+  return { status: response.status, body: await response.text() };
+}
+
+before(async () => {
+  upstream.listen(0, "127.0.0.1");
+  const upstreamPort = await listening(upstream);
+
+  let port: number;
+  ({ relay, port } = await startRelay({
+    ASSEMBLYAI_API_URL: `http://127.0.0.1:${upstreamPort}`,
+    ASSEMBLYAI_API_KEY: API_KEY,
+  }));
+  relayUrl = `http://127.0.0.1:${port}`;
+});
+
+after(() => {
+  stopRelay(relay);
+  upstream.close();
+});
+
+test("refuses requests without a doctor's session", async () => {
+  const { status, body } = await requestToken();
+  assert.equal(status, 401);
+  assert.ok(!body.includes(API_KEY));
+});
+
+test("returns a temporary token, never the API key", async () => {
+  upstreamToken = "temp-streaming-token";
+  const { status, body } = await requestToken({ Authorization: `Bearer ${doctorToken}` });
+
+  assert.equal(status, 200);
+  assert.equal(JSON.parse(body).token, "temp-streaming-token");
+  assert.ok(!body.includes(API_KEY));
+  // The key is only ever sent upstream
+  assert.equal(upstreamAuthorization, API_KEY);
+});
+
+test("does not pass the API key on when the upstream echoes it back", async () => {
+  upstreamToken = API_KEY;
+  const { status, body } = await requestToken({ Authorization: `Bearer ${doctorToken}` });
+
+  assert.equal(status, 502);
+  assert.ok(!body.includes(API_KEY));
+});
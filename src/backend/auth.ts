@@ -0,0 +1,162 @@
+/**
+ * Relay authentication
+ * Verifies the Supabase session JWT the browser already holds, so relay access
+ * is tied to a signed-in doctor and their clinic.
+ */
+
+import crypto from "crypto";
+
+export interface RelayUser {
+  userId: string;
+  email: string | null;
+  /** Tenant the user's usage is counted against */
+  clinicId: string;
+  isAdmin: boolean;
+}
+
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 401) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+  }
+}
+
+// Extra admins by Supabase user id, for clinics without app_metadata roles set up
+const ADMIN_USER_IDS = new Set(
+  (process.env.RELAY_ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+);
+
+// Local development only: accept connections without a session
+const ALLOW_ANONYMOUS = process.env.RELAY_ALLOW_ANONYMOUS === "true";
+
+const ANONYMOUS_USER: RelayUser = {
+  userId: "anonymous",
+  email: null,
+  clinicId: "local",
+  isAdmin: false,
+};
+
+interface JwtHeader {
+  alg: string;
+}
+
+/** The Supabase claims the relay relies on */
+interface SupabaseClaims {
+  sub: string;
+  exp: number;
+  role: string;
+  email: string | null;
+  appMetadata: { clinic_id?: string; role?: string };
+}
+
+function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+function decodeJsonObject(segment: string): Record<string, unknown> {
+  const value: unknown = JSON.parse(base64UrlDecode(segment).toString("utf8"));
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new AuthError("Malformed token");
+  }
+  return value as Record<string, unknown>;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Check the claims of a verified token
+ * @throws AuthError if it is expired or not a signed-in user's session
+ */
+function readClaims(payload: Record<string, unknown>): SupabaseClaims {
+  const { exp, role, sub } = payload;
+  if (typeof exp !== "number" || exp * 1000 <= Date.now()) {
+    throw new AuthError("Token expired");
+  }
+  // Anon keys are signed with the same secret but do not belong to a user
+  if (role !== "authenticated" || typeof sub !== "string" || !sub) {
+    throw new AuthError("A signed-in user session is required");
+  }
+
+  const metadata = payload.app_metadata;
+  const appMetadata = metadata && typeof metadata === "object" ? (metadata as Record<string, unknown>) : {};
+  return {
+    sub,
+    exp,
+    role,
+    email: optionalString(payload.email) ?? null,
+    appMetadata: {
+      clinic_id: optionalString(appMetadata.clinic_id),
+      role: optionalString(appMetadata.role),
+    },
+  };
+}
+
+/**
+ * Verify a Supabase access token (HS256, signed with the project's JWT secret)
+ * @throws AuthError if the token is missing, forged or expired
+ */
+export function verifySupabaseJwt(token: string, secret: string | undefined = process.env.SUPABASE_JWT_SECRET): RelayUser {
+  if (!secret) {
+    throw new AuthError("SUPABASE_JWT_SECRET not configured", 500);
+  }
+
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new AuthError("Malformed token");
+  }
+  const [encodedHeader, encodedPayload, signature] = parts;
+
+  let header: JwtHeader;
+  let payload: Record<string, unknown>;
+  try {
+    const headerJson = decodeJsonObject(encodedHeader);
+    header = { alg: String(headerJson.alg) };
+    payload = decodeJsonObject(encodedPayload);
+  } catch (e) {
+    throw new AuthError("Malformed token");
+  }
+
+  if (header.alg !== "HS256") {
+    throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const expected = crypto.createHmac("sha256", secret).update(`${encodedHeader}.${encodedPayload}`).digest();
+  const actual = base64UrlDecode(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new AuthError("Invalid token signature");
+  }
+
+  const claims = readClaims(payload);
+  return {
+    userId: claims.sub,
+    email: claims.email,
+    // app_metadata can only be set server-side, so it is safe to trust.
+    // Doctors without a clinic are their own tenant.
+    clinicId: claims.appMetadata.clinic_id || claims.sub,
+    isAdmin: claims.appMetadata.role === "admin" || ADMIN_USER_IDS.has(claims.sub),
+  };
+}
+
+/**
+ * Resolve the user for a request, given the token from its header or query string
+ */
+export function authenticate(token: string | null | undefined): RelayUser {
+  if (!token) {
+    if (ALLOW_ANONYMOUS) return ANONYMOUS_USER;
+    throw new AuthError("Missing access token");
+  }
+  return verifySupabaseJwt(token);
+}
+
+export function bearerToken(authorization: string | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
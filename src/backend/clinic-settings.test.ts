@@ -0,0 +1,150 @@
+/**
+ * The provider selection and audio retention are stored once per clinic: its
+ * admin sets them, and every doctor of the clinic gets the same ones
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type { Server } from "http";
+import { TEST_DIR, signJwt, startRelay, stopRelay } from "./test-helpers";
+
+const CLINICS_FILE = path.join(TEST_DIR, "clinics.json");
+
+let relay: Server;
+let relayUrl: string;
+
+function doctorToken(sub: string, appMetadata: Record<string, string> = {}): string {
+  return signJwt({
+    sub,
+    role: "authenticated",
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    app_metadata: appMetadata,
+  });
+}
+
+const admin = doctorToken("admin-1", { clinic_id: "clinic-1", role: "admin" });
+const doctor = doctorToken("doctor-1", { clinic_id: "clinic-1" });
+const otherClinicDoctor = doctorToken("doctor-2", { clinic_id: "clinic-2" });
+
+async function clinicSettings(token: string, providers?: object) {
+  const response = await fetch(`${relayUrl}/api/clinic/settings`, {
+    method: providers ? "PUT" : "GET",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: providers ? JSON.stringify({ service_providers: providers }) : undefined,
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function updateClinic(token: string, changes: object) {
+  const response = await fetch(`${relayUrl}/api/clinic/settings`, {
+    method: "PUT",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+/**
+ * Upload a one-chunk recording and complete it, asking for `retentionDays`
+ */
+async function recordConsultation(token: string, consultationId: string, retentionDays: number) {
+  const headers = { Authorization: `Bearer ${token}` };
+  const upload = await fetch(`${relayUrl}/api/recordings/${consultationId}/chunks/0`, {
+    method: "PUT",
+    headers: { ...headers, "Content-Type": "audio/webm" },
+    body: Buffer.from("webm audio"),
+  });
+  if (!upload.ok) return { status: upload.status, body: await upload.json() };
+
+  const response = await fetch(`${relayUrl}/api/recordings/${consultationId}/complete`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({ duration: 5, retentionDays }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+before(async () => {
+  let port: number;
+  ({ relay, port } = await startRelay({ CLINICS_FILE }));
+  relayUrl = `http://127.0.0.1:${port}`;
+});
+
+after(() => {
+  stopRelay(relay);
+});
+
+test("shares the admin's selection with every doctor of the clinic", async () => {
+  const selection = { stt: "local", llm: "claude", database: "supabase", auth: "supabase" };
+
+  const saved = await clinicSettings(admin, selection);
+  assert.equal(saved.status, 200);
+
+  const read = await clinicSettings(doctor);
+  assert.equal(read.status, 200);
+  assert.deepEqual(read.body.service_providers, selection);
+  assert.equal(read.body.clinic_id, "clinic-1");
+  assert.equal(read.body.can_manage, false);
+
+  // Other clinics keep their own (here: none yet)
+  assert.deepEqual((await clinicSettings(otherClinicDoctor)).body.service_providers, {});
+
+  const stored = JSON.parse(fs.readFileSync(CLINICS_FILE, "utf8"));
+  assert.deepEqual(stored["clinic-1"].service_providers, selection);
+  assert.equal(stored["clinic-1"].updated_by, "admin-1");
+});
+
+test("only the clinic admin or a doctor without a clinic changes the selection", async () => {
+  const { status } = await clinicSettings(doctor, { stt: "browser" });
+  assert.equal(status, 403);
+  assert.equal((await clinicSettings(doctor)).body.service_providers.stt, "local");
+
+  // A doctor without a clinic_id is their own clinic
+  const solo = doctorToken("doctor-3");
+  const saved = await clinicSettings(solo, { stt: "browser" });
+  assert.equal(saved.status, 200);
+  assert.equal(saved.body.clinic_id, "doctor-3");
+});
+
+test("rejects malformed selections", async () => {
+  assert.equal((await clinicSettings(admin, { speech: "deepgram" })).status, 400);
+  assert.equal((await clinicSettings(admin, { stt: "../deepgram" })).status, 400);
+  // Well-formed, but not a provider the app has
+  assert.equal((await clinicSettings(admin, { stt: "local-stt" })).status, 400);
+  assert.equal((await clinicSettings(admin, { llm: "deepgram" })).status, 400);
+  assert.equal((await clinicSettings(admin, [])).status, 400);
+});
+
+test("keeps recordings for the clinic's retention period, whatever the browser asks for", async () => {
+  assert.equal((await clinicSettings(doctor)).body.audio_retention_days, 30);
+
+  const saved = await updateClinic(admin, { audio_retention_days: 7 });
+  assert.equal(saved.status, 200);
+  // The provider selection is left as it was
+  assert.equal(saved.body.service_providers.stt, "local");
+  assert.equal((await clinicSettings(doctor)).body.audio_retention_days, 7);
+  assert.equal((await updateClinic(doctor, { audio_retention_days: 365 })).status, 403);
+
+  const { status, body } = await recordConsultation(doctor, "consultation-7d", 3650);
+  assert.equal(status, 200);
+  const keptDays = (Date.parse(body.recording.expires_at) - Date.parse(body.recording.completed_at)) / 86400000;
+  assert.equal(keptDays, 7);
+});
+
+test("stores no audio for a clinic that turned recording off", async () => {
+  const solo = doctorToken("doctor-4");
+  assert.equal((await updateClinic(solo, { audio_retention_days: 0 })).status, 200);
+
+  const { status } = await recordConsultation(solo, "consultation-off", 30);
+  assert.equal(status, 403);
+  assert.equal(fs.existsSync(path.join(TEST_DIR, "consultation-off")), false);
+});
+
+test("rejects malformed retention periods", async () => {
+  for (const days of [-1, 1.5, "30", 366]) {
+    assert.equal((await updateClinic(admin, { audio_retention_days: days })).status, 400);
+  }
+  assert.equal((await updateClinic(admin, {})).status, 400);
+});
@@ -0,0 +1,146 @@
+/**
+ * Clinic settings
+ * Settings shared by every doctor in a clinic, kept per clinic_id - the same tenant
+ * audio minutes are counted against - in one JSON file on disk.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { RelayUser } from "./auth";
+import { KNOWN_PROVIDERS, isKnownProvider, isKnownServiceKind } from "../shared/providers";
+
+export const CLINICS_FILE = path.resolve(process.env.CLINICS_FILE || "clinics.json");
+
+// Used when the clinic has not chosen a retention period (as in the app's ConsultationRecorder)
+export const DEFAULT_AUDIO_RETENTION_DAYS = 30;
+const MAX_AUDIO_RETENTION_DAYS = 365;
+
+export interface ClinicSettings {
+  clinic_id: string;
+  /** Provider id per service, one of KNOWN_PROVIDERS */
+  service_providers: Record<string, string>;
+  /** Days to keep consultation audio; 0 turns audio recording off for the clinic */
+  audio_retention_days?: number;
+  updated_at: string;
+  /** Doctor who last changed the settings */
+  updated_by: string;
+}
+
+export class ClinicSettingsError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "ClinicSettingsError";
+    this.status = status;
+  }
+}
+
+// clinic id -> settings, read from CLINICS_FILE on first use
+let clinics: Map<string, ClinicSettings> | null = null;
+// Writes run one after another so a slow write never lands over a newer one
+let writeQueue: Promise<void> = Promise.resolve();
+
+async function loadClinics(): Promise<Map<string, ClinicSettings>> {
+  if (clinics) return clinics;
+  try {
+    const raw = await fs.promises.readFile(CLINICS_FILE, "utf8");
+    clinics = new Map(Object.entries(JSON.parse(raw)));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+    clinics = new Map();
+  }
+  return clinics;
+}
+
+function saveClinics(all: Map<string, ClinicSettings>): Promise<void> {
+  const write = async () => {
+    // Write a temporary file and rename it, so a crash never leaves half a file
+    const tmp = `${CLINICS_FILE}.tmp`;
+    await fs.promises.mkdir(path.dirname(CLINICS_FILE), { recursive: true });
+    await fs.promises.writeFile(tmp, JSON.stringify(Object.fromEntries(all), null, 2));
+    await fs.promises.rename(tmp, CLINICS_FILE);
+  };
+  const result = writeQueue.then(write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+export async function getClinicSettings(clinicId: string): Promise<ClinicSettings | null> {
+  return (await loadClinics()).get(clinicId) || null;
+}
+
+/**
+ * How long the clinic keeps consultation audio - decided here, never by the uploading browser
+ */
+export async function getAudioRetentionDays(clinicId: string): Promise<number> {
+  return (await getClinicSettings(clinicId))?.audio_retention_days ?? DEFAULT_AUDIO_RETENTION_DAYS;
+}
+
+/**
+ * Admins manage their clinic's settings. A doctor without a clinic is their own
+ * tenant (clinic_id is their user id) and manages it themselves.
+ */
+export function canManageClinic(user: RelayUser): boolean {
+  return user.isAdmin || user.clinicId === user.userId;
+}
+
+/**
+ * Change the settings of the user's clinic; fields left out keep their value
+ * @throws ClinicSettingsError (403) if the user can't manage the clinic, (400) if a setting is malformed
+ */
+export async function updateClinicSettings(
+  user: RelayUser,
+  changes: { service_providers?: unknown; audio_retention_days?: unknown }
+): Promise<ClinicSettings> {
+  if (!canManageClinic(user)) {
+    throw new ClinicSettingsError("Only a clinic admin can change the clinic's settings", 403);
+  }
+  if (changes.service_providers === undefined && changes.audio_retention_days === undefined) {
+    throw new ClinicSettingsError("Nothing to update");
+  }
+
+  const all = await loadClinics();
+  const existing = all.get(user.clinicId);
+  const settings: ClinicSettings = {
+    clinic_id: user.clinicId,
+    service_providers:
+      changes.service_providers !== undefined
+        ? parseServiceProviders(changes.service_providers)
+        : existing?.service_providers || {},
+    audio_retention_days:
+      changes.audio_retention_days !== undefined
+        ? parseRetentionDays(changes.audio_retention_days)
+        : existing?.audio_retention_days,
+    updated_at: new Date().toISOString(),
+    updated_by: user.userId,
+  };
+  all.set(user.clinicId, settings);
+  await saveClinics(all);
+  return settings;
+}
+
+function parseServiceProviders(providers: unknown): Record<string, string> {
+  if (!providers || typeof providers !== "object" || Array.isArray(providers)) {
+    throw new ClinicSettingsError("service_providers must be an object");
+  }
+
+  const selection: Record<string, string> = {};
+  for (const [kind, id] of Object.entries(providers)) {
+    if (!isKnownServiceKind(kind)) {
+      throw new ClinicSettingsError(`Unknown service: ${kind}`);
+    }
+    if (!isKnownProvider(kind, id)) {
+      throw new ClinicSettingsError(`Unknown ${kind} provider (expected one of ${KNOWN_PROVIDERS[kind].join(", ")})`);
+    }
+    selection[kind] = id as string;
+  }
+  return selection;
+}
+
+function parseRetentionDays(days: unknown): number {
+  if (typeof days !== "number" || !Number.isInteger(days) || days < 0 || days > MAX_AUDIO_RETENTION_DAYS) {
+    throw new ClinicSettingsError(`audio_retention_days must be a whole number of days from 0 to ${MAX_AUDIO_RETENTION_DAYS}`);
+  }
+  return days;
+}
@@ -0,0 +1,190 @@
+/**
+ * Uploaded recordings stream through the relay to Deepgram's batch API, within
+ * a size limit and only as audio; the relay also mints direct-streaming tokens.
+ * Deepgram is a mock server here (DEEPGRAM_API_URL).
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { Server } from "http";
+import { listening, signJwt, startRelay, stopRelay } from "./test-helpers";
+
+const API_KEY = "deepgram-secret-key";
+const MAX_UPLOAD_BYTES = 1024;
+
+// What the mock Deepgram API answers /v1/listen with, and what it was sent
+let listenResponse: { status: number; body: object } = { status: 200, body: {} };
+const listenRequests: { query: URLSearchParams; authorization?: string; contentType?: string; bytes: number }[] = [];
+
+const upstream = http.createServer(async (req, res) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  let bytes = 0;
+  try {
+    for await (const chunk of req) bytes += (chunk as Buffer).length;
+  } catch (e) {
+    // The relay gave up on an upload over the limit
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/json");
+  if (url.pathname === "/v1/tokens") {
+    res.end(JSON.stringify({ token: "direct-streaming-token" }));
+    return;
+  }
+  listenRequests.push({
+    query: url.searchParams,
+    authorization: req.headers.authorization,
+    contentType: req.headers["content-type"],
+    bytes,
+  });
+  res.statusCode = listenResponse.status;
+  res.end(JSON.stringify(listenResponse.body));
+});
+
+let relay: Server;
+let relayUrl: string;
+
+const doctorToken = signJwt({
+  sub: "doctor-1",
+  role: "authenticated",
+  exp: Math.floor(Date.now() / 1000) + 3600,
+});
+
+async function transcribe(body: BodyInit, contentType: string, query = "") {
+  const init: RequestInit & { duplex?: "half" } = {
+    method: "POST",
+    headers: { Authorization: `Bearer ${doctorToken}`, "Content-Type": contentType },
+    body,
+  };
+  // A streamed body goes out chunked, without a Content-Length
+  if (body instanceof ReadableStream) init.duplex = "half";
+  const response = await fetch(`${relayUrl}/api/deepgram/transcribe${query}`, init);
+  return { status: response.status, body: await response.json() };
+}
+
+function word(text: string, speaker: number, start: number) {
+  return { word: text, punctuated_word: text, speaker, start, end: start + 0.4, confidence: 0.9 };
+}
+
+before(async () => {
+  upstream.listen(0, "127.0.0.1");
+  let port: number;
+  ({ relay, port } = await startRelay({
+    DEEPGRAM_API_URL: `http://127.0.0.1:${await listening(upstream)}`,
+    DEEPGRAM_API_KEY: API_KEY,
+    MAX_UPLOAD_BYTES: String(MAX_UPLOAD_BYTES),
+  }));
+  relayUrl = `http://127.0.0.1:${port}`;
+});
+
+after(() => {
+  stopRelay(relay);
+  upstream.closeAllConnections();
+  upstream.close();
+});
+
+test("refuses uploads that are not audio", async () => {
+  listenRequests.length = 0;
+  const { status } = await transcribe("not audio", "text/plain");
+  assert.equal(status, 415);
+  assert.equal(listenRequests.length, 0);
+});
+
+test("refuses uploads over the size limit, declared or streamed", async () => {
+  listenRequests.length = 0;
+  const declared = await transcribe(new Uint8Array(MAX_UPLOAD_BYTES + 1), "audio/wav");
+  assert.equal(declared.status, 413);
+
+  const chunks = [new Uint8Array(600), new Uint8Array(600)];
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk) controller.enqueue(chunk);
+      else controller.close();
+    },
+  });
+  const streamed = await transcribe(stream, "audio/wav");
+  assert.equal(streamed.status, 413);
+  assert.equal(listenRequests.length, 0);
+});
+
+test("returns Deepgram's utterances as speaker turns", async () => {
+  listenRequests.length = 0;
+  listenResponse = {
+    status: 200,
+    body: {
+      metadata: { duration: 4.2 },
+      results: {
+        channels: [{ alternatives: [{ transcript: "Any fever? Since yesterday.", confidence: 0.95, words: [] }] }],
+        utterances: [
+          { speaker: 0, transcript: "Any fever?", start: 0.2, end: 1.1, confidence: 0.97 },
+          { speaker: 1, transcript: "Since yesterday.", start: 1.6, end: 2.8, confidence: 0.93 },
+        ],
+      },
+    },
+  };
+
+  const { status, body } = await transcribe(new Uint8Array(512), "audio/webm", "?language=en-IN");
+  assert.equal(status, 200);
+  assert.equal(body.transcript, "Any fever? Since yesterday.");
+  assert.equal(body.duration, 4.2);
+  assert.deepEqual(body.segments, [
+    { speaker: 0, text: "Any fever?", start: 0.2, end: 1.1, confidence: 0.97 },
+    { speaker: 1, text: "Since yesterday.", start: 1.6, end: 2.8, confidence: 0.93 },
+  ]);
+
+  // The whole upload reaches Deepgram with the relay's key, never the doctor's token
+  const [request] = listenRequests;
+  assert.equal(request.bytes, 512);
+  assert.equal(request.authorization, `Token ${API_KEY}`);
+  assert.equal(request.contentType, "audio/webm");
+  assert.equal(request.query.get("diarize"), "true");
+  assert.equal(request.query.get("language"), "en-IN");
+});
+
+test("groups diarized words into turns when Deepgram returns no utterances", async () => {
+  listenResponse = {
+    status: 200,
+    body: {
+      results: {
+        channels: [
+          {
+            alternatives: [
+              {
+                transcript: "Any fever? Since yesterday.",
+                words: [word("Any", 0, 0.2), word("fever?", 0, 0.6), word("Since", 1, 1.6), word("yesterday.", 1, 2.0)],
+              },
+            ],
+          },
+        ],
+      },
+    },
+  };
+
+  const { status, body } = await transcribe(new Uint8Array(512), "audio/wav");
+  assert.equal(status, 200);
+  assert.deepEqual(
+    body.segments.map(({ speaker, text, start, end }: any) => ({ speaker, text, start, end })),
+    [
+      { speaker: 0, text: "Any fever?", start: 0.2, end: 1.0 },
+      { speaker: 1, text: "Since yesterday.", start: 1.6, end: 2.4 },
+    ]
+  );
+});
+
+test("reports a Deepgram failure as a bad gateway", async () => {
+  listenResponse = { status: 500, body: { err_msg: "Internal error" } };
+  const { status, body } = await transcribe(new Uint8Array(512), "audio/wav");
+  assert.equal(status, 502);
+  assert.equal(body.status, 500);
+});
+
+test("mints direct-streaming tokens from the configured Deepgram API", async () => {
+  const response = await fetch(`${relayUrl}/api/deepgram/token`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${doctorToken}` },
+  });
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { token: "direct-streaming-token" });
+});
@@ -0,0 +1,56 @@
+/**
+ * Diarization helpers
+ * Turns Deepgram word-level output (with speaker indices) into speaker turns
+ */
+
+export interface DeepgramWord {
+  word: string;
+  punctuated_word?: string;
+  start: number;
+  end: number;
+  confidence: number;
+  speaker?: number;
+}
+
+export interface DiarizedSegment {
+  speaker: number;
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+/**
+ * Group consecutive words spoken by the same speaker into segments.
+ * Confidence is the mean word confidence of the segment.
+ */
+export function groupWordsIntoSegments(words: DeepgramWord[]): DiarizedSegment[] {
+  const segments: DiarizedSegment[] = [];
+  let current: { speaker: number; words: DeepgramWord[] } | null = null;
+
+  const flush = () => {
+    if (!current || current.words.length === 0) return;
+    const first = current.words[0];
+    const last = current.words[current.words.length - 1];
+    const totalConfidence = current.words.reduce((sum, w) => sum + (w.confidence || 0), 0);
+    segments.push({
+      speaker: current.speaker,
+      text: current.words.map((w) => w.punctuated_word || w.word).join(" "),
+      start: first.start,
+      end: last.end,
+      confidence: totalConfidence / current.words.length,
+    });
+  };
+
+  for (const word of words) {
+    const speaker = word.speaker ?? 0;
+    if (!current || current.speaker !== speaker) {
+      flush();
+      current = { speaker, words: [] };
+    }
+    current.words.push(word);
+  }
+  flush();
+
+  return segments;
+}
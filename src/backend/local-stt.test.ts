@@ -0,0 +1,130 @@
+/**
+ * The on-premise engine turns a recorded consultation, streamed the way the
+ * relay streams it, into Deepgram-style results from whisper.cpp
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import path from "path";
+import WebSocket from "ws";
+import type { Server } from "http";
+import { decodeWav } from "../shared/wav";
+import { STT_SAMPLE_RATE } from "../shared/pcm";
+import { loadPcm } from "./stt-fixture";
+import { listening } from "./test-helpers";
+
+const FIXTURE = path.join(__dirname, "fixtures", "two-utterances.wav");
+// The first utterance and its trailing silence; the second starts here
+const SPLIT_SECONDS = 0.8;
+const FRAME_SAMPLES = 2048;
+
+interface Inference {
+  sampleRate: number;
+  seconds: number;
+  peak: number;
+  language: string | null;
+  prompt: string | null;
+}
+
+// What the mock whisper.cpp server was asked to transcribe, in order
+const inferences: Inference[] = [];
+
+const whisper = http.createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const form = await new Response(Buffer.concat(chunks), {
+    headers: { "Content-Type": req.headers["content-type"] || "" },
+  }).formData();
+
+  const file = form.get("file") as Blob;
+  const { sampleRate, samples } = decodeWav(await file.arrayBuffer());
+  inferences.push({
+    sampleRate,
+    seconds: samples.length / sampleRate,
+    peak: samples.reduce((peak, sample) => Math.max(peak, Math.abs(sample)), 0),
+    language: form.get("language") as string | null,
+    prompt: form.get("prompt") as string | null,
+  });
+
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ text: ` utterance ${inferences.length}` }));
+});
+
+let engine: Server;
+let engineUrl: string;
+
+before(async () => {
+  whisper.listen(0, "127.0.0.1");
+  const whisperPort = await listening(whisper);
+
+  process.env.LOCAL_STT_PORT = "0";
+  process.env.LOCAL_STT_ENGINE = "whisper";
+  process.env.WHISPER_URL = `http://127.0.0.1:${whisperPort}`;
+  // Utterances end on Finalize only, so the test doesn't depend on timing
+  process.env.WHISPER_PAUSE_MS = "60000";
+
+  // Configuration is read when the engine module loads
+  ({ server: engine } = await import("./local-stt"));
+  engineUrl = `ws://127.0.0.1:${await listening(engine)}/v1/listen`;
+});
+
+after(() => {
+  engine?.closeAllConnections();
+  engine?.close();
+  whisper.close();
+});
+
+test("transcribes each finalized utterance of a recording", async () => {
+  const pcm = loadPcm(FIXTURE);
+  const split = Math.round(SPLIT_SECONDS * STT_SAMPLE_RATE);
+
+  const ws = new WebSocket(`${engineUrl}?language=hi-IN&keywords=Dolo%20650:2`);
+  await new Promise((resolve, reject) => {
+    ws.once("open", resolve);
+    ws.once("error", reject);
+  });
+
+  const results: any[] = [];
+  const received = new Promise<void>((resolve) => {
+    ws.on("message", (data: WebSocket.RawData) => {
+      results.push(JSON.parse(data.toString()));
+      if (results.length === 2) resolve();
+    });
+  });
+
+  const stream = (from: number, to: number) => {
+    for (let offset = from; offset < to; offset += FRAME_SAMPLES) {
+      const frame = pcm.subarray(offset, Math.min(offset + FRAME_SAMPLES, to));
+      ws.send(Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength));
+    }
+    ws.send(JSON.stringify({ type: "Finalize" }));
+  };
+  stream(0, split);
+  stream(split, pcm.length);
+
+  await received;
+  ws.close();
+
+  assert.deepEqual(
+    results.map((result) => [result.type, result.is_final, result.channel.alternatives[0].transcript]),
+    [
+      ["Results", true, "utterance 1"],
+      ["Results", true, "utterance 2"],
+    ]
+  );
+  assert.equal(results[0].start, 0);
+  assert.equal(results[1].start, SPLIT_SECONDS);
+  assert.equal(results[0].duration + results[1].duration, pcm.length / STT_SAMPLE_RATE);
+  assert.deepEqual(results[0].channel.alternatives[0].languages, ["hi-IN"]);
+
+  // whisper.cpp gets each utterance as a 16 kHz WAV, with the relay's keywords as its prompt
+  assert.equal(inferences.length, 2);
+  for (const inference of inferences) {
+    assert.equal(inference.sampleRate, STT_SAMPLE_RATE);
+    assert.ok(inference.peak > 0.1, "utterance audio is not silent");
+    assert.equal(inference.language, "hi");
+    assert.equal(inference.prompt, "Medicines: Dolo 650.");
+  }
+  assert.equal(inferences[0].seconds, SPLIT_SECONDS);
+});
@@ -0,0 +1,332 @@
+/**
+ * On-premise speech-to-text engine for clinics without reliable internet
+ * Bridges a whisper.cpp or Vosk server on the clinic machine to Deepgram's
+ * streaming API, so the relay (server.ts) runs unchanged with
+ * LOCAL_STT_URL=http://localhost:4020 and the browser keeps its relay protocol.
+ *
+ * Start the engine first, then `npm run local:stt`:
+ *   Vosk:    docker run -p 2700:2700 alphacep/kaldi-en-in   (LOCAL_STT_ENGINE=vosk, VOSK_URL)
+ *   Whisper: whisper.cpp `server -m ggml-small.bin --port 8080`   (LOCAL_STT_ENGINE=whisper, WHISPER_URL)
+ *
+ * Neither engine diarizes, so results carry no speakers and the browser's
+ * voice analysis labels doctor and patient.
+ */
+
+import express from "express";
+import type { IncomingMessage } from "http";
+import dotenv from "dotenv";
+import { WebSocketServer } from "ws";
+import WebSocket from "ws";
+
+dotenv.config();
+
+const PORT = process.env.LOCAL_STT_PORT || 4020;
+const ENGINE = process.env.LOCAL_STT_ENGINE || "whisper";
+const VOSK_URL = process.env.VOSK_URL || "ws://localhost:2700";
+const WHISPER_URL = process.env.WHISPER_URL || "http://localhost:8080";
+
+// linear16 mono at 16 kHz, as sent by the relay
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SECOND = SAMPLE_RATE * 2;
+
+// whisper.cpp transcribes whole utterances. The browser only streams speech, so
+// a gap in the audio is the end of an utterance; long monologues are cut anyway.
+const WHISPER_PAUSE_MS = Number(process.env.WHISPER_PAUSE_MS) || 800;
+const WHISPER_MIN_SECONDS = 0.5;
+const WHISPER_MAX_SECONDS = Number(process.env.WHISPER_MAX_SECONDS) || 15;
+const WHISPER_TIMEOUT_MS = 60 * 1000;
+
+// Vosk sends its last result after end-of-stream; don't wait forever for it
+const VOSK_CLOSE_TIMEOUT_MS = 5000;
+
+interface EngineResult {
+  text: string;
+  isFinal: boolean;
+  /** Seconds from the start of the stream */
+  start: number;
+  duration: number;
+  confidence?: number;
+}
+
+interface StreamOptions {
+  /** Deepgram language code from the relay ("hi", "en-IN", "multi", "auto") */
+  language: string | null;
+  /** Terms the relay asked to boost */
+  keywords: string[];
+}
+
+interface EngineSession {
+  sendAudio(pcm: Buffer): void;
+  /** Flush whatever has been heard so far as a final result */
+  finalize(): void;
+  close(): void;
+}
+
+type Emit = (result: EngineResult) => void;
+
+/** A recognized word in a Vosk final result */
+interface VoskWord {
+  word: string;
+  /** Seconds from the start of the stream */
+  start: number;
+  end: number;
+  conf: number;
+}
+
+interface VoskMessage {
+  partial?: string;
+  text?: string;
+  result?: VoskWord[];
+}
+
+/** whisper.cpp /inference response with response_format=json */
+interface WhisperResponse {
+  text?: string;
+}
+
+// =========================================
+// VOSK
+// Streaming: partial results while speaking, a final one per utterance
+// =========================================
+function openVosk(emit: Emit, onError: (message: string) => void): EngineSession {
+  const ws = new WebSocket(VOSK_URL);
+  let pending: Buffer[] = [];
+  let receivedBytes = 0;
+  let utteranceStart = 0;
+
+  ws.on("open", () => {
+    ws.send(JSON.stringify({ config: { sample_rate: SAMPLE_RATE } }));
+    pending.forEach((pcm) => ws.send(pcm));
+    pending = [];
+  });
+
+  ws.on("message", (data: WebSocket.RawData) => {
+    try {
+      const message: VoskMessage = JSON.parse(data.toString());
+      const now = receivedBytes / BYTES_PER_SECOND;
+      if (message.partial) {
+        emit({ text: message.partial, isFinal: false, start: utteranceStart, duration: now - utteranceStart });
+      } else if (message.text) {
+        const words = message.result || [];
+        const start = words[0]?.start ?? utteranceStart;
+        const end = words[words.length - 1]?.end ?? now;
+        const confidence = words.length ? words.reduce((sum, w) => sum + (w.conf || 0), 0) / words.length : undefined;
+        emit({ text: message.text, isFinal: true, start, duration: end - start, confidence });
+        utteranceStart = end;
+      }
+    } catch (error) {
+      console.error("[LocalSTT] Unreadable Vosk message:", error);
+    }
+  });
+
+  ws.on("error", (error: Error) => onError(`Vosk server unavailable at ${VOSK_URL}: ${error.message}`));
+
+  return {
+    sendAudio(pcm) {
+      receivedBytes += pcm.length;
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(pcm);
+      } else if (ws.readyState === WebSocket.CONNECTING) {
+        pending.push(pcm);
+      }
+    },
+    // Vosk ends utterances on its own silence detection and cannot be flushed mid-stream
+    finalize() {},
+    close() {
+      if (ws.readyState !== WebSocket.OPEN) {
+        ws.terminate();
+        return;
+      }
+      ws.send(JSON.stringify({ eof: 1 }));
+      setTimeout(() => ws.terminate(), VOSK_CLOSE_TIMEOUT_MS).unref();
+    },
+  };
+}
+
+// =========================================
+// WHISPER.CPP
+// Batch: each utterance is posted to the server's /inference endpoint
+// =========================================
+
+/**
+ * Whisper language code for the relay's Deepgram code ("en-IN" -> "en")
+ */
+function whisperLanguage(language: string | null): string {
+  if (!language || language === "multi" || language === "auto") return "auto";
+  return language.split("-")[0];
+}
+
+function wavFile(pcm: Buffer): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(BYTES_PER_SECOND, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+function openWhisper(options: StreamOptions, emit: Emit, onError: (message: string) => void): EngineSession {
+  let buffered: Buffer[] = [];
+  let bufferedBytes = 0;
+  let streamBytes = 0;
+  let pauseTimer: NodeJS.Timeout | null = null;
+  // Utterances are transcribed one at a time so results arrive in order
+  let queue = Promise.resolve();
+
+  // whisper.cpp has no keyword boosting, but the prompt steers its spelling
+  const prompt = options.keywords.length ? `Medicines: ${options.keywords.join(", ")}.` : "";
+
+  const transcribe = async (pcm: Buffer, start: number) => {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(wavFile(pcm))], { type: "audio/wav" }), "utterance.wav");
+    form.append("response_format", "json");
+    form.append("temperature", "0");
+    form.append("language", whisperLanguage(options.language));
+    if (prompt) form.append("prompt", prompt);
+
+    const response = await fetch(`${WHISPER_URL}/inference`, {
+      method: "POST",
+      body: form,
+      signal: AbortSignal.timeout(WHISPER_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`whisper.cpp returned ${response.status}`);
+    }
+    const data: WhisperResponse = await response.json();
+    const text = (data.text || "").trim();
+    if (text) {
+      emit({ text, isFinal: true, start, duration: pcm.length / BYTES_PER_SECOND });
+    }
+  };
+
+  const flush = () => {
+    if (pauseTimer) clearTimeout(pauseTimer);
+    pauseTimer = null;
+    if (bufferedBytes < WHISPER_MIN_SECONDS * BYTES_PER_SECOND) return;
+
+    const pcm = Buffer.concat(buffered);
+    const start = (streamBytes - bufferedBytes) / BYTES_PER_SECOND;
+    buffered = [];
+    bufferedBytes = 0;
+    queue = queue
+      .then(() => transcribe(pcm, start))
+      .catch((error) => onError(`whisper.cpp server unavailable at ${WHISPER_URL}: ${error.message}`));
+  };
+
+  return {
+    sendAudio(pcm) {
+      buffered.push(pcm);
+      bufferedBytes += pcm.length;
+      streamBytes += pcm.length;
+      if (bufferedBytes >= WHISPER_MAX_SECONDS * BYTES_PER_SECOND) {
+        flush();
+        return;
+      }
+      if (pauseTimer) clearTimeout(pauseTimer);
+      pauseTimer = setTimeout(flush, WHISPER_PAUSE_MS);
+    },
+    finalize: flush,
+    close() {
+      if (pauseTimer) clearTimeout(pauseTimer);
+    },
+  };
+}
+
+// =========================================
+// DEEPGRAM-COMPATIBLE STREAMING ENDPOINT
+// =========================================
+
+function resultsMessage(result: EngineResult, language: string | null): any {
+  return {
+    type: "Results",
+    is_final: result.isFinal,
+    start: result.start,
+    duration: result.duration,
+    channel: {
+      alternatives: [
+        {
+          transcript: result.text,
+          confidence: result.confidence ?? 0,
+          // No speakers, so no words - the relay would put them all on speaker 0
+          words: [],
+          languages: language && language !== "multi" && language !== "auto" ? [language] : undefined,
+        },
+      ],
+    },
+  };
+}
+
+const app = express();
+
+app.get("/health", (_req, res) => {
+  res.json({ status: "ok", service: "local-stt", engine: ENGINE });
+});
+
+const server = app.listen(Number(PORT), "127.0.0.1", () => {
+  console.log(`Local STT (${ENGINE}) running on http://localhost:${PORT}`);
+  console.log(`Run the relay with LOCAL_STT_URL=http://localhost:${PORT}`);
+});
+
+const wss = new WebSocketServer({ server, path: "/v1/listen" });
+
+wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+  const params = new URL(req.url || "/", "http://localhost").searchParams;
+  const options: StreamOptions = {
+    language: params.get("language"),
+    // The relay appends a boost ("Dolo:2") that only Deepgram understands
+    keywords: params.getAll("keywords").map((keyword) => keyword.replace(/:\d+(\.\d+)?$/, "")),
+  };
+  console.log(`[LocalSTT] Stream opened (${ENGINE}, language ${options.language || "auto"})`);
+
+  const emit: Emit = (result) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(resultsMessage(result, options.language)));
+    }
+  };
+  // An unreachable engine ends the stream; the relay then ends the session
+  // and the browser fails over to the next engine
+  const onError = (message: string) => {
+    console.error(`[LocalSTT] ${message}`);
+    if (ws.readyState === WebSocket.OPEN) ws.close(1011, message.slice(0, 120));
+  };
+
+  let session: EngineSession;
+  if (ENGINE === "vosk") {
+    session = openVosk(emit, onError);
+  } else if (ENGINE === "whisper") {
+    session = openWhisper(options, emit, onError);
+  } else {
+    ws.close(1011, `Unknown LOCAL_STT_ENGINE: ${ENGINE}`);
+    return;
+  }
+
+  ws.on("message", (data: WebSocket.RawData, isBinary: boolean) => {
+    if (isBinary) {
+      // Binary frames arrive as a single Buffer (the default binaryType)
+      session.sendAudio(data as Buffer);
+      return;
+    }
+    try {
+      if (JSON.parse(data.toString()).type === "Finalize") session.finalize();
+      // KeepAlive needs no answer - local engines do not time out
+    } catch (error) {
+      console.warn("[LocalSTT] Ignoring malformed control message");
+    }
+  });
+
+  ws.on("close", () => {
+    session.close();
+    console.log("[LocalSTT] Stream closed");
+  });
+});
+
+export { app, server };
@@ -0,0 +1,31 @@
+/**
+ * Mock AssemblyAI API for local testing
+ * Start it with `npm run mock:assemblyai` and run the relay with
+ * ASSEMBLYAI_API_URL=http://localhost:4011 ASSEMBLYAI_API_KEY=test
+ */
+
+import crypto from "crypto";
+import express from "express";
+
+const app = express();
+app.use(express.json());
+
+const PORT = process.env.MOCK_ASSEMBLYAI_PORT || 4011;
+
+app.post("/v2/realtime/token", (req, res) => {
+  if (!req.headers.authorization) {
+    return res.status(401).json({ error: "Authentication error, API token missing/invalid" });
+  }
+
+  const expiresIn = Number(req.body?.expires_in);
+  if (!Number.isInteger(expiresIn) || expiresIn < 60 || expiresIn > 360000) {
+    return res.status(400).json({ error: "expires_in must be an integer between 60 and 360000" });
+  }
+
+  console.log(`[mock-assemblyai] Issuing temporary token (expires_in=${expiresIn})`);
+  res.json({ token: `mock-temp-${crypto.randomBytes(16).toString("hex")}` });
+});
+
+app.listen(Number(PORT), "127.0.0.1", () => {
+  console.log(`Mock AssemblyAI API running on http://localhost:${PORT}`);
+});
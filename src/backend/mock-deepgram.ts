@@ -0,0 +1,102 @@
+/**
+ * Mock Deepgram API for local testing
+ * Covers batch transcription and live streaming.
+ * Start it with `npm run mock:deepgram` and run the relay with
+ * DEEPGRAM_API_URL=http://localhost:4010 DEEPGRAM_API_KEY=test
+ */
+
+import express from "express";
+import { WebSocketServer } from "ws";
+
+const app = express();
+
+const PORT = process.env.MOCK_DEEPGRAM_PORT || 4010;
+
+// Canned two-speaker consultation returned for every upload
+const MOCK_WORDS = [
+  { word: "what", punctuated_word: "What", start: 0.1, end: 0.3, confidence: 0.98, speaker: 0 },
+  { word: "brings", punctuated_word: "brings", start: 0.3, end: 0.55, confidence: 0.97, speaker: 0 },
+  { word: "you", punctuated_word: "you", start: 0.55, end: 0.7, confidence: 0.99, speaker: 0 },
+  { word: "here", punctuated_word: "here?", start: 0.7, end: 1.0, confidence: 0.96, speaker: 0 },
+  { word: "fever", punctuated_word: "Fever", start: 1.4, end: 1.8, confidence: 0.95, speaker: 1 },
+  { word: "since", punctuated_word: "since", start: 1.8, end: 2.0, confidence: 0.94, speaker: 1 },
+  { word: "three", punctuated_word: "three", start: 2.0, end: 2.25, confidence: 0.93, speaker: 1 },
+  { word: "days", punctuated_word: "days.", start: 2.25, end: 2.6, confidence: 0.97, speaker: 1 },
+  { word: "take", punctuated_word: "Take", start: 3.0, end: 3.2, confidence: 0.96, speaker: 0 },
+  { word: "dolo", punctuated_word: "Dolo", start: 3.2, end: 3.5, confidence: 0.81, speaker: 0 },
+  { word: "650", punctuated_word: "650", start: 3.5, end: 3.9, confidence: 0.9, speaker: 0 },
+  { word: "twice", punctuated_word: "twice", start: 3.9, end: 4.2, confidence: 0.95, speaker: 0 },
+  { word: "daily", punctuated_word: "daily.", start: 4.2, end: 4.6, confidence: 0.96, speaker: 0 },
+];
+
+app.post("/v1/listen", (req, res) => {
+  if (!req.headers.authorization?.startsWith("Token ")) {
+    return res.status(401).json({ err_code: "INVALID_AUTH", err_msg: "Missing token" });
+  }
+
+  let bytes = 0;
+  req.on("data", (chunk: Buffer) => {
+    bytes += chunk.length;
+  });
+  req.on("end", () => {
+    console.log(`[mock-deepgram] Received ${bytes} bytes (${req.headers["content-type"]}) query=${JSON.stringify(req.query)}`);
+    res.json({
+      metadata: { request_id: `mock-${Date.now()}`, duration: 4.6, channels: 1 },
+      results: {
+        channels: [
+          {
+            detected_language: "en",
+            alternatives: [
+              {
+                transcript: MOCK_WORDS.map((w) => w.word).join(" "),
+                confidence: 0.94,
+                words: MOCK_WORDS,
+              },
+            ],
+          },
+        ],
+      },
+    });
+  });
+});
+
+const server = app.listen(Number(PORT), "127.0.0.1", () => {
+  console.log(`Mock Deepgram API running on http://localhost:${PORT}`);
+});
+
+// Streaming: one final result per second of audio received, cycling through MOCK_WORDS
+const BYTES_PER_SECOND = 16000 * 2;
+const wss = new WebSocketServer({ server, path: "/v1/listen" });
+
+wss.on("connection", (ws, req) => {
+  if (!req.headers.authorization?.startsWith("Token ")) {
+    ws.close(1008, "Missing token");
+    return;
+  }
+  const keywords = new URL(req.url || "/", "http://localhost").searchParams.getAll("keywords");
+  if (keywords.length) {
+    console.log(`[mock-deepgram] Stream keywords: ${keywords.join(", ")}`);
+  }
+
+  let bytes = 0;
+  let emitted = 0;
+  ws.on("message", (data: any, isBinary: boolean) => {
+    if (!isBinary) {
+      console.log(`[mock-deepgram] Control message: ${data.toString()}`);
+      return;
+    }
+    bytes += data.length;
+    while (bytes >= (emitted + 1) * BYTES_PER_SECOND) {
+      const word = { ...MOCK_WORDS[emitted % MOCK_WORDS.length], start: emitted, end: emitted + 1 };
+      ws.send(JSON.stringify({
+        type: "Results",
+        is_final: true,
+        start: emitted,
+        duration: 1,
+        channel: { alternatives: [{ transcript: word.punctuated_word, confidence: word.confidence, words: [word] }] },
+      }));
+      emitted++;
+    }
+  });
+  ws.on("close", () => console.log(`[mock-deepgram] Stream closed after ${bytes} bytes`));
+});
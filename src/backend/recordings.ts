@@ -0,0 +1,176 @@
+/**
+ * Consultation audio archive
+ * Recordings arrive as numbered Opus/WebM chunks while the consultation runs and
+ * are stored on disk per consultation_id, next to a manifest with the retention deadline.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { RelayUser } from "./auth";
+
+export const RECORDINGS_DIR = path.resolve(process.env.RECORDINGS_DIR || "recordings");
+
+const MANIFEST_FILE = "manifest.json";
+
+export interface RecordingManifest {
+  consultation_id: string;
+  /** Doctor who recorded the consultation; only they (or an admin) can read or delete it */
+  user_id: string | null;
+  clinic_id: string | null;
+  mime_type: string;
+  chunks: number;
+  bytes: number;
+  started_at: string;
+  completed_at: string | null;
+  /** Seconds of audio, reported by the client when the recording completes */
+  duration: number | null;
+  /** Null keeps the recording until it is deleted by hand */
+  expires_at: string | null;
+}
+
+// Consultation ids come from the URL, so only allow characters that are safe in a path
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidRecordingId(consultationId: string): boolean {
+  return ID_PATTERN.test(consultationId);
+}
+
+function recordingDir(consultationId: string): string {
+  if (!isValidRecordingId(consultationId)) {
+    throw new Error(`Invalid consultation id: ${consultationId}`);
+  }
+  return path.join(RECORDINGS_DIR, consultationId);
+}
+
+function chunkFile(index: number): string {
+  return `chunk-${String(index).padStart(6, "0")}.webm`;
+}
+
+async function writeManifest(consultationId: string, manifest: RecordingManifest): Promise<void> {
+  await fs.promises.writeFile(path.join(recordingDir(consultationId), MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+export async function getRecording(consultationId: string): Promise<RecordingManifest | null> {
+  try {
+    const raw = await fs.promises.readFile(path.join(recordingDir(consultationId), MANIFEST_FILE), "utf8");
+    return JSON.parse(raw);
+  } catch (error: any) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Whether the user may upload to, read or delete a recording. Recordings stored
+ * before owners were recorded are left to admins.
+ */
+export function canAccessRecording(manifest: RecordingManifest, user: RelayUser): boolean {
+  return user.isAdmin || (!!manifest.user_id && manifest.user_id === user.userId);
+}
+
+/**
+ * Store one chunk. Chunks may be retried, so writing the same index twice is fine.
+ * The first chunk makes the uploading doctor the recording's owner.
+ */
+export async function saveChunk(
+  consultationId: string,
+  index: number,
+  data: Buffer,
+  mimeType: string,
+  owner: RelayUser
+): Promise<RecordingManifest> {
+  const dir = recordingDir(consultationId);
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const existing = await getRecording(consultationId);
+  if (existing?.completed_at) {
+    throw new Error("Recording already completed");
+  }
+
+  const file = path.join(dir, chunkFile(index));
+  let previousBytes = 0;
+  try {
+    previousBytes = (await fs.promises.stat(file)).size;
+  } catch (e) {}
+  await fs.promises.writeFile(file, data);
+
+  const manifest: RecordingManifest = existing || {
+    consultation_id: consultationId,
+    user_id: owner.userId,
+    clinic_id: owner.clinicId,
+    mime_type: mimeType,
+    chunks: 0,
+    bytes: 0,
+    started_at: new Date().toISOString(),
+    completed_at: null,
+    duration: null,
+    expires_at: null,
+  };
+  manifest.chunks = Math.max(manifest.chunks, index + 1);
+  manifest.bytes += data.length - previousBytes;
+  await writeManifest(consultationId, manifest);
+  return manifest;
+}
+
+export async function completeRecording(
+  consultationId: string,
+  options: { duration?: number; retentionDays?: number }
+): Promise<RecordingManifest | null> {
+  const manifest = await getRecording(consultationId);
+  if (!manifest) return null;
+
+  const now = new Date();
+  manifest.completed_at = now.toISOString();
+  manifest.duration = typeof options.duration === "number" ? options.duration : null;
+  manifest.expires_at =
+    options.retentionDays && options.retentionDays > 0
+      ? new Date(now.getTime() + options.retentionDays * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+  await writeManifest(consultationId, manifest);
+  return manifest;
+}
+
+/**
+ * The chunk files in order. MediaRecorder only writes the WebM header into the
+ * first chunk, so concatenating them gives a playable file.
+ */
+export async function listChunkFiles(consultationId: string): Promise<string[]> {
+  const dir = recordingDir(consultationId);
+  const files = await fs.promises.readdir(dir);
+  return files
+    .filter((file) => file.startsWith("chunk-"))
+    .sort()
+    .map((file) => path.join(dir, file));
+}
+
+export async function deleteRecording(consultationId: string): Promise<boolean> {
+  const dir = recordingDir(consultationId);
+  if (!fs.existsSync(dir)) return false;
+  await fs.promises.rm(dir, { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Delete every recording whose retention period has passed
+ * @returns ids of the deleted recordings
+ */
+export async function purgeExpiredRecordings(now: Date = new Date()): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(RECORDINGS_DIR);
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const purged: string[] = [];
+  for (const consultationId of entries) {
+    if (!isValidRecordingId(consultationId)) continue;
+    const manifest = await getRecording(consultationId);
+    if (manifest?.expires_at && new Date(manifest.expires_at) <= now) {
+      await deleteRecording(consultationId);
+      purged.push(consultationId);
+    }
+  }
+  return purged;
+}
@@ -3,9 +3,124 @@ import cors from "cors";
 import dotenv from "dotenv";
 import { WebSocketServer } from "ws";
 import WebSocket from "ws";
+import { Readable, Transform } from "stream";
+import fs from "fs";
+import type { IncomingMessage } from "http";
+import { AuthError, authenticate, bearerToken, type RelayUser } from "./auth";
+import {
+  QuotaError,
+  closeSession,
+  ensureMinutesLeft,
+  listSessions,
+  openSession,
+  recordAudio,
+  recordClinicAudio,
+  usageByClinic,
+  type RelaySession,
+} from "./sessions";
+import {
+  appendFinal,
+  completeTranscript,
+  createTranscript,
+  getCompletedTranscript,
+  saveToConsultation,
+  type SessionTranscript,
+} from "./transcripts";
+import { groupWordsIntoSegments, type DeepgramWord, type DiarizedSegment } from "./diarization";
+import {
+  canAccessRecording,
+  completeRecording,
+  deleteRecording,
+  getRecording,
+  isValidRecordingId,
+  listChunkFiles,
+  purgeExpiredRecordings,
+  saveChunk,
+} from "./recordings";
+import {
+  ClinicSettingsError,
+  canManageClinic,
+  getAudioRetentionDays,
+  getClinicSettings,
+  updateClinicSettings,
+} from "./clinics";
 
 dotenv.config();
 
+// Base URL for Deepgram calls (REST and streaming); point at a local mock server for testing
+const DEEPGRAM_API_URL = process.env.DEEPGRAM_API_URL || "https://api.deepgram.com";
+// Offline clinics: stream to the on-premise engine (local-stt.ts) instead of Deepgram.
+// It speaks Deepgram's streaming API, so nothing else about a session changes.
+const LOCAL_STT_URL = process.env.LOCAL_STT_URL;
+const STREAMING_API_URL = LOCAL_STT_URL || DEEPGRAM_API_URL;
+const STREAMING_ENGINE = LOCAL_STT_URL ? "on-premise speech engine" : "Deepgram";
+// Same for AssemblyAI token minting
+const ASSEMBLYAI_API_URL = process.env.ASSEMBLYAI_API_URL || "https://api.assemblyai.com";
+// Lifetime of browser streaming tokens. A token only has to last until the
+// WebSocket is open; the session keeps running after it expires.
+const ASSEMBLYAI_TOKEN_TTL_SECONDS = Number(process.env.ASSEMBLYAI_TOKEN_TTL_SECONDS) || 300;
+// Upper bound for pre-recorded uploads (default 200 MB)
+const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_BYTES) || 200 * 1024 * 1024;
+const TRANSCRIBE_TIMEOUT_MS = Number(process.env.TRANSCRIBE_TIMEOUT_MS) || 10 * 60 * 1000;
+
+// Consultation recordings are uploaded in chunks of a few seconds each
+const MAX_RECORDING_CHUNK_BYTES = Number(process.env.MAX_RECORDING_CHUNK_BYTES) || 5 * 1024 * 1024;
+const RECORDING_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const RECORDING_TYPES = ["audio/webm", "audio/ogg", "video/webm"];
+
+// Clients only stream speech. Deepgram closes a stream after ~10 s without data,
+// so the relay sends a KeepAlive when no audio went out for this long.
+const KEEPALIVE_AFTER_MS = 5000;
+const KEEPALIVE_CHECK_MS = 1000;
+// Control messages clients may send as text frames, passed through to Deepgram
+const DEEPGRAM_CONTROL_TYPES = new Set(["KeepAlive", "Finalize"]);
+// linear16 mono at 16 kHz
+const PCM_BYTES_PER_SECOND = 16000 * 2;
+
+// WebSocket close codes sent to the browser (4000-4999 are free for applications)
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_QUOTA_EXCEEDED = 4429;
+const CLOSE_UNSUPPORTED_LANGUAGE = 4422;
+
+// How long a dropped browser connection can come back and continue its session
+const RESUME_WINDOW_MS = Number(process.env.RELAY_RESUME_WINDOW_MS) || 30 * 1000;
+// Final results kept per session for replay on resume
+const MAX_REPLAY_MESSAGES = 200;
+// Audio held while Deepgram is still connecting
+const MAX_PENDING_AUDIO_SECONDS = 30;
+// Acknowledge received audio every this many frames (~1 s at 128 ms frames)
+const ACK_EVERY_FRAMES = 8;
+
+// Medical terms (drug names) the browser asks Deepgram to favour
+const MAX_KEYWORDS = 100;
+const KEYWORD_BOOST = 2;
+const VALID_KEYWORD = /^[\p{L}\p{N}][\p{L}\p{N} .'-]{1,39}$/u;
+
+// Consultation language from the browser: a locale like "hi-IN", or "multi" for
+// code-switching speech (Hinglish), which needs nova-3
+const VALID_LANGUAGE = /^([a-z]{2,3}(-[A-Z]{2})?|multi)$/;
+// Languages of the app Deepgram's nova-2 transcribes. It has no Marathi, Tamil,
+// Bengali or Telugu model, so those are refused up front and the browser fails
+// over to an engine that has them. The on-premise engine is not limited.
+const DEEPGRAM_LANGUAGES = ["en", "hi"];
+
+const SUPPORTED_AUDIO_TYPES = new Set([
+  "audio/wav",
+  "audio/wave",
+  "audio/x-wav",
+  "audio/webm",
+  "video/webm",
+  "audio/mpeg",
+  "audio/mp3",
+  // Phone voice recorders
+  "audio/mp4",
+  "audio/m4a",
+  "audio/x-m4a",
+  "audio/aac",
+  "audio/ogg",
+]);
+
 const app = express();
 app.use(cors());
 app.use(express.json());
@@ -17,10 +132,13 @@ app.get("/health", (req, res) => {
 
 // Endpoint to check if API key is configured
 app.get("/api/deepgram/status", (req, res) => {
-  const hasApiKey = !!process.env.DEEPGRAM_API_KEY;
+  const hasApiKey = !!LOCAL_STT_URL || !!process.env.DEEPGRAM_API_KEY;
   res.json({
     status: hasApiKey ? "configured" : "not-configured",
-    message: hasApiKey ? "Deepgram API is ready" : "Deepgram API key not found"
+    engine: LOCAL_STT_URL ? "local" : "deepgram",
+    // Base language codes the engine streams (null: not limited), plus "multi"
+    languages: LOCAL_STT_URL ? null : DEEPGRAM_LANGUAGES,
+    message: hasApiKey ? `${STREAMING_ENGINE} is ready` : "Deepgram API key not found"
   });
 });
 
@@ -36,153 +154,621 @@ const server = app.listen(Number(PORT), '127.0.0.1', () => {
 const wss = new WebSocketServer({ server });
 
 interface ActiveConnection {
-  clientWs: WebSocket;
+  /** Null while the browser is disconnected and the session waits to be resumed */
+  clientWs: WebSocket | null;
   deepgramWs: WebSocket | null;
-  transcript: string;
+  session: RelaySession;
+  /** Final results so far - the authoritative transcript of the session */
+  transcript: SessionTranscript;
+  /** The doctor's latest session JWT (refreshed by the browser), used to write the transcript to the consultation */
+  accessToken: string | null;
+  /** Sequence number of the last transcript message sent to the browser */
+  seq: number;
+  /** Recent final results, replayed to a browser that resumes the session */
+  finals: { seq: number; payload: any }[];
+  /** Audio frames received from the browser - the browser resends anything after this on resume */
+  audioFrames: number;
+  /** Audio received before Deepgram was ready */
+  pendingAudio: Buffer[];
+  pendingBytes: number;
+  resumeTimer: NodeJS.Timeout | null;
+  keepAliveTimer: NodeJS.Timeout | null;
+  connectedAt: number;
+  lastSentAt: number;
+  audioBytes: number;
+  keepAlives: number;
+  ended: boolean;
 }
 
 const activeConnections = new Map<string, ActiveConnection>();
 
-wss.on("connection", async (clientWs) => {
-  const clientId = Date.now().toString();
-  console.log(`[${clientId}] Client connected`);
+/**
+ * Refuse a relay connection before anything is sent upstream
+ */
+function rejectConnection(clientWs: WebSocket, code: number, message: string): void {
+  clientWs.send(JSON.stringify({ type: "error", code, message }));
+  clientWs.close(code, message.slice(0, 120));
+}
 
-  let deepgramWs: WebSocket | null = null;
+function sendToDeepgram(conn: ActiveConnection, data: any): void {
+  if (conn.deepgramWs && conn.deepgramWs.readyState === WebSocket.OPEN) {
+    conn.deepgramWs.send(data);
+    conn.lastSentAt = Date.now();
+  }
+}
 
-  try {
-    const apiKey = process.env.DEEPGRAM_API_KEY;
-    if (!apiKey) {
-      throw new Error("DEEPGRAM_API_KEY not configured");
+function sendToClient(conn: ActiveConnection, payload: any): void {
+  if (conn.clientWs && conn.clientWs.readyState === WebSocket.OPEN) {
+    conn.clientWs.send(JSON.stringify(payload));
+  }
+}
+
+/**
+ * Send a transcript message with the next sequence number, keeping finals for replay
+ */
+function sendTranscript(conn: ActiveConnection, payload: any): void {
+  const message = { ...payload, seq: ++conn.seq };
+  if (message.isFinal) {
+    conn.finals.push({ seq: message.seq, payload: message });
+    if (conn.finals.length > MAX_REPLAY_MESSAGES) {
+      conn.finals.shift();
     }
+  }
+  sendToClient(conn, message);
+}
 
-    // Direct WebSocket connection to Deepgram API
-    // We send raw linear16 PCM at 16000Hz from the browser, so tell Deepgram the encoding and sample rate.
-    // Do not force a single language so Deepgram can auto-detect mixed Hindi/English (Hinglish).
-    // Let Deepgram auto-detect language (for Hinglish), enable diarization and punctuation
-    const deepgramUrl = `wss://api.deepgram.com/v1/listen?model=nova-2&encoding=linear16&sample_rate=16000&language=auto&diarize=true&punctuate=true&interim_results=true&smart_format=true`;
+/**
+ * Close the session for good: Deepgram, the browser (if attached) and the quota slot
+ */
+function endConnection(conn: ActiveConnection, code: number = 1000, reason: string = "Session ended"): void {
+  if (conn.ended) return;
+  conn.ended = true;
+  const sessionId = conn.session.id;
 
-    console.log(`[${clientId}] Connecting to Deepgram API...`);
-    
-    deepgramWs = new WebSocket(deepgramUrl, {
-      headers: {
-        Authorization: `Token ${apiKey}`,
-      },
-    });
+  if (conn.resumeTimer) clearTimeout(conn.resumeTimer);
+  if (conn.keepAliveTimer) clearInterval(conn.keepAliveTimer);
+  if (conn.deepgramWs && conn.deepgramWs.readyState === WebSocket.OPEN) {
+    conn.deepgramWs.close();
+  }
+  const clientWs = conn.clientWs;
+  conn.clientWs = null;
 
-    let fullTranscript = "";
+  activeConnections.delete(sessionId);
+  closeSession(sessionId);
+  console.log(`[${sessionId}] Session ended: ${reason}`);
 
-    deepgramWs.on("open", () => {
-      console.log(`[${clientId}] Connected to Deepgram API`);
-      clientWs.send(JSON.stringify({
-        type: "connected",
-        clientId,
-        message: "Connected to Deepgram speech-to-text service",
-      }));
+  // The browser, if still attached, hears whether the transcript reached the
+  // consultation before its socket is closed
+  const transcript = completeTranscript(conn.transcript, conn.session.consultationId);
+  saveToConsultation(transcript, conn.accessToken)
+    .then(
+      () => null,
+      (error: Error) => {
+        console.error(`[${sessionId}] Failed to write transcript to consultation:`, error.message);
+        return error.message;
+      }
+    )
+    .then((saveError) => {
+      if (!clientWs || clientWs.readyState !== WebSocket.OPEN) return;
+      clientWs.send(
+        JSON.stringify({
+          type: "session_ended",
+          reason,
+          transcript_saved: !saveError,
+          ...(saveError ? { message: saveError } : {}),
+        })
+      );
+      clientWs.close(code, reason.slice(0, 120));
     });
+}
 
-    deepgramWs.on("message", (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        
-        // Handle transcript events
-        if (message.type === "Results") {
-          const transcript = message.channel?.alternatives?.[0]?.transcript || "";
-          const isFinal = message.is_final === true;
-
-          if (transcript) {
-            if (!isFinal) {
-              fullTranscript += transcript + " ";
-            }
-
-            console.log(`[${clientId}] Transcript: "${transcript}" (final: ${isFinal})`);
-            clientWs.send(JSON.stringify({
-              type: "transcript",
-              text: transcript,
-              isFinal,
-              timestamp: new Date().toISOString(),
-            }));
-          }
-        }
+/**
+ * Take a newer session JWT from the browser. Supabase tokens expire after an
+ * hour, and the transcript is written to the consultation with the latest one.
+ */
+function refreshAccessToken(conn: ActiveConnection, token: unknown): void {
+  if (typeof token !== "string" || !token) return;
+  try {
+    const user = authenticate(token);
+    if (user.userId !== conn.session.userId) {
+      throw new AuthError("Token belongs to another user", 403);
+    }
+    conn.accessToken = token;
+  } catch (error: any) {
+    console.warn(`[${conn.session.id}] Ignoring refreshed session token: ${error.message}`);
+  }
+}
+
+/**
+ * Audio from the browser, forwarded to Deepgram (or held until Deepgram is ready)
+ */
+function forwardAudio(conn: ActiveConnection, audio: any, bytes: number): void {
+  conn.audioFrames++;
+  conn.audioBytes += bytes;
+
+  if (conn.deepgramWs && conn.deepgramWs.readyState === WebSocket.OPEN) {
+    sendToDeepgram(conn, audio);
+  } else if (conn.pendingBytes + bytes <= MAX_PENDING_AUDIO_SECONDS * PCM_BYTES_PER_SECOND) {
+    conn.pendingAudio.push(audio);
+    conn.pendingBytes += bytes;
+  }
+
+  if (conn.audioFrames % ACK_EVERY_FRAMES === 0) {
+    sendToClient(conn, { type: "ack", audio_seq: conn.audioFrames });
+  }
+
+  if (!recordAudio(conn.session, bytes / PCM_BYTES_PER_SECOND)) {
+    console.warn(`[${conn.session.id}] Clinic ${conn.session.clinicId} reached its daily minutes`);
+    sendToClient(conn, { type: "error", code: CLOSE_QUOTA_EXCEEDED, message: "Your clinic has used today's live transcription minutes" });
+    endConnection(conn, CLOSE_QUOTA_EXCEEDED, "Daily minutes used up");
+  }
+}
+
+/**
+ * Route a browser socket's messages into the session
+ */
+function attachClient(conn: ActiveConnection, clientWs: WebSocket): void {
+  const sessionId = conn.session.id;
+  conn.clientWs = clientWs;
+  if (conn.resumeTimer) {
+    clearTimeout(conn.resumeTimer);
+    conn.resumeTimer = null;
+  }
+
+  // Handle incoming audio data from client
+  clientWs.on("message", (message: any, isBinary: boolean) => {
+    if (conn.clientWs !== clientWs || conn.ended) return;
 
-        // Handle metadata
-        if (message.type === "Metadata") {
-          console.log(`[${clientId}] Metadata received`);
+    if (!isBinary) {
+      let data: any;
+      try {
+        data = JSON.parse(message.toString());
+      } catch (e) {
+        console.warn(`[${sessionId}] Ignoring malformed text message`);
+        return;
+      }
+      if (DEEPGRAM_CONTROL_TYPES.has(data.type)) {
+        // Must reach Deepgram as a text frame, binary frames are treated as audio
+        sendToDeepgram(conn, JSON.stringify({ type: data.type }));
+      } else if (data.type === "attach") {
+        // The consultation is often created after transcription has started
+        if (typeof data.consultation_id === "string" && isValidRecordingId(data.consultation_id)) {
+          conn.session.consultationId = data.consultation_id;
+          console.log(`[${sessionId}] Attached to consultation ${conn.session.consultationId}`);
         }
-      } catch (error) {
-        console.error(`[${clientId}] Error parsing message:`, error);
+      } else if (data.type === "auth") {
+        refreshAccessToken(conn, data.access_token);
+      } else if (data.type === "finish") {
+        // Unlike closing the socket, the browser stays to hear whether the transcript was saved
+        refreshAccessToken(conn, data.access_token);
+        endConnection(conn, 1000, "Client finished");
+      } else if (data.type === "audio" && data.audio) {
+        // Send the audio buffer
+        forwardAudio(conn, data.audio, data.audio.length);
       }
-    });
+    } else {
+      // Binary audio data - send directly to Deepgram
+      forwardAudio(conn, message, message.length);
+    }
+  });
 
-    deepgramWs.on("error", (error) => {
-      console.error(`[${clientId}] Deepgram API error:`, error);
-      clientWs.send(JSON.stringify({
-        type: "error",
-        message: `Deepgram API error: ${error.message}`,
-      }));
-    });
+  // A clean close ends the session; anything else may be a network drop,
+  // so keep Deepgram open for a while in case the browser comes back
+  clientWs.on("close", (code: number) => {
+    if (conn.clientWs !== clientWs || conn.ended) return;
+    conn.clientWs = null;
 
-    deepgramWs.on("close", () => {
-      console.log(`[${clientId}] Deepgram connection closed`);
-    });
+    if (code === 1000) {
+      endConnection(conn, 1000, "Client finished");
+      return;
+    }
+    console.log(`[${sessionId}] Client disconnected (code ${code}), holding session for ${RESUME_WINDOW_MS / 1000}s`);
+    conn.resumeTimer = setTimeout(() => endConnection(conn, 1000, "Not resumed in time"), RESUME_WINDOW_MS);
+  });
+
+  clientWs.on("error", (error) => {
+    console.error(`[${sessionId}] Client WebSocket error:`, error);
+  });
+}
+
+/**
+ * Take a browser back into its session and send what it missed
+ */
+function resumeConnection(conn: ActiveConnection, clientWs: WebSocket, lastSeq: number): void {
+  const sessionId = conn.session.id;
+  // The old socket may not have noticed the drop yet
+  const previous = conn.clientWs;
+  if (previous && previous !== clientWs) {
+    conn.clientWs = null;
+    previous.terminate();
+  }
+
+  attachClient(conn, clientWs);
+  const missed = conn.finals.filter((entry) => entry.seq > lastSeq);
+  console.log(`[${sessionId}] Client resumed at seq ${lastSeq}, replaying ${missed.length} final results`);
 
-    // Store active connection
-    activeConnections.set(clientId, {
-      clientWs,
-      deepgramWs,
-      transcript: fullTranscript,
+  sendToClient(conn, {
+    type: "resumed",
+    sessionId,
+    audio_seq: conn.audioFrames,
+    seq: conn.seq,
+    message: "Resumed speech-to-text session",
+  });
+  missed.forEach((entry) => sendToClient(conn, entry.payload));
+}
+
+/**
+ * Parse the comma-separated `keywords` query parameter, dropping anything that
+ * does not look like a term
+ */
+function parseKeywords(raw: unknown): string[] {
+  if (typeof raw !== "string" || !raw) return [];
+  const keywords = raw
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => VALID_KEYWORD.test(keyword));
+  return Array.from(new Set(keywords)).slice(0, MAX_KEYWORDS);
+}
+
+function addKeywords(params: URLSearchParams, keywords: string[]): void {
+  keywords.forEach((keyword) => params.append("keywords", `${keyword}:${KEYWORD_BOOST}`));
+}
+
+interface DeepgramLanguage {
+  model: string;
+  language: string;
+}
+
+/**
+ * Deepgram model and language code for the browser's language parameter.
+ * Deepgram names English variants in full ("en-IN") and other languages by
+ * their bare code ("hi").
+ * @returns null for a language Deepgram cannot transcribe
+ */
+function deepgramLanguage(raw: string | null): DeepgramLanguage | null {
+  if (!raw || !VALID_LANGUAGE.test(raw)) {
+    return { model: "nova-2", language: "auto" };
+  }
+  if (raw === "multi") {
+    return { model: "nova-3", language: "multi" };
+  }
+  const code = raw.split("-")[0];
+  if (!LOCAL_STT_URL && !DEEPGRAM_LANGUAGES.includes(code)) {
+    return null;
+  }
+  return { model: "nova-2", language: code === "en" ? raw : code };
+}
+
+function openDeepgram(conn: ActiveConnection, apiKey: string, keywords: string[], { model, language }: DeepgramLanguage): void {
+  const sessionId = conn.session.id;
+
+  // Direct WebSocket connection to Deepgram API
+  // We send raw linear16 PCM at 16000Hz from the browser, so tell Deepgram the encoding and sample rate.
+  // Enable diarization and punctuation
+  const params = new URLSearchParams(
+    "encoding=linear16&sample_rate=16000&diarize=true&punctuate=true&interim_results=true&smart_format=true"
+  );
+  params.set("model", model);
+  params.set("language", language);
+  addKeywords(params, keywords);
+  const deepgramUrl = `${STREAMING_API_URL.replace(/^http/, "ws")}/v1/listen?${params.toString()}`;
+
+  console.log(
+    `[${sessionId}] Connecting to ${STREAMING_ENGINE} (${model}, language ${language}` +
+      `${keywords.length ? `, boosting ${keywords.length} keywords` : ""})...`
+  );
+  
+  const deepgramWs = new WebSocket(deepgramUrl, {
+    headers: {
+      Authorization: `Token ${apiKey}`,
+    },
+  });
+  conn.deepgramWs = deepgramWs;
+
+  conn.keepAliveTimer = setInterval(() => {
+    if (Date.now() - conn.lastSentAt >= KEEPALIVE_AFTER_MS) {
+      sendToDeepgram(conn, JSON.stringify({ type: "KeepAlive" }));
+      conn.keepAlives++;
+    }
+  }, KEEPALIVE_CHECK_MS);
+
+  deepgramWs.on("open", () => {
+    console.log(`[${sessionId}] Connected to ${STREAMING_ENGINE}`);
+    // Audio that arrived while connecting goes out first
+    conn.pendingAudio.forEach((audio) => sendToDeepgram(conn, audio));
+    conn.pendingAudio = [];
+    conn.pendingBytes = 0;
+
+    sendToClient(conn, {
+      type: "connected",
+      sessionId,
+      message: `Connected to ${LOCAL_STT_URL ? "on-premise" : "Deepgram"} speech-to-text service`,
     });
+  });
 
-    // Handle incoming audio data from client
-    clientWs.on("message", (message) => {
-      if (deepgramWs && deepgramWs.readyState === WebSocket.OPEN) {
-        if (typeof message === "string") {
-          const data = JSON.parse(message);
-          if (data.type === "audio" && data.audio) {
-            // Send the audio buffer
-            deepgramWs.send(data.audio);
+  deepgramWs.on("message", (data) => {
+    try {
+      const message = JSON.parse(data.toString());
+      
+      // Handle transcript events
+      if (message.type === "Results") {
+        const alternative = message.channel?.alternatives?.[0];
+        const transcript = alternative?.transcript || "";
+        const isFinal = message.is_final === true;
+        const words: DeepgramWord[] = alternative?.words || [];
+        // Final results are split into speaker turns; interim ones change too often to bother
+        const segments: DiarizedSegment[] = isFinal ? groupWordsIntoSegments(words) : [];
+
+        if (transcript) {
+          if (isFinal) {
+            appendFinal(conn.transcript, transcript, segments);
           }
-        } else {
-          // Binary audio data - send directly to Deepgram
-          deepgramWs.send(message);
+
+          console.log(`[${sessionId}] Transcript: "${transcript}" (final: ${isFinal})`);
+          sendTranscript(conn, {
+            type: "transcript",
+            text: transcript,
+            isFinal,
+            speaker: words[0]?.speaker,
+            segments,
+            start: message.start,
+            end: typeof message.start === "number" ? message.start + (message.duration || 0) : undefined,
+            confidence: alternative?.confidence,
+            language: alternative?.languages?.[0] || message.channel?.detected_language,
+            timestamp: new Date().toISOString(),
+          });
         }
       }
-    });
 
-    // Handle client disconnect
-    clientWs.on("close", () => {
-      console.log(`[${clientId}] Client disconnected`);
-      if (deepgramWs && deepgramWs.readyState === WebSocket.OPEN) {
-        deepgramWs.close();
+      // Handle metadata
+      if (message.type === "Metadata") {
+        console.log(`[${sessionId}] Metadata received`);
       }
-      activeConnections.delete(clientId);
-    });
+    } catch (error) {
+      console.error(`[${sessionId}] Error parsing message:`, error);
+    }
+  });
 
-    clientWs.on("error", (error) => {
-      console.error(`[${clientId}] Client WebSocket error:`, error);
-      if (deepgramWs && deepgramWs.readyState === WebSocket.OPEN) {
-        deepgramWs.close();
-      }
+  deepgramWs.on("error", (error) => {
+    console.error(`[${sessionId}] ${STREAMING_ENGINE} error:`, error);
+    sendToClient(conn, {
+      type: "error",
+      message: `${STREAMING_ENGINE} error: ${error.message}`,
     });
+  });
+
+  deepgramWs.on("close", () => {
+    const connectedSeconds = (Date.now() - conn.connectedAt) / 1000;
+    console.log(
+      `[${sessionId}] ${STREAMING_ENGINE} connection closed - streamed ${(conn.audioBytes / PCM_BYTES_PER_SECOND).toFixed(1)}s of audio ` +
+        `in ${connectedSeconds.toFixed(1)}s (${conn.keepAlives} keep-alives)`
+    );
+    // Without Deepgram the session is useless; the browser reconnects into a new one
+    endConnection(conn, 1011, `${STREAMING_ENGINE} connection closed`);
+  });
+}
+
+// Browsers cannot set headers on a WebSocket, so the session JWT and the
+// consultation come as query parameters: ?access_token=...&consultation_id=...
+// A browser reconnecting after a drop adds &resume_session=<id>&last_seq=<n>
+// Terms to boost come as &keywords=Dolo,Glycomet,... and the language as &language=hi-IN (or multi)
+// While streaming the browser sends {type:"auth",access_token} as its session is
+// refreshed, and ends with {type:"finish"} to hear whether the transcript was saved
+wss.on("connection", async (clientWs, req: IncomingMessage) => {
+  const params = new URL(req.url || "/", "http://localhost").searchParams;
+
+  let user: RelayUser;
+  let consultationId: string | null;
+  try {
+    user = authenticate(params.get("access_token"));
+    consultationId = params.get("consultation_id");
+    if (consultationId && !isValidRecordingId(consultationId)) {
+      throw new AuthError("Invalid consultation_id", 400);
+    }
+  } catch (error: any) {
+    console.warn(`Rejected relay connection: ${error.message}`);
+    rejectConnection(clientWs, CLOSE_UNAUTHORIZED, error.message);
+    return;
+  }
+
+  const resumeId = params.get("resume_session");
+  if (resumeId) {
+    const existing = activeConnections.get(resumeId);
+    // Only the doctor who started a session may pick it up again
+    if (existing && !existing.ended && existing.session.userId === user.userId) {
+      existing.accessToken = params.get("access_token") || existing.accessToken;
+      resumeConnection(existing, clientWs, Number(params.get("last_seq")) || 0);
+      return;
+    }
+    console.log(`Session ${resumeId} cannot be resumed, starting a new one`);
+  }
+
+  const streamLanguage = deepgramLanguage(params.get("language"));
+  if (!streamLanguage) {
+    const message = `${STREAMING_ENGINE} does not transcribe ${params.get("language")}`;
+    console.warn(`Rejected relay connection: ${message}`);
+    rejectConnection(clientWs, CLOSE_UNSUPPORTED_LANGUAGE, message);
+    return;
+  }
+
+  let session: RelaySession;
+  try {
+    session = openSession(user, consultationId);
   } catch (error: any) {
-    console.error(`[${clientId}] Connection error:`, error.message);
-    clientWs.send(JSON.stringify({
+    const code = error instanceof QuotaError ? CLOSE_QUOTA_EXCEEDED : CLOSE_UNAUTHORIZED;
+    console.warn(`Rejected relay connection: ${error.message}`);
+    rejectConnection(clientWs, code, error.message);
+    return;
+  }
+
+  const sessionId = session.id;
+  console.log(`[${sessionId}] Client connected (user ${session.userId}, clinic ${session.clinicId}, consultation ${session.consultationId || "pending"})`);
+
+  const conn: ActiveConnection = {
+    clientWs: null,
+    deepgramWs: null,
+    session,
+    transcript: createTranscript(session),
+    accessToken: params.get("access_token"),
+    seq: 0,
+    finals: [],
+    audioFrames: 0,
+    pendingAudio: [],
+    pendingBytes: 0,
+    resumeTimer: null,
+    keepAliveTimer: null,
+    connectedAt: Date.now(),
+    lastSentAt: Date.now(),
+    audioBytes: 0,
+    keepAlives: 0,
+    ended: false,
+  };
+  activeConnections.set(sessionId, conn);
+  attachClient(conn, clientWs);
+
+  try {
+    // The on-premise engine takes no key
+    const apiKey = LOCAL_STT_URL ? "local" : process.env.DEEPGRAM_API_KEY;
+    if (!apiKey) {
+      throw new Error("DEEPGRAM_API_KEY not configured");
+    }
+    openDeepgram(conn, apiKey, parseKeywords(params.get("keywords")), streamLanguage);
+  } catch (error: any) {
+    console.error(`[${sessionId}] Connection error:`, error.message);
+    sendToClient(conn, {
       type: "error",
       message: error.message || "Failed to connect to Deepgram",
-    }));
-    clientWs.close();
+    });
+    endConnection(conn, 1011, error.message || "Failed to connect to Deepgram");
   }
 });
 
-// Endpoint to get active connections (for debugging)
+/**
+ * The signed-in doctor making an HTTP request (Authorization: Bearer <session JWT>).
+ * Answers the request with 401 and returns null when there is none.
+ */
+function authenticateRequest(req: express.Request, res: express.Response): RelayUser | null {
+  try {
+    return authenticate(bearerToken(req.headers.authorization));
+  } catch (error) {
+    const status = error instanceof AuthError ? error.status : 500;
+    res.status(status).json({ error: error instanceof Error ? error.message : "Authentication failed" });
+    return null;
+  }
+}
+
+/**
+ * Refuse work once the user's clinic has used today's audio minutes.
+ * Answers the request with 429 and returns false when there are none left.
+ */
+function checkMinutesLeft(user: RelayUser, res: express.Response, seconds: number = 0): boolean {
+  try {
+    ensureMinutesLeft(user, seconds);
+    return true;
+  } catch (error) {
+    if (!(error instanceof QuotaError)) throw error;
+    res.status(429).json({ error: error.message });
+    return false;
+  }
+}
+
+// Live sessions and usage per clinic (admins only)
 app.get("/api/connections", (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+  if (!user.isAdmin) {
+    return res.status(403).json({ error: "Admin access required" });
+  }
+
   res.json({
     activeConnections: activeConnections.size,
-    clients: Array.from(activeConnections.keys()),
+    sessions: listSessions().map((session) => ({
+      id: session.id,
+      user_id: session.userId,
+      clinic_id: session.clinicId,
+      consultation_id: session.consultationId,
+      started_at: session.startedAt,
+      audio_minutes: Math.round((session.audioSeconds / 60) * 10) / 10,
+    })),
+    clinics: usageByClinic(),
   });
 });
 
+// Authoritative transcript of a live or recently finished session (its doctor or an admin)
+app.get("/api/sessions/:id/transcript", (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+
+  const live = activeConnections.get(req.params.id);
+  const transcript: SessionTranscript | null = live
+    ? { ...live.transcript, consultation_id: live.session.consultationId }
+    : getCompletedTranscript(req.params.id);
+  if (!transcript) {
+    return res.status(404).json({ error: "Session not found" });
+  }
+  if (transcript.user_id !== user.userId && !user.isAdmin) {
+    return res.status(403).json({ error: "Not your session" });
+  }
+
+  res.json({ transcript, live: !!live });
+});
+
+// Settings shared by the user's clinic (the tenant its minutes are counted against)
+app.get("/api/clinic/settings", async (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+
+  try {
+    const settings = await getClinicSettings(user.clinicId);
+    res.json({
+      clinic_id: user.clinicId,
+      service_providers: settings?.service_providers || {},
+      audio_retention_days: await getAudioRetentionDays(user.clinicId),
+      updated_at: settings?.updated_at || null,
+      can_manage: canManageClinic(user),
+    });
+  } catch (error: any) {
+    console.error("[Clinic settings] Read failed:", error);
+    res.status(500).json({ error: error.message || "Failed to read clinic settings" });
+  }
+});
+
+app.put("/api/clinic/settings", async (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+
+  try {
+    const settings = await updateClinicSettings(user, {
+      service_providers: req.body?.service_providers,
+      audio_retention_days: req.body?.audio_retention_days,
+    });
+    console.log(`[Clinic settings] ${user.clinicId} settings changed by ${user.userId}:`, settings.service_providers);
+    res.json({
+      clinic_id: settings.clinic_id,
+      service_providers: settings.service_providers,
+      audio_retention_days: await getAudioRetentionDays(user.clinicId),
+      updated_at: settings.updated_at,
+      can_manage: true,
+    });
+  } catch (error: any) {
+    if (error instanceof ClinicSettingsError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("[Clinic settings] Update failed:", error);
+    res.status(500).json({ error: error.message || "Failed to update clinic settings" });
+  }
+});
+
 // Endpoint to mint ephemeral Deepgram token for direct browser-to-Deepgram streaming
+// Lifetime of a direct-streaming token. The relay never sees that audio, so the
+// whole lifetime is charged to the clinic's minutes when the token is minted.
+const DIRECT_TOKEN_SECONDS = 600;
+
 app.post("/api/deepgram/token", async (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+  if (!checkMinutesLeft(user, res, DIRECT_TOKEN_SECONDS)) return;
+
   try {
     const apiKey = process.env.DEEPGRAM_API_KEY;
     if (!apiKey) {
@@ -190,7 +776,7 @@ app.post("/api/deepgram/token", async (req, res) => {
     }
 
     // Call Deepgram API to get an ephemeral token (valid for ~10 minutes)
-    const response = await fetch("https://api.deepgram.com/v1/tokens", {
+    const response = await fetch(`${DEEPGRAM_API_URL}/v1/tokens`, {
       method: "POST",
       headers: {
         Authorization: `Token ${apiKey}`,
@@ -198,7 +784,7 @@ app.post("/api/deepgram/token", async (req, res) => {
       },
       body: JSON.stringify({
         scopes: ["listen"],
-        expires_in: 600, // 10 minutes
+        expires_in: DIRECT_TOKEN_SECONDS,
       }),
     });
 
@@ -209,6 +795,7 @@ app.post("/api/deepgram/token", async (req, res) => {
     }
 
     const data: any = await response.json();
+    recordClinicAudio(user.clinicId, DIRECT_TOKEN_SECONDS);
     res.json({ token: data.token });
   } catch (error: any) {
     console.error("[Deepgram token] Error:", error);
@@ -216,9 +803,300 @@ app.post("/api/deepgram/token", async (req, res) => {
   }
 });
 
-// Endpoint to mint ephemeral AssemblyAI token for direct browser-to-AssemblyAI streaming
-// Endpoint to validate and return AssemblyAI API key for direct browser connection
+// Endpoint for pre-recorded audio (WAV/WebM/MP3/M4A/OGG) batch transcription.
+// The upload is streamed straight through to Deepgram without buffering it in memory.
+app.post("/api/deepgram/transcribe", async (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+  if (!checkMinutesLeft(user, res)) return;
+
+  const apiKey = process.env.DEEPGRAM_API_KEY;
+  if (!apiKey) {
+    return res.status(500).json({ error: "Deepgram API key not configured" });
+  }
+
+  const contentType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+  if (!SUPPORTED_AUDIO_TYPES.has(contentType)) {
+    return res.status(415).json({
+      error: `Unsupported audio type: ${contentType || "unknown"}. Upload WAV, WebM, MP3, M4A or OGG.`,
+    });
+  }
+
+  const declaredLength = Number(req.headers["content-length"] || 0);
+  if (declaredLength > MAX_UPLOAD_BYTES) {
+    return res.status(413).json({ error: `Audio file exceeds ${MAX_UPLOAD_BYTES} bytes` });
+  }
+
+  const requestedLanguage = typeof req.query.language === "string" ? req.query.language : null;
+  const uploadLanguage = deepgramLanguage(requestedLanguage);
+  if (!uploadLanguage) {
+    return res.status(422).json({ error: `Deepgram does not transcribe ${requestedLanguage}` });
+  }
+
+  // Count bytes as they stream through so chunked uploads are limited too
+  let receivedBytes = 0;
+  let tooLarge = false;
+  const limiter = new Transform({
+    transform(chunk, _encoding, callback) {
+      receivedBytes += chunk.length;
+      if (receivedBytes > MAX_UPLOAD_BYTES) {
+        tooLarge = true;
+        callback(new Error("Upload too large"));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+  req.pipe(limiter);
+
+  const params = new URLSearchParams({
+    diarize: "true",
+    punctuate: "true",
+    smart_format: "true",
+    utterances: "true",
+  });
+  // Same language handling as live sessions; without one, Deepgram detects it
+  const { model, language } = uploadLanguage;
+  params.set("model", model);
+  if (language !== "auto") {
+    params.set("language", language);
+  } else {
+    params.set("detect_language", "true");
+  }
+  addKeywords(params, parseKeywords(req.query.keywords));
+
+  console.log(`[Deepgram transcribe] Streaming ${contentType} upload (${declaredLength || "unknown"} bytes)`);
+
+  try {
+    // fetch needs duplex "half" to send a streamed body; the DOM RequestInit type lacks it
+    const init: RequestInit & { duplex: "half" } = {
+      method: "POST",
+      headers: {
+        Authorization: `Token ${apiKey}`,
+        "Content-Type": contentType,
+      },
+      // Node's stream/web ReadableStream is declared apart from the DOM one fetch takes
+      body: Readable.toWeb(limiter) as unknown as ReadableStream,
+      duplex: "half",
+      signal: AbortSignal.timeout(TRANSCRIBE_TIMEOUT_MS),
+    };
+    const response = await fetch(`${DEEPGRAM_API_URL}/v1/listen?${params.toString()}`, init);
+
+    if (!response.ok) {
+      const err = await response.text();
+      console.error("[Deepgram transcribe] Failed:", response.status, err);
+      return res.status(502).json({ error: "Deepgram transcription failed", status: response.status });
+    }
+
+    const data: any = await response.json();
+    const channel = data.results?.channels?.[0];
+    const alternative = channel?.alternatives?.[0];
+
+    // Prefer Deepgram's utterances; fall back to grouping diarized words ourselves
+    let segments: DiarizedSegment[];
+    if (Array.isArray(data.results?.utterances) && data.results.utterances.length > 0) {
+      segments = data.results.utterances.map((u: any) => ({
+        speaker: u.speaker ?? 0,
+        text: u.transcript || "",
+        start: u.start,
+        end: u.end,
+        confidence: u.confidence,
+      }));
+    } else {
+      segments = groupWordsIntoSegments(alternative?.words || []);
+    }
+
+    // The length of the recording is only known once Deepgram has processed it
+    if (typeof data.metadata?.duration === "number") {
+      recordClinicAudio(user.clinicId, data.metadata.duration);
+    }
+
+    res.json({
+      transcript: alternative?.transcript || "",
+      confidence: alternative?.confidence ?? null,
+      language: channel?.detected_language || (language !== "auto" ? language : null),
+      duration: data.metadata?.duration ?? null,
+      segments,
+    });
+  } catch (error: any) {
+    if (tooLarge) {
+      return res.status(413).json({ error: `Audio file exceeds ${MAX_UPLOAD_BYTES} bytes` });
+    }
+    console.error("[Deepgram transcribe] Error:", error);
+    res.status(500).json({ error: error.message || "Transcription failed" });
+  }
+});
+
+// =========================================
+// CONSULTATION RECORDINGS
+// =========================================
+
+// Upload one chunk of a consented consultation recording
+app.put(
+  "/api/recordings/:consultationId/chunks/:index",
+  express.raw({ type: RECORDING_TYPES, limit: MAX_RECORDING_CHUNK_BYTES }),
+  async (req, res) => {
+    const user = authenticateRequest(req, res);
+    if (!user) return;
+
+    const { consultationId } = req.params;
+    const index = Number(req.params.index);
+    if (!isValidRecordingId(consultationId) || !Number.isInteger(index) || index < 0) {
+      return res.status(400).json({ error: "Invalid consultation id or chunk index" });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(415).json({ error: `Upload audio as ${RECORDING_TYPES.join(", ")}` });
+    }
+
+    try {
+      const existing = await getRecording(consultationId);
+      if (existing && !canAccessRecording(existing, user)) {
+        return res.status(403).json({ error: "Not your recording" });
+      }
+      if ((await getAudioRetentionDays(existing?.clinic_id || user.clinicId)) === 0) {
+        return res.status(403).json({ error: "Audio recording is turned off for this clinic" });
+      }
+      const mimeType = (req.headers["content-type"] || "audio/webm").split(";")[0].trim();
+      const manifest = await saveChunk(consultationId, index, req.body, mimeType, user);
+      res.json({ chunks: manifest.chunks, bytes: manifest.bytes });
+    } catch (error: any) {
+      console.error("[Recordings] Chunk upload failed:", error);
+      res.status(500).json({ error: error.message || "Chunk upload failed" });
+    }
+  }
+);
+
+// Mark a recording complete and start its retention period
+app.post("/api/recordings/:consultationId/complete", async (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+
+  const { consultationId } = req.params;
+  if (!isValidRecordingId(consultationId)) {
+    return res.status(400).json({ error: "Invalid consultation id" });
+  }
+
+  try {
+    const existing = await getRecording(consultationId);
+    if (!existing) {
+      return res.status(404).json({ error: "Recording not found" });
+    }
+    if (!canAccessRecording(existing, user)) {
+      return res.status(403).json({ error: "Not your recording" });
+    }
+    // The clinic the recording was made in decides how long it is kept
+    const retentionDays = await getAudioRetentionDays(existing.clinic_id || user.clinicId);
+    if (retentionDays === 0) {
+      await deleteRecording(consultationId);
+      return res.status(403).json({ error: "Audio recording is turned off for this clinic" });
+    }
+    const manifest = await completeRecording(consultationId, {
+      duration: req.body?.duration,
+      retentionDays,
+    });
+    if (!manifest) {
+      return res.status(404).json({ error: "Recording not found" });
+    }
+    console.log(`[Recordings] ${consultationId} complete: ${manifest.chunks} chunks, ${manifest.bytes} bytes`);
+    res.json({ recording: manifest });
+  } catch (error: any) {
+    console.error("[Recordings] Complete failed:", error);
+    res.status(500).json({ error: error.message || "Failed to complete recording" });
+  }
+});
+
+// Stream the whole recording (chunks concatenated in order)
+app.get("/api/recordings/:consultationId", async (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+
+  const { consultationId } = req.params;
+  if (!isValidRecordingId(consultationId)) {
+    return res.status(400).json({ error: "Invalid consultation id" });
+  }
+
+  try {
+    const manifest = await getRecording(consultationId);
+    if (!manifest) {
+      return res.status(404).json({ error: "Recording not found" });
+    }
+    if (!canAccessRecording(manifest, user)) {
+      return res.status(403).json({ error: "Not your recording" });
+    }
+
+    res.setHeader("Content-Type", manifest.mime_type);
+    res.setHeader("Content-Length", String(manifest.bytes));
+    for (const file of await listChunkFiles(consultationId)) {
+      await new Promise<void>((resolve, reject) => {
+        const stream = fs.createReadStream(file);
+        stream.on("error", reject);
+        stream.on("end", () => resolve());
+        stream.pipe(res, { end: false });
+      });
+    }
+    res.end();
+  } catch (error: any) {
+    console.error("[Recordings] Playback failed:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: error.message || "Failed to read recording" });
+    } else {
+      res.destroy(error);
+    }
+  }
+});
+
+app.delete("/api/recordings/:consultationId", async (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+
+  const { consultationId } = req.params;
+  if (!isValidRecordingId(consultationId)) {
+    return res.status(400).json({ error: "Invalid consultation id" });
+  }
+
+  try {
+    const manifest = await getRecording(consultationId);
+    if (!manifest) {
+      return res.status(404).json({ deleted: false });
+    }
+    if (!canAccessRecording(manifest, user)) {
+      return res.status(403).json({ error: "Not your recording" });
+    }
+    const deleted = await deleteRecording(consultationId);
+    res.status(deleted ? 200 : 404).json({ deleted });
+  } catch (error: any) {
+    console.error("[Recordings] Delete failed:", error);
+    res.status(500).json({ error: error.message || "Failed to delete recording" });
+  }
+});
+
+// Enforce clinic retention periods
+const purgeRecordings = () => {
+  purgeExpiredRecordings()
+    .then((purged) => {
+      if (purged.length) console.log(`[Recordings] Purged ${purged.length} expired recording(s)`);
+    })
+    .catch((error) => console.error("[Recordings] Purge failed:", error));
+};
+purgeRecordings();
+setInterval(purgeRecordings, RECORDING_PURGE_INTERVAL_MS).unref();
+
+app.get("/api/assemblyai/status", (_req, res) => {
+  const hasApiKey = !!process.env.ASSEMBLYAI_API_KEY;
+  res.json({
+    status: hasApiKey ? "configured" : "not-configured",
+    message: hasApiKey ? "AssemblyAI is ready" : "AssemblyAI API key not found"
+  });
+});
+
+// Endpoint to mint ephemeral AssemblyAI token for direct browser-to-AssemblyAI streaming.
+// Signed-in doctors only; the stream itself bypasses the relay, so the clinic's
+// minutes can only be checked when the token is requested.
 app.post("/api/assemblyai/token", async (req, res) => {
+  const user = authenticateRequest(req, res);
+  if (!user) return;
+  if (!checkMinutesLeft(user, res)) return;
+
   try {
     const apiKey = process.env.ASSEMBLYAI_API_KEY;
     if (!apiKey) {
@@ -226,33 +1104,44 @@ app.post("/api/assemblyai/token", async (req, res) => {
       return res.status(500).json({ error: "AssemblyAI API key not configured" });
     }
 
-    console.log("[AssemblyAI token] Validating AssemblyAI API key...");
+    console.log("[AssemblyAI token] Requesting temporary streaming token...");
 
-    // Verify the API key by calling AssemblyAI API
-    const response = await fetch("https://api.assemblyai.com/v1/account", {
-      method: "GET",
+    // The API key stays on the server; the browser only ever sees a short-lived
+    // token that can open a realtime session and nothing else
+    const response = await fetch(`${ASSEMBLYAI_API_URL}/v2/realtime/token`, {
+      method: "POST",
       headers: {
         "Authorization": apiKey,
+        "Content-Type": "application/json",
       },
+      body: JSON.stringify({ expires_in: ASSEMBLYAI_TOKEN_TTL_SECONDS }),
     });
 
     if (!response.ok) {
       const err = await response.text();
-      console.error("[AssemblyAI token] Validation failed:", response.status, err);
-      return res.status(500).json({ 
-        error: "AssemblyAI API key invalid or expired", 
+      console.error("[AssemblyAI token] Token request failed:", response.status, err);
+      return res.status(502).json({
+        error: response.status === 401 ? "AssemblyAI API key invalid or expired" : "Failed to create AssemblyAI token",
         status: response.status
       });
     }
 
-    console.log("[AssemblyAI token] API key validated successfully");
-    // Return a success response with connection info
-    res.json({ 
-      token: apiKey,  // Return the API key for the frontend to use
-      ready: true 
+    const data = await response.json();
+    if (!data.token || data.token === apiKey) {
+      console.error("[AssemblyAI token] No temporary token in response");
+      return res.status(502).json({ error: "Failed to create AssemblyAI token" });
+    }
+
+    console.log("[AssemblyAI token] Temporary token issued");
+    res.json({
+      token: data.token,
+      expires_in: ASSEMBLYAI_TOKEN_TTL_SECONDS,
+      ready: true
     });
   } catch (error: any) {
     console.error("[AssemblyAI token] Exception:", error.message);
     res.status(500).json({ error: error.message || "Validation failed" });
   }
 });
+
+export { app, server };
@@ -0,0 +1,155 @@
+/**
+ * Relay sessions and per-clinic quotas
+ * Every live transcription connection is a session owned by a doctor and
+ * counted against their clinic: a cap on concurrent sessions and on minutes of
+ * audio streamed per UTC day. Uploaded recordings and direct-streaming tokens
+ * count against the same daily minutes. Usage is kept in memory and resets on
+ * restart.
+ */
+
+import crypto from "crypto";
+import type { RelayUser } from "./auth";
+
+// 0 disables a limit
+const MAX_CONCURRENT_SESSIONS = Number(process.env.CLINIC_MAX_CONCURRENT_SESSIONS ?? 5);
+const DAILY_AUDIO_MINUTES = Number(process.env.CLINIC_DAILY_AUDIO_MINUTES ?? 600);
+
+export interface RelaySession {
+  id: string;
+  userId: string;
+  clinicId: string;
+  consultationId: string | null;
+  startedAt: string;
+  /** Seconds of audio this session has streamed to the STT provider */
+  audioSeconds: number;
+}
+
+export interface ClinicUsage {
+  clinic_id: string;
+  active_sessions: number;
+  max_concurrent_sessions: number | null;
+  /** Minutes streamed today (UTC) */
+  minutes_today: number;
+  daily_minutes_limit: number | null;
+}
+
+export class QuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+const sessions = new Map<string, RelaySession>();
+// clinic id -> seconds streamed on `usageDay`
+const secondsToday = new Map<string, number>();
+let usageDay = currentDay();
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function rollOverDay(): void {
+  const today = currentDay();
+  if (today !== usageDay) {
+    usageDay = today;
+    secondsToday.clear();
+  }
+}
+
+function activeSessionsFor(clinicId: string): number {
+  let count = 0;
+  sessions.forEach((session) => {
+    if (session.clinicId === clinicId) count++;
+  });
+  return count;
+}
+
+function minutesLeftToday(clinicId: string): number {
+  if (DAILY_AUDIO_MINUTES <= 0) return Infinity;
+  rollOverDay();
+  return DAILY_AUDIO_MINUTES - (secondsToday.get(clinicId) || 0) / 60;
+}
+
+/**
+ * Start a session for the user
+ * @throws QuotaError if their clinic is at its concurrency or daily limit
+ */
+export function openSession(user: RelayUser, consultationId: string | null): RelaySession {
+  if (MAX_CONCURRENT_SESSIONS > 0 && activeSessionsFor(user.clinicId) >= MAX_CONCURRENT_SESSIONS) {
+    throw new QuotaError(`Your clinic is at its limit of ${MAX_CONCURRENT_SESSIONS} concurrent live transcriptions`);
+  }
+  if (minutesLeftToday(user.clinicId) <= 0) {
+    throw new QuotaError("Your clinic has used today's live transcription minutes");
+  }
+
+  const session: RelaySession = {
+    id: crypto.randomUUID(),
+    userId: user.userId,
+    clinicId: user.clinicId,
+    consultationId,
+    startedAt: new Date().toISOString(),
+    audioSeconds: 0,
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+/**
+ * Count streamed audio against the session's clinic
+ * @returns false once the clinic's daily minutes are used up
+ */
+export function recordAudio(session: RelaySession, seconds: number): boolean {
+  session.audioSeconds += seconds;
+  return recordClinicAudio(session.clinicId, seconds);
+}
+
+/**
+ * Check the user's clinic has minutes left for audio handled outside a live
+ * session (uploads, direct-streaming tokens)
+ * @param seconds Audio the request will use, when known up front
+ * @throws QuotaError if the clinic has used today's minutes
+ */
+export function ensureMinutesLeft(user: RelayUser, seconds: number = 0): void {
+  const minutesLeft = minutesLeftToday(user.clinicId);
+  if (minutesLeft <= 0 || minutesLeft < seconds / 60) {
+    throw new QuotaError("Your clinic has used today's transcription minutes");
+  }
+}
+
+/**
+ * Count audio against a clinic's daily minutes
+ * @returns false once the clinic's daily minutes are used up
+ */
+export function recordClinicAudio(clinicId: string, seconds: number): boolean {
+  rollOverDay();
+  secondsToday.set(clinicId, (secondsToday.get(clinicId) || 0) + seconds);
+  return minutesLeftToday(clinicId) > 0;
+}
+
+export function closeSession(sessionId: string): void {
+  sessions.delete(sessionId);
+}
+
+export function listSessions(): RelaySession[] {
+  return Array.from(sessions.values());
+}
+
+/**
+ * Usage of every clinic with a live session or audio streamed today
+ */
+export function usageByClinic(): ClinicUsage[] {
+  rollOverDay();
+  const clinicIds = new Set<string>(secondsToday.keys());
+  sessions.forEach((session) => clinicIds.add(session.clinicId));
+
+  return Array.from(clinicIds)
+    .sort()
+    .map((clinicId) => ({
+      clinic_id: clinicId,
+      active_sessions: activeSessionsFor(clinicId),
+      max_concurrent_sessions: MAX_CONCURRENT_SESSIONS > 0 ? MAX_CONCURRENT_SESSIONS : null,
+      minutes_today: Math.round(((secondsToday.get(clinicId) || 0) / 60) * 10) / 10,
+      daily_minutes_limit: DAILY_AUDIO_MINUTES > 0 ? DAILY_AUDIO_MINUTES : null,
+    }));
+}
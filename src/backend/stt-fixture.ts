@@ -0,0 +1,153 @@
+/**
+ * Replay recorded consultations through the relay, like a browser would
+ *
+ * Usage: npm run stt:fixture -- <consultation.wav> [more.wav...]
+ *
+ * Streams each WAV file to the relay at RELAY_URL (default ws://localhost:3002)
+ * in real time and prints the final results. Works against any engine the relay
+ * streams to, so a recording can be compared across Deepgram and the on-premise
+ * engine (LOCAL_STT_URL). If a <consultation>.txt with the reference transcript
+ * sits next to a recording, the word error rate is printed too.
+ *
+ * RELAY_ACCESS_TOKEN is a doctor's Supabase session JWT (or run the relay with
+ * RELAY_ALLOW_ANONYMOUS=true). STT_LANGUAGE is sent as the relay's language
+ * parameter, REPLAY_SPEED > 1 streams faster than real time.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import WebSocket from "ws";
+import { decodeWav } from "../shared/wav";
+import { STT_SAMPLE_RATE, convertFloat32ToInt16, downsampleBuffer } from "../shared/pcm";
+
+const RELAY_URL = process.env.RELAY_URL || "ws://localhost:3002";
+const REPLAY_SPEED = Number(process.env.REPLAY_SPEED) || 1;
+
+// Same frame size the browser's audio capture sends (128 ms)
+const FRAME_SAMPLES = 2048;
+// After the last frame, wait this long without a new final result before closing
+const SETTLE_MS = 3000;
+
+interface FinalResult {
+  text: string;
+  start?: number;
+  speaker?: number;
+}
+
+/**
+ * Read a WAV recording as the 16 kHz PCM the browser would stream
+ */
+export function loadPcm(path: string): Int16Array {
+  const file = readFileSync(path);
+  const { sampleRate, samples } = decodeWav(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer);
+  return convertFloat32ToInt16(downsampleBuffer(samples, sampleRate, STT_SAMPLE_RATE));
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Word-level edit distance divided by the reference length
+ */
+function wordErrorRate(reference: string[], hypothesis: string[]): number {
+  let previous = Array.from({ length: hypothesis.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= reference.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= hypothesis.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (reference[i - 1] === hypothesis[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return reference.length ? previous[hypothesis.length] / reference.length : 0;
+}
+
+function relayUrl(): string {
+  const params = new URLSearchParams();
+  if (process.env.RELAY_ACCESS_TOKEN) params.set("access_token", process.env.RELAY_ACCESS_TOKEN);
+  if (process.env.STT_LANGUAGE) params.set("language", process.env.STT_LANGUAGE);
+  const query = params.toString();
+  return query ? `${RELAY_URL}?${query}` : RELAY_URL;
+}
+
+function replay(pcm: Int16Array): Promise<FinalResult[]> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(relayUrl());
+    const finals: FinalResult[] = [];
+    let settleTimer: NodeJS.Timeout | null = null;
+    let streaming = false;
+
+    const settle = () => {
+      if (settleTimer) clearTimeout(settleTimer);
+      settleTimer = setTimeout(() => ws.close(1000, "Fixture finished"), SETTLE_MS);
+    };
+
+    const stream = async () => {
+      streaming = true;
+      const frameMs = (FRAME_SAMPLES / STT_SAMPLE_RATE) * 1000 / REPLAY_SPEED;
+      for (let offset = 0; offset < pcm.length; offset += FRAME_SAMPLES) {
+        if (ws.readyState !== WebSocket.OPEN) return;
+        const frame = pcm.subarray(offset, offset + FRAME_SAMPLES);
+        ws.send(Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength));
+        await new Promise((r) => setTimeout(r, frameMs));
+      }
+      ws.send(JSON.stringify({ type: "Finalize" }));
+      settle();
+    };
+
+    ws.on("message", (data) => {
+      const message = JSON.parse(data.toString());
+      if (message.type === "connected" && !streaming) {
+        console.log(`[STTFixture] ${message.message}`);
+        stream().catch(reject);
+      } else if (message.type === "transcript" && message.isFinal) {
+        finals.push({ text: message.text, start: message.start, speaker: message.speaker });
+        const at = typeof message.start === "number" ? `${message.start.toFixed(1)}s` : "-";
+        console.log(`  ${at.padStart(7)}  ${message.speaker ?? "?"}  ${message.text}`);
+        if (settleTimer) settle();
+      } else if (message.type === "error") {
+        console.error(`[STTFixture] Relay error: ${message.message}`);
+      }
+    });
+
+    ws.on("error", reject);
+    ws.on("close", (code) => {
+      if (settleTimer) clearTimeout(settleTimer);
+      if (code !== 1000 && code !== 1005) {
+        console.warn(`[STTFixture] Relay closed the session (code ${code})`);
+      }
+      resolve(finals);
+    });
+  });
+}
+
+async function main() {
+  const paths = process.argv.slice(2);
+  if (paths.length === 0) {
+    console.error("Usage: npm run stt:fixture -- <consultation.wav> [more.wav...]");
+    process.exit(1);
+  }
+
+  for (const path of paths) {
+    const pcm = loadPcm(path);
+    console.log(`\n[STTFixture] ${path} (${(pcm.length / STT_SAMPLE_RATE).toFixed(1)}s) -> ${RELAY_URL}`);
+    const finals = await replay(pcm);
+
+    const referencePath = path.replace(/\.wav$/i, ".txt");
+    if (existsSync(referencePath)) {
+      const wer = wordErrorRate(words(readFileSync(referencePath, "utf8")), words(finals.map((f) => f.text).join(" ")));
+      console.log(`  Word error rate against ${referencePath}: ${(wer * 100).toFixed(1)}%`);
+    }
+    console.log(`  ${finals.length} final results`);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error("[STTFixture] Failed:", error.message || error);
+    process.exit(1);
+  });
+}
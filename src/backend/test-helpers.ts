@@ -0,0 +1,51 @@
+/**
+ * Setup shared by the relay's test suites
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+
+export const JWT_SECRET = "relay-test-secret";
+
+// Recordings and other files the relay writes during a test run
+export const TEST_DIR = path.join(os.tmpdir(), `relay-test-${process.pid}`);
+
+export function listening(server: Server): Promise<number> {
+  return new Promise((resolve) => {
+    if (server.listening) return resolve((server.address() as AddressInfo).port);
+    server.once("listening", () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+export function signJwt(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const data = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  return `${data}.${crypto.createHmac("sha256", JWT_SECRET).update(data).digest("base64url")}`;
+}
+
+/**
+ * Load the relay on a free port, signed-in doctors only, with `env` on top.
+ * Configuration is read when the relay module loads, so call this once per
+ * test file, in before().
+ */
+export async function startRelay(env: Record<string, string> = {}): Promise<{ relay: Server; port: number }> {
+  Object.assign(process.env, {
+    PORT: "0",
+    SUPABASE_JWT_SECRET: JWT_SECRET,
+    RELAY_ALLOW_ANONYMOUS: "false",
+    RECORDINGS_DIR: TEST_DIR,
+    ...env,
+  });
+  const { server: relay } = await import("./server");
+  return { relay, port: await listening(relay) };
+}
+
+export function stopRelay(relay: Server | undefined): void {
+  relay?.closeAllConnections();
+  relay?.close();
+  fs.rmSync(TEST_DIR, { recursive: true, force: true });
+}
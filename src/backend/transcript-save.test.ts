@@ -0,0 +1,113 @@
+/**
+ * When a doctor finishes a live session, the relay writes its transcript to the
+ * consultation with the doctor's latest session token and tells the browser
+ * whether that worked
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import WebSocket, { WebSocketServer } from "ws";
+import type { Server } from "http";
+import { listening, signJwt, startRelay, stopRelay } from "./test-helpers";
+
+// Mock consultations API: answers with this status and remembers who wrote what
+let consultationStatus = 200;
+const writes: { url?: string; authorization?: string; body: any }[] = [];
+
+const consultationsApi = http.createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  writes.push({
+    url: req.url,
+    authorization: req.headers.authorization,
+    body: JSON.parse(Buffer.concat(chunks).toString()),
+  });
+  res.statusCode = consultationStatus;
+  res.end("{}");
+});
+
+// Stand-in for the streaming engine; it only has to accept the connection
+const engine = http.createServer();
+new WebSocketServer({ server: engine });
+
+let relay: Server;
+let relayUrl: string;
+
+function doctorToken(sub: string, issuedAt: number): string {
+  return signJwt({ sub, role: "authenticated", iat: issuedAt, exp: issuedAt + 3600 });
+}
+
+/**
+ * Run a session for consultation-1 and finish it, sending `messages` first.
+ * Resolves with the relay's session_ended message.
+ */
+async function finishSession(token: string, messages: object[], finishToken?: string): Promise<any> {
+  const ws = new WebSocket(`${relayUrl}?access_token=${token}&consultation_id=consultation-1`);
+  const received: any[] = [];
+  ws.on("message", (data: WebSocket.RawData) => received.push(JSON.parse(data.toString())));
+
+  await new Promise<void>((resolve, reject) => {
+    ws.on("message", () => {
+      if (received.some((message) => message.type === "connected")) resolve();
+    });
+    ws.once("error", reject);
+  });
+
+  messages.forEach((message) => ws.send(JSON.stringify(message)));
+  ws.send(JSON.stringify({ type: "finish", access_token: finishToken }));
+  await new Promise((resolve) => ws.once("close", resolve));
+  return received.find((message) => message.type === "session_ended");
+}
+
+before(async () => {
+  consultationsApi.listen(0, "127.0.0.1");
+  engine.listen(0, "127.0.0.1");
+
+  let port: number;
+  ({ relay, port } = await startRelay({
+    CONSULTATIONS_API_URL: `http://127.0.0.1:${await listening(consultationsApi)}`,
+    LOCAL_STT_URL: `http://127.0.0.1:${await listening(engine)}`,
+  }));
+  relayUrl = `ws://127.0.0.1:${port}`;
+});
+
+after(() => {
+  stopRelay(relay);
+  engine.closeAllConnections();
+  engine.close();
+  consultationsApi.close();
+});
+
+test("writes the transcript with the doctor's refreshed session token", async () => {
+  const now = Math.floor(Date.now() / 1000);
+  const connectToken = doctorToken("doctor-1", now - 60);
+  const refreshedToken = doctorToken("doctor-1", now);
+  const otherDoctorToken = doctorToken("doctor-2", now);
+  consultationStatus = 200;
+  writes.length = 0;
+
+  const ended = await finishSession(connectToken, [
+    { type: "auth", access_token: refreshedToken },
+    // Another doctor's token is never taken
+    { type: "auth", access_token: otherDoctorToken },
+  ]);
+
+  assert.deepEqual(ended, { type: "session_ended", reason: "Client finished", transcript_saved: true });
+  assert.equal(writes.length, 1);
+  assert.equal(writes[0].url, "/consultations/consultation-1");
+  assert.equal(writes[0].authorization, `Bearer ${refreshedToken}`);
+  assert.equal(writes[0].body.server_transcript.user_id, "doctor-1");
+});
+
+test("tells the browser when the transcript could not be saved", async () => {
+  const now = Math.floor(Date.now() / 1000);
+  consultationStatus = 401;
+  writes.length = 0;
+
+  const ended = await finishSession(doctorToken("doctor-1", now), [], doctorToken("doctor-1", now + 1));
+
+  assert.equal(ended.transcript_saved, false);
+  assert.match(ended.message, /session expired/);
+  assert.equal(writes[0].authorization, `Bearer ${doctorToken("doctor-1", now + 1)}`);
+});
@@ -0,0 +1,109 @@
+/**
+ * Server-side session transcripts
+ * The relay sees every final result Deepgram returns, so its copy of the
+ * transcript is the authoritative one. It is kept while the session runs, for a
+ * day after it ends, and written to the consultation record when it ends so it
+ * can be reconciled with what the browser saved.
+ */
+
+import type { DiarizedSegment } from "./diarization";
+import type { RelaySession } from "./sessions";
+
+// Consultations API of the app (the make-server edge function)
+const CONSULTATIONS_API_URL =
+  process.env.CONSULTATIONS_API_URL ||
+  (process.env.SUPABASE_URL ? `${process.env.SUPABASE_URL}/functions/v1/make-server-ae2bff40` : "");
+
+// Finished transcripts stay available for reconciliation this long
+const COMPLETED_RETENTION_MS = 24 * 60 * 60 * 1000;
+// The browser waits for the write when it finishes a session
+const SAVE_TIMEOUT_MS = 10 * 1000;
+
+export interface SessionTranscript {
+  session_id: string;
+  consultation_id: string | null;
+  user_id: string;
+  clinic_id: string;
+  started_at: string;
+  ended_at: string | null;
+  /** Final results joined in order */
+  text: string;
+  /** Speaker turns with Deepgram timestamps (seconds of audio streamed - the browser gates out silence) */
+  segments: DiarizedSegment[];
+}
+
+const completed = new Map<string, SessionTranscript>();
+
+export function createTranscript(session: RelaySession): SessionTranscript {
+  return {
+    session_id: session.id,
+    consultation_id: session.consultationId,
+    user_id: session.userId,
+    clinic_id: session.clinicId,
+    started_at: session.startedAt,
+    ended_at: null,
+    text: "",
+    segments: [],
+  };
+}
+
+/**
+ * Add one final result. Interim results must not be passed in - they are
+ * revised by the final result that follows them.
+ */
+export function appendFinal(transcript: SessionTranscript, text: string, segments: DiarizedSegment[]): void {
+  transcript.text = transcript.text ? `${transcript.text} ${text}` : text;
+  transcript.segments.push(...segments);
+}
+
+/**
+ * Mark the transcript finished and keep it for later lookups
+ */
+export function completeTranscript(transcript: SessionTranscript, consultationId: string | null): SessionTranscript {
+  transcript.ended_at = new Date().toISOString();
+  transcript.consultation_id = consultationId;
+  completed.set(transcript.session_id, transcript);
+
+  const timer = setTimeout(() => completed.delete(transcript.session_id), COMPLETED_RETENTION_MS);
+  timer.unref();
+  return transcript;
+}
+
+export function getCompletedTranscript(sessionId: string): SessionTranscript | null {
+  return completed.get(sessionId) || null;
+}
+
+/**
+ * Store the transcript on its consultation as `server_transcript`, acting as the
+ * doctor who ran the session
+ * @param accessToken - The doctor's latest session JWT; the browser refreshes it during long sessions
+ * @throws if the consultation could not be updated
+ */
+export async function saveToConsultation(transcript: SessionTranscript, accessToken: string | null): Promise<void> {
+  const sessionId = transcript.session_id;
+  if (!transcript.consultation_id) {
+    console.log(`[${sessionId}] No consultation attached, transcript kept on the relay only`);
+    return;
+  }
+  if (!CONSULTATIONS_API_URL || !accessToken) {
+    console.warn(`[${sessionId}] Cannot write transcript to consultation (API URL or doctor session missing)`);
+    return;
+  }
+
+  const response = await fetch(`${CONSULTATIONS_API_URL}/consultations/${transcript.consultation_id}`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ server_transcript: transcript }),
+    signal: AbortSignal.timeout(SAVE_TIMEOUT_MS),
+  });
+  if (response.status === 401) {
+    throw new Error("The doctor's session expired before the transcript could be saved");
+  }
+  if (!response.ok) {
+    throw new Error(`Consultation update failed (${response.status})`);
+  }
+  console.log(`[${sessionId}] Transcript written to consultation ${transcript.consultation_id}`);
+}
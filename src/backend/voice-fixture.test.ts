@@ -0,0 +1,50 @@
+/**
+ * Doctor voice enrollment, run on WAV fixtures the way `npm run voice:fixture` does
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { VoiceAnalyzer } from "../shared/VoiceAnalyzer";
+import { analyzeRecording, loadWav } from "./voice-fixture";
+
+// 7 s of a steady ~120 Hz voice, then a consultation: 3 s of the same voice, 3 s of a ~220 Hz one
+const enrollment = loadWav(path.join(__dirname, "fixtures", "doctor-enrollment.wav"));
+const consultation = loadWav(path.join(__dirname, "fixtures", "doctor-patient.wav"));
+
+test("builds a profile of the doctor's voice from the enrollment recording", () => {
+  const profile = new VoiceAnalyzer(enrollment.sampleRate).createProfile(enrollment.samples);
+
+  assert.equal(profile.sampleRate, enrollment.sampleRate);
+  assert.ok(Math.abs(profile.avgPitch - 120) < 5, `average pitch ${profile.avgPitch}`);
+  assert.ok(profile.frames >= 24);
+});
+
+test("labels the doctor, then the patient, in a consultation", () => {
+  const profile = new VoiceAnalyzer(enrollment.sampleRate).createProfile(enrollment.samples);
+  const { changes, voicedFrames, doctorShare } = analyzeRecording(profile, consultation);
+
+  assert.deepEqual(
+    changes.map((change) => change.speaker),
+    ["Doctor", "Patient"]
+  );
+  assert.ok(changes[0].at < 1.5, `doctor found at ${changes[0].at}s`);
+  // The patient starts at 3 s; the score window lags by a few frames
+  assert.ok(changes[1].at >= 3 && changes[1].at < 4, `patient found at ${changes[1].at}s`);
+  assert.ok(voicedFrames > 20);
+  assert.ok(doctorShare > 0.3 && doctorShare < 0.7);
+});
+
+test("keeps the original voicing threshold for unsupervised change detection", () => {
+  const analyzer = new VoiceAnalyzer(enrollment.sampleRate);
+  const frame = enrollment.samples.subarray(0, 2048);
+
+  // Conversational loudness is voiced for enrollment and scoring, but not loud
+  // enough for the absolute threshold unsupervised detection was tuned with
+  const quiet = analyzer.extractFeatures(frame);
+  assert.ok(Math.abs(quiet.pitch - 120) < 5);
+  assert.equal(quiet.unsupervisedPitch, 0);
+
+  const loud = analyzer.extractFeatures(frame.map((sample) => sample * 4));
+  assert.equal(loud.unsupervisedPitch, loud.pitch);
+});
@@ -0,0 +1,82 @@
+/**
+ * Offline check of doctor voice enrollment against WAV fixtures
+ *
+ * Usage: npm run voice:fixture -- <doctor-enrollment.wav> <consultation.wav> [more.wav...]
+ *
+ * Builds a profile from the first file exactly like the Settings enrollment
+ * does, then prints who VoiceAnalyzer thinks is speaking in each following file.
+ */
+
+import { readFileSync } from "fs";
+import { VoiceAnalyzer, type DoctorVoiceProfile } from "../shared/VoiceAnalyzer";
+import { decodeWav, type DecodedWav } from "../shared/wav";
+
+const FRAME_SIZE = 2048;
+
+export function loadWav(path: string): DecodedWav {
+  const file = readFileSync(path);
+  return decodeWav(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer);
+}
+
+export interface SpeakerChange {
+  /** Seconds from the start of the recording */
+  at: number;
+  speaker: "Doctor" | "Patient";
+  confidence: number;
+}
+
+/**
+ * Label a recording frame by frame against the doctor's profile
+ */
+export function analyzeRecording(profile: DoctorVoiceProfile, { sampleRate, samples }: DecodedWav) {
+  const analyzer = new VoiceAnalyzer(sampleRate);
+  analyzer.setDoctorProfile(profile);
+
+  const changes: SpeakerChange[] = [];
+  let doctorFrames = 0;
+  let voicedFrames = 0;
+
+  for (let offset = 0; offset + FRAME_SIZE <= samples.length; offset += FRAME_SIZE) {
+    const features = analyzer.extractFeatures(samples.subarray(offset, offset + FRAME_SIZE));
+    const { speaker, changeEvent } = analyzer.analyzeFeatures(features);
+
+    if (features.pitch > 0) {
+      voicedFrames++;
+      if (speaker === 1) doctorFrames++;
+    }
+    if (changeEvent) {
+      changes.push({
+        at: offset / sampleRate,
+        speaker: changeEvent.newSpeaker === 1 ? "Doctor" : "Patient",
+        confidence: changeEvent.confidence,
+      });
+    }
+  }
+
+  return { changes, voicedFrames, doctorShare: voicedFrames ? doctorFrames / voicedFrames : 0 };
+}
+
+function main() {
+  const [enrollmentPath, ...testPaths] = process.argv.slice(2);
+  if (!enrollmentPath || testPaths.length === 0) {
+    console.error("Usage: npm run voice:fixture -- <doctor-enrollment.wav> <consultation.wav> [more.wav...]");
+    process.exit(1);
+  }
+
+  const enrollment = loadWav(enrollmentPath);
+  const profile = new VoiceAnalyzer(enrollment.sampleRate).createProfile(enrollment.samples);
+  console.log(`[VoiceFixture] Profile from ${enrollmentPath}:`, profile);
+
+  for (const path of testPaths) {
+    const { changes, voicedFrames, doctorShare } = analyzeRecording(profile, loadWav(path));
+    console.log(`\n[VoiceFixture] ${path}`);
+    changes.forEach((change) => {
+      console.log(`  ${change.at.toFixed(2)}s -> ${change.speaker} (confidence ${change.confidence.toFixed(2)})`);
+    });
+    console.log(`  Doctor in ${(doctorShare * 100).toFixed(1)}% of ${voicedFrames} voiced frames`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
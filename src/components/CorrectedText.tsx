@@ -0,0 +1,40 @@
+import type { TermCorrection } from '@/types';
+
+interface CorrectedTextProps {
+  text: string;
+  corrections?: TermCorrection[];
+  /** The text in the consultation's output script; shown instead when present */
+  normalizedText?: string;
+}
+
+/**
+ * Transcript text with automatically corrected medical terms highlighted.
+ * Hovering a term shows what the speech engine actually heard.
+ */
+export function CorrectedText({ text, corrections, normalizedText }: CorrectedTextProps) {
+  // Correction offsets point into the recognized text, so they cannot be shown on a conversion
+  if (normalizedText) return <span title={`Recognized as: ${text}`}>{normalizedText}</span>;
+  if (!corrections?.length) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  [...corrections]
+    .sort((a, b) => a.start - b.start)
+    .forEach((correction, index) => {
+      if (correction.start < position) return;
+      parts.push(text.slice(position, correction.start));
+      parts.push(
+        <mark
+          key={index}
+          className="bg-amber-100 text-amber-900 rounded px-0.5 underline decoration-dotted"
+          title={`Corrected ${correction.kind} - heard "${correction.original}"`}
+        >
+          {text.slice(correction.start, correction.end)}
+        </mark>
+      );
+      position = correction.end;
+    });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
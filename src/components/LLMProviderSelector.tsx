@@ -1,10 +1,11 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { type LLMProvider } from '@/services/llm/LLMManager';
+import { type LLMProvider, type LLMProviderStatus } from '@/services/llm/types';
+import { LLM_PROVIDERS } from '@/services/llm/models';
 
 interface LLMProviderSelectorProps {
   activeProvider: LLMProvider;
   onProviderChange: (provider: LLMProvider) => void;
-  providerStatus: Record<LLMProvider, { valid: boolean; tested: boolean; error?: string }>;
+  providerStatus: Record<LLMProvider, LLMProviderStatus>;
   isAnalyzing?: boolean;
   compact?: boolean;
 }
@@ -16,7 +17,7 @@ export function LLMProviderSelector({
   isAnalyzing,
   compact = false
 }: LLMProviderSelectorProps) {
-  const providers: LLMProvider[] = ['openai', 'claude', 'gemini'];
+  const providers = LLM_PROVIDERS;
 
   const getProviderLabel = (provider: LLMProvider): string => {
     const labels: Record<LLMProvider, string> = {
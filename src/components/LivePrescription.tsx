@@ -1,11 +1,12 @@
 import { useState, useEffect, type ReactNode } from 'react';
-import { Edit2, Save, Share2, CheckCircle2, AlertCircle, Pill, Clock, Droplet, Calendar } from 'lucide-react';
+import { Edit2, Save, Share2, CheckCircle2, AlertCircle, AlertTriangle, Pill, Clock, Droplet, Calendar, Utensils, Loader2 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { Label } from './ui/label';
-import { Prescription } from '../types';
-import { type LLMProvider } from '@/services/llm/LLMManager';
+import { Prescription, type Medication } from '../types';
+import { VITAL_SIGN_FIELDS, formatComposition, formatMedication, formatVitals, hasVitals } from '../utils/prescription';
+import { type LLMProvider, type LLMProviderStatus } from '@/services/llm/types';
 
 interface LivePrescriptionProps {
   prescription: Prescription;
@@ -19,7 +20,7 @@ interface LivePrescriptionProps {
   isLiveUpdating?: boolean;
   providerSelector?: ReactNode;
   modelSelector?: ReactNode;
-  providerStatus?: Record<LLMProvider, { valid: boolean; tested: boolean; error?: string }>;
+  providerStatus?: Record<LLMProvider, LLMProviderStatus>;
   activeProvider?: LLMProvider;
 }
 
@@ -41,8 +42,9 @@ export function LivePrescription({
   const [localPrescription, setLocalPrescription] = useState(prescription);
   const [isEditing, setIsEditing] = useState(false);
 
+  // Live analysis streams updates every few seconds - don't overwrite the doctor's edits
   useEffect(() => {
-    setLocalPrescription(prescription);
+    if (!isEditing) setLocalPrescription(prescription);
   }, [prescription]);
 
   const getProviderStatusIcon = () => {
@@ -69,16 +71,30 @@ export function LivePrescription({
   };
 
   const handleSave = () => {
-    onPrescriptionUpdate(localPrescription);
+    // Findings are edited one per line; drop the blank lines
+    const examinationFindings = localPrescription.examinationFindings?.map(s => s.trim()).filter(s => s);
+    const saved = { ...localPrescription, examinationFindings };
+    setLocalPrescription(saved);
+    onPrescriptionUpdate(saved);
     setIsEditing(false);
   };
 
-  const handleMedicationChange = (index: number, field: string, value: string) => {
+  const handleMedicationChange = (index: number, field: keyof Medication, value: string) => {
     const updatedMedications = [...localPrescription.medications];
-    updatedMedications[index] = { ...updatedMedications[index], [field]: value };
+    updatedMedications[index] = {
+      ...updatedMedications[index],
+      [field]: field === 'composition' ? value.split(/\+|,/).map(s => s.trim()).filter(s => s) : value,
+    };
     setLocalPrescription({ ...localPrescription, medications: updatedMedications });
   };
 
+  const handleVitalChange = (key: string, value: string) => {
+    setLocalPrescription({
+      ...localPrescription,
+      vitals: { ...localPrescription.vitals, [key]: value },
+    });
+  };
+
   const addMedication = () => {
     setLocalPrescription({
       ...localPrescription,
@@ -93,6 +109,9 @@ export function LivePrescription({
   };
 
   const generatePrescriptionText = () => {
+    // Optional sections are left out of the message when empty
+    const section = (title: string, body?: string) => body ? `\n*${title}:*\n${body}\n` : '';
+
     return `
 *Medical Prescription*
 
@@ -101,17 +120,18 @@ ID: ${memberId}
 Name: ${patientName}
 Age: ${patientAge} Years
 Sex: ${patientSex}
-
+${section('Allergies', localPrescription.allergies?.join(', '))}
 *Chief Complaint:*
-${localPrescription.chiefComplaint}
-
+${localPrescription.chiefComplaint}${localPrescription.durationOfSymptoms ? ` (${localPrescription.durationOfSymptoms})` : ''}
+${section('Vitals', formatVitals(localPrescription.vitals))}${section('Examination', localPrescription.examinationFindings?.join('\n'))}
 *Diagnosis:*
 ${localPrescription.diagnosis}
 
 *Medications:*
-${localPrescription.medications.map((med, i) => 
-  `${i + 1}. ${med.name} - ${med.dosage} - ${med.frequency} - ${med.duration}`
-).join('\n')}
+${localPrescription.medications.map((med, i) => {
+  const composition = formatComposition(med.composition);
+  return `${i + 1}. ${formatMedication(med)}${composition ? `\n   (${composition})` : ''}`;
+}).join('\n')}
 
 *Investigations:*
 ${localPrescription.investigations.join(', ')}
@@ -148,6 +168,13 @@ ${localPrescription.followUp}
               
               {/* Selected Provider Status Indicator - Shows only for active provider */}
               {getProviderStatusIcon()}
+
+              {isLiveUpdating && (
+                <div className="flex items-center gap-2 text-xs text-blue-600">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Updating...</span>
+                </div>
+              )}
             </div>
           )}
           {/* Edit and Share Buttons */}
@@ -208,7 +235,7 @@ ${localPrescription.followUp}
             {/* Left Column */}
             <div className="space-y-4">
               {/* Chief Complaint & Cause */}
-              {isEditing || localPrescription.chiefComplaint && (
+              {(isEditing || localPrescription.chiefComplaint) && (
                 <div>
                   <Label className="text-xs font-semibold text-gray-700 uppercase">Chief Complaint & Cause</Label>
                   {isEditing ? (
@@ -230,7 +257,7 @@ ${localPrescription.followUp}
               )}
 
               {/* Symptoms */}
-              {isEditing || (localPrescription.symptoms && localPrescription.symptoms.length > 0) && (
+              {(isEditing || (localPrescription.symptoms && localPrescription.symptoms.length > 0)) && (
                 <div>
                   <Label className="text-xs font-semibold text-gray-700 uppercase">Symptoms</Label>
                   {isEditing ? (
@@ -256,8 +283,28 @@ ${localPrescription.followUp}
                 </div>
               )}
 
+              {/* Duration of Symptoms */}
+              {(isEditing || localPrescription.durationOfSymptoms) && (
+                <div>
+                  <Label className="text-xs font-semibold text-gray-700 uppercase">Duration</Label>
+                  {isEditing ? (
+                    <Input
+                      value={localPrescription.durationOfSymptoms || ''}
+                      onChange={(e) => setLocalPrescription({
+                        ...localPrescription,
+                        durationOfSymptoms: e.target.value,
+                      })}
+                      placeholder="e.g., 3 days"
+                      className="mt-1 text-sm"
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-800 mt-1">{localPrescription.durationOfSymptoms}</p>
+                  )}
+                </div>
+              )}
+
               {/* Medical History */}
-              {isEditing || localPrescription.medicalHistory && (
+              {(isEditing || localPrescription.medicalHistory) && (
                 <div>
                   <Label className="text-xs font-semibold text-gray-700 uppercase">Medical History</Label>
                   {isEditing ? (
@@ -278,8 +325,31 @@ ${localPrescription.followUp}
                 </div>
               )}
 
+              {/* Allergies */}
+              {(isEditing || (localPrescription.allergies && localPrescription.allergies.length > 0)) && (
+                <div>
+                  <Label className="text-xs font-semibold text-gray-700 uppercase">Allergies</Label>
+                  {isEditing ? (
+                    <Input
+                      value={localPrescription.allergies?.join(', ') || ''}
+                      onChange={(e) => setLocalPrescription({
+                        ...localPrescription,
+                        allergies: e.target.value.split(',').map(s => s.trim()).filter(s => s),
+                      })}
+                      placeholder="e.g., Penicillin, Sulfa drugs"
+                      className="mt-1 text-sm"
+                    />
+                  ) : (
+                    <p className="text-sm font-medium text-red-700 mt-1 bg-red-50 p-2 rounded border-l-4 border-red-500 flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                      {localPrescription.allergies?.join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Previous Medication */}
-              {isEditing || (localPrescription.previousMedication && localPrescription.previousMedication.length > 0) && (
+              {(isEditing || (localPrescription.previousMedication && localPrescription.previousMedication.length > 0)) && (
                 <div>
                   <Label className="text-xs font-semibold text-gray-700 uppercase">Previous Medication</Label>
                   {isEditing ? (
@@ -309,7 +379,7 @@ ${localPrescription.followUp}
             {/* Right Column */}
             <div className="space-y-4">
               {/* Diagnosis */}
-              {isEditing || localPrescription.diagnosis && (
+              {(isEditing || localPrescription.diagnosis) && (
                 <div>
                   <Label className="text-xs font-semibold text-gray-700 uppercase">Diagnosis</Label>
                   {isEditing ? (
@@ -329,11 +399,70 @@ ${localPrescription.followUp}
                   )}
                 </div>
               )}
+
+              {/* Vitals */}
+              {(isEditing || hasVitals(localPrescription.vitals)) && (
+                <div>
+                  <Label className="text-xs font-semibold text-gray-700 uppercase">Vitals</Label>
+                  {isEditing ? (
+                    <div className="grid grid-cols-2 gap-2 mt-1">
+                      {VITAL_SIGN_FIELDS.map(({ key, label, placeholder }) => (
+                        <div key={key} className="flex items-center gap-2">
+                          <span className="text-xs text-gray-500 w-10">{label}</span>
+                          <Input
+                            value={localPrescription.vitals?.[key] || ''}
+                            onChange={(e) => handleVitalChange(key, e.target.value)}
+                            placeholder={placeholder}
+                            className="text-sm h-8"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-2 mt-1">
+                      {VITAL_SIGN_FIELDS.filter(({ key }) => localPrescription.vitals?.[key]).map(({ key, label }) => (
+                        <div key={key} className="text-sm bg-gray-50 rounded px-2 py-1">
+                          <span className="text-gray-500 mr-2">{label}</span>
+                          <span className="font-medium text-gray-900">{localPrescription.vitals?.[key]}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Examination Findings */}
+              {(isEditing || (localPrescription.examinationFindings && localPrescription.examinationFindings.length > 0)) && (
+                <div>
+                  <Label className="text-xs font-semibold text-gray-700 uppercase">Examination Findings</Label>
+                  {isEditing ? (
+                    <Textarea
+                      value={localPrescription.examinationFindings?.join('\n') || ''}
+                      onChange={(e) => setLocalPrescription({
+                        ...localPrescription,
+                        examinationFindings: e.target.value.split('\n'),
+                      })}
+                      placeholder="One finding per line"
+                      className="mt-1 text-sm"
+                      rows={3}
+                    />
+                  ) : (
+                    <ul className="text-sm text-gray-800 mt-1 space-y-1">
+                      {localPrescription.examinationFindings?.map((finding, idx) => (
+                        <li key={idx} className="flex items-start">
+                          <span className="text-blue-600 mr-2">•</span>
+                          <span>{finding}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
           {/* Medications - Only show if present or editing */}
-          {isEditing || (localPrescription.medications && localPrescription.medications.length > 0) && (
+          {(isEditing || (localPrescription.medications && localPrescription.medications.length > 0)) && (
             <div>
               <div className="flex items-center justify-between mb-4">
                 <Label className="text-sm font-bold text-gray-900 uppercase tracking-wide">💊 Medications</Label>
@@ -386,6 +515,18 @@ ${localPrescription.followUp}
                           onChange={(e) => handleMedicationChange(index, 'duration', e.target.value)}
                           className="text-sm"
                         />
+                        <Input
+                          placeholder="Timing (e.g., after meal)"
+                          value={med.timing || ''}
+                          onChange={(e) => handleMedicationChange(index, 'timing', e.target.value)}
+                          className="text-sm"
+                        />
+                        <Input
+                          placeholder="Composition (e.g., Paracetamol 650mg)"
+                          defaultValue={formatComposition(med.composition)}
+                          onBlur={(e) => handleMedicationChange(index, 'composition', e.target.value)}
+                          className="text-sm"
+                        />
                       </div>
                     ) : (
                       <div className="space-y-4">
@@ -396,6 +537,9 @@ ${localPrescription.followUp}
                             <Pill className="h-5 w-5 text-green-600" />
                             {med.name}
                           </p>
+                          {med.composition && med.composition.length > 0 && (
+                            <p className="text-xs text-gray-500 mt-1">{formatComposition(med.composition)}</p>
+                          )}
                         </div>
 
                         {/* Dosage */}
@@ -430,6 +574,17 @@ ${localPrescription.followUp}
                             </div>
                           </div>
                         )}
+
+                        {/* Timing */}
+                        {med.timing && (
+                          <div className="flex items-center gap-3 bg-white bg-opacity-60 px-3 py-2 rounded-lg">
+                            <Utensils className="h-4 w-4 text-teal-600 flex-shrink-0" />
+                            <div>
+                              <p className="text-xs text-gray-600 font-medium">Timing</p>
+                              <p className="text-sm font-semibold text-gray-900">{med.timing}</p>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -446,7 +601,7 @@ ${localPrescription.followUp}
           )}
 
           {/* Investigations - Only show if present or editing */}
-          {isEditing || (localPrescription.investigations && localPrescription.investigations.length > 0) && (
+          {(isEditing || (localPrescription.investigations && localPrescription.investigations.length > 0)) && (
             <div>
               <Label className="text-xs font-semibold text-gray-700 uppercase">Laboratory Investigations</Label>
               {isEditing ? (
@@ -473,7 +628,7 @@ ${localPrescription.followUp}
           )}
 
           {/* Advice - Only show if present or editing */}
-          {isEditing || localPrescription.advice && (
+          {(isEditing || localPrescription.advice) && (
             <div className={isEditing || localPrescription.advice ? 'bg-blue-50 border-l-4 border-blue-500 p-3 rounded-r' : ''}>
               <Label className="text-xs font-semibold text-gray-700 uppercase">Patient Instructions</Label>
               {isEditing ? (
@@ -500,7 +655,7 @@ ${localPrescription.followUp}
           )}
 
           {/* Follow-up - Only show if present or editing */}
-          {isEditing || localPrescription.followUp && (
+          {(isEditing || localPrescription.followUp) && (
             <div>
               <Label className="text-xs font-semibold text-gray-700 uppercase">Follow-up</Label>
               {isEditing ? (
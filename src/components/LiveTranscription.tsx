@@ -1,239 +1,513 @@
 import { useEffect, useRef, useState } from 'react';
-import { Mic, MicOff, AlertCircle, Cloud, Zap, Radio } from 'lucide-react';
+import { Mic, MicOff, AlertCircle, Cloud, Zap, Radio, ArrowLeftRight, Pencil, Check, RefreshCw, Upload, Loader } from 'lucide-react';
 import { Button } from './ui/button';
 import { Alert, AlertDescription } from './ui/alert';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog';
 import { Checkbox } from './ui/checkbox';
+import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { useDeepgram } from '@/hooks/useDeepgram';
-import { assemblyaiProvider } from '@/services/stt/AssemblyAIProvider';
-import { VoiceAnalyzer } from '@/services/speaker-detection/VoiceAnalyzer';
+import { VoiceAnalyzer, type DoctorVoiceProfile } from '@/services/speaker-detection/VoiceAnalyzer';
+import { AudioCapture } from '@/services/audio/AudioCapture';
+import {
+  ConsultationRecorder,
+  DEFAULT_AUDIO_RETENTION_DAYS,
+  type ConsultationAudio,
+} from '@/services/audio/ConsultationRecorder';
+import { STT_SAMPLE_RATE } from '@/services/stt/pcm';
+import { useSettings } from '@/hooks/useApi';
+import { fetchClinicSettings, serviceManager } from '@/services/ServiceManager';
+import { STTFailoverController, type EngineSwitchEvent } from '@/services/stt/STTFailoverController';
+import { buildMedicalVocabulary, learnedTermsFromEdit, mergeLearnedVocabulary } from '@/services/stt/vocabulary';
+import { MedicalTermCorrector } from '@/services/stt/MedicalTermCorrector';
+import { ScriptNormalizer } from '@/services/stt/ScriptNormalizer';
+import {
+  CONSULTATION_LANGUAGES,
+  detectSegmentLanguage,
+  languageInfo,
+  outputScriptLabel,
+  type OutputScript,
+} from '@/utils/language';
+import { CorrectedText } from './CorrectedText';
+import type { TranscriptEvent } from '@/services/interfaces';
+import type { TranscriptSegment, TranscriptSpeaker } from '@/types';
+import {
+  applySpeakerRoles,
+  assignSpeakerRole,
+  createSegmentId,
+  diarizedToSegments,
+  editSegment,
+  segmentsToPlainText,
+  swapDoctorAndPatient,
+  type SpeakerRoleMap,
+} from '@/utils/transcript';
 
-type STTProvider = 'deepgram' | 'browser' | 'assemblyai';
+type EngineStatus = 'loading' | 'ready' | 'unavailable';
 
-export interface Message {
-  speaker: 'Doctor' | 'Patient';
-  text: string;
-  timestamp?: number;
-}
+// Final transcript segments plus engine switches, in the order they happened
+type TranscriptEntry =
+  | ({ kind: 'segment' } & TranscriptSegment)
+  | ({ kind: 'switch' } & EngineSwitchEvent);
 
 interface LiveTranscriptionProps {
   onTranscriptUpdate: (transcript: string) => void;
+  onSegmentsUpdate?: (segments: TranscriptSegment[]) => void;
   isRecording: boolean;
   onRecordingChange: (recording: boolean) => void;
   selectedLanguage: string;
   onLanguageChange: (language: string) => void;
+  /** Script the transcript is shown (and sent for extraction) in */
+  outputScript: OutputScript;
+  onOutputScriptChange: (script: OutputScript) => void;
+  /** Consultation the audio recording (if any) is archived under */
+  consultationId?: string | null;
+  /** Called once the consented audio recording has been uploaded */
+  onAudioRecorded?: (consultationId: string, audio: ConsultationAudio) => void;
+  /** Called when the voice activity detector sees the end of an utterance */
+  onUtteranceEnd?: () => void;
+  /** Medicines the patient is currently taking, boosted in recognition */
+  patientMedications?: string[];
+  /** Called after the doctor corrected a segment */
+  onTranscriptEdited?: () => void;
+  /** Run extraction again on the corrected transcript */
+  onRerunExtraction?: () => void;
+  isExtracting?: boolean;
+  /** A pre-recorded consultation was transcribed; extract and save it */
+  onRecordingUploaded?: (segments: TranscriptSegment[]) => Promise<void>;
 }
 
+// Phones often leave the type of voice recordings empty
+const AUDIO_TYPES_BY_EXTENSION: Record<string, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+};
+
 export function LiveTranscription({ 
   onTranscriptUpdate,
+  onSegmentsUpdate,
   isRecording, 
   onRecordingChange,
   selectedLanguage,
-  onLanguageChange
+  onLanguageChange,
+  outputScript,
+  onOutputScriptChange,
+  consultationId,
+  onAudioRecorded,
+  onUtteranceEnd,
+  patientMedications = [],
+  onTranscriptEdited,
+  onRerunExtraction,
+  isExtracting = false,
+  onRecordingUploaded
 }: LiveTranscriptionProps) {
   const [transcript, setTranscript] = useState('');
   const [interimTranscript, setInterimTranscript] = useState('');
   const [error, setError] = useState<string | null>(null);
-  const [isSupported, setIsSupported] = useState(true);
   const [showConsentDialog, setShowConsentDialog] = useState(false);
   const [consentGiven, setConsentGiven] = useState(false);
-  const [currentProvider, setCurrentProvider] = useState<STTProvider>('browser');
-  const [isAssemblyAIInitialized, setIsAssemblyAIInitialized] = useState(false);
-  const [isAssemblyAILoading, setIsAssemblyAILoading] = useState(false);
+  const [recordAudio, setRecordAudio] = useState(false);
+  const [isRecordingAudio, setIsRecordingAudio] = useState(false);
+  // How long the clinic keeps audio, as the relay will apply it - shown in the consent text
+  const [audioRetentionDays, setAudioRetentionDays] = useState(DEFAULT_AUDIO_RETENTION_DAYS);
+  // Engine chosen in ServiceManager vs. the one actually running (may be a fallback)
+  const [selectedEngine, setSelectedEngine] = useState(() => serviceManager.getSelection().stt);
+  const [activeEngine, setActiveEngine] = useState(selectedEngine);
+  const [engineStatus, setEngineStatus] = useState<EngineStatus>('loading');
+  const sttEngines = serviceManager.getRegisteredProviders('stt');
   
-  const recognitionRef = useRef<any>(null);
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const [switchNotice, setSwitchNotice] = useState<string | null>(null);
+  const [speakerRoles, setSpeakerRoles] = useState<SpeakerRoleMap>({});
+  const [micLevel, setMicLevel] = useState({ rms: 0, isSpeech: false });
+  const [isEditing, setIsEditing] = useState(false);
+  // Chosen recording waiting for the consent confirmation
+  const [pendingUpload, setPendingUpload] = useState<File | null>(null);
+  const [isProcessingUpload, setIsProcessingUpload] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  const failoverRef = useRef<STTFailoverController | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
-  const audioAnalysisRef = useRef<any>(null);
+  const audioAnalysisRef = useRef<{ capture: AudioCapture; unsubscribe: () => void } | null>(null);
+  const levelMeterRef = useRef<{ capture: AudioCapture; unsubscribe: () => void } | null>(null);
   const transcriptRef = useRef('');
-  const messagesRef = useRef<Message[]>([]);
+  const segmentsRef = useRef<TranscriptSegment[]>([]);
+  const speakerRolesRef = useRef<SpeakerRoleMap>({});
   const voiceAnalyzerRef = useRef<VoiceAnalyzer | null>(null);
+  const voiceProfileRef = useRef<DoctorVoiceProfile | null>(null);
+  const recorderRef = useRef<ConsultationRecorder | null>(null);
+  const correctorRef = useRef<MedicalTermCorrector | null>(null);
+  const normalizerRef = useRef<ScriptNormalizer | null>(null);
+  // Frame listeners outlive renders, so they call the latest callback through a ref
+  const onUtteranceEndRef = useRef(onUtteranceEnd);
+  onUtteranceEndRef.current = onUtteranceEnd;
+  const { settings, fetchSettings, updateSettings } = useSettings();
   const currentSpeakerRef = useRef<'Patient' | 'Doctor'>('Patient');
   const lastSpeakerChangeTimeRef = useRef(0);
   const minSpeakerChangeDurationRef = useRef(2000); // Minimum 2 seconds before switching speaker
-  const isRecognitionRunningRef = useRef(false); // Track if recognition is currently running
 
-  // Deepgram hook initialization
-  const deepgram = useDeepgram({
-    onTranscriptUpdate: (text: string, isFinal: boolean) => {
-      if (currentProvider !== 'deepgram') return;
-      
-      if (isFinal && text.trim()) {
-        // Simple raw text accumulation - no role-based filtering
-        transcriptRef.current += text.trim() + ' ';
-        setTranscript(transcriptRef.current);
-        onTranscriptUpdate(transcriptRef.current);
-      } else {
-        setInterimTranscript(text);
-      }
-    },
-    onError: (deepgramError) => {
-      console.error('Deepgram error:', deepgramError);
-      // Fallback to browser STT
-      setCurrentProvider('browser');
-      setError(`Deepgram unavailable, switched to browser STT: ${deepgramError}`);
-      // Start browser recognition
-      if (recognitionRef.current && isRecording) {
-        setTimeout(() => recognitionRef.current?.start(), 100);
-      }
-    },
-  });
+  const engineLabel = (id: string) => sttEngines.find((engine) => engine.id === id)?.label || id;
 
-  // Speaker detection removed - using simple raw text accumulation
-  // This matches the approach in the attached app for better accuracy
+  // Label a segment only when the speaker differs from the previous segment
+  const isNewSpeakerTurn = (index: number) => {
+    const current = entries[index];
+    for (let i = index - 1; i >= 0; i--) {
+      const previous = entries[i];
+      if (previous.kind === 'segment' && current.kind === 'segment') {
+        return previous.speaker !== current.speaker;
+      }
+    }
+    return true;
+  };
 
+  // Warm up the selected engine so the status indicator reflects availability
   useEffect(() => {
-    // Initialize AssemblyAI provider
-    const initAssemblyAI = async () => {
-      try {
-        setIsAssemblyAILoading(true);
-        await assemblyaiProvider.initialize();
-        setIsAssemblyAIInitialized(true);
-        console.log('✓ AssemblyAI provider initialized');
-      } catch (err) {
-        console.warn('AssemblyAI initialization failed:', err);
-        setIsAssemblyAIInitialized(false);
-      } finally {
-        setIsAssemblyAILoading(false);
-      }
+    let cancelled = false;
+    setEngineStatus('loading');
+
+    serviceManager.getSTTProvider()
+      .then((provider) => {
+        if (!cancelled) setEngineStatus(provider.isSupported() ? 'ready' : 'unavailable');
+      })
+      .catch((err) => {
+        console.warn(`${engineLabel(selectedEngine)} initialization failed:`, err);
+        if (!cancelled) setEngineStatus('unavailable');
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [selectedEngine]);
 
-    initAssemblyAI();
+  // The doctor's enrolled voice profile, if any, for acoustic speaker detection
+  useEffect(() => {
+    fetchSettings();
+    fetchClinicSettings()
+      .then(({ audio_retention_days }) => setAudioRetentionDays(audio_retention_days ?? DEFAULT_AUDIO_RETENTION_DAYS))
+      .catch((error) => console.warn('Could not load the clinic settings:', error));
   }, []);
 
   useEffect(() => {
-    // Check if browser supports Web Speech API
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (!SpeechRecognition) {
-      setIsSupported(false);
-      setError('Speech recognition is not supported in this browser. Please use Chrome or Edge.');
-      return;
-    }
+    voiceProfileRef.current = settings?.voice_profile || null;
+  }, [settings]);
 
-    const recognition = new SpeechRecognition();
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    
-    // Set language based on selection
-    const langMap: { [key: string]: string } = {
-      'hindi': 'hi-IN',
-      'english': 'en-IN',
-      'hinglish': 'en-IN' // Use Indian English locale which tends to handle Hinglish better
-    };
-    recognition.lang = langMap[selectedLanguage] || 'hi-IN';
-
-    recognition.onresult = (event: any) => {
-      let interim = '';
-      let final = '';
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcriptText = event.results[i][0].transcript;
-        if (event.results[i].isFinal) {
-          final += transcriptText + ' ';
-        } else {
-          interim += transcriptText;
-        }
-      }
+  // The consultation is created after recording starts - audio recorded until then is held back,
+  // and the relay session is linked to it once it exists
+  useEffect(() => {
+    if (!consultationId) return;
+    recorderRef.current?.attach(consultationId);
+    failoverRef.current?.setConsultationId(consultationId);
+  }, [consultationId]);
+
+  // Clinics can turn audio archival off by setting retention to 0
+  const audioRecordingAvailable = audioRetentionDays > 0 && ConsultationRecorder.isSupported();
+
+  // Stop the engine whenever recording ends (Stop button or parent state change)
+  useEffect(() => {
+    if (isRecording) return;
+    stopEngine();
+  }, [isRecording]);
 
-      if (final && final.trim()) {
-        // Simple raw text accumulation - no role-based filtering
-        // Just add the text directly, matching the attached app approach for better accuracy
-        transcriptRef.current += final.trim() + ' ';
+  useEffect(() => {
+    return () => stopEngine();
+  }, []);
+
+  const handleEngineChange = (value: string) => {
+    try {
+      serviceManager.applySelection({ stt: value });
+      setSelectedEngine(value);
+      setActiveEngine(value);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Cannot use ${engineLabel(value)}`);
+    }
+  };
+
+  // Same handling for every engine - simple raw text accumulation, no role-based filtering
+  const handleTranscriptEvent = (event: TranscriptEvent) => {
+    if (event.isFinal) {
+      const heard = event.text.trim();
+      if (heard) {
+        const segment = prepareSegment({
+          id: createSegmentId(),
+          speaker: speakerForEvent(event),
+          speakerId: event.speaker,
+          text: heard,
+          start: event.start,
+          end: event.end,
+          engine: event.engine,
+          confidence: event.confidence,
+          language: event.language,
+        });
+        segmentsRef.current = [...segmentsRef.current, segment];
+        transcriptRef.current += segment.text + ' ';
         setTranscript(transcriptRef.current);
+        setEntries((prev) => [...prev, { kind: 'segment', ...segment }]);
         onTranscriptUpdate(transcriptRef.current);
+        onSegmentsUpdate?.(segmentsRef.current);
+        normalizeSegment(segment);
       }
-      
-      setInterimTranscript(interim);
-    };
+      setInterimTranscript('');
+    } else {
+      setInterimTranscript(event.text);
+    }
+  };
 
-    recognition.onstart = () => {
-      console.log('Speech recognition started');
-      isRecognitionRunningRef.current = true;
-      setError('');
+  // Misheard drug and condition names are fixed before anything downstream sees them
+  const prepareSegment = (segment: TranscriptSegment): TranscriptSegment => {
+    const heard = segment.text;
+    const { text, corrections } = correctorRef.current
+      ? correctorRef.current.correct(heard)
+      : { text: heard, corrections: [] };
+    return {
+      ...segment,
+      text,
+      // Engines report the session locale at best - the script tells what this segment is in
+      language: detectSegmentLanguage(text, selectedLanguage) || segment.language,
+      ...(corrections.length ? { originalText: heard, corrections } : {}),
     };
+  };
 
-    recognition.onerror = (event: any) => {
-      console.error('Speech recognition error:', event.error);
-      
-      if (event.error === 'no-speech') {
-        // Restart if no speech detected and not already starting
-        if (isRecording && !isRecognitionRunningRef.current) {
-          try {
-            recognition.stop();
-            setTimeout(() => {
-              if (isRecording && !isRecognitionRunningRef.current) {
-                recognition.start();
-              }
-            }, 100);
-          } catch (err) {
-            console.error('Error restarting after no-speech:', err);
-          }
-        }
-      } else if (event.error === 'not-allowed') {
-        setError('Microphone access denied. Please allow microphone access.');
-        onRecordingChange(false);
-      } else if (event.error !== 'aborted') {
-        setError(`Error: ${event.error}`);
-      }
-    };
+  // Bring a final segment into the output script once the conversion is back;
+  // the recognized text stays in `text`
+  const normalizeSegment = async (segment: TranscriptSegment) => {
+    const normalizedText = await normalizerRef.current?.normalize(segment.text, segment.language);
+    if (!normalizedText) return;
+    segmentsRef.current = segmentsRef.current.map((s) => (s.id === segment.id ? { ...s, normalizedText } : s));
+    setEntries((prev) =>
+      prev.map((entry) =>
+        entry.kind === 'segment' && entry.id === segment.id ? { ...entry, normalizedText } : entry
+      )
+    );
+    onSegmentsUpdate?.(segmentsRef.current);
+  };
 
-    recognition.onend = () => {
-      isRecognitionRunningRef.current = false;
-      // Restart if still recording and not already running
-      if (isRecording && !isRecognitionRunningRef.current) {
-        try {
-          recognition.start();
-        } catch (err) {
-          console.error('Error restarting recognition:', err);
-        }
+  // Diarizing engines number speakers - map them to roles, which the doctor can
+  // correct. Otherwise use the acoustic speaker detection.
+  const speakerForEvent = (event: TranscriptEvent): TranscriptSpeaker => {
+    if (event.speaker !== undefined) {
+      const roles = assignSpeakerRole(speakerRolesRef.current, event.speaker);
+      if (roles !== speakerRolesRef.current) {
+        speakerRolesRef.current = roles;
+        setSpeakerRoles(roles);
       }
-    };
+      return roles[event.speaker];
+    }
+    return audioAnalysisRef.current ? currentSpeakerRef.current : 'Unknown';
+  };
+
+  // Re-label everything transcribed so far with the corrected mapping
+  const updateSpeakerRoles = (roles: SpeakerRoleMap) => {
+    speakerRolesRef.current = roles;
+    setSpeakerRoles(roles);
+    segmentsRef.current = applySpeakerRoles(segmentsRef.current, roles);
+    setEntries((prev) =>
+      prev.map((entry) =>
+        entry.kind === 'segment' && entry.speakerId !== undefined && roles[entry.speakerId]
+          ? { ...entry, speaker: roles[entry.speakerId] }
+          : entry
+      )
+    );
+    onSegmentsUpdate?.(segmentsRef.current);
+  };
 
-    recognitionRef.current = recognition;
+  // The doctor corrected a segment after the session
+  const handleSegmentEdit = (segmentId: string, value: string) => {
+    const segment = segmentsRef.current.find((s) => s.id === segmentId);
+    const text = value.trim();
+    const shown = segment ? segment.normalizedText || segment.text : '';
+    if (!segment || !text || text === shown) return;
 
-    return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-    };
-  }, [selectedLanguage]);
+    const edited = { ...editSegment(segment, text), language: detectSegmentLanguage(text, selectedLanguage) || segment.language };
+    segmentsRef.current = segmentsRef.current.map((s) => (s.id === segmentId ? edited : s));
+    transcriptRef.current = segmentsToPlainText(segmentsRef.current);
+    setTranscript(transcriptRef.current);
+    setEntries((prev) =>
+      prev.map((entry) => (entry.kind === 'segment' && entry.id === segmentId ? { kind: 'segment', ...edited } : entry))
+    );
+    onTranscriptUpdate(transcriptRef.current);
+    onSegmentsUpdate?.(segmentsRef.current);
+    onTranscriptEdited?.();
+    learnFromEdit(shown, text);
+  };
 
-  // Handle recording lifecycle
-  useEffect(() => {
-    if (!recognitionRef.current) return;
-
-    if (isRecording && currentProvider === 'browser') {
-      // Only start if not already running
-      if (!isRecognitionRunningRef.current) {
-        try {
-          console.log('useEffect: Starting browser recognition');
-          recognitionRef.current.start();
-        } catch (error: any) {
-          console.error('useEffect: Error starting recognition:', error);
-          if (error.name === 'InvalidStateError') {
-            // Already started, that's okay
-            console.log('Recognition already active');
-            isRecognitionRunningRef.current = true;
-          } else {
-            setError('Failed to start recording');
-            onRecordingChange(false);
-          }
-        }
+  // Re-spelled drug names are boosted in later consultations
+  const learnFromEdit = (before: string, after: string) => {
+    const terms = learnedTermsFromEdit(before, after);
+    if (terms.length === 0) return;
+
+    updateSettings({ learned_vocabulary: mergeLearnedVocabulary(settings?.learned_vocabulary, terms) })
+      .then(() => console.log(`[Vocabulary] Learned from correction: ${terms.join(', ')}`))
+      .catch((err) => console.warn('[Vocabulary] Could not save learned terms:', err));
+  };
+
+  const handleSpeakerRoleChange = (speakerId: number, role: TranscriptSpeaker) => {
+    updateSpeakerRoles({ ...speakerRolesRef.current, [speakerId]: role });
+  };
+
+  const handleEngineChangeEvent = (event: EngineSwitchEvent) => {
+    setActiveEngine(event.to);
+    setEntries((prev) => [...prev, { kind: 'switch', ...event }]);
+    setSwitchNotice(
+      `${engineLabel(event.from)} failed (${event.reason}), switched to ${engineLabel(event.to)}` +
+      (event.replayedSeconds > 0 ? ` - replayed ${event.replayedSeconds.toFixed(1)}s of buffered audio` : '')
+    );
+    startAudioAnalysisFor(event.to);
+  };
+
+  const handleEngineError = (engineError: string, fatal: boolean) => {
+    console.error('STT error:', engineError);
+
+    if (engineError.includes('not-allowed')) {
+      setError('Microphone access denied. Please allow microphone access.');
+      onRecordingChange(false);
+    } else {
+      setError(engineError);
+      if (fatal) onRecordingChange(false);
+    }
+  };
+
+  // Cloud engines diarize; acoustic speaker detection is only needed for browser STT.
+  // Speaker state is kept across switches so attribution carries on.
+  const startAudioAnalysisFor = (engineId: string) => {
+    if (engineId === 'browser' && !audioAnalysisRef.current) {
+      startAudioAnalysis();
+    }
+  };
+
+  const stopEngine = () => {
+    const controller = failoverRef.current;
+    failoverRef.current = null;
+    if (controller) {
+      controller.stop().catch((err) => {
+        console.error('Error stopping STT engine:', err);
+        setError(err instanceof Error ? err.message : 'Failed to stop speech-to-text');
+      });
+    }
+    // stop audio analysis if running
+    try { stopAudioAnalysis(); } catch (e) {}
+    stopLevelMeter();
+    stopAudioRecording();
+    if (micStreamRef.current) {
+      micStreamRef.current.getTracks().forEach((track) => track.stop());
+      micStreamRef.current = null;
+    }
+    setInterimTranscript('');
+  };
+
+  const startAudioRecording = (stream: MediaStream) => {
+    const recorder = new ConsultationRecorder();
+    try {
+      recorder.start(stream);
+      recorderRef.current = recorder;
+      setIsRecordingAudio(true);
+    } catch (err) {
+      console.warn('[Recorder] Audio recording unavailable:', err);
+      setError(`Audio will not be archived: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  // Must run before the microphone tracks are stopped so the last chunk is kept
+  const stopAudioRecording = () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsRecordingAudio(false);
+    if (!recorder) return;
+
+    recorder
+      .stop()
+      .then((audio) => {
+        const id = recorder.getConsultationId();
+        if (audio && id) onAudioRecorded?.(id, audio);
+      })
+      .catch((err) => console.error('[Recorder] Failed to archive consultation audio:', err));
+  };
+
+  const sessionVocabulary = () =>
+    buildMedicalVocabulary({
+      formulary: settings?.clinic_formulary,
+      learned: settings?.learned_vocabulary,
+      patientMedications,
+    });
+
+  // Show everything transcribed so far in place of the current transcript
+  const showSegments = (segments: TranscriptSegment[], roles: SpeakerRoleMap) => {
+    segmentsRef.current = segments;
+    transcriptRef.current = segmentsToPlainText(segments);
+    speakerRolesRef.current = roles;
+    setSpeakerRoles(roles);
+    setTranscript(transcriptRef.current);
+    setEntries(segments.map((segment) => ({ kind: 'segment' as const, ...segment })));
+    setSwitchNotice(null);
+    setIsEditing(false);
+    onTranscriptUpdate(transcriptRef.current);
+    onSegmentsUpdate?.(segmentsRef.current);
+  };
+
+  const closeConsentDialog = () => {
+    setShowConsentDialog(false);
+    setPendingUpload(null);
+  };
+
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again after a failure
+    event.target.value = '';
+    if (!file) return;
+    setPendingUpload(file);
+    setShowConsentDialog(true);
+  };
+
+  // A consultation recorded elsewhere (e.g. on the doctor's phone): batch
+  // transcription with diarization, then the same correction and script
+  // handling as a live session
+  const processRecordingUpload = async (file: File) => {
+    setShowConsentDialog(false);
+    setPendingUpload(null);
+    setError(null);
+    setIsProcessingUpload(true);
+
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase() || '';
+      const type = file.type || AUDIO_TYPES_BY_EXTENSION[extension];
+      if (!type) {
+        throw new Error(`Unsupported audio file: ${file.name}`);
       }
-    } else if (!isRecording) {
-      // Stop if currently running
-      if (isRecognitionRunningRef.current) {
-        try {
-          console.log('useEffect: Stopping recognition');
-          recognitionRef.current.stop();
-          isRecognitionRunningRef.current = false;
-        } catch (error) {
-          console.error('useEffect: Error stopping recognition:', error);
-        }
+
+      const vocabulary = sessionVocabulary();
+      const language = languageInfo(selectedLanguage);
+      // Uploads always go to the relay's diarizing batch engine, whichever
+      // engine is selected for live sessions
+      const engine = await serviceManager.createSTTProvider('deepgram');
+      if (!engine.transcribeFile) {
+        throw new Error(`${engine.getProviderName()} cannot transcribe recordings`);
       }
+      console.log(`[Upload] Transcribing ${file.name} (${(file.size / 1024 / 1024).toFixed(1)} MB)`);
+      const transcription = await engine.transcribeFile(
+        new Blob([file], { type }),
+        language.codeMixed ? 'multi' : language.locale,
+        vocabulary
+      );
+
+      correctorRef.current = new MedicalTermCorrector(vocabulary);
+      normalizerRef.current = new ScriptNormalizer(selectedLanguage, outputScript);
+      const { segments, roles } = diarizedToSegments(transcription.segments, 'deepgram', createSegmentId());
+      showSegments(segments.map(prepareSegment), roles);
+      // Extraction and the saved consultation should see the output script
+      await Promise.all(segmentsRef.current.map(normalizeSegment));
+
+      await onRecordingUploaded?.(segmentsRef.current);
+    } catch (err) {
+      console.error('[Upload] Processing failed:', err);
+      setError(`Could not process the recording: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsProcessingUpload(false);
     }
-  }, [isRecording, currentProvider, onRecordingChange]);
+  };
 
   const handleConsentAndStart = async () => {
     if (!consentGiven) {
@@ -280,94 +554,52 @@ export function LiveTranscription({
       
       // Reset transcript for new recording
       transcriptRef.current = '';
-      messagesRef.current = [];
+      segmentsRef.current = [];
+      speakerRolesRef.current = {};
       currentSpeakerRef.current = 'Patient';
       lastSpeakerChangeTimeRef.current = 0;
       setTranscript('');
+      setSpeakerRoles({});
 
-      // Use user's selected provider
-      if (currentProvider === 'deepgram' && deepgram.isInitialized) {
-        console.log('Starting Deepgram...');
-        try {
-          await deepgram.startListening(micStreamRef.current!);
-          console.log('✓ Using Deepgram (Cloud STT)');
-        } catch (deepgramError) {
-          console.error('Deepgram start error:', deepgramError);
-          // Fallback to browser
-          setCurrentProvider('browser');
-          setError('Deepgram unavailable, using browser STT as fallback');
-          if (recognitionRef.current) {
-            recognitionRef.current.start();
-          }
-        }
-      } else if (currentProvider === 'deepgram' && !deepgram.isInitialized) {
-        // User selected Deepgram but it's not available
-        console.log('Deepgram not initialized, falling back to browser STT');
-        setCurrentProvider('browser');
-        setError('Deepgram not available, using browser STT as fallback');
-        if (recognitionRef.current) {
-          recognitionRef.current.start();
-          // start audio analysis in parallel to recognition (for pitch/VAD)
-          startAudioAnalysis();
-        }
-      } else if (currentProvider === 'assemblyai' && isAssemblyAIInitialized) {
-        console.log('Starting AssemblyAI...');
-        try {
-          await assemblyaiProvider.startListening(
-            (text: string, isFinal: boolean) => {
-              if (isFinal && text.trim()) {
-                // Simple raw text accumulation - no role-based filtering
-                transcriptRef.current += text.trim() + ' ';
-                setTranscript(transcriptRef.current);
-                onTranscriptUpdate(transcriptRef.current);
-              } else {
-                setInterimTranscript(text);
-              }
-            },
-            (error: string) => {
-              console.error('AssemblyAI error:', error);
-              // Fallback to browser
-              setCurrentProvider('browser');
-              setError(`AssemblyAI unavailable, switched to browser STT: ${error}`);
-              if (recognitionRef.current && isRecording) {
-                setTimeout(() => recognitionRef.current?.start(), 100);
-              }
-            },
-            micStreamRef.current! // Pass the existing stream
-          );
-          console.log('✓ Using AssemblyAI (Cloud STT)');
-        } catch (assemblyError) {
-          console.error('AssemblyAI start error:', assemblyError);
-          // Fallback to browser
-          setCurrentProvider('browser');
-          setError('AssemblyAI unavailable, using browser STT as fallback');
-          if (recognitionRef.current) {
-            recognitionRef.current.start();
-          }
-        }
-      } else if (currentProvider === 'assemblyai' && !isAssemblyAIInitialized) {
-        // User selected AssemblyAI but it's not available
-        console.log('AssemblyAI not initialized, falling back to browser STT');
-        setCurrentProvider('browser');
-        setError('AssemblyAI not available, using browser STT as fallback');
-        if (recognitionRef.current) {
-          recognitionRef.current.start();
-          startAudioAnalysis();
-        }
-      } else {
-        // User selected browser STT
-        console.log('✓ Using browser STT');
-        try {
-          if (recognitionRef.current) {
-            recognitionRef.current.start();
-            startAudioAnalysis();
+      setEntries([]);
+      setSwitchNotice(null);
+      setIsEditing(false);
+
+      await startLevelMeter(micStreamRef.current!);
+      if (recordAudio && audioRecordingAvailable) {
+        startAudioRecording(micStreamRef.current!);
+      }
+
+      // Start with the user's selected engine, falling back down the configured chain
+      const vocabulary = sessionVocabulary();
+      correctorRef.current = new MedicalTermCorrector(vocabulary);
+      normalizerRef.current = new ScriptNormalizer(selectedLanguage, outputScript);
+      const language = languageInfo(selectedLanguage);
+      const controller = new STTFailoverController();
+      controller.setVocabulary(vocabulary);
+      controller.setCodeMixed(language.codeMixed);
+      failoverRef.current = controller;
+      try {
+        const engineId = await controller.start(
+          language.locale,
+          micStreamRef.current!,
+          {
+            onTranscript: handleTranscriptEvent,
+            onEngineChange: handleEngineChangeEvent,
+            onError: handleEngineError,
           }
-        } catch (startErr) {
-          console.error('Error starting browser STT:', startErr);
-          setError(`Failed to start browser STT: ${(startErr as any)?.message || 'Unknown error'}`);
-          onRecordingChange(false);
-          return;
+        );
+        setActiveEngine(engineId);
+        if (engineId !== selectedEngine) {
+          setSwitchNotice(`${engineLabel(selectedEngine)} unavailable, using ${engineLabel(engineId)} as fallback`);
         }
+        startAudioAnalysisFor(engineId);
+        console.log(`✓ Using ${engineLabel(engineId)}`);
+      } catch (engineError: any) {
+        console.error('STT start error:', engineError);
+        setError(engineError?.message || 'Failed to start speech-to-text');
+        stopEngine();
+        return;
       }
       
       onRecordingChange(true);
@@ -404,98 +636,94 @@ export function LiveTranscription({
     }
   };
 
-  // Acoustic-based real speaker detection using VoiceAnalyzer
-  const startAudioAnalysis = () => {
+  // Acoustic-based real speaker detection using VoiceAnalyzer, fed from the shared capture
+  const startAudioAnalysis = async () => {
+    if (!micStreamRef.current) {
+      console.warn('[Audio Analysis] No media stream available');
+      return;
+    }
+
+    console.log('[Audio Analysis] Starting acoustic speaker detection...');
+
     try {
-      if (!micStreamRef.current) {
-        console.warn('[Audio Analysis] No media stream available');
-        return;
-      }
-      
-      console.log('[Audio Analysis] Starting acoustic speaker detection...');
-      
-      try {
-        const AudioCtx = (window as any).AudioContext || (window as any).webkitAudioContext;
-        const actx = new AudioCtx();
-        const src = actx.createMediaStreamSource(micStreamRef.current);
-        
-        // Create analyser for voice characteristics
-        const analyser = actx.createAnalyser();
-        analyser.fftSize = 2048;
-        analyser.smoothingTimeConstant = 0.3;
-        
-        // Initialize voice analyzer for speaker detection
-        voiceAnalyzerRef.current = new VoiceAnalyzer(actx.sampleRate);
-        currentSpeakerRef.current = 'Patient'; // Start with patient
-        
-        // Create processor for real-time analysis
-        const processor = actx.createScriptProcessor(2048, 1, 1);
-        
-        processor.onaudioprocess = (ev: any) => {
-          try {
-            const data = ev.inputBuffer.getChannelData(0);
-            
-            // Skip silent frames
-            let sum = 0;
-            for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
-            const rms = Math.sqrt(sum / data.length);
-            
-            if (rms < 0.005) return; // Skip if too quiet
-            
-            // Analyze acoustic characteristics
-            const analyzer = voiceAnalyzerRef.current;
-            if (analyzer) {
-              const { changeEvent } = analyzer.analyzeFrame(data);
-              
-              // Check if speaker changed
-              if (changeEvent && Date.now() - lastSpeakerChangeTimeRef.current > minSpeakerChangeDurationRef.current) {
-                const newSpeaker = changeEvent.newSpeaker === 0 ? 'Patient' : 'Doctor';
-                currentSpeakerRef.current = newSpeaker;
-                lastSpeakerChangeTimeRef.current = Date.now();
-                
-                console.log(`🔊 Speaker change detected: ${newSpeaker}`, {
-                  confidence: changeEvent.confidence.toFixed(2),
-                  pitch: changeEvent.features.pitch.toFixed(0),
-                  energy: changeEvent.features.energy.toFixed(4),
-                  spectral: changeEvent.features.spectralCentroid.toFixed(0),
-                });
-              }
-            }
-          } catch (err) {
-            console.error('Error processing audio frame:', err);
-          }
-        };
-        
-        src.connect(analyser);
-        analyser.connect(processor);
-        processor.connect(actx.destination);
-        
-        audioAnalysisRef.current = { actx, processor, analyser };
-        console.log('[Audio Analysis] Acoustic analysis initialized successfully');
-      } catch (audioErr) {
-        console.warn('[Audio Analysis] Audio context setup failed, continuing without speaker detection:', audioErr);
-        // Don't fail - just continue without speaker detection
+      const capture = await AudioCapture.acquire(micStreamRef.current);
+
+      // Initialize voice analyzer for speaker detection, scoring against the
+      // doctor's enrolled voice when there is one
+      const analyzer = new VoiceAnalyzer(STT_SAMPLE_RATE);
+      if (voiceProfileRef.current) {
+        analyzer.setDoctorProfile(voiceProfileRef.current);
+        console.log('[Audio Analysis] Using enrolled doctor voice profile');
       }
-    } catch (err) {
-      console.error('[Audio Analysis] Failed to start audio analysis:', err);
-      // Don't fail - just continue without acoustic analysis
+      voiceAnalyzerRef.current = analyzer;
+      currentSpeakerRef.current = 'Patient'; // Start with patient
+
+      const unsubscribe = capture.subscribe((frame) => {
+        // Skip silent frames; speech frames already carry their features from the VAD
+        if (!frame.isSpeech) return;
+
+        const { changeEvent } = frame.features
+          ? analyzer.analyzeFeatures(frame.features)
+          : analyzer.analyzeFrame(frame.samples);
+
+        // Check if speaker changed
+        if (changeEvent && Date.now() - lastSpeakerChangeTimeRef.current > minSpeakerChangeDurationRef.current) {
+          const newSpeaker = changeEvent.newSpeaker === 0 ? 'Patient' : 'Doctor';
+          currentSpeakerRef.current = newSpeaker;
+          lastSpeakerChangeTimeRef.current = Date.now();
+
+          console.log(`🔊 Speaker change detected: ${newSpeaker}`, {
+            confidence: changeEvent.confidence.toFixed(2),
+            pitch: changeEvent.features.pitch.toFixed(0),
+            energy: changeEvent.features.energy.toFixed(4),
+            spectral: changeEvent.features.spectralCentroid.toFixed(0),
+          });
+        }
+      });
+
+      audioAnalysisRef.current = { capture, unsubscribe };
+      console.log('[Audio Analysis] Acoustic analysis initialized successfully');
+    } catch (audioErr) {
+      console.warn('[Audio Analysis] Audio capture failed, continuing without speaker detection:', audioErr);
+      // Don't fail - just continue without speaker detection
     }
   };
 
   const stopAudioAnalysis = () => {
+    const analysis = audioAnalysisRef.current;
+    audioAnalysisRef.current = null;
+    if (analysis) {
+      analysis.unsubscribe();
+      analysis.capture.release();
+    }
+    if (voiceAnalyzerRef.current) {
+      voiceAnalyzerRef.current.reset();
+      voiceAnalyzerRef.current = null;
+    }
+  };
+
+  // Input level meter and end-of-utterance events - also keeps the shared capture alive across engine switches
+  const startLevelMeter = async (stream: MediaStream) => {
     try {
-      const o = audioAnalysisRef.current;
-      if (o) {
-        try { o.processor.disconnect(); } catch (e) {}
-        try { o.analyser.disconnect(); } catch (e) {}
-        try { o.actx.close(); } catch (e) {}
-        audioAnalysisRef.current = null;
-      }
-      if (voiceAnalyzerRef.current) {
-        voiceAnalyzerRef.current.reset();
-        voiceAnalyzerRef.current = null;
-      }
-    } catch (err) {}
+      const capture = await AudioCapture.acquire(stream);
+      const unsubscribe = capture.subscribe((frame) => {
+        setMicLevel({ rms: frame.rms, isSpeech: frame.isSpeech });
+        if (frame.utteranceEnd) onUtteranceEndRef.current?.();
+      });
+      levelMeterRef.current = { capture, unsubscribe };
+    } catch (err) {
+      console.warn('[Audio Capture] Level meter unavailable:', err);
+    }
+  };
+
+  const stopLevelMeter = () => {
+    const meter = levelMeterRef.current;
+    levelMeterRef.current = null;
+    if (meter) {
+      meter.unsubscribe();
+      meter.capture.release();
+    }
+    setMicLevel({ rms: 0, isSpeech: false });
   };
 
   const toggleRecording = () => {
@@ -503,34 +731,11 @@ export function LiveTranscription({
       // Show consent dialog before starting
       setShowConsentDialog(true);
     } else {
-      // Stop recording
-      if (currentProvider === 'deepgram') {
-        deepgram.stopListening();
-      } else if (currentProvider === 'assemblyai') {
-        assemblyaiProvider.stopListening();
-      } else if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-      // stop audio analysis if running
-      try { stopAudioAnalysis(); } catch (e) {}
-      setInterimTranscript('');
+      // Stop recording - the isRecording effect shuts the engine down
       onRecordingChange(false);
     }
   };
 
-  if (!isSupported) {
-    return (
-      <div className="p-4">
-        <Alert variant="destructive">
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>
-            Speech recognition is not supported in this browser. Please use Google Chrome or Microsoft Edge.
-          </AlertDescription>
-        </Alert>
-      </div>
-    );
-  }
-
   return (
     <div className="h-full flex flex-col">
       {/* Header: Title + Record Button */}
@@ -540,6 +745,7 @@ export function LiveTranscription({
         {/* Start/Stop Recording Button - MAIN CONTROL */}
         <Button
           onClick={toggleRecording}
+          disabled={isProcessingUpload}
           className={`gap-2 ${isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-primary hover:bg-primary/90'}`}
         >
           {isRecording ? (
@@ -555,15 +761,37 @@ export function LiveTranscription({
           )}
         </Button>
 
+        {/* Pre-recorded consultation upload */}
+        {!isRecording && onRecordingUploaded && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="audio/*,.m4a,.opus"
+              className="hidden"
+              onChange={handleFileChosen}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isProcessingUpload}
+              className="gap-2"
+            >
+              {isProcessingUpload ? <Loader className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              {isProcessingUpload ? 'Processing...' : 'Upload Recording'}
+            </Button>
+          </>
+        )}
+
         {/* Recording Badge (while recording) */}
         {isRecording && (
           <div className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 rounded-full text-xs">
-            {currentProvider === 'deepgram' ? (
+            {activeEngine === 'deepgram' ? (
               <>
                 <Cloud className="h-3.5 w-3.5 text-blue-600" />
                 <span className="font-medium text-blue-600">Deepgram (Cloud)</span>
               </>
-            ) : currentProvider === 'assemblyai' ? (
+            ) : activeEngine === 'assemblyai' ? (
               <>
                 <Radio className="h-3.5 w-3.5 text-purple-600" />
                 <span className="font-medium text-purple-600">AssemblyAI (Cloud)</span>
@@ -571,11 +799,31 @@ export function LiveTranscription({
             ) : (
               <>
                 <Zap className="h-3.5 w-3.5 text-amber-600" />
-                <span className="font-medium text-amber-600">Browser STT (Recording...)</span>
+                <span className="font-medium text-amber-600">
+                  {activeEngine === 'browser' ? 'Browser STT (Recording...)' : engineLabel(activeEngine)}
+                </span>
               </>
             )}
           </div>
         )}
+
+        {/* Mic level (green while speech is detected) */}
+        {isRecording && (
+          <div className="w-20 h-1.5 bg-gray-200 rounded-full overflow-hidden" title="Microphone level">
+            <div
+              className={`h-full transition-all ${micLevel.isSpeech ? 'bg-green-500' : 'bg-gray-400'}`}
+              style={{ width: `${Math.min(100, Math.sqrt(micLevel.rms) * 250)}%` }}
+            />
+          </div>
+        )}
+
+        {/* Audio archival indicator */}
+        {isRecordingAudio && (
+          <span className="flex items-center gap-1 text-xs font-medium text-red-600" title="Consultation audio is being recorded">
+            <span className="inline-block w-2 h-2 bg-red-600 rounded-full animate-pulse"></span>
+            REC
+          </span>
+        )}
       </div>
 
       {/* Controls: Provider + Language Selection */}
@@ -585,60 +833,35 @@ export function LiveTranscription({
           <div className="flex items-center gap-2">
             <label className="text-xs text-gray-600 font-medium">Provider:</label>
             <Select 
-              value={currentProvider} 
-              onValueChange={(value: string) => setCurrentProvider(value as STTProvider)}
+              value={selectedEngine} 
+              onValueChange={handleEngineChange}
               disabled={isRecording}
             >
               <SelectTrigger className="w-[160px] h-8 bg-white">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="browser">
-                  Browser STT
-                </SelectItem>
-                <SelectItem value="deepgram">
-                  {deepgram.isInitialized ? '🌐 Deepgram' : '⚠️ Deepgram (Unavailable)'}
-                </SelectItem>
-                <SelectItem value="assemblyai">
-                  {isAssemblyAIInitialized ? '📻 AssemblyAI' : '⚠️ AssemblyAI (Unavailable)'}
-                </SelectItem>
+                {sttEngines.map((engine) => (
+                  <SelectItem key={engine.id} value={engine.id}>
+                    {engine.id === 'browser' ? 'Browser STT' : engine.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             {/* Status Indicator */}
             <div className="flex items-center gap-1 text-xs">
-              {currentProvider === 'deepgram' ? (
-                deepgram.isLoading ? (
-                  <span className="text-gray-500">Initializing...</span>
-                ) : deepgram.isInitialized ? (
-                  <span className="text-green-600 flex items-center gap-1">
-                    <span className="inline-block w-2 h-2 bg-green-600 rounded-full"></span>
-                    Ready
-                  </span>
-                ) : (
-                  <span className="text-amber-600 flex items-center gap-1">
-                    <span className="inline-block w-2 h-2 bg-amber-600 rounded-full"></span>
-                    Unavailable
-                  </span>
-                )
-              ) : currentProvider === 'assemblyai' ? (
-                isAssemblyAILoading ? (
-                  <span className="text-gray-500">Initializing...</span>
-                ) : isAssemblyAIInitialized ? (
-                  <span className="text-green-600 flex items-center gap-1">
-                    <span className="inline-block w-2 h-2 bg-green-600 rounded-full"></span>
-                    Ready
-                  </span>
-                ) : (
-                  <span className="text-amber-600 flex items-center gap-1">
-                    <span className="inline-block w-2 h-2 bg-amber-600 rounded-full"></span>
-                    Unavailable
-                  </span>
-                )
-              ) : (
+              {engineStatus === 'loading' ? (
+                <span className="text-gray-500">Initializing...</span>
+              ) : engineStatus === 'ready' ? (
                 <span className="text-green-600 flex items-center gap-1">
                   <span className="inline-block w-2 h-2 bg-green-600 rounded-full"></span>
                   Ready
                 </span>
+              ) : (
+                <span className="text-amber-600 flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 bg-amber-600 rounded-full"></span>
+                  Unavailable
+                </span>
               )}
             </div>
           </div>
@@ -650,13 +873,74 @@ export function LiveTranscription({
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="hinglish">Hinglish</SelectItem>
-            <SelectItem value="hindi">हिंदी (Hindi)</SelectItem>
-            <SelectItem value="english">English</SelectItem>
+            {Object.entries(CONSULTATION_LANGUAGES).map(([id, language]) => (
+              <SelectItem key={id} value={id}>
+                {language.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Output Script Selector */}
+        <Select
+          value={outputScript}
+          onValueChange={(value: string) => onOutputScriptChange(value as OutputScript)}
+          disabled={isRecording}
+        >
+          <SelectTrigger className="w-[170px] h-8 bg-white" title="Script the transcript is written in">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(['native', 'roman', 'english'] as OutputScript[]).map((script) => (
+              <SelectItem key={script} value={script}>
+                {outputScriptLabel(script, selectedLanguage)}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
 
+      {switchNotice && (
+        <Alert className="mb-4 border-amber-200 bg-amber-50 text-amber-800">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{switchNotice}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Diarized speakers - fix the role mapping if the patient spoke first */}
+      {Object.keys(speakerRoles).length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-xs">
+          <span className="text-gray-600 font-medium">Speakers:</span>
+          {Object.entries(speakerRoles).map(([id, role]) => (
+            <div key={id} className="flex items-center gap-1.5">
+              <span className="text-gray-500">Speaker {Number(id) + 1}</span>
+              <Select
+                value={role}
+                onValueChange={(value: string) => handleSpeakerRoleChange(Number(id), value as TranscriptSpeaker)}
+              >
+                <SelectTrigger className="w-[110px] h-7 bg-white text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Doctor">Doctor</SelectItem>
+                  <SelectItem value="Patient">Patient</SelectItem>
+                  <SelectItem value="Attendant">Attendant</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => updateSpeakerRoles(swapDoctorAndPatient(speakerRolesRef.current))}
+          >
+            <ArrowLeftRight className="h-3 w-3" />
+            Swap Doctor/Patient
+          </Button>
+        </div>
+      )}
+
       {error && (
         <Alert variant="destructive" className="mb-4">
           <AlertCircle className="h-4 w-4" />
@@ -664,10 +948,88 @@ export function LiveTranscription({
         </Alert>
       )}
 
+      {/* After the session: correct the transcript and extract again */}
+      {!isRecording && transcript && (
+        <div className="flex items-center gap-2 mb-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => setIsEditing((editing) => !editing)}
+          >
+            {isEditing ? <Check className="h-3 w-3" /> : <Pencil className="h-3 w-3" />}
+            {isEditing ? 'Done Editing' : 'Edit Transcript'}
+          </Button>
+          {onRerunExtraction && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={onRerunExtraction}
+              disabled={isExtracting}
+            >
+              <RefreshCw className={`h-3 w-3 ${isExtracting ? 'animate-spin' : ''}`} />
+              Re-run Extraction
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className="flex-1 bg-white border rounded-lg p-4 overflow-auto">
-        {transcript ? (
+        {transcript && isEditing ? (
+          <div className="space-y-2">
+            {entries.map((entry) =>
+              entry.kind === 'segment' ? (
+                <div key={`${entry.id}-${entry.edits?.length || 0}`}>
+                  {entry.speaker !== 'Unknown' && (
+                    <span className="text-xs font-semibold text-gray-600">{entry.speaker}</span>
+                  )}
+                  <Textarea
+                    defaultValue={entry.normalizedText || entry.text}
+                    onBlur={(e) => handleSegmentEdit(entry.id, e.target.value)}
+                    rows={2}
+                    className="text-sm bg-white border-gray-200"
+                  />
+                  {entry.originalText && entry.originalText !== entry.text && (
+                    <p className="text-xs text-gray-400 mt-0.5">Recognized: {entry.originalText}</p>
+                  )}
+                </div>
+              ) : null
+            )}
+          </div>
+        ) : transcript ? (
           <div className="text-sm leading-relaxed text-gray-800">
-            <p className="whitespace-pre-wrap">{transcript}</p>
+            <p className="whitespace-pre-wrap">
+              {entries.map((entry, index) =>
+                entry.kind === 'segment' ? (
+                  <span key={entry.id} title={`Transcribed by ${engineLabel(entry.engine)}`}>
+                    {entry.speaker !== 'Unknown' && isNewSpeakerTurn(index) && (
+                      <span className="block mt-2 font-semibold text-gray-600">{entry.speaker}:</span>
+                    )}
+                    <CorrectedText
+                      text={entry.text}
+                      corrections={entry.corrections}
+                      normalizedText={entry.normalizedText}
+                    />
+                    {entry.edits?.length ? (
+                      <sup
+                        className="ml-0.5 text-[10px] text-blue-600"
+                        title={entry.edits.map((edit) => `"${edit.before}" -> "${edit.after}"`).join('\n')}
+                      >
+                        edited
+                      </sup>
+                    ) : null}{' '}
+                  </span>
+                ) : (
+                  <span
+                    key={index}
+                    className="block my-2 px-2 py-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded"
+                  >
+                    Switched from {engineLabel(entry.from)} to {engineLabel(entry.to)}
+                  </span>
+                )
+              )}
+            </p>
             {interimTranscript && (
               <span className="text-gray-400 italic">{interimTranscript}</span>
             )}
@@ -687,12 +1049,14 @@ export function LiveTranscription({
       </div>
 
       {/* Consent Dialog */}
-      <Dialog open={showConsentDialog} onOpenChange={setShowConsentDialog}>
+      <Dialog open={showConsentDialog} onOpenChange={(open: boolean) => !open && closeConsentDialog()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Patient Consent Required</DialogTitle>
             <DialogDescription>
-              Before starting the recording, please confirm the following:
+              {pendingUpload
+                ? `Before processing ${pendingUpload.name}, please confirm the following:`
+                : 'Before starting the recording, please confirm the following:'}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 my-4">
@@ -715,17 +1079,32 @@ export function LiveTranscription({
                 that this data will be stored securely and used only for their healthcare.
               </label>
             </div>
+
+            {audioRecordingAvailable && !pendingUpload && (
+              <div className="flex items-start space-x-3 p-4 bg-gray-50 border border-gray-200 rounded-md">
+                <Checkbox
+                  id="record-audio"
+                  checked={recordAudio}
+                  onCheckedChange={(checked: boolean | 'indeterminate') => setRecordAudio(checked === true)}
+                />
+                <label htmlFor="record-audio" className="text-sm leading-relaxed cursor-pointer">
+                  Also keep an audio recording of this consultation so the transcript can be checked later.
+                  The patient agrees to the recording being stored for{' '}
+                  {audioRetentionDays} days.
+                </label>
+              </div>
+            )}
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowConsentDialog(false)}>
+            <Button variant="outline" onClick={closeConsentDialog}>
               Cancel
             </Button>
             <Button 
-              onClick={handleConsentAndStart}
+              onClick={() => (pendingUpload ? processRecordingUpload(pendingUpload) : handleConsentAndStart())}
               disabled={!consentGiven}
               className="bg-primary hover:bg-primary/90"
             >
-              Allow Microphone & Start Recording
+              {pendingUpload ? 'Transcribe Recording' : 'Allow Microphone & Start Recording'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1,6 +1,6 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { type LLMProvider } from '@/services/llm/LLMManager';
-import { LLMManager } from '@/services/llm/LLMManager';
+import { type LLMProvider } from '@/services/llm/types';
+import { getAvailableModels } from '@/services/llm/models';
 
 interface ModelSelectorProps {
   provider: LLMProvider;
@@ -15,7 +15,7 @@ export function ModelSelector({
   onModelChange,
   isAnalyzing = false
 }: ModelSelectorProps) {
-  const availableModels = LLMManager.getAvailableModels(provider);
+  const availableModels = getAvailableModels(provider);
 
   return (
     <div className="flex items-center gap-2">
@@ -241,7 +241,7 @@ export function PatientLifecycle({ onPatientSelect }: PatientLifecycleProps) {
                           <div key={idx} className="p-3 bg-gray-50 rounded text-sm">
                             <div className="font-medium text-gray-900">{med.name}</div>
                             <div className="text-gray-600 mt-1">
-                              {med.dosage} • {med.frequency} • {med.duration}
+                              {med.dosage} • {med.frequency} • {med.duration}{med.timing && ` • ${med.timing}`}
                             </div>
                           </div>
                         ))}
@@ -1,14 +1,49 @@
 import { useState, useEffect } from 'react';
-import { Save, User, Building, Palette } from 'lucide-react';
+import { Save, User, Building, Palette, Server, Mic, Archive, Pill } from 'lucide-react';
 import { Card } from './ui/card';
 import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
 import { Label } from './ui/label';
 import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { useSettings } from '../hooks/useApi';
+import { fetchClinicSettings, saveClinicSettings, serviceManager } from '../services/ServiceManager';
+import type { ServiceKind, ServiceProviderSelection } from '../services/ServiceConfig';
+import type { DoctorVoiceProfile } from '../services/speaker-detection/VoiceAnalyzer';
+import { DEFAULT_AUDIO_RETENTION_DAYS } from '../services/audio/ConsultationRecorder';
+import { VoiceEnrollment } from './VoiceEnrollment';
 import { toast } from 'sonner@2.0.3';
 
-export function Settings() {
+const PROVIDER_FIELDS: Array<{ kind: ServiceKind; label: string }> = [
+  { kind: 'stt', label: 'Speech-to-Text' },
+  { kind: 'llm', label: 'AI Extraction (LLM)' },
+  { kind: 'database', label: 'Database' },
+  { kind: 'auth', label: 'Authentication' },
+];
+
+const AUDIO_RETENTION_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 0, label: 'Off - do not record audio' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+interface SettingsProps {
+  onProviderSelectionChange?: (selection: ServiceProviderSelection) => void;
+}
+
+export function Settings({ onProviderSelectionChange }: SettingsProps = {}) {
   const { settings, fetchSettings, updateSettings, loading } = useSettings();
+  const [providers, setProviders] = useState<ServiceProviderSelection>(() => serviceManager.getSelection());
+  const providerProblems = serviceManager.validateSelection(providers);
+  // Providers and audio retention belong to the clinic; only its admin (or a doctor without a clinic) changes them
+  const [canManageClinic, setCanManageClinic] = useState(false);
+  const [voiceProfile, setVoiceProfile] = useState<DoctorVoiceProfile | null>(null);
+  const [audioRetentionDays, setAudioRetentionDays] = useState(DEFAULT_AUDIO_RETENTION_DAYS);
+  // One medicine per line
+  const [formulary, setFormulary] = useState('');
+  const [learnedVocabulary, setLearnedVocabulary] = useState('');
   
   const [formData, setFormData] = useState({
     doctor_name: '',
@@ -22,6 +57,13 @@ export function Settings() {
 
   useEffect(() => {
     fetchSettings();
+    fetchClinicSettings()
+      .then(({ service_providers, audio_retention_days, can_manage }) => {
+        setProviders({ ...serviceManager.getSelection(), ...service_providers });
+        setAudioRetentionDays(audio_retention_days ?? DEFAULT_AUDIO_RETENTION_DAYS);
+        setCanManageClinic(can_manage);
+      })
+      .catch((error) => console.warn('Could not load the clinic settings:', error));
   }, []);
 
   useEffect(() => {
@@ -35,15 +77,39 @@ export function Settings() {
         clinic_address: settings.clinic_address || '',
         theme_color: settings.theme_color || '#3e65f3',
       });
+      setVoiceProfile(settings.voice_profile || null);
+      setFormulary((settings.clinic_formulary || []).join('\n'));
+      setLearnedVocabulary((settings.learned_vocabulary || []).join('\n'));
     }
   }, [settings]);
 
   const handleSave = async () => {
     try {
-      await updateSettings(formData);
+      let selection = serviceManager.getSelection();
+      if (canManageClinic) {
+        // Validate first so an invalid selection is never stored for the clinic,
+        // and switch this device only once the clinic record has it
+        const problems = Object.values(providerProblems).flat();
+        if (problems.length > 0) throw new Error(problems.join('; '));
+        await saveClinicSettings({ service_providers: providers, audio_retention_days: audioRetentionDays });
+        selection = serviceManager.applySelection(providers);
+      }
+      await updateSettings({
+        ...formData,
+        voice_profile: voiceProfile,
+        clinic_formulary: formulary
+          .split(/[\n,]/)
+          .map((name) => name.trim())
+          .filter(Boolean),
+        learned_vocabulary: learnedVocabulary
+          .split(/[\n,]/)
+          .map((term) => term.trim())
+          .filter(Boolean),
+      });
+      onProviderSelectionChange?.(selection);
       toast.success('Settings saved successfully');
     } catch (error) {
-      toast.error('Failed to save settings');
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
     }
   };
 
@@ -181,6 +247,141 @@ export function Settings() {
         </div>
       </Card>
 
+      {/* Service Providers */}
+      <Card className="p-6 bg-white border-gray-200">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-amber-50 rounded-lg">
+            <Server className="h-5 w-5 text-amber-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Service Providers</h2>
+            <p className="text-sm text-gray-500">
+              {canManageClinic
+                ? 'Engines used by everyone in this clinic (applies without reloading)'
+                : 'Engines used by everyone in this clinic, chosen by your clinic admin'}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {PROVIDER_FIELDS.map(({ kind, label }) => (
+            <div key={kind}>
+              <Label htmlFor={`provider_${kind}`}>{label}</Label>
+              <Select
+                value={providers[kind]}
+                disabled={!canManageClinic}
+                onValueChange={(value: string) => setProviders(prev => ({ ...prev, [kind]: value }))}
+              >
+                <SelectTrigger id={`provider_${kind}`} className="bg-white border-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {serviceManager.getRegisteredProviders(kind).map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {providerProblems[kind].length > 0 && (
+                <p className="text-xs text-red-600 mt-1">{providerProblems[kind].join(', ')}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* Doctor Voice Enrollment */}
+      <Card className="p-6 bg-white border-gray-200">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-rose-50 rounded-lg">
+            <Mic className="h-5 w-5 text-rose-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Voice Profile</h2>
+            <p className="text-sm text-gray-500">Read a short passage so live transcription can recognise your voice</p>
+          </div>
+        </div>
+
+        <VoiceEnrollment profile={voiceProfile} onProfileChange={setVoiceProfile} />
+      </Card>
+
+      {/* Consultation Audio */}
+      <Card className="p-6 bg-white border-gray-200">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-gray-100 rounded-lg">
+            <Archive className="h-5 w-5 text-gray-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Consultation Audio</h2>
+            <p className="text-sm text-gray-500">
+              {canManageClinic
+                ? 'Recordings are only made with patient consent and deleted after this period'
+                : 'Recordings are only made with patient consent and deleted after the period your clinic admin chose'}
+            </p>
+          </div>
+        </div>
+
+        <div className="max-w-xs">
+          <Label htmlFor="audio_retention">Keep recordings for</Label>
+          <Select
+            value={String(audioRetentionDays)}
+            disabled={!canManageClinic}
+            onValueChange={(value: string) => setAudioRetentionDays(Number(value))}
+          >
+            <SelectTrigger id="audio_retention" className="bg-white border-gray-200">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUDIO_RETENTION_OPTIONS.map(({ days, label }) => (
+                <SelectItem key={days} value={String(days)}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </Card>
+
+      {/* Clinic Formulary */}
+      <Card className="p-6 bg-white border-gray-200">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-teal-50 rounded-lg">
+            <Pill className="h-5 w-5 text-teal-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Clinic Formulary</h2>
+            <p className="text-sm text-gray-500">Medicines you prescribe often, so live transcription hears their names correctly</p>
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="clinic_formulary">Medicines (one per line)</Label>
+          <Textarea
+            id="clinic_formulary"
+            value={formulary}
+            onChange={(e) => setFormulary(e.target.value)}
+            placeholder={'Dolo 650\nGlycomet\nEcosprin'}
+            rows={6}
+            className="bg-white border-gray-200"
+          />
+        </div>
+
+        <div className="mt-4">
+          <Label htmlFor="learned_vocabulary">Learned from transcript corrections</Label>
+          <p className="text-xs text-gray-500 mb-1">
+            Names you re-spelled in transcripts are boosted too. Remove any that were learned by mistake.
+          </p>
+          <Textarea
+            id="learned_vocabulary"
+            value={learnedVocabulary}
+            onChange={(e) => setLearnedVocabulary(e.target.value)}
+            rows={4}
+            className="bg-white border-gray-200"
+          />
+        </div>
+      </Card>
+
       {/* Save Button */}
       <div className="flex justify-end">
         <Button 
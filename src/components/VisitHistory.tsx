@@ -1,7 +1,12 @@
-import { Calendar, FileText, Stethoscope, Clock } from 'lucide-react';
+import { Calendar, FileText, Stethoscope, Clock, Play, Loader } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
-import { Consultation } from '../types';
-import { useState } from 'react';
+import { Button } from './ui/button';
+import { Consultation, TranscriptSegment } from '../types';
+import { formatSegmentTime, reconcileTranscript } from '../utils/transcript';
+import { formatComposition, formatVitals, hasVitals } from '../utils/prescription';
+import { fetchConsultationAudio, type ConsultationAudio } from '../services/audio/ConsultationRecorder';
+import { CorrectedText } from './CorrectedText';
+import { useEffect, useRef, useState, type RefObject } from 'react';
 
 interface VisitHistoryProps {
   consultations: Consultation[];
@@ -10,6 +15,27 @@ interface VisitHistoryProps {
 
 export function VisitHistory({ consultations, patientName }: VisitHistoryProps) {
   const [selectedConsultation, setSelectedConsultation] = useState<Consultation | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const conversation = selectedConsultation ? reconcileTranscript(selectedConsultation) : null;
+
+  useEffect(() => {
+    setPlaybackTime(null);
+  }, [selectedConsultation]);
+
+  const isSegmentPlaying = (segment: TranscriptSegment) =>
+    playbackTime !== null &&
+    segment.start !== undefined &&
+    playbackTime >= segment.start &&
+    playbackTime < (segment.end ?? segment.start + 1);
+
+  // Jump the recording to a transcript segment
+  const seekTo = (segment: TranscriptSegment) => {
+    const audio = audioRef.current;
+    if (!audio || segment.start === undefined) return;
+    audio.currentTime = segment.start;
+    audio.play().catch(() => {});
+  };
 
   return (
     <>
@@ -113,8 +139,39 @@ export function VisitHistory({ consultations, patientName }: VisitHistoryProps)
                 </div>
               </div>
 
-              {/* Conversation Summary */}
-              {selectedConsultation.transcript && (
+              {/* Archived audio, when the consultation was recorded */}
+              {selectedConsultation.audio_recording && (
+                <RecordingPlayer
+                  consultationId={selectedConsultation.consultation_id}
+                  audio={selectedConsultation.audio_recording}
+                  audioRef={audioRef}
+                  onTimeUpdate={setPlaybackTime}
+                />
+              )}
+
+              {/* Conversation - chat view when speaker-attributed segments were saved */}
+              {conversation && conversation.segments.length > 0 ? (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-700 uppercase mb-2">
+                    Conversation
+                  </h4>
+                  {conversation.source === 'server' && (
+                    <p className="text-xs text-amber-700 mb-2">
+                      Restored from the transcription server - part of this conversation was not saved by the browser.
+                    </p>
+                  )}
+                  <div className="bg-gray-50 border rounded-lg p-4 max-h-80 overflow-auto space-y-3">
+                    {conversation.segments.map((segment) => (
+                      <TranscriptBubble
+                        key={segment.id}
+                        segment={segment}
+                        active={isSegmentPlaying(segment)}
+                        onSeek={playbackTime !== null ? () => seekTo(segment) : undefined}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ) : selectedConsultation.transcript && (
                 <div>
                   <h4 className="text-sm font-semibold text-gray-700 uppercase mb-2">
                     Conversation Summary
@@ -145,6 +202,25 @@ export function VisitHistory({ consultations, patientName }: VisitHistoryProps)
                       </div>
                     )}
 
+                    {selectedConsultation.prescription?.durationOfSymptoms && (
+                      <div>
+                        <p className="text-xs font-semibold text-gray-600 uppercase mb-1">Duration</p>
+                        <p className="text-sm text-gray-800">
+                          {selectedConsultation.prescription.durationOfSymptoms}
+                        </p>
+                      </div>
+                    )}
+
+                    {selectedConsultation.prescription?.allergies &&
+                     selectedConsultation.prescription.allergies.length > 0 && (
+                      <div>
+                        <p className="text-xs font-semibold text-gray-600 uppercase mb-1">Allergies</p>
+                        <p className="text-sm font-medium text-red-700">
+                          {selectedConsultation.prescription.allergies.join(', ')}
+                        </p>
+                      </div>
+                    )}
+
                     {selectedConsultation.prescription?.medicalHistory && (
                       <div>
                         <p className="text-xs font-semibold text-gray-600 uppercase mb-1">Medical History</p>
@@ -188,6 +264,25 @@ export function VisitHistory({ consultations, patientName }: VisitHistoryProps)
                         </p>
                       </div>
                     )}
+
+                    {hasVitals(selectedConsultation.prescription?.vitals) && (
+                      <div>
+                        <p className="text-xs font-semibold text-gray-600 uppercase mb-1">Vitals</p>
+                        <p className="text-sm text-gray-800">
+                          {formatVitals(selectedConsultation.prescription.vitals)}
+                        </p>
+                      </div>
+                    )}
+
+                    {selectedConsultation.prescription?.examinationFindings &&
+                     selectedConsultation.prescription.examinationFindings.length > 0 && (
+                      <div>
+                        <p className="text-xs font-semibold text-gray-600 uppercase mb-1">Examination Findings</p>
+                        <p className="text-sm text-gray-800">
+                          {selectedConsultation.prescription.examinationFindings.join('; ')}
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -200,8 +295,11 @@ export function VisitHistory({ consultations, patientName }: VisitHistoryProps)
                       {selectedConsultation.prescription.medications.map((med, index) => (
                         <div key={`med-${selectedConsultation.consultation_id}-${index}-${med.name}`} className="bg-gray-50 border rounded p-3">
                           <p className="font-medium text-sm">{index + 1}. {med.name}</p>
+                          {med.composition && med.composition.length > 0 && (
+                            <p className="text-xs text-gray-500">{formatComposition(med.composition)}</p>
+                          )}
                           <p className="text-xs text-gray-600 mt-1">
-                            {med.dosage} | {med.frequency} | {med.duration}
+                            {med.dosage} | {med.frequency} | {med.duration}{med.timing && ` | ${med.timing}`}
                           </p>
                         </div>
                       ))}
@@ -248,4 +346,112 @@ export function VisitHistory({ consultations, patientName }: VisitHistoryProps)
       </Dialog>
     </>
   );
+}
+
+interface RecordingPlayerProps {
+  consultationId: string;
+  audio: ConsultationAudio;
+  audioRef: RefObject<HTMLAudioElement | null>;
+  onTimeUpdate: (seconds: number) => void;
+}
+
+// Recordings can be large, so they are only downloaded when asked for
+function RecordingPlayer({ consultationId, audio, audioRef, onTimeUpdate }: RecordingPlayerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [url]);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const blob = await fetchConsultationAudio(consultationId);
+      setUrl(URL.createObjectURL(blob));
+      onTimeUpdate(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recording');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 uppercase mb-2">Recording</h4>
+      {url ? (
+        <audio
+          ref={audioRef}
+          src={url}
+          controls
+          autoPlay
+          className="w-full"
+          onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+        />
+      ) : (
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" className="gap-2" onClick={load} disabled={loading}>
+            {loading ? <Loader className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+            Play recording ({formatSegmentTime(audio.duration)})
+          </Button>
+          {audio.expires_at && (
+            <span className="text-xs text-gray-500">
+              Kept until {new Date(audio.expires_at).toLocaleDateString('en-IN')}
+            </span>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+interface TranscriptBubbleProps {
+  segment: TranscriptSegment;
+  /** The recording is currently playing this segment */
+  active?: boolean;
+  onSeek?: () => void;
+}
+
+function TranscriptBubble({ segment, active, onSeek }: TranscriptBubbleProps) {
+  const isDoctor = segment.speaker === 'Doctor';
+  const time = formatSegmentTime(segment.start);
+  const bubbleRef = useRef<HTMLDivElement>(null);
+
+  // Keep the segment being played in view
+  useEffect(() => {
+    if (active) bubbleRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [active]);
+
+  return (
+    <div ref={bubbleRef} className={`flex ${isDoctor ? 'justify-end' : 'justify-start'}`}>
+      <div
+        onClick={onSeek}
+        className={`max-w-[75%] rounded-lg px-3 py-2 ${
+          isDoctor ? 'bg-blue-600 text-white' : 'bg-white border text-gray-800'
+        } ${active ? 'ring-2 ring-amber-400' : ''} ${onSeek ? 'cursor-pointer' : ''}`}
+        title={`Transcribed by ${segment.engine}${
+          segment.confidence !== undefined ? ` (${Math.round(segment.confidence * 100)}% confidence)` : ''
+        }`}
+      >
+        <div className={`flex items-center gap-2 text-xs mb-1 ${isDoctor ? 'text-blue-100' : 'text-gray-500'}`}>
+          <span className="font-semibold">{segment.speaker}</span>
+          {time && <span>{time}</span>}
+          {segment.language && <span className="uppercase">{segment.language}</span>}
+        </div>
+        <p className="text-sm whitespace-pre-wrap">
+          <CorrectedText
+            text={segment.text}
+            corrections={segment.corrections}
+            normalizedText={segment.normalizedText}
+          />
+        </p>
+      </div>
+    </div>
+  );
 }
\ No newline at end of file
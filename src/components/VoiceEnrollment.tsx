@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import { Mic, Square, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import { VoiceAnalyzer, type DoctorVoiceProfile } from '@/services/speaker-detection/VoiceAnalyzer';
+import { AudioCapture } from '@/services/audio/AudioCapture';
+import { STT_SAMPLE_RATE } from '@/services/stt/pcm';
+
+// Long enough for a stable pitch estimate, short enough to not be a chore
+const ENROLLMENT_SECONDS = 12;
+
+const CALIBRATION_PASSAGE =
+  'Good morning, please have a seat. Tell me what brings you here today. ' +
+  'How long have you had the fever, and is there any cough or body ache? ' +
+  'I am prescribing paracetamol six fifty twice daily after food for three days. ' +
+  'Drink plenty of water and come back for a follow up next week.';
+
+interface VoiceEnrollmentProps {
+  profile: DoctorVoiceProfile | null;
+  onProfileChange: (profile: DoctorVoiceProfile | null) => void;
+}
+
+/**
+ * Records a short calibration sample of the doctor's voice so the live
+ * speaker detection can recognise the doctor in every consultation
+ */
+export function VoiceEnrollment({ profile, onProfileChange }: VoiceEnrollmentProps) {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const captureRef = useRef<{ stream: MediaStream; capture: AudioCapture; unsubscribe: () => void } | null>(null);
+  const chunksRef = useRef<Float32Array[]>([]);
+  const timerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    return () => stopCapture();
+  }, []);
+
+  const stopCapture = () => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    const capture = captureRef.current;
+    captureRef.current = null;
+    if (capture) {
+      capture.unsubscribe();
+      capture.capture.release();
+      capture.stream.getTracks().forEach((track) => track.stop());
+    }
+  };
+
+  const startEnrollment = async () => {
+    setError(null);
+    chunksRef.current = [];
+    setElapsed(0);
+
+    try {
+      // Same processing as a live consultation so the profile matches what the analyzer hears
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+      let capture: AudioCapture;
+      try {
+        capture = await AudioCapture.acquire(stream);
+      } catch (err) {
+        stream.getTracks().forEach((track) => track.stop());
+        throw err;
+      }
+      const unsubscribe = capture.subscribe((frame) => chunksRef.current.push(frame.samples));
+      captureRef.current = { stream, capture, unsubscribe };
+      setRecording(true);
+
+      const startedAt = Date.now();
+      timerRef.current = window.setInterval(() => {
+        const seconds = (Date.now() - startedAt) / 1000;
+        setElapsed(seconds);
+        if (seconds >= ENROLLMENT_SECONDS) {
+          finishEnrollment();
+        }
+      }, 200);
+    } catch (err: any) {
+      console.error('[VoiceEnrollment] Microphone error:', err);
+      stopCapture();
+      setError(err?.name === 'NotAllowedError' ? 'Microphone permission denied' : err?.message || 'Could not access the microphone');
+    }
+  };
+
+  const finishEnrollment = () => {
+    const wasRecording = captureRef.current !== null;
+    stopCapture();
+    setRecording(false);
+    if (!wasRecording) return;
+
+    const chunks = chunksRef.current;
+    chunksRef.current = [];
+    const samples = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    try {
+      const newProfile = new VoiceAnalyzer(STT_SAMPLE_RATE).createProfile(samples);
+      console.log('[VoiceEnrollment] Voice profile created:', newProfile);
+      onProfileChange(newProfile);
+    } catch (err: any) {
+      setError(err.message || 'Could not build a voice profile');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {profile ? (
+        <p className="text-sm text-gray-700">
+          Voice profile recorded on {new Date(profile.created_at).toLocaleDateString()} (average pitch{' '}
+          {Math.round(profile.avgPitch)} Hz). Save settings to keep changes.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No voice profile yet. Without one, Doctor/Patient labels from acoustic detection are a best guess.
+        </p>
+      )}
+
+      {recording && (
+        <div className="space-y-2">
+          <p className="p-3 text-sm leading-relaxed bg-blue-50 border border-blue-200 rounded-md">
+            {CALIBRATION_PASSAGE}
+          </p>
+          <Progress value={Math.min(100, (elapsed / ENROLLMENT_SECONDS) * 100)} />
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        {recording ? (
+          <Button variant="outline" className="gap-2" onClick={finishEnrollment}>
+            <Square className="h-4 w-4" />
+            Finish Now
+          </Button>
+        ) : (
+          <Button variant="outline" className="gap-2" onClick={startEnrollment}>
+            <Mic className="h-4 w-4" />
+            {profile ? 'Re-record Voice Sample' : 'Record Voice Sample'}
+          </Button>
+        )}
+        {profile && !recording && (
+          <Button variant="ghost" className="gap-2 text-red-600" onClick={() => onProfileChange(null)}>
+            <Trash2 className="h-4 w-4" />
+            Remove
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
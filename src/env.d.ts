@@ -1,13 +1,23 @@
 /// <reference types="node" />
 
 interface ImportMetaEnv {
-  VITE_OPENAI_API_KEY?: string;
-  VITE_CLAUDE_API_KEY?: string;
-  VITE_GEMINI_API_KEY?: string;
   VITE_SUPABASE_URL?: string;
   VITE_SUPABASE_ANON_KEY?: string;
+  VITE_STT_RELAY_URL?: string;
+  VITE_LOCAL_STT_RELAY_URL?: string;
+  VITE_STT_PROVIDER?: string;
+  VITE_STT_FAILOVER_CHAIN?: string;
+  VITE_DB_PROVIDER?: string;
+  VITE_AUTH_PROVIDER?: string;
+  VITE_LLM_PROVIDER?: string;
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv;
 }
+
+// Vite bundles the module (with its imports) as a worker script and returns its URL
+declare module "*?worker&url" {
+  const src: string;
+  export default src;
+}
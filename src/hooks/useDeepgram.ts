@@ -33,7 +33,7 @@ export const useDeepgram = (options: UseDeepgramOptions = {}) => {
           return;
         }
 
-        // Then initialize the WebSocket connection
+        // Then initialize the provider (the WebSocket opens when listening starts)
         await deepgramProvider.initialize();
         console.log("[useDeepgram] Deepgram initialized successfully");
         setIsInitialized(true);
@@ -94,7 +94,13 @@ export const useDeepgram = (options: UseDeepgramOptions = {}) => {
       transcriptRef.current = "";
       setInterimTranscript("");
 
-      await deepgramProvider.startListening(handleTranscript, handleError, mediaStream);
+      // The relay lets Deepgram auto-detect the language
+      await deepgramProvider.startListening(
+        "auto",
+        (event) => handleTranscript(event.text, event.isFinal),
+        handleError,
+        { mediaStream }
+      );
       setIsListening(true);
     } catch (err: any) {
       const errorMsg =
@@ -119,7 +125,7 @@ export const useDeepgram = (options: UseDeepgramOptions = {}) => {
       transcriptRef.current = "";
 
       const result = await deepgramProvider.transcribeFile(audioBlob);
-      setTranscript(result);
+      setTranscript(result.transcript);
       return result;
     } catch (err: any) {
       const errorMsg = err.message || "Failed to transcribe audio file";
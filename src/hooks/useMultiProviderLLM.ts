@@ -1,205 +1,67 @@
 /**
- * useMultiProviderLLM - React hook for multi-provider LLM analysis
- * Supports OpenAI, Claude, and Gemini with fallback logic
+ * useMultiProviderLLM - React hook for choosing the LLM provider
+ * Supports OpenAI, Claude, and Gemini. Calls go through the extract-medical
+ * Edge Function, which holds the API keys and falls back to another provider
+ * when the chosen one fails; this hook tracks which providers it can use.
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { Message } from '@/components/LiveTranscription';
-import {
-  LLMManager,
-  type LLMProvider,
-  type MedicalAnalysis
-} from '@/services/llm/LLMManager';
+import { useState, useCallback, useEffect } from 'react';
+import type { LLMProvider, LLMProviderStatus } from '@/services/llm/types';
+import { LLM_PROVIDERS, getProviderName } from '@/services/llm/models';
+import { EdgeFunctionLLM } from '@/services/llm/EdgeFunctionLLM';
+import { loadServiceEnvironment } from '@/services/ServiceConfig';
 
 interface UseLLMConfig {
   defaultProvider: LLMProvider;
-  apiKeys: Record<LLMProvider, string>;
-  fallbackProviders?: LLMProvider[];
 }
 
+const UNTESTED: LLMProviderStatus = { valid: false, tested: false };
+
 export function useMultiProviderLLM(config: UseLLMConfig) {
-  const [analysis, setAnalysis] = useState<MedicalAnalysis | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeProvider, setActiveProvider] = useState<LLMProvider>(
     config.defaultProvider
   );
   const [providerStatus, setProviderStatus] = useState<
-    Record<LLMProvider, { valid: boolean; tested: boolean; error?: string }>
+    Record<LLMProvider, LLMProviderStatus>
   >({
-    openai: { valid: false, tested: false },
-    claude: { valid: false, tested: false },
-    gemini: { valid: false, tested: false }
-  });
-
-  const managersRef = useRef<Record<LLMProvider, LLMManager | null>>({
-    openai: null,
-    claude: null,
-    gemini: null
+    openai: UNTESTED,
+    claude: UNTESTED,
+    gemini: UNTESTED
   });
 
-  // Initialize and validate all providers
+  // Ask the Edge Function which providers have a working API key
   useEffect(() => {
-    const validateProviders = async () => {
-      const providers: LLMProvider[] = ['openai', 'claude', 'gemini'];
-
-      for (const provider of providers) {
-        try {
-          const apiKey = config.apiKeys[provider];
-          if (!apiKey) {
-            setProviderStatus((prev) => ({
-              ...prev,
-              [provider]: {
-                valid: false,
-                tested: true,
-                error: 'No API key provided'
-              }
-            }));
-            continue;
-          }
-
-          const manager = new LLMManager({
-            provider,
-            apiKey,
-            model: LLMManager.getDefaultModel(provider)
-          });
-
-          managersRef.current[provider] = manager;
-
-          // Optimistically allow providers when an API key is present.
-          setProviderStatus((prev) => ({
-            ...prev,
-            [provider]: {
-              valid: true,
-              tested: false
-            }
-          }));
-
-          console.log(`[${provider}] Validating API key...`);
-          const isValid = await manager.validateApiKey();
-
-          if (isValid) {
-            setProviderStatus((prev) => ({
-              ...prev,
-              [provider]: {
-                valid: true,
-                tested: true
-              }
-            }));
-          } else {
-            // Browser-side validation can fail due to CORS; keep provider enabled.
-            setProviderStatus((prev) => ({
-              ...prev,
-              [provider]: {
-                valid: true,
-                tested: true,
-                error: 'Validation failed in browser (possible CORS). Will attempt on use.'
-              }
-            }));
-          }
-
-          console.log(
-            `[${provider}] Status: ${isValid ? 'VALID' : 'UNVERIFIED'}`
-          );
-
-        } catch (err) {
-          const errorMessage = err instanceof Error ? err.message : String(err);
-          console.error(`[${provider}] Validation error:`, errorMessage);
-
-          setProviderStatus((prev) => ({
-            ...prev,
-            [provider]: {
-              valid: true,
-              tested: true,
-              error: `Validation failed in browser (possible CORS). Will attempt on use. Details: ${errorMessage}`
-            }
-          }));
-        }
-      }
-    };
-
-    validateProviders();
-  }, [config.apiKeys]);
-
-  /**
-   * Analyze consultation with specified provider, with fallback logic
-   */
-  const analyzeConsultation = useCallback(
-    async (
-      messages: Message[],
-      transcript: string,
-      providerOverride?: LLMProvider
-    ) => {
-      if (!messages.length) {
-        setError('No messages to analyze');
-        return;
-      }
-
-      setIsAnalyzing(true);
-      setError(null);
-
-      const primaryProvider = providerOverride || activeProvider;
-      const fallbackProviders = config.fallbackProviders || [
-        'openai',
-        'claude',
-        'gemini'
-      ];
-
-      // Remove primary from fallback and reorder
-      const providersToTry = [
-        primaryProvider,
-        ...fallbackProviders.filter((p) => p !== primaryProvider)
-      ];
-
-      let lastError: Error | null = null;
-
-      for (const provider of providersToTry) {
-        try {
-          const manager = managersRef.current[provider];
-
-          // Skip if provider not validated
-          if (!manager || !providerStatus[provider]?.valid) {
-            console.log(`[${provider}] Skipping (not available)`);
-            continue;
-          }
-
-          console.log(`[${provider}] Analyzing consultation...`);
-
-          const result = await manager.analyzeConsultation(
-            messages,
-            transcript
-          );
-
-          setActiveProvider(provider);
-          setAnalysis(result);
-          console.log(`[${provider}] ✅ Analysis complete`);
-
-          setIsAnalyzing(false);
-          return result;
-        } catch (err) {
-          lastError = err instanceof Error ? err : new Error(String(err));
-          console.warn(
-            `[${provider}] Failed, trying next provider...`,
-            lastError.message
-          );
-          continue;
-        }
-      }
+    const env = loadServiceEnvironment();
+    if (!env.edgeFunctionUrl) {
+      const unavailable = { valid: false, tested: true, error: 'Edge Function not configured (VITE_SUPABASE_URL)' };
+      setProviderStatus({ openai: unavailable, claude: unavailable, gemini: unavailable });
+      return;
+    }
 
-      // All providers failed
-      const errorMsg = `Analysis failed with all providers. Last error: ${lastError?.message}`;
-      setError(errorMsg);
-      console.error(errorMsg);
-      setIsAnalyzing(false);
-    },
-    [activeProvider, config.fallbackProviders, providerStatus]
-  );
+    new EdgeFunctionLLM(env.edgeFunctionUrl, env.supabaseAnonKey)
+      .getProviderStatus()
+      .then((status) => {
+        setProviderStatus((prev) => ({ ...prev, ...status }));
+        LLM_PROVIDERS.forEach((provider) => {
+          console.log(`[${provider}] Status: ${status[provider]?.valid ? 'VALID' : status[provider]?.error || 'UNAVAILABLE'}`);
+        });
+      })
+      .catch((err) => {
+        // Status check failed (offline, function not deployed) - let analysis try anyway
+        console.warn('[useMultiProviderLLM] Provider status unavailable:', err instanceof Error ? err.message : err);
+        const unverified = { valid: true, tested: false, error: 'Provider status unavailable. Will attempt on use.' };
+        setProviderStatus({ openai: unverified, claude: unverified, gemini: unverified });
+      });
+  }, []);
 
   /**
    * Change active provider
    */
   const switchProvider = useCallback((provider: LLMProvider) => {
-    if (providerStatus[provider]?.valid) {
+    // Before the status check returns, accept the clinic's choice
+    const status = providerStatus[provider];
+    if (status?.valid || !status?.tested) {
       setActiveProvider(provider);
       setError(null);
     } else {
@@ -211,33 +73,16 @@ export function useMultiProviderLLM(config: UseLLMConfig) {
    * Get list of available providers
    */
   const getAvailableProviders = useCallback((): LLMProvider[] => {
-    return (['openai', 'claude', 'gemini'] as LLMProvider[]).filter(
-      (p) => providerStatus[p]?.valid
-    );
+    return LLM_PROVIDERS.filter((p) => providerStatus[p]?.valid);
   }, [providerStatus]);
 
-  /**
-   * Get provider display name
-   */
-  const getProviderName = (provider: LLMProvider): string => {
-    const names: Record<LLMProvider, string> = {
-      openai: 'OpenAI (GPT-4)',
-      claude: 'Claude (Anthropic)',
-      gemini: 'Gemini (Google)'
-    };
-    return names[provider];
-  };
-
   return {
     // State
-    analysis,
-    isAnalyzing,
     error,
     activeProvider,
     providerStatus,
 
     // Actions
-    analyzeConsultation,
     switchProvider,
 
     // Utilities
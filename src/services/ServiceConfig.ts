@@ -0,0 +1,111 @@
+// =========================================
+// SERVICE CONFIGURATION
+// Typed runtime selection of service providers
+// Priority: built-in defaults < VITE_* env vars < persisted clinic setting
+// =========================================
+
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import type { LLMProvider } from './llm/types';
+
+// =========================================
+// PROVIDER SELECTION
+// =========================================
+export interface ServiceProviderSelection {
+  stt: string;
+  database: string;
+  auth: string;
+  llm: LLMProvider;
+}
+
+export type ServiceKind = keyof ServiceProviderSelection;
+
+export const DEFAULT_PROVIDER_SELECTION: ServiceProviderSelection = {
+  stt: 'browser',
+  database: 'supabase',
+  auth: 'supabase',
+  llm: 'openai',
+};
+
+// =========================================
+// STT FAILOVER
+// Engines tried in order when the active one fails mid-consultation
+// =========================================
+export const DEFAULT_STT_FAILOVER_CHAIN = ['deepgram', 'assemblyai', 'browser'];
+
+export function loadFailoverChain(): string[] {
+  const raw = import.meta.env.VITE_STT_FAILOVER_CHAIN;
+  if (!raw) return DEFAULT_STT_FAILOVER_CHAIN;
+  return raw.split(',').map((id: string) => id.trim()).filter(Boolean);
+}
+
+// =========================================
+// ENVIRONMENT
+// Values providers may require to initialize
+// =========================================
+export interface ServiceEnvironment {
+  supabaseUrl?: string;
+  supabaseAnonKey?: string;
+  edgeFunctionUrl?: string;
+  sttRelayUrl?: string;
+  /** Relay on the clinic machine that streams to the on-premise engine */
+  localSttRelayUrl?: string;
+}
+
+export function loadServiceEnvironment(): ServiceEnvironment {
+  const env = import.meta.env;
+  return {
+    supabaseUrl: `https://${projectId}.supabase.co`,
+    supabaseAnonKey: env.VITE_SUPABASE_ANON_KEY || publicAnonKey,
+    edgeFunctionUrl: env.VITE_SUPABASE_URL,
+    sttRelayUrl: env.VITE_STT_RELAY_URL || 'http://localhost:3002',
+    localSttRelayUrl: env.VITE_LOCAL_STT_RELAY_URL,
+  };
+}
+
+// =========================================
+// SELECTION SOURCES
+// =========================================
+const SELECTION_STORAGE_KEY = 'clinic_service_providers';
+
+function loadEnvSelection(): Partial<ServiceProviderSelection> {
+  const env = import.meta.env;
+  const selection: Partial<ServiceProviderSelection> = {};
+  if (env.VITE_STT_PROVIDER) selection.stt = env.VITE_STT_PROVIDER;
+  if (env.VITE_DB_PROVIDER) selection.database = env.VITE_DB_PROVIDER;
+  if (env.VITE_AUTH_PROVIDER) selection.auth = env.VITE_AUTH_PROVIDER;
+  if (env.VITE_LLM_PROVIDER) selection.llm = env.VITE_LLM_PROVIDER as LLMProvider;
+  return selection;
+}
+
+/**
+ * Read the local copy of the clinic's selection. The relay keeps the clinic
+ * record; the copy makes it available before the user signs in.
+ */
+export function loadPersistedSelection(): Partial<ServiceProviderSelection> {
+  try {
+    const raw = localStorage.getItem(SELECTION_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.warn('Failed to read persisted provider selection:', error);
+    return {};
+  }
+}
+
+export function persistSelection(selection: Partial<ServiceProviderSelection>): void {
+  try {
+    localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  } catch (error) {
+    console.warn('Failed to persist provider selection:', error);
+  }
+}
+
+/**
+ * Merge defaults, env vars and the persisted clinic setting
+ */
+export function resolveProviderSelection(): ServiceProviderSelection {
+  return {
+    ...DEFAULT_PROVIDER_SELECTION,
+    ...loadEnvSelection(),
+    ...loadPersistedSelection(),
+  };
+}
@@ -1,114 +1,215 @@
 // =========================================
 // SERVICE MANAGER
 // Central configuration for all service providers
-// Change providers here without touching application code!
+// Providers are looked up in a registry and selected at runtime
+// (see ServiceConfig.ts) - no rebuild needed to switch!
 // =========================================
 
-import { 
-  SpeechToTextProvider, 
-  LLMProvider, 
-  DatabaseProvider, 
-  AuthProvider 
+import {
+  SpeechToTextProvider,
+  DatabaseProvider,
+  AuthProvider
 } from './interfaces';
 import { BrowserSpeechProvider } from './stt/BrowserSpeechProvider';
+import { DeepgramProvider } from './stt/DeepgramProvider';
+import { AssemblyAIProvider } from './stt/AssemblyAIProvider';
+import { LocalSpeechProvider } from './stt/LocalSpeechProvider';
 import { SupabaseDatabaseProvider } from './database/SupabaseDatabaseProvider';
 import { SupabaseAuthProvider } from './auth/SupabaseAuthProvider';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import {
+  ServiceEnvironment,
+  ServiceKind,
+  ServiceProviderSelection,
+  loadFailoverChain,
+  loadServiceEnvironment,
+  persistSelection,
+  resolveProviderSelection,
+} from './ServiceConfig';
+import { projectId } from '../utils/supabase/info';
+import { isKnownProvider } from '../shared/providers';
+import type { LLMProvider } from './llm/types';
+import { LLM_PROVIDERS, getProviderName } from './llm/models';
 
 // =========================================
-// PROVIDER CONFIGURATION
-// Change these to switch providers!
+// PROVIDER REGISTRY
 // =========================================
+export interface ProviderRegistration<T> {
+  id: string;
+  label: string;
+  /** Environment values that must be present for this provider */
+  requiredConfig: Array<keyof ServiceEnvironment>;
+  /** Extra checks beyond required keys; return a list of problems */
+  validate?: (env: ServiceEnvironment) => string[];
+  /** Construct and initialize the provider */
+  create: (env: ServiceEnvironment) => Promise<T>;
+}
+
+type ProviderRegistry = {
+  stt: Map<string, ProviderRegistration<SpeechToTextProvider>>;
+  database: Map<string, ProviderRegistration<DatabaseProvider>>;
+  auth: Map<string, ProviderRegistration<AuthProvider>>;
+  llm: Map<string, ProviderRegistration<LLMProvider>>;
+};
 
 class ServiceManager {
   private sttProvider: SpeechToTextProvider | null = null;
   private dbProvider: DatabaseProvider | null = null;
   private authProvider: AuthProvider | null = null;
 
+  private env: ServiceEnvironment = loadServiceEnvironment();
+  private selection: ServiceProviderSelection = resolveProviderSelection();
+  private registry: ProviderRegistry = {
+    stt: new Map(),
+    database: new Map(),
+    auth: new Map(),
+    llm: new Map(),
+  };
+
+  // =========================================
+  // REGISTRATION
+  // =========================================
+  registerSTTProvider(registration: ProviderRegistration<SpeechToTextProvider>) {
+    this.warnIfUnknown('stt', registration.id);
+    this.registry.stt.set(registration.id, registration);
+  }
+
+  registerDatabaseProvider(registration: ProviderRegistration<DatabaseProvider>) {
+    this.warnIfUnknown('database', registration.id);
+    this.registry.database.set(registration.id, registration);
+  }
+
+  registerAuthProvider(registration: ProviderRegistration<AuthProvider>) {
+    this.warnIfUnknown('auth', registration.id);
+    this.registry.auth.set(registration.id, registration);
+  }
+
+  registerLLMProvider(registration: ProviderRegistration<LLMProvider>) {
+    this.warnIfUnknown('llm', registration.id);
+    this.registry.llm.set(registration.id, registration);
+  }
+
+  // The relay refuses clinic selections with ids missing from src/shared/providers.ts
+  private warnIfUnknown(kind: ServiceKind, id: string) {
+    if (!isKnownProvider(kind, id)) {
+      console.warn(`[ServiceManager] ${kind} provider "${id}" is not in KNOWN_PROVIDERS; clinics cannot select it`);
+    }
+  }
+
+  /**
+   * List registered providers for a service (used by the Settings screen)
+   */
+  getRegisteredProviders(kind: ServiceKind): Array<{ id: string; label: string }> {
+    const registrations: Map<string, ProviderRegistration<unknown>> = this.registry[kind];
+    return Array.from(registrations.values()).map(({ id, label }) => ({ id, label }));
+  }
+
+  // =========================================
+  // SELECTION & VALIDATION
+  // =========================================
+  getSelection(): ServiceProviderSelection {
+    return { ...this.selection };
+  }
+
+  /**
+   * Check every selected provider exists and has the config it needs.
+   * Returns problems per service; empty arrays mean the selection is valid.
+   */
+  validateSelection(selection: ServiceProviderSelection): Record<ServiceKind, string[]> {
+    const result = { stt: [], database: [], auth: [], llm: [] } as Record<ServiceKind, string[]>;
+
+    (Object.keys(result) as ServiceKind[]).forEach((kind) => {
+      const registration = this.registry[kind].get(selection[kind]);
+      if (!registration) {
+        result[kind].push(`Unknown ${kind} provider: ${selection[kind]}`);
+        return;
+      }
+      result[kind].push(...this.checkRegistration(registration));
+    });
+
+    return result;
+  }
+
+  private checkRegistration(registration: ProviderRegistration<unknown>): string[] {
+    const problems = registration.requiredConfig
+      .filter((key) => !this.env[key])
+      .map((key) => `${registration.label} requires ${key}`);
+    return [...problems, ...(registration.validate?.(this.env) || [])];
+  }
+
+  /**
+   * Switch providers at runtime. Persists the selection and drops any
+   * cached instance whose provider changed so it is recreated on next use.
+   */
+  applySelection(update: Partial<ServiceProviderSelection>): ServiceProviderSelection {
+    const next = { ...this.selection, ...update };
+    const problems = this.validateSelection(next);
+    const invalid = (Object.keys(problems) as ServiceKind[]).filter((kind) => problems[kind].length > 0);
+    if (invalid.length > 0) {
+      throw new Error(invalid.map((kind) => problems[kind].join(', ')).join('; '));
+    }
+
+    if (next.stt !== this.selection.stt) this.sttProvider = null;
+    if (next.database !== this.selection.database) this.dbProvider = null;
+    if (next.auth !== this.selection.auth) this.authProvider = null;
+
+    this.selection = next;
+    persistSelection(next);
+    console.log('✅ Provider selection updated:', next);
+    return this.getSelection();
+  }
+
+  private async createProvider<T>(kind: ServiceKind, registrations: Map<string, ProviderRegistration<T>>): Promise<T> {
+    const problems = this.validateSelection(this.selection)[kind];
+    if (problems.length > 0) {
+      throw new Error(problems.join(', '));
+    }
+    return registrations.get(this.selection[kind])!.create(this.env);
+  }
+
   // =========================================
   // SPEECH-TO-TEXT CONFIGURATION
   // =========================================
   async getSTTProvider(): Promise<SpeechToTextProvider> {
     if (!this.sttProvider) {
-      // TODO: Add configuration to switch between providers
-      // Options: 'browser' | 'google' | 'azure' | 'aws' | 'deepgram'
-      const providerType = 'browser'; // Change this to switch providers
-
-      switch (providerType) {
-        case 'browser':
-          this.sttProvider = new BrowserSpeechProvider();
-          await this.sttProvider.initialize({
-            continuous: true,
-            interimResults: true,
-          });
-          break;
-
-        // Example: Add Google Cloud Speech
-        // case 'google':
-        //   this.sttProvider = new GoogleSpeechProvider();
-        //   await this.sttProvider.initialize({
-        //     apiKey: process.env.GOOGLE_SPEECH_API_KEY,
-        //   });
-        //   break;
-
-        // Example: Add Azure Speech
-        // case 'azure':
-        //   this.sttProvider = new AzureSpeechProvider();
-        //   await this.sttProvider.initialize({
-        //     apiKey: process.env.AZURE_SPEECH_KEY,
-        //     region: process.env.AZURE_REGION,
-        //   });
-        //   break;
-
-        default:
-          throw new Error(`Unknown STT provider: ${providerType}`);
-      }
-
+      this.sttProvider = await this.createProvider('stt', this.registry.stt);
       console.log(`✅ STT Provider initialized: ${this.sttProvider.getProviderName()}`);
     }
 
     return this.sttProvider;
   }
 
+  /**
+   * Engines to try in order: the selected engine first, then the
+   * configured failover chain (unknown ids are skipped)
+   */
+  getSTTFailoverChain(): string[] {
+    const chain = [this.selection.stt, ...loadFailoverChain()];
+    return chain.filter((id, index) => this.registry.stt.has(id) && chain.indexOf(id) === index);
+  }
+
+  /**
+   * Build a fresh, uncached instance of any registered STT engine.
+   * Used to fall back to another engine without changing the selection.
+   */
+  async createSTTProvider(id: string): Promise<SpeechToTextProvider> {
+    const registration = this.registry.stt.get(id);
+    if (!registration) {
+      throw new Error(`Unknown stt provider: ${id}`);
+    }
+
+    const problems = this.checkRegistration(registration);
+    if (problems.length > 0) {
+      throw new Error(problems.join(', '));
+    }
+    return registration.create(this.env);
+  }
+
   // =========================================
   // DATABASE CONFIGURATION
   // =========================================
   async getDatabaseProvider(): Promise<DatabaseProvider> {
     if (!this.dbProvider) {
-      // TODO: Add configuration to switch between providers
-      // Options: 'supabase' | 'mongodb' | 'firebase' | 'mysql' | 'postgres'
-      const providerType = 'supabase'; // Change this to switch providers
-
-      switch (providerType) {
-        case 'supabase':
-          this.dbProvider = new SupabaseDatabaseProvider();
-          await this.dbProvider.initialize({
-            connectionString: `https://${projectId}.supabase.co`,
-            apiKey: publicAnonKey,
-          });
-          break;
-
-        // Example: Add MongoDB
-        // case 'mongodb':
-        //   this.dbProvider = new MongoDBProvider();
-        //   await this.dbProvider.initialize({
-        //     connectionString: process.env.MONGODB_URI,
-        //   });
-        //   break;
-
-        // Example: Add Firebase
-        // case 'firebase':
-        //   this.dbProvider = new FirebaseProvider();
-        //   await this.dbProvider.initialize({
-        //     apiKey: process.env.FIREBASE_API_KEY,
-        //     projectId: process.env.FIREBASE_PROJECT_ID,
-        //   });
-        //   break;
-
-        default:
-          throw new Error(`Unknown database provider: ${providerType}`);
-      }
-
+      this.dbProvider = await this.createProvider('database', this.registry.database);
       console.log(`✅ Database Provider initialized: ${this.dbProvider.getProviderName()}`);
     }
 
@@ -120,41 +221,7 @@ class ServiceManager {
   // =========================================
   async getAuthProvider(): Promise<AuthProvider> {
     if (!this.authProvider) {
-      // TODO: Add configuration to switch between providers
-      // Options: 'supabase' | 'firebase' | 'auth0' | 'clerk'
-      const providerType = 'supabase'; // Change this to switch providers
-
-      switch (providerType) {
-        case 'supabase':
-          this.authProvider = new SupabaseAuthProvider();
-          await this.authProvider.initialize({
-            apiUrl: `https://${projectId}.supabase.co`,
-            apiKey: publicAnonKey,
-          });
-          break;
-
-        // Example: Add Firebase Auth
-        // case 'firebase':
-        //   this.authProvider = new FirebaseAuthProvider();
-        //   await this.authProvider.initialize({
-        //     apiKey: process.env.FIREBASE_API_KEY,
-        //     authDomain: process.env.FIREBASE_AUTH_DOMAIN,
-        //   });
-        //   break;
-
-        // Example: Add Auth0
-        // case 'auth0':
-        //   this.authProvider = new Auth0Provider();
-        //   await this.authProvider.initialize({
-        //     domain: process.env.AUTH0_DOMAIN,
-        //     clientId: process.env.AUTH0_CLIENT_ID,
-        //   });
-        //   break;
-
-        default:
-          throw new Error(`Unknown auth provider: ${providerType}`);
-      }
-
+      this.authProvider = await this.createProvider('auth', this.registry.auth);
       console.log(`✅ Auth Provider initialized: ${this.authProvider.getProviderName()}`);
     }
 
@@ -162,8 +229,12 @@ class ServiceManager {
   }
 
   // =========================================
-  // LLM CONFIGURATION (Backend-based)
+  // LLM CONFIGURATION
   // =========================================
+  getLLMProvider(): LLMProvider {
+    return this.selection.llm;
+  }
+
   getLLMEndpoint(): string {
     // LLM extraction happens on backend
     return `https://${projectId}.supabase.co/functions/v1/make-server-ae2bff40/generate-prescription-live`;
@@ -180,6 +251,113 @@ class ServiceManager {
 // Singleton instance
 export const serviceManager = new ServiceManager();
 
+// =========================================
+// BUILT-IN PROVIDERS
+// Add new providers here (or call register* from your own module), and their
+// ids to KNOWN_PROVIDERS in src/shared/providers.ts
+// =========================================
+
+serviceManager.registerSTTProvider({
+  id: 'browser',
+  label: 'Browser Web Speech API',
+  requiredConfig: [],
+  create: async () => {
+    const provider = new BrowserSpeechProvider();
+    await provider.initialize({
+      continuous: true,
+      interimResults: true,
+    });
+    return provider;
+  },
+});
+
+// The doctor's session token. The relay and the Edge Function tasks that act for
+// a doctor only accept signed-in doctors.
+export async function getSessionAccessToken(): Promise<string | null> {
+  try {
+    const session = await serviceManager.getAuthProvider().then((auth) => auth.getSession());
+    return session?.accessToken || null;
+  } catch (error) {
+    console.error('[ServiceManager] Could not read auth session:', error);
+    return null;
+  }
+}
+
+// Cloud engines stream through the backend relay (src/backend/server.ts)
+serviceManager.registerSTTProvider({
+  id: 'deepgram',
+  label: 'Deepgram (Cloud)',
+  requiredConfig: ['sttRelayUrl'],
+  create: async (env) => {
+    const provider = new DeepgramProvider(env.sttRelayUrl);
+    await provider.initialize({ endpoint: env.sttRelayUrl, getAccessToken: getSessionAccessToken });
+    return provider;
+  },
+});
+
+serviceManager.registerSTTProvider({
+  id: 'assemblyai',
+  label: 'AssemblyAI (Cloud)',
+  requiredConfig: ['sttRelayUrl'],
+  create: async (env) => {
+    const provider = new AssemblyAIProvider(env.sttRelayUrl);
+    await provider.initialize({ endpoint: env.sttRelayUrl, getAccessToken: getSessionAccessToken });
+    return provider;
+  },
+});
+
+// Offline clinics run the relay on the clinic machine, streaming to a local
+// whisper.cpp/Vosk server through src/backend/local-stt.ts
+serviceManager.registerSTTProvider({
+  id: 'local',
+  label: 'On-premise (Offline)',
+  requiredConfig: ['localSttRelayUrl'],
+  create: async (env) => {
+    const provider = new LocalSpeechProvider(env.localSttRelayUrl);
+    await provider.initialize({ endpoint: env.localSttRelayUrl, getAccessToken: getSessionAccessToken });
+    return provider;
+  },
+});
+
+serviceManager.registerDatabaseProvider({
+  id: 'supabase',
+  label: 'Supabase PostgreSQL',
+  requiredConfig: ['supabaseUrl', 'supabaseAnonKey'],
+  create: async (env) => {
+    const provider = new SupabaseDatabaseProvider();
+    await provider.initialize({
+      connectionString: env.supabaseUrl,
+      apiKey: env.supabaseAnonKey,
+    });
+    return provider;
+  },
+});
+
+serviceManager.registerAuthProvider({
+  id: 'supabase',
+  label: 'Supabase Auth',
+  requiredConfig: ['supabaseUrl', 'supabaseAnonKey'],
+  create: async (env) => {
+    const provider = new SupabaseAuthProvider();
+    await provider.initialize({
+      apiUrl: env.supabaseUrl,
+      apiKey: env.supabaseAnonKey,
+    });
+    return provider;
+  },
+});
+
+// LLM providers run through the extract-medical Edge Function, which holds
+// the API keys and falls back to another provider when one fails
+const llmRegistration = (id: LLMProvider): ProviderRegistration<LLMProvider> => ({
+  id,
+  label: getProviderName(id),
+  requiredConfig: ['edgeFunctionUrl'],
+  create: async () => id,
+});
+
+LLM_PROVIDERS.forEach((id) => serviceManager.registerLLMProvider(llmRegistration(id)));
+
 // =========================================
 // CONVENIENCE EXPORTS
 // Use these in your application code
@@ -188,4 +366,58 @@ export const serviceManager = new ServiceManager();
 export const getSTTProvider = () => serviceManager.getSTTProvider();
 export const getDatabaseProvider = () => serviceManager.getDatabaseProvider();
 export const getAuthProvider = () => serviceManager.getAuthProvider();
+export const getLLMProvider = () => serviceManager.getLLMProvider();
 export const getLLMEndpoint = () => serviceManager.getLLMEndpoint();
+
+/**
+ * Headers for the relay's HTTP routes, with the doctor's session when signed in
+ */
+export async function relayHeaders(headers: Record<string, string> = {}): Promise<Record<string, string>> {
+  const token = await getSessionAccessToken();
+  return token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+}
+
+// =========================================
+// CLINIC SETTINGS
+// Kept by the relay on the clinic record its minutes are counted against,
+// so every doctor and device in the clinic uses the same engines and keeps
+// audio for the same time
+// =========================================
+
+export interface ClinicSettings {
+  service_providers: Partial<ServiceProviderSelection>;
+  /** Days the relay keeps consultation audio; 0 when the clinic does not record */
+  audio_retention_days?: number;
+  /** False for doctors whose clinic admin manages the settings */
+  can_manage: boolean;
+}
+
+async function clinicSettingsRequest(init: RequestInit = {}): Promise<ClinicSettings> {
+  const relayUrl = loadServiceEnvironment().sttRelayUrl || 'http://localhost:3002';
+  const response = await fetch(`${relayUrl}/api/clinic/settings`, {
+    ...init,
+    headers: await relayHeaders({ 'Content-Type': 'application/json' }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Clinic settings request failed (${response.status})`);
+  }
+  return {
+    service_providers: data.service_providers || {},
+    audio_retention_days: data.audio_retention_days,
+    can_manage: !!data.can_manage,
+  };
+}
+
+export function fetchClinicSettings(): Promise<ClinicSettings> {
+  return clinicSettingsRequest();
+}
+
+export function saveClinicSettings(
+  changes: Partial<Pick<ClinicSettings, 'service_providers' | 'audio_retention_days'>>
+): Promise<ClinicSettings> {
+  return clinicSettingsRequest({
+    method: 'PUT',
+    body: JSON.stringify(changes),
+  });
+}
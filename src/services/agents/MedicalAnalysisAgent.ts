@@ -1,72 +1,107 @@
 /**
  * Medical Analysis Agent
- * Analyzes STT transcript in real-time (every 5 seconds)
- * Supports both Edge Function (recommended) and browser-direct LLM calls
+ * Analyzes STT transcript in real-time - when the speaker finishes an utterance,
+ * with a fixed timer as fallback for long uninterrupted speech
+ * Analysis runs in the extract-medical Edge Function, so no API keys are in the browser
+ * With a conversationId, live analysis is incremental: each run sends only the
+ * transcript lines that changed and applies the fields the function returns
+ * With a partial-update callback, answers are streamed and fields are delivered
+ * as the model writes them, before the analysis is complete
  */
 
-import { LLMManager, type LLMProvider, type MedicalAnalysis } from '@/services/llm/LLMManager';
-import { EdgeFunctionLLM } from '@/services/llm/EdgeFunctionLLM';
+import {
+  applyMedicalAnalysisDelta,
+  emptyMedicalAnalysis,
+  parseMedicalAnalysis,
+  type LLMProvider,
+  type MedicalAnalysis,
+  type MedicalAnalysisDelta,
+} from '@/services/llm/types';
+import { getDefaultModel } from '@/services/llm/models';
+import { EdgeFunctionLLM, type PartialFieldsHandler } from '@/services/llm/EdgeFunctionLLM';
 
 export interface AgentConfig {
+  /** Provider tried first; the Edge Function falls back to the others */
   provider: LLMProvider;
-  apiKey: string;
   model?: string;
   analysisIntervalSeconds?: number;
   minTranscriptLength?: number;
-  edgeFunctionUrl?: string; // Optional: Supabase Edge Function URL for secure analysis
+  /** Wait this long after an utterance ends so its final transcript can arrive (default 1000) */
+  utteranceSettleMs?: number;
+  edgeFunctionUrl: string; // Supabase URL hosting the extract-medical Edge Function
   anonKey?: string; // Optional: Supabase anonymous key for authentication
+  /** The doctor's session token; live analysis of a consultation needs it */
+  getAccessToken?: () => Promise<string | null>;
+  /** Consultation language (e.g. 'hinglish'), passed to the extraction prompt */
+  language?: string;
+  /** Consultation id; when set, live analysis sends only new transcript lines */
+  conversationId?: string;
 }
 
 export interface AnalysisResult {
   timestamp: number;
   analysis: MedicalAnalysis | null;
   error: string | null;
+  /** Provider that produced the analysis (the requested one unless it failed over) */
   provider: LLMProvider;
+  /** Fields that changed in this update (incremental analysis only) */
+  delta?: MedicalAnalysisDelta;
+}
+
+export interface PartialAnalysisUpdate {
+  timestamp: number;
+  /** The last complete analysis with the fields streamed so far applied */
+  analysis: MedicalAnalysis;
+  /** Fields that arrived in this update */
+  fields: MedicalAnalysisDelta;
 }
 
 export class MedicalAnalysisAgent {
-  private llmManager: LLMManager | null = null;
   private edgeFunctionLlm: EdgeFunctionLLM | null = null;
   private analysisIntervalMs: number;
   private minTranscriptLength: number;
   private analysisTimer: NodeJS.Timeout | null = null;
+  private utteranceTimer: NodeJS.Timeout | null = null;
+  private utteranceSettleMs: number;
+  private lastAnalysisAt: number = 0;
+  private transcriptGetter: (() => string) | null = null;
   private lastProcessedLength: number = 0;
   private onAnalysisUpdate: ((result: AnalysisResult) => void) | null = null;
+  private onPartialUpdate: ((update: PartialAnalysisUpdate) => void) | null = null;
+  // Last complete analysis; streamed fields are shown on top of it
+  private lastAnalysis: MedicalAnalysis | null = null;
   private isAnalyzing: boolean = false;
   private provider: LLMProvider;
   private model: string;
+  private language: string | undefined;
+  private conversationId: string | undefined;
+  // Incremental analysis: the lines and extraction revision the Edge Function has
+  private sentLines: string[] = [];
+  private revision: number = 0;
+  private liveAnalysis: MedicalAnalysis | null = null;
 
   constructor(config: AgentConfig) {
     this.provider = config.provider;
-    this.model = config.model || LLMManager.getDefaultModel(config.provider);
+    this.model = config.model || getDefaultModel(config.provider);
     this.analysisIntervalMs = (config.analysisIntervalSeconds || 5) * 1000;
     this.minTranscriptLength = config.minTranscriptLength || 30;
+    this.utteranceSettleMs = config.utteranceSettleMs ?? 1000;
+    this.language = config.language;
+    this.conversationId = config.conversationId;
     
-    try {
-      if (config.edgeFunctionUrl) {
-        // Use Edge Function (recommended)
-        this.edgeFunctionLlm = new EdgeFunctionLLM(config.edgeFunctionUrl, config.anonKey);
-        console.log('✅ Using Supabase Edge Function for medical analysis');
-      } else {
-        // Fallback to browser-direct LLM (legacy)
-        this.llmManager = new LLMManager({
-          provider: config.provider,
-          apiKey: config.apiKey,
-          model: this.model,
-        });
-        console.log('⚠️ Using browser-direct LLM (not recommended, may have CORS issues)');
-      }
-    } catch (error) {
-      console.error('Failed to initialize LLM:', error);
-    }
+    this.edgeFunctionLlm = new EdgeFunctionLLM(config.edgeFunctionUrl, config.anonKey, config.getAccessToken);
+    console.log('✅ Using Supabase Edge Function for medical analysis');
   }
 
   /**
-   * Start analyzing transcript with a timer
+   * Start analyzing transcript. Analysis runs after each notifyUtteranceEnd(), and
+   * on a timer when no utterance-triggered analysis ran within the interval.
+   * onPartial streams each analysis: it gets fields as soon as the model has written them.
    */
   startAnalysis(
     transcriptGetter: () => string,
-    onUpdate: (result: AnalysisResult) => void
+    onUpdate: (result: AnalysisResult) => void,
+    onPartial?: (update: PartialAnalysisUpdate) => void
   ) {
     if (this.analysisTimer) {
       console.warn('Analysis already running, stopping previous instance');
@@ -74,65 +109,49 @@ export class MedicalAnalysisAgent {
     }
 
     this.onAnalysisUpdate = onUpdate;
+    this.onPartialUpdate = onPartial || null;
+    this.transcriptGetter = transcriptGetter;
     this.lastProcessedLength = 0;
+    this.lastAnalysisAt = Date.now();
+    this.sentLines = [];
+    this.revision = 0;
+    this.liveAnalysis = null;
+    this.lastAnalysis = null;
 
-    console.log(`🚀 Medical Analysis Agent started (${this.provider}) - analyzing every ${this.analysisIntervalMs}ms`);
-
-    this.analysisTimer = setInterval(async () => {
-      const transcript = transcriptGetter().trim();
-
-      // Skip if no significant content
-      if (transcript.length < this.minTranscriptLength) {
-        return;
-      }
+    console.log(`🚀 Medical Analysis Agent started (${this.provider}) - analyzing on utterance end, at least every ${this.analysisIntervalMs}ms`);
 
-      // Skip if already analyzing
-      if (this.isAnalyzing) {
-        console.log('⏳ Analysis in progress, skipping this interval');
+    this.analysisTimer = setInterval(() => {
+      // Utterance-triggered analysis keeps up on its own in a normal back-and-forth
+      if (Date.now() - this.lastAnalysisAt < this.analysisIntervalMs) {
         return;
       }
+      this.runAnalysis('interval');
+    }, this.analysisIntervalMs);
+  }
 
-      // Skip if no new content
-      const newContentLength = transcript.length - this.lastProcessedLength;
-      if (newContentLength < 5) {
-        return;
-      }
+  /**
+   * The speaker stopped talking - analyze once the final transcript has had time to arrive
+   */
+  notifyUtteranceEnd() {
+    if (!this.analysisTimer) return;
 
-      try {
-        this.isAnalyzing = true;
-        // Notify UI immediately that analysis has started to avoid a perceived delay
-        if (this.onAnalysisUpdate) {
-          this.onAnalysisUpdate({
-            timestamp: Date.now(),
-            analysis: null,
-            error: null,
-            provider: this.provider,
-          });
-        }
-        await this.performAnalysis(transcript);
-        this.lastProcessedLength = transcript.length;
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        console.error('Analysis failed:', errorMsg);
-        
-        if (this.onAnalysisUpdate) {
-          this.onAnalysisUpdate({
-            timestamp: Date.now(),
-            analysis: null,
-            error: errorMsg,
-            provider: this.provider,
-          });
-        }
-      } finally {
-        this.isAnalyzing = false;
-      }
-    }, this.analysisIntervalMs);
+    if (this.utteranceTimer) {
+      clearTimeout(this.utteranceTimer);
+    }
+    this.utteranceTimer = setTimeout(() => {
+      this.utteranceTimer = null;
+      this.runAnalysis('utterance');
+    }, this.utteranceSettleMs);
   }
 
   /**
    * Stop analyzing
    */
   stopAnalysis() {
+    if (this.utteranceTimer) {
+      clearTimeout(this.utteranceTimer);
+      this.utteranceTimer = null;
+    }
     if (this.analysisTimer) {
       clearInterval(this.analysisTimer);
       this.analysisTimer = null;
@@ -141,25 +160,153 @@ export class MedicalAnalysisAgent {
     this.isAnalyzing = false;
   }
 
+  /**
+   * Analyze the current transcript if it has grown enough since the last run
+   */
+  private async runAnalysis(trigger: 'utterance' | 'interval') {
+    if (!this.transcriptGetter) return;
+    const transcript = this.transcriptGetter().trim();
+
+    // Skip if no significant content
+    if (transcript.length < this.minTranscriptLength) {
+      return;
+    }
+
+    // Skip if already analyzing
+    if (this.isAnalyzing) {
+      console.log(`⏳ Analysis in progress, skipping this ${trigger} trigger`);
+      return;
+    }
+
+    // Skip if no new content
+    const newContentLength = transcript.length - this.lastProcessedLength;
+    if (newContentLength < 5) {
+      return;
+    }
+
+    try {
+      this.isAnalyzing = true;
+      this.lastAnalysisAt = Date.now();
+      // Notify UI immediately that analysis has started to avoid a perceived delay
+      if (this.onAnalysisUpdate) {
+        this.onAnalysisUpdate({
+          timestamp: Date.now(),
+          analysis: null,
+          error: null,
+          provider: this.provider,
+        });
+      }
+      await this.performAnalysis(transcript, !!this.conversationId);
+      this.lastProcessedLength = transcript.length;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error('Analysis failed:', errorMsg);
+      
+      if (this.onAnalysisUpdate) {
+        this.onAnalysisUpdate({
+          timestamp: Date.now(),
+          analysis: null,
+          error: errorMsg,
+          provider: this.provider,
+        });
+      }
+    } finally {
+      this.isAnalyzing = false;
+    }
+  }
+
+  /**
+   * Send the lines that changed since the last run and apply the returned fields
+   * Lines before the first changed one are already on the Edge Function; the
+   * last line usually changes as the speaker keeps talking.
+   */
+  private async analyzeIncrementally(
+    edge: EdgeFunctionLLM,
+    conversationId: string,
+    transcript: string,
+    onPartial?: PartialFieldsHandler
+  ): Promise<{ analysis: MedicalAnalysis; provider: LLMProvider | null; delta?: MedicalAnalysisDelta }> {
+    const lines = transcript.split('\n');
+    let fromLine = 0;
+    while (fromLine < this.sentLines.length && fromLine < lines.length && lines[fromLine] === this.sentLines[fromLine]) {
+      fromLine++;
+    }
+
+    const send = (from: number, revision: number) => edge.analyzeIncrement(conversationId, {
+      fromLine: from,
+      lines: lines.slice(from),
+      revision,
+      model: this.model,
+      provider: this.provider,
+      language: this.language,
+    }, onPartial);
+
+    let result = await send(fromLine, this.revision);
+    if (result.resync) {
+      // Cold start or another instance - the function needs the whole transcript
+      console.warn('[MedicalAnalysisAgent] Edge Function lost the conversation, resending the full transcript');
+      result = await send(0, 0);
+    }
+    if (result.resync) {
+      throw new Error('Edge Function could not resume the conversation');
+    }
+
+    const merged = result.analysis ?? applyMedicalAnalysisDelta(this.liveAnalysis || emptyMedicalAnalysis(), result.delta || {});
+    const { analysis, issues } = parseMedicalAnalysis(merged);
+    if (issues.length > 0) {
+      console.warn('[MedicalAnalysisAgent] Delta schema issues:', issues);
+    }
+
+    this.sentLines = lines;
+    this.revision = result.revision;
+    this.liveAnalysis = analysis;
+    return { analysis, provider: result.provider, delta: result.delta };
+  }
+
+  /**
+   * Handler for streamed fields, or undefined when nobody listens for them
+   */
+  private partialFieldsHandler(): PartialFieldsHandler | undefined {
+    if (!this.onPartialUpdate) return undefined;
+
+    let streamed = this.lastAnalysis || emptyMedicalAnalysis();
+    return (fields) => {
+      streamed = parseMedicalAnalysis(applyMedicalAnalysisDelta(streamed, fields)).analysis;
+      this.onPartialUpdate?.({ timestamp: Date.now(), analysis: streamed, fields });
+    };
+  }
+
   /**
    * Perform single analysis
    */
-  private async performAnalysis(transcript: string) {
+  private async performAnalysis(transcript: string, incremental = false) {
     console.log(`📊 [MedicalAnalysisAgent] Analyzing transcript (${transcript.length} chars) with ${this.provider}...`);
     let analysis: MedicalAnalysis | null = null;
+    let answeredBy: LLMProvider = this.provider;
+    let delta: MedicalAnalysisDelta | undefined;
     let errorMsg: string | null = null;
 
     try {
-      if (this.edgeFunctionLlm) {
-        console.log('[MedicalAnalysisAgent] Using Edge Function path');
-        // Use Edge Function (recommended path)
-        analysis = await this.edgeFunctionLlm.analyzeMedical(transcript, this.model);
-      } else if (this.llmManager) {
-        console.log('[MedicalAnalysisAgent] Using browser-direct LLM path');
-        // Fallback to browser-direct
-        analysis = await this.llmManager.analyzeConsultation([], transcript);
-      } else {
-        throw new Error('No LLM service available - neither EdgeFunction nor LLMManager initialized');
+      if (!this.edgeFunctionLlm) {
+        throw new Error('No LLM service available - Edge Function not initialized');
+      }
+      const onPartial = this.partialFieldsHandler();
+      const result = incremental && this.conversationId
+        ? await this.analyzeIncrementally(this.edgeFunctionLlm, this.conversationId, transcript, onPartial)
+        : await this.edgeFunctionLlm.analyzeMedical(transcript, this.model, this.language, this.provider, onPartial);
+      // No provider answered and the Edge Function fell back to keyword matching -
+      // not good enough to replace what the doctor already has
+      if (result.provider === null) {
+        throw new Error('No AI provider could analyze the transcript. The prescription was left unchanged.');
+      }
+      analysis = result.analysis;
+      this.lastAnalysis = analysis;
+      if ('delta' in result) {
+        delta = result.delta;
+      }
+      if (result.provider && result.provider !== this.provider) {
+        console.warn(`[MedicalAnalysisAgent] ${this.provider} failed, analysis by ${result.provider}`);
+        answeredBy = result.provider;
       }
 
       console.log('✅ [MedicalAnalysisAgent] Analysis complete:', {
@@ -180,7 +327,8 @@ export class MedicalAnalysisAgent {
           timestamp: Date.now(),
           analysis: analysis,
           error: errorMsg,
-          provider: this.provider,
+          provider: answeredBy,
+          delta,
         });
       }
 
@@ -191,6 +339,28 @@ export class MedicalAnalysisAgent {
     }
   }
 
+  /**
+   * Analyze a finished transcript once, outside the live loop - used when the
+   * doctor corrected the transcript after the session. The result (or error)
+   * is delivered to onUpdate.
+   */
+  async analyzeOnce(transcript: string, onUpdate: (result: AnalysisResult) => void) {
+    if (this.isAnalyzing) {
+      console.log('⏳ Analysis in progress, skipping re-run');
+      return;
+    }
+
+    this.onAnalysisUpdate = onUpdate;
+    this.isAnalyzing = true;
+    try {
+      await this.performAnalysis(transcript.trim());
+    } catch (error) {
+      // Already reported through onUpdate
+    } finally {
+      this.isAnalyzing = false;
+    }
+  }
+
   /**
    * Check if currently analyzing
    */
@@ -201,19 +371,10 @@ export class MedicalAnalysisAgent {
   /**
    * Switch LLM provider
    */
-  switchProvider(newProvider: LLMProvider, apiKey: string) {
+  switchProvider(newProvider: LLMProvider, model?: string) {
     this.provider = newProvider;
-    try {
-      this.llmManager = new LLMManager({
-        provider: newProvider,
-        apiKey,
-        model: LLMManager.getDefaultModel(newProvider),
-      });
-      console.log(`✨ Switched to ${newProvider} provider`);
-    } catch (error) {
-      console.error('Failed to switch provider:', error);
-      throw error;
-    }
+    this.model = model || getDefaultModel(newProvider);
+    console.log(`✨ Switched to ${newProvider} provider`);
   }
 
   /**
@@ -221,8 +382,9 @@ export class MedicalAnalysisAgent {
    */
   destroy() {
     this.stopAnalysis();
-    this.llmManager = null;
     this.edgeFunctionLlm = null;
     this.onAnalysisUpdate = null;
+    this.onPartialUpdate = null;
+    this.transcriptGetter = null;
   }
 }
@@ -0,0 +1,220 @@
+/**
+ * Shared microphone capture
+ * One AudioContext + AudioWorklet per MediaStream produces 16 kHz PCM frames
+ * with level and voice-activity flags, fanned out to every subscriber
+ * (STT engine, failover buffer, speaker detection, level meters).
+ * Browsers without AudioWorklet get the same frames from a ScriptProcessorNode.
+ * Voice activity is decided once here so every subscriber agrees on it.
+ */
+
+import { STT_SAMPLE_RATE } from "../stt/pcm";
+import type { AcousticFeatures } from "../speaker-detection/VoiceAnalyzer";
+import { VoiceActivityDetector } from "./VoiceActivityDetector";
+import { FrameBuilder, type BuiltFrame, type FrameBuilderOptions } from "./FrameBuilder";
+import captureWorkletUrl from "./capture-worklet?worker&url";
+
+// 128 ms per frame at 16 kHz - also the window VoiceAnalyzer works on
+export const CAPTURE_FRAME_SAMPLES = 2048;
+
+// RMS above which a frame can be speech (first VAD stage, in FrameBuilder)
+const VAD_THRESHOLD = 0.01;
+// Keep flagging speech this long after the level drops
+const VAD_HANGOVER_MS = 300;
+
+const FRAME_MS = (CAPTURE_FRAME_SAMPLES / STT_SAMPLE_RATE) * 1000;
+
+const FRAME_OPTIONS: FrameBuilderOptions = {
+  frameSamples: CAPTURE_FRAME_SAMPLES,
+  vadThreshold: VAD_THRESHOLD,
+  hangoverMs: VAD_HANGOVER_MS,
+};
+
+// Input samples per ScriptProcessorNode callback (~85 ms at 48 kHz)
+const SCRIPT_PROCESSOR_BUFFER_SIZE = 4096;
+
+export interface AudioFrame {
+  /** 16 kHz mono samples in -1..1 */
+  samples: Float32Array;
+  /** Same audio as 16-bit PCM, ready to send to an STT engine */
+  pcm: Int16Array;
+  rms: number;
+  peak: number;
+  /** Voice activity (energy gate plus voicing check, with hangover) */
+  isSpeech: boolean;
+  /** Set on the frame where the current utterance ended */
+  utteranceEnd: boolean;
+  /** Pitch/energy/spectral features, present when the frame passed the energy gate */
+  features: AcousticFeatures | null;
+  /** Seconds of audio captured before this frame */
+  time: number;
+}
+
+export type AudioFrameListener = (frame: AudioFrame) => void;
+
+export class AudioCapture {
+  private static shared = new Map<MediaStream, Promise<AudioCapture>>();
+
+  private stream: MediaStream;
+  private audioContext: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | ScriptProcessorNode | null = null;
+  private listeners = new Set<AudioFrameListener>();
+  private refCount = 0;
+  private framesCaptured = 0;
+  private lastFrame: AudioFrame | null = null;
+  private vad = new VoiceActivityDetector(STT_SAMPLE_RATE);
+
+  private constructor(stream: MediaStream) {
+    this.stream = stream;
+  }
+
+  /**
+   * Get the capture for a stream, starting it if needed.
+   * Every acquire() must be paired with a release().
+   */
+  static async acquire(stream: MediaStream): Promise<AudioCapture> {
+    let pending = AudioCapture.shared.get(stream);
+    if (!pending) {
+      const capture = new AudioCapture(stream);
+      pending = capture.start().then(() => capture);
+      AudioCapture.shared.set(stream, pending);
+      pending.catch(() => AudioCapture.shared.delete(stream));
+    }
+
+    const capture = await pending;
+    capture.refCount++;
+    return capture;
+  }
+
+  /**
+   * Receive every captured frame
+   * @returns unsubscribe function
+   */
+  subscribe(listener: AudioFrameListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Level of the most recent frame (0 when nothing has been captured yet)
+   */
+  getLevel(): { rms: number; peak: number; isSpeech: boolean } {
+    return {
+      rms: this.lastFrame?.rms || 0,
+      peak: this.lastFrame?.peak || 0,
+      isSpeech: this.lastFrame?.isSpeech || false,
+    };
+  }
+
+  /**
+   * Seconds of audio captured so far (the time of the next frame)
+   */
+  getTime(): number {
+    return (this.framesCaptured * CAPTURE_FRAME_SAMPLES) / STT_SAMPLE_RATE;
+  }
+
+  release(): void {
+    this.refCount = Math.max(0, this.refCount - 1);
+    if (this.refCount === 0) {
+      this.stop();
+    }
+  }
+
+  private async start(): Promise<void> {
+    const AudioCtx = (window as any).AudioContext || (window as any).webkitAudioContext;
+    let ctx: AudioContext;
+    try {
+      ctx = new AudioCtx({ sampleRate: STT_SAMPLE_RATE });
+    } catch (e) {
+      // Browser doesn't accept the sampleRate option - the worklet downsamples
+      ctx = new AudioCtx();
+    }
+    this.audioContext = ctx;
+
+    try {
+      let node: AudioWorkletNode | ScriptProcessorNode;
+      try {
+        node = await this.createWorkletNode(ctx);
+      } catch (error) {
+        // Older Safari and insecure (http) origins have no AudioWorklet
+        console.warn("[AudioCapture] AudioWorklet unavailable, falling back to ScriptProcessorNode:", error);
+        node = this.createScriptProcessorNode(ctx);
+      }
+
+      this.source = ctx.createMediaStreamSource(this.stream);
+      this.source.connect(node);
+      // The node outputs silence; connecting it keeps the graph pulling audio through it
+      node.connect(ctx.destination);
+      this.node = node;
+      console.log(`[AudioCapture] Started (${ctx.sampleRate} Hz -> ${STT_SAMPLE_RATE} Hz)`);
+    } catch (error) {
+      this.stop();
+      throw new Error(`Audio capture unavailable: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async createWorkletNode(ctx: AudioContext): Promise<AudioWorkletNode> {
+    if (!ctx.audioWorklet) {
+      throw new Error("AudioWorklet is not supported");
+    }
+    await ctx.audioWorklet.addModule(captureWorkletUrl);
+    const node = new AudioWorkletNode(ctx, "capture-processor", { processorOptions: FRAME_OPTIONS });
+    node.port.onmessage = (ev: MessageEvent) => this.dispatch(ev.data);
+    return node;
+  }
+
+  private createScriptProcessorNode(ctx: AudioContext): ScriptProcessorNode {
+    // Same framing as the worklet, on the main thread
+    const builder = new FrameBuilder(ctx.sampleRate, FRAME_OPTIONS, (frame) => this.dispatch(frame));
+    const node = ctx.createScriptProcessor(SCRIPT_PROCESSOR_BUFFER_SIZE, 1, 1);
+    node.onaudioprocess = (ev: AudioProcessingEvent) => builder.process(ev.inputBuffer.getChannelData(0));
+    return node;
+  }
+
+  private dispatch(data: BuiltFrame): void {
+    const vad = this.vad.process(data.samples, data.isSpeech, FRAME_MS);
+    const frame: AudioFrame = {
+      ...data,
+      isSpeech: vad.isSpeech,
+      utteranceEnd: vad.utteranceEnd,
+      features: vad.features,
+      time: (this.framesCaptured * CAPTURE_FRAME_SAMPLES) / STT_SAMPLE_RATE,
+    };
+    this.framesCaptured++;
+    this.lastFrame = frame;
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(frame);
+      } catch (err) {
+        console.error("[AudioCapture] Frame listener failed:", err);
+      }
+    });
+  }
+
+  private stop(): void {
+    AudioCapture.shared.delete(this.stream);
+    this.listeners.clear();
+
+    if (this.source) {
+      try { this.source.disconnect(); } catch (e) {}
+      this.source = null;
+    }
+    if (this.node) {
+      if (this.node instanceof ScriptProcessorNode) {
+        this.node.onaudioprocess = null;
+      } else {
+        this.node.port.onmessage = null;
+      }
+      try { this.node.disconnect(); } catch (e) {}
+      this.node = null;
+    }
+    if (this.audioContext) {
+      try { this.audioContext.close(); } catch (e) {}
+      this.audioContext = null;
+    }
+    console.log("[AudioCapture] Stopped");
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Consultation audio recorder
+ * Records the consultation as Opus/WebM with MediaRecorder and uploads it to the
+ * relay in numbered chunks while the consultation is still running, so at most
+ * a few seconds are lost if the tab closes. Chunks recorded before the
+ * consultation_id is known are held and uploaded once attach() is called.
+ */
+
+import { loadServiceEnvironment } from "../ServiceConfig";
+import { relayHeaders } from "../ServiceManager";
+
+// Used when the clinic has not chosen a retention period
+export const DEFAULT_AUDIO_RETENTION_DAYS = 30;
+
+// Seconds of audio per uploaded chunk
+const CHUNK_SECONDS = 5;
+const MAX_UPLOAD_ATTEMPTS = 3;
+
+const PREFERRED_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus"];
+
+export interface ConsultationAudio {
+  mime_type: string;
+  duration: number;
+  chunks: number;
+  bytes: number;
+  expires_at: string | null;
+}
+
+function relayUrl(): string {
+  return loadServiceEnvironment().sttRelayUrl || "http://localhost:3002";
+}
+
+export class ConsultationRecorder {
+  private recorder: MediaRecorder | null = null;
+  private consultationId: string | null = null;
+  private pending: Blob[] = [];
+  private nextIndex = 0;
+  private bytes = 0;
+  private uploading: Promise<void> = Promise.resolve();
+  private failed = false;
+  private startedAt = 0;
+  private mimeType = "";
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== "undefined" && PREFERRED_MIME_TYPES.some((type) => MediaRecorder.isTypeSupported(type));
+  }
+
+  start(stream: MediaStream): void {
+    const mimeType = PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error("Audio recording is not supported in this browser");
+    }
+
+    // Record only the audio track even if the stream carries more
+    const recorder = new MediaRecorder(new MediaStream(stream.getAudioTracks()), {
+      mimeType,
+      audioBitsPerSecond: 32000,
+    });
+    recorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data.size > 0) {
+        this.pending.push(event.data);
+        this.flush();
+      }
+    };
+    recorder.start(CHUNK_SECONDS * 1000);
+
+    this.recorder = recorder;
+    this.mimeType = mimeType.split(";")[0];
+    this.startedAt = Date.now();
+    console.log(`[Recorder] Recording consultation audio (${mimeType})`);
+  }
+
+  /**
+   * Link the recording to its consultation and upload everything recorded so far
+   */
+  attach(consultationId: string): void {
+    if (this.consultationId === consultationId) return;
+    this.consultationId = consultationId;
+    this.flush();
+  }
+
+  getConsultationId(): string | null {
+    return this.consultationId;
+  }
+
+  /**
+   * Stop recording, wait for every chunk to upload and start the retention period
+   * (the clinic's, applied by the relay)
+   * @returns what was stored, or null if nothing could be uploaded
+   */
+  async stop(): Promise<ConsultationAudio | null> {
+    const recorder = this.recorder;
+    this.recorder = null;
+    if (!recorder) return null;
+
+    // The final chunk arrives in a dataavailable event just before onstop
+    if (recorder.state !== "inactive") {
+      await new Promise<void>((resolve) => {
+        recorder.onstop = () => resolve();
+        recorder.stop();
+      });
+    }
+
+    const duration = (Date.now() - this.startedAt) / 1000;
+    const consultationId = this.consultationId;
+    if (!consultationId) {
+      console.warn("[Recorder] Recording stopped before a consultation was attached, discarding audio");
+      return null;
+    }
+
+    this.flush();
+    await this.uploading;
+    if (this.failed || this.nextIndex === 0) return null;
+
+    const response = await fetch(`${relayUrl()}/api/recordings/${consultationId}/complete`, {
+      method: "POST",
+      headers: await relayHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify({ duration }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to finalize recording (${response.status})`);
+    }
+    const data = await response.json();
+
+    return {
+      mime_type: this.mimeType,
+      duration,
+      chunks: this.nextIndex,
+      bytes: this.bytes,
+      expires_at: data.recording?.expires_at ?? null,
+    };
+  }
+
+  /**
+   * Queue pending chunks for upload, one at a time and in order
+   */
+  private flush(): void {
+    const consultationId = this.consultationId;
+    if (!consultationId || this.failed) return;
+
+    while (this.pending.length) {
+      const chunk = this.pending.shift()!;
+      const index = this.nextIndex++;
+      this.uploading = this.uploading.then(() => this.uploadChunk(consultationId, index, chunk));
+    }
+  }
+
+  private async uploadChunk(consultationId: string, index: number, chunk: Blob): Promise<void> {
+    if (this.failed) return;
+
+    for (let attempt = 1; attempt <= MAX_UPLOAD_ATTEMPTS; attempt++) {
+      try {
+        const response = await fetch(`${relayUrl()}/api/recordings/${consultationId}/chunks/${index}`, {
+          method: "PUT",
+          headers: await relayHeaders({ "Content-Type": this.mimeType }),
+          body: chunk,
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        this.bytes += chunk.size;
+        return;
+      } catch (error) {
+        console.warn(`[Recorder] Chunk ${index} upload attempt ${attempt} failed:`, error);
+        if (attempt < MAX_UPLOAD_ATTEMPTS) {
+          await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+        }
+      }
+    }
+
+    // A gap would make the rest of the file unplayable, so stop uploading
+    this.failed = true;
+    console.error(`[Recorder] Giving up on recording for consultation ${consultationId}`);
+  }
+}
+
+/**
+ * Download a stored consultation recording for playback
+ */
+export async function fetchConsultationAudio(consultationId: string): Promise<Blob> {
+  const response = await fetch(`${relayUrl()}/api/recordings/${consultationId}`, { headers: await relayHeaders() });
+  if (!response.ok) {
+    if (response.status === 403) throw new Error("Only the doctor who recorded this consultation can play it");
+    throw new Error(response.status === 404 ? "Recording not found (it may have expired)" : "Failed to load recording");
+  }
+  return response.blob();
+}
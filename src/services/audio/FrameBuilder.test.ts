@@ -0,0 +1,68 @@
+/**
+ * The worklet and the ScriptProcessorNode fallback both frame audio with
+ * FrameBuilder, so frames start at the same sample whichever path captured them
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FrameBuilder, type BuiltFrame, type FrameBuilderOptions } from "./FrameBuilder";
+
+const OPTIONS: FrameBuilderOptions = { frameSamples: 2048, vadThreshold: 0.01, hangoverMs: 300 };
+
+// Input at 48 kHz where every group of three samples averages to its 16 kHz index
+function ramp(inputSamples: number): Float32Array {
+  const input = new Float32Array(inputSamples);
+  for (let i = 0; i < inputSamples; i++) input[i] = Math.floor(i / 3) / 65536 + ((i % 3) - 1) / 1e6;
+  return input;
+}
+
+function build(input: Float32Array, chunkSizes: number[], options = OPTIONS): BuiltFrame[] {
+  const frames: BuiltFrame[] = [];
+  const builder = new FrameBuilder(48000, options, (frame) => frames.push(frame));
+  let offset = 0;
+  for (let i = 0; offset < input.length; i++) {
+    const size = chunkSizes[i % chunkSizes.length];
+    builder.process(input.subarray(offset, offset + size));
+    offset += size;
+  }
+  return frames;
+}
+
+test("cuts the same frames whatever size the input arrives in", () => {
+  // Five frames and a partial one at 16 kHz
+  const input = ramp(3 * (5 * 2048 + 1000));
+  const worklet = build(input, [128]);
+  const scriptProcessor = build(input, [4096]);
+  const uneven = build(input, [1, 517, 3000, 64]);
+
+  assert.equal(worklet.length, 5);
+  for (const frames of [scriptProcessor, uneven]) {
+    assert.equal(frames.length, worklet.length);
+    frames.forEach((frame, i) => assert.deepEqual(frame.samples, worklet[i].samples));
+  }
+
+  // Each frame continues exactly where the previous one stopped
+  worklet.forEach((frame, i) => {
+    assert.equal(frame.samples.length, 2048);
+    assert.ok(Math.abs(frame.samples[0] - (i * 2048) / 65536) < 1e-6);
+    assert.ok(Math.abs(frame.samples[2047] - (i * 2048 + 2047) / 65536) < 1e-6);
+  });
+});
+
+test("flags speech until the hangover after the level drops", () => {
+  const frameInput = 3 * 2048;
+  const input = new Float32Array(10 * frameInput);
+  // Frames 0-1 loud, the rest silent
+  input.fill(0.5, 0, 2 * frameInput);
+
+  const frames = build(input, [128]);
+  // 300 ms of hangover is three 128 ms frames
+  assert.deepEqual(
+    frames.map((frame) => frame.isSpeech),
+    [true, true, true, true, true, false, false, false, false, false]
+  );
+  assert.equal(frames[0].peak, 0.5);
+  assert.ok(Math.abs(frames[0].rms - 0.5) < 1e-6);
+  assert.equal(frames[0].pcm[0], Math.floor(0.5 * 0x7fff));
+  assert.equal(frames[9].rms, 0);
+});
@@ -0,0 +1,96 @@
+/**
+ * Frame builder
+ * Downsamples microphone input to 16 kHz mono, cuts it into fixed-size frames
+ * and runs the energy stage of voice activity detection on each. Runs in the
+ * capture worklet, and on the main thread for the ScriptProcessorNode fallback.
+ * Kept free of browser APIs so the worklet bundle stays small.
+ */
+
+import { STT_SAMPLE_RATE } from "../../shared/pcm";
+
+export interface FrameBuilderOptions {
+  frameSamples: number;
+  /** RMS above which a frame can be speech */
+  vadThreshold: number;
+  /** Keep flagging speech this long after the level drops */
+  hangoverMs: number;
+}
+
+export interface BuiltFrame {
+  samples: Float32Array;
+  pcm: Int16Array;
+  rms: number;
+  peak: number;
+  isSpeech: boolean;
+}
+
+export class FrameBuilder {
+  private onFrame: (frame: BuiltFrame) => void;
+  private frameSamples: number;
+  private vadThreshold: number;
+  private hangoverFrames: number;
+  private ratio: number;
+  private nextBoundary: number;
+  private inputIndex = 0;
+  private sum = 0;
+  private count = 0;
+  private frame: Float32Array;
+  private frameFill = 0;
+  private silentFrames: number;
+
+  constructor(inputSampleRate: number, options: FrameBuilderOptions, onFrame: (frame: BuiltFrame) => void) {
+    this.onFrame = onFrame;
+    this.frameSamples = options.frameSamples;
+    this.vadThreshold = options.vadThreshold;
+    this.hangoverFrames = Math.ceil(((options.hangoverMs / 1000) * STT_SAMPLE_RATE) / this.frameSamples);
+    this.ratio = inputSampleRate / STT_SAMPLE_RATE;
+    this.nextBoundary = this.ratio;
+    this.frame = new Float32Array(this.frameSamples);
+    this.silentFrames = this.hangoverFrames + 1;
+  }
+
+  process(channel: Float32Array): void {
+    for (let i = 0; i < channel.length; i++) {
+      // Average the input samples that fall into each 16 kHz output sample
+      this.sum += channel[i];
+      this.count++;
+      this.inputIndex++;
+
+      if (this.inputIndex >= this.nextBoundary) {
+        this.pushSample(this.sum / this.count);
+        this.sum = 0;
+        this.count = 0;
+        this.nextBoundary += this.ratio;
+      }
+    }
+  }
+
+  private pushSample(value: number): void {
+    this.frame[this.frameFill++] = value;
+    if (this.frameFill < this.frameSamples) return;
+
+    const samples = this.frame;
+    this.frame = new Float32Array(this.frameSamples);
+    this.frameFill = 0;
+
+    let sumSquares = 0;
+    let peak = 0;
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      sumSquares += s * s;
+      if (Math.abs(s) > peak) peak = Math.abs(s);
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    const rms = Math.sqrt(sumSquares / samples.length);
+
+    // Energy VAD with hangover so word endings are not clipped
+    if (rms >= this.vadThreshold) {
+      this.silentFrames = 0;
+    } else {
+      this.silentFrames++;
+    }
+
+    this.onFrame({ samples, pcm, rms, peak, isSpeech: this.silentFrames <= this.hangoverFrames });
+  }
+}
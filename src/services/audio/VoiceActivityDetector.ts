@@ -0,0 +1,84 @@
+/**
+ * Voice activity detection
+ * Second stage on top of the worklet's energy gate: frames loud enough to be
+ * speech are checked for voicing with VoiceAnalyzer's pitch estimate, so fans,
+ * door slams and keyboard noise do not open an utterance. Also reports when an
+ * utterance has ended, which the STT relay and the analysis agent act on.
+ */
+
+import { VoiceAnalyzer, type AcousticFeatures } from "../speaker-detection/VoiceAnalyzer";
+
+// Voiced frames in a row needed to open an utterance (~256 ms)
+const ONSET_FRAMES = 2;
+// Inside an utterance, unvoiced but loud frames (consonants, breaths) count as speech this long
+const UNVOICED_HANGOVER_MS = 400;
+// Silence after which the utterance is over
+const UTTERANCE_END_MS = 800;
+
+export interface VadDecision {
+  isSpeech: boolean;
+  /** True on the single frame where an utterance is declared finished */
+  utteranceEnd: boolean;
+  /** Acoustic features of the frame, only computed when it passed the energy gate */
+  features: AcousticFeatures | null;
+}
+
+export class VoiceActivityDetector {
+  private analyzer: VoiceAnalyzer;
+  private inUtterance = false;
+  private voicedRun = 0;
+  private msSinceVoiced = 0;
+  private msSinceSpeech = 0;
+
+  constructor(sampleRate: number) {
+    this.analyzer = new VoiceAnalyzer(sampleRate);
+  }
+
+  /**
+   * @param samples - One frame of mono audio
+   * @param energyActive - Result of the energy stage for this frame
+   * @param frameMs - Frame duration
+   */
+  process(samples: Float32Array, energyActive: boolean, frameMs: number): VadDecision {
+    let features: AcousticFeatures | null = null;
+    let isSpeech = false;
+
+    if (energyActive) {
+      features = this.analyzer.extractFeatures(samples);
+      const voiced = features.pitch > 0;
+
+      if (voiced) {
+        this.voicedRun++;
+        this.msSinceVoiced = 0;
+      } else {
+        this.voicedRun = 0;
+        this.msSinceVoiced += frameMs;
+      }
+
+      if (!this.inUtterance && this.voicedRun >= ONSET_FRAMES) {
+        this.inUtterance = true;
+      }
+      isSpeech = this.inUtterance && this.msSinceVoiced <= UNVOICED_HANGOVER_MS;
+    } else {
+      this.voicedRun = 0;
+      this.msSinceVoiced += frameMs;
+    }
+
+    this.msSinceSpeech = isSpeech ? 0 : this.msSinceSpeech + frameMs;
+
+    let utteranceEnd = false;
+    if (this.inUtterance && this.msSinceSpeech >= UTTERANCE_END_MS) {
+      this.inUtterance = false;
+      utteranceEnd = true;
+    }
+
+    return { isSpeech, utteranceEnd, features };
+  }
+
+  reset(): void {
+    this.inUtterance = false;
+    this.voicedRun = 0;
+    this.msSinceVoiced = 0;
+    this.msSinceSpeech = 0;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Capture worklet - runs on the audio thread
+ * Feeds microphone input through FrameBuilder and posts each 16 kHz frame,
+ * with its level and energy-based voice activity, to AudioCapture.
+ * Loaded with Vite's ?worker&url, which bundles FrameBuilder into it.
+ */
+
+import { FrameBuilder, type FrameBuilderOptions } from "./FrameBuilder";
+
+// Globals of the AudioWorkletGlobalScope, which the DOM lib does not declare
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: new (options: any) => AudioWorkletProcessor): void;
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private builder: FrameBuilder;
+
+  constructor(options: { processorOptions: FrameBuilderOptions }) {
+    super();
+    this.builder = new FrameBuilder(sampleRate, options.processorOptions, (frame) => {
+      this.port.postMessage(frame, [frame.samples.buffer, frame.pcm.buffer]);
+    });
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (channel) this.builder.process(channel);
+    return true;
+  }
+}
+
+registerProcessor("capture-processor", CaptureProcessor);
@@ -0,0 +1,63 @@
+/**
+ * Condition Lexicon
+ * Diagnoses and conditions commonly seen in Indian primary care, spelled the
+ * way they should appear in a transcript. Used by the post-STT correction stage.
+ */
+
+export const CONDITION_LEXICON: string[] = [
+  // Infections
+  'dengue',
+  'malaria',
+  'typhoid',
+  'chikungunya',
+  'leptospirosis',
+  'tuberculosis',
+  'pneumonia',
+  'bronchitis',
+  'pharyngitis',
+  'tonsillitis',
+  'sinusitis',
+  'gastroenteritis',
+  'conjunctivitis',
+  'cellulitis',
+  'otitis media',
+  'urinary tract infection',
+  'hepatitis',
+  'jaundice',
+  'influenza',
+  // Chronic conditions
+  'hypertension',
+  'diabetes',
+  'diabetes mellitus',
+  'hypothyroidism',
+  'hyperthyroidism',
+  'hyperlipidemia',
+  'dyslipidemia',
+  'asthma',
+  'arthritis',
+  'osteoarthritis',
+  'rheumatoid arthritis',
+  'osteoporosis',
+  'anemia',
+  'migraine',
+  'epilepsy',
+  'psoriasis',
+  'eczema',
+  'dermatitis',
+  'urticaria',
+  // Gastrointestinal
+  'gastritis',
+  'dyspepsia',
+  'acid reflux',
+  'constipation',
+  'diarrhoea',
+  'appendicitis',
+  'cholecystitis',
+  'haemorrhoids',
+  // Symptoms often named as findings
+  'vertigo',
+  'palpitations',
+  'dyspnoea',
+  'tachycardia',
+  'oedema',
+];
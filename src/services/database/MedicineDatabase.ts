@@ -190,6 +190,13 @@ export class MedicineDatabase {
     }
   }
 
+  /**
+   * Every generic and brand name in the local database, for STT vocabulary boosting
+   */
+  static getVocabulary(): string[] {
+    return Object.values(INDIAN_MEDICINES_DB).flatMap((medicine) => [medicine.name, ...medicine.commonBrands]);
+  }
+
   /**
    * Search in local database
    */
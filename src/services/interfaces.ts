@@ -10,6 +10,12 @@ import { Prescription } from '../types';
 // SPEECH-TO-TEXT SERVICE INTERFACE
 // =========================================
 export interface SpeechToTextProvider {
+  /**
+   * Clock of TranscriptEvent start/end: "capture" for seconds of the shared
+   * AudioCapture (AudioFrame.time); otherwise seconds since this engine started
+   */
+  readonly timeline?: "capture" | "engine";
+
   /**
    * Initialize the STT service
    * @param config - Provider-specific configuration
@@ -21,18 +27,40 @@ export interface SpeechToTextProvider {
    * @param language - Language code (e.g., 'hi-IN', 'en-IN')
    * @param onTranscript - Callback for transcript updates
    * @param onError - Callback for errors
+   * @param options - Optional shared audio input
    */
   startListening(
     language: string,
-    onTranscript: (transcript: string, isFinal: boolean) => void,
-    onError: (error: string) => void
+    onTranscript: (event: TranscriptEvent) => void,
+    onError: (error: string) => void,
+    options?: STTListenOptions
   ): Promise<void>;
 
   /**
    * Stop listening
+   * @throws if the session ended but its transcript could not be saved server-side
    */
   stopListening(): Promise<void>;
 
+  /**
+   * Send previously captured 16 kHz PCM to the engine.
+   * Optional - engines that capture the microphone themselves cannot replay.
+   * @param startTime - Capture time of the first frame
+   */
+  replayAudio?(frames: Int16Array[], startTime?: number): void;
+
+  /**
+   * Link the running session to a consultation created after listening started.
+   * Optional - only relays that track sessions need it.
+   */
+  setConsultationId?(consultationId: string): void;
+
+  /**
+   * Transcribe a pre-recorded consultation with speaker turns.
+   * Optional - only engines with a batch API support uploads.
+   */
+  transcribeFile?(audio: Blob, language?: string, vocabulary?: string[]): Promise<FileTranscription>;
+
   /**
    * Check if provider is supported in current environment
    */
@@ -44,11 +72,75 @@ export interface SpeechToTextProvider {
   getProviderName(): string;
 }
 
+/**
+ * One speaker turn of a diarized transcript
+ */
+export interface DiarizedSegment {
+  speaker: number;
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+/**
+ * Result of transcribing an uploaded recording
+ */
+export interface FileTranscription {
+  transcript: string;
+  confidence: number | null;
+  language: string | null;
+  duration: number | null;
+  segments: DiarizedSegment[];
+}
+
+/**
+ * A single transcript update from any STT engine.
+ * Fields an engine cannot provide are left undefined.
+ */
+export interface TranscriptEvent {
+  text: string;
+  isFinal: boolean;
+  /** Provider id that produced the event (e.g. 'deepgram') */
+  engine: string;
+  /** Diarized speaker index, when the engine supports diarization */
+  speaker?: number;
+  /**
+   * Seconds on the clock the engine's `timeline` names. STTFailoverController
+   * passes events on in seconds from the start of its session.
+   */
+  start?: number;
+  end?: number;
+  confidence?: number;
+  /** Detected language code, when the engine reports one */
+  language?: string;
+}
+
+export interface STTListenOptions {
+  /** Reuse an already-granted microphone stream instead of requesting a new one */
+  mediaStream?: MediaStream;
+  /**
+   * 16 kHz PCM captured before this engine started (e.g. during failover).
+   * Sent ahead of live audio by engines that implement replayAudio().
+   */
+  replayFrames?: Int16Array[];
+  /** Capture time (AudioFrame.time) of the first replayed frame */
+  replayStartTime?: number;
+  /** Consultation the session belongs to, when it already exists */
+  consultationId?: string;
+  /** Medical terms (drug names etc.) for engines that support keyword boosting */
+  vocabulary?: string[];
+  /** Speakers switch between the language and English mid-sentence (e.g. Hinglish) */
+  codeMixed?: boolean;
+}
+
 export interface STTConfig {
   apiKey?: string;
   endpoint?: string;
   continuous?: boolean;
   interimResults?: boolean;
+  /** Current Supabase session JWT, for relays that authenticate the doctor */
+  getAccessToken?: () => Promise<string | null>;
   [key: string]: any;
 }
 
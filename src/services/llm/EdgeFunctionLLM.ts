@@ -6,18 +6,70 @@
  * - Low latency via edge network
  */
 
-import { MedicalAnalysis } from './LLMManager';
+import {
+  parseMedicalAnalysis,
+  type LLMProvider,
+  type LLMProviderStatus,
+  type MedicalAnalysis,
+  type MedicalAnalysisDelta,
+} from './types';
+
+export interface EdgeAnalysis {
+  analysis: MedicalAnalysis;
+  /** Provider that answered - another one when the requested provider failed; null for the server's local fallback */
+  provider: LLMProvider | null;
+  model: string | null;
+}
+
+/**
+ * Answer to one increment of a live consultation. delta holds the fields that
+ * changed since the revision the client sent; analysis comes instead when the
+ * function could not diff against it. resync means the function has lost the
+ * conversation and needs the whole transcript again (fromLine 0).
+ */
+export type EdgeIncrement =
+  | { resync: true }
+  | {
+      resync: false;
+      revision: number;
+      delta?: MedicalAnalysisDelta;
+      analysis?: MedicalAnalysis;
+      summary: string;
+      provider: LLMProvider;
+      model: string;
+    };
+
+/**
+ * Receives analysis fields as the model finishes writing them (streamed requests)
+ * Values are validated; the final result still arrives as usual.
+ */
+export type PartialFieldsHandler = (fields: MedicalAnalysisDelta) => void;
+
+export interface IncrementRequest {
+  /** Index of the first line sent; earlier lines are unchanged since the last call */
+  fromLine: number;
+  lines: string[];
+  /** Revision of the extraction the client holds */
+  revision: number;
+  model?: string;
+  provider?: LLMProvider;
+  language?: string;
+}
 
 export class EdgeFunctionLLM {
   private edgeFunctionUrl: string;
   private anonKey: string;
+  private getAccessToken: (() => Promise<string | null>) | null;
 
-  constructor(supabaseUrl: string, anonKey?: string) {
+  /**
+   * @param getAccessToken The doctor's session token, for tasks the function
+   * only runs for a signed-in doctor (live consultations, script conversion)
+   */
+  constructor(supabaseUrl: string, anonKey?: string, getAccessToken?: () => Promise<string | null>) {
     // Format: https://your-project.supabase.co/functions/v1/extract-medical
     this.edgeFunctionUrl = `${supabaseUrl}/functions/v1/extract-medical`;
     this.anonKey = anonKey || '';
-    console.log('[EdgeFunctionLLM] Initialized with URL:', this.edgeFunctionUrl);
-    console.log('[EdgeFunctionLLM] Has auth key:', !!this.anonKey);
+    this.getAccessToken = getAccessToken || null;
   }
 
   private async retryFetch(url: string, opts: RequestInit, retries = 3, backoff = 300): Promise<Response> {
@@ -25,7 +77,9 @@ export class EdgeFunctionLLM {
     while (true) {
       try {
         const res = await fetch(url, opts);
-        if (!res.ok && attempt < retries) {
+        // Client errors (400, 409 resync) will not go away by asking again
+        const transient = res.status >= 500 || res.status === 429;
+        if (!res.ok && transient && attempt < retries) {
           attempt++;
           await new Promise((r) => setTimeout(r, backoff * attempt));
           continue;
@@ -40,35 +94,122 @@ export class EdgeFunctionLLM {
   }
 
   /**
-   * Append a streaming chunk to a conversation on the Edge Function.
-   * Returns { ok: true, conversationId } on success.
+   * Headers that authenticate as the signed-in doctor, falling back to the anon key
    */
-  async appendChunk(conversationId: string, chunk: string, append = true): Promise<any> {
-    const body = { conversationId, chunk, append };
+  private async doctorHeaders(): Promise<Record<string, string>> {
     const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (this.anonKey) headers['Authorization'] = `Bearer ${this.anonKey}`;
+    const token = this.getAccessToken ? await this.getAccessToken() : null;
+    if (this.anonKey) headers['apikey'] = this.anonKey;
+    if (token || this.anonKey) headers['Authorization'] = `Bearer ${token || this.anonKey}`;
+    return headers;
+  }
+
+  /**
+   * Read a streamed answer: "partial" events go to onPartial, and the "result"
+   * or "error" event that ends the stream is returned
+   */
+  private async readEventStream(
+    response: Response,
+    onPartial: PartialFieldsHandler
+  ): Promise<{ event: 'result' | 'error'; data: any }> {
+    if (!response.body) throw new Error('Edge Function returned no stream');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      // Events are separated by a blank line
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      for (const raw of events) {
+        const event = raw.match(/^event: (.*)$/m)?.[1];
+        const data = raw.match(/^data: (.*)$/m)?.[1];
+        if (!event || !data) continue;
+        const parsed = JSON.parse(data);
+        if (event === 'partial') {
+          onPartial(parsed.fields || {});
+        } else if (event === 'result' || event === 'error') {
+          await reader.cancel();
+          return { event, data: parsed };
+        }
+      }
+    }
+    throw new Error('Edge Function stream ended without a result');
+  }
 
+  /**
+   * Send the new lines of a live consultation and get back what they changed
+   * The Edge Function keeps the earlier lines, the extraction and a rolling
+   * summary per conversationId, so each call carries only the increment.
+   * With onPartial the answer is streamed and fields arrive as they are written.
+   */
+  async analyzeIncrement(
+    conversationId: string,
+    increment: IncrementRequest,
+    onPartial?: PartialFieldsHandler
+  ): Promise<EdgeIncrement> {
+    const body = { task: 'analyze_increment', conversationId, ...increment, stream: !!onPartial };
+    const headers = await this.doctorHeaders();
+
+    // The next live update sends these lines again, so one retry is enough
     const res = await this.retryFetch(this.edgeFunctionUrl, {
       method: 'POST',
       headers,
       body: JSON.stringify(body),
-    });
+    }, 1);
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Append chunk failed: ${res.status} ${text}`);
+    let status = res.status;
+    let data: any;
+    if (onPartial && res.ok) {
+      // A streamed answer is always 200; the closing event says how it went
+      const streamed = await this.readEventStream(res, onPartial);
+      data = streamed.data;
+      if (streamed.event === 'error') status = data.resync ? 409 : 502;
+    } else {
+      data = await res.json().catch(() => ({}));
+    }
+
+    if (status === 409 && data.resync) {
+      return { resync: true };
+    }
+    if (status !== 200) {
+      throw new Error(`Incremental analysis failed: ${status} ${data.error || res.statusText}`);
     }
 
-    return await res.json();
+    let analysis: MedicalAnalysis | undefined;
+    if (data.analysis) {
+      const parsed = parseMedicalAnalysis(data.analysis);
+      if (parsed.issues.length > 0) {
+        console.warn('[EdgeFunctionLLM] Analysis schema issues:', parsed.issues);
+      }
+      analysis = parsed.analysis;
+    }
+
+    return {
+      resync: false,
+      revision: data.revision,
+      delta: data.delta,
+      analysis,
+      summary: data.summary || '',
+      provider: data.provider,
+      model: data.model,
+    };
   }
 
   /**
-   * Finalize a conversation and request analysis for the stored transcript.
+   * Convert transcript lines to another script, or translate them to English.
+   * Lines come back unchanged when the Edge Function cannot convert them.
    */
-  async finalizeConversation(conversationId: string, model = 'gpt-4o-mini') {
-    const body = { conversationId, finalize: true, model };
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (this.anonKey) headers['Authorization'] = `Bearer ${this.anonKey}`;
+  async convertScript(
+    texts: string[],
+    language: string,
+    target: 'native' | 'roman' | 'english',
+    model = 'gpt-4o-mini'
+  ): Promise<string[]> {
+    const body = { task: 'convert_script', texts, language, target, model };
+    const headers = await this.doctorHeaders();
 
     const res = await this.retryFetch(this.edgeFunctionUrl, {
       method: 'POST',
@@ -77,45 +218,46 @@ export class EdgeFunctionLLM {
     });
 
     if (!res.ok) {
-      let errText = await res.text();
-      try { errText = JSON.parse(errText); } catch {};
-      throw new Error(`Finalize failed: ${res.status} ${JSON.stringify(errText)}`);
+      const text = await res.text();
+      throw new Error(`Script conversion failed: ${res.status} ${text}`);
     }
 
-    return await res.json();
+    const data = await res.json();
+    return Array.isArray(data.texts) && data.texts.length === texts.length ? data.texts : texts;
   }
 
   /**
    * Analyze medical consultation via Edge Function
+   * @param language - Consultation language (e.g. 'hinglish'), so the prompt knows what it is reading
+   * @param provider - Provider to try first; the Edge Function falls back to the others
+   * @param onPartial - Stream the answer, receiving fields as the model writes them
    */
   async analyzeMedical(
     transcript: string,
-    model: string = 'gemini-2.5-pro'
-  ): Promise<MedicalAnalysis> {
+    model?: string,
+    language?: string,
+    provider?: LLMProvider,
+    onPartial?: PartialFieldsHandler
+  ): Promise<EdgeAnalysis> {
     try {
       if (!transcript || transcript.trim().length === 0) {
         throw new Error('Transcript is empty');
       }
 
-      console.log('[EdgeFunctionLLM] Starting analysis request');
-      console.log('[EdgeFunctionLLM] URL:', this.edgeFunctionUrl);
-      console.log('[EdgeFunctionLLM] Transcript length:', transcript.length);
-      console.log('[EdgeFunctionLLM] Model:', model);
-      
       const requestBody = {
         transcript: transcript.trim(),
         model,
+        provider,
+        language,
+        stream: !!onPartial,
       };
 
-      console.log('[EdgeFunctionLLM] Request body prepared');
-      
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
       };
       
       if (this.anonKey) {
         headers['Authorization'] = `Bearer ${this.anonKey}`;
-        console.log('[EdgeFunctionLLM] Adding authorization header');
       }
       
       // Use retryFetch to reduce transient network failures
@@ -125,8 +267,6 @@ export class EdgeFunctionLLM {
         body: JSON.stringify(requestBody),
       });
 
-      console.log('[EdgeFunctionLLM] Response received, status:', response.status);
-
       if (!response.ok) {
         let errorData: any = {};
         try {
@@ -143,18 +283,29 @@ export class EdgeFunctionLLM {
         throw new Error(errorMsg);
       }
 
-      const responseData = await response.json();
-      console.log('[EdgeFunctionLLM] Response parsed successfully');
+      let responseData: any;
+      if (onPartial) {
+        const streamed = await this.readEventStream(response, onPartial);
+        if (streamed.event === 'error') {
+          throw new Error(`Edge Function error: ${streamed.data.error || 'stream failed'}`);
+        }
+        responseData = streamed.data;
+      } else {
+        responseData = await response.json();
+      }
 
-      const { analysis } = responseData;
-      
-      if (!analysis) {
+      if (!responseData.analysis) {
         console.error('[EdgeFunctionLLM] No analysis in response:', responseData);
         throw new Error('No analysis returned from Edge Function');
       }
 
-      console.log('[EdgeFunctionLLM] ✅ Analysis successful');
-      return analysis;
+      // A function deployed from an older revision may answer with an older schema
+      const { analysis, issues } = parseMedicalAnalysis(responseData.analysis);
+      if (issues.length > 0) {
+        console.warn('[EdgeFunctionLLM] Analysis schema issues:', issues);
+      }
+
+      return { analysis, provider: responseData.provider ?? null, model: responseData.model ?? null };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error('[EdgeFunctionLLM] FATAL ERROR:', errorMsg);
@@ -164,36 +315,35 @@ export class EdgeFunctionLLM {
   }
 
   /**
-   * Validate Edge Function is accessible
+   * Which providers the Edge Function has a working API key for
    */
-  async validate(): Promise<boolean> {
-    try {
-      console.log('[EdgeFunctionLLM] Validating connectivity...');
-      
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-      
-      if (this.anonKey) {
-        headers['Authorization'] = `Bearer ${this.anonKey}`;
-      }
-      
-      const response = await fetch(this.edgeFunctionUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          transcript: 'Test message',
-          model: 'gemini-2.5-pro',
-        }),
-      });
+  async getProviderStatus(): Promise<Record<LLMProvider, LLMProviderStatus>> {
+    const headers: Record<string, string> = {};
+    if (this.anonKey) headers['Authorization'] = `Bearer ${this.anonKey}`;
 
-      if (!response.ok) {
-        console.error('[EdgeFunctionLLM] Validation failed:', response.status);
-        return false;
-      }
+    const response = await fetch(this.edgeFunctionUrl, { method: 'GET', headers });
+    // 500 means no provider works; the body still says why
+    const data = await response.json().catch(() => ({}));
+    if (!data.providers) {
+      throw new Error(`Provider status unavailable: ${response.status} ${data.error || response.statusText}`);
+    }
+
+    const status = {} as Record<LLMProvider, LLMProviderStatus>;
+    for (const [provider, result] of Object.entries<any>(data.providers)) {
+      status[provider as LLMProvider] = { valid: !!result.ok, tested: true, error: result.error };
+    }
+    return status;
+  }
 
-      console.log('[EdgeFunctionLLM] ✅ Validation successful');
-      return true;
+  /**
+   * Validate Edge Function is accessible and at least one provider works
+   */
+  async validate(): Promise<boolean> {
+    try {
+      const status = await this.getProviderStatus();
+      const valid = Object.values(status).some((s) => s.valid);
+      if (!valid) console.warn('[EdgeFunctionLLM] No working LLM provider');
+      return valid;
     } catch (error) {
       console.error('[EdgeFunctionLLM] Validation error:', error);
       return false;
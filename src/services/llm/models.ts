@@ -0,0 +1,44 @@
+/**
+ * Models offered per LLM provider
+ * Keep the defaults in sync with DEFAULT_MODELS in the extract-medical Edge Function.
+ */
+
+import { KNOWN_PROVIDERS } from '../../shared/providers';
+import type { LLMProvider } from './types';
+
+export const LLM_PROVIDERS: LLMProvider[] = [...KNOWN_PROVIDERS.llm];
+
+const MODELS: Record<LLMProvider, string[]> = {
+  openai: ['gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'],
+  claude: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'],
+  gemini: ['gemini-2.5-pro', 'gemini-pro-latest', 'gemini-2.0-flash', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+};
+
+const DEFAULT_MODELS: Record<LLMProvider, string> = {
+  openai: 'gpt-4o-mini',
+  claude: 'claude-sonnet-4-5',
+  gemini: 'gemini-2.5-flash',
+};
+
+/**
+ * Get available models for a provider
+ */
+export function getAvailableModels(provider: LLMProvider): string[] {
+  return MODELS[provider] || [];
+}
+
+/**
+ * Get default model for a provider
+ */
+export function getDefaultModel(provider: LLMProvider): string {
+  return DEFAULT_MODELS[provider];
+}
+
+export function getProviderName(provider: LLMProvider): string {
+  const names: Record<LLMProvider, string> = {
+    openai: 'OpenAI (GPT-4)',
+    claude: 'Claude (Anthropic)',
+    gemini: 'Gemini (Google)',
+  };
+  return names[provider];
+}
@@ -0,0 +1,29 @@
+/**
+ * LLM types shared by the app
+ * Analysis runs in the extract-medical Edge Function, which holds the
+ * provider API keys - the browser only picks a provider and model.
+ */
+
+// The analysis schema is shared with the Edge Function
+export {
+  MEDICAL_ANALYSIS_SCHEMA_VERSION,
+  applyMedicalAnalysisDelta,
+  diffMedicalAnalysis,
+  emptyMedicalAnalysis,
+  parseMedicalAnalysis,
+  type AnalysisMedication,
+  type CurrentMedication,
+  type MedicalAnalysis,
+  type MedicalAnalysisDelta,
+  type MedicalAnalysisParseResult,
+  type VitalSigns,
+} from '../../../supabase/functions/_shared/medicalAnalysis';
+
+export type LLMProvider = 'openai' | 'claude' | 'gemini';
+
+/** Whether the Edge Function can use a provider (its API key is set and works) */
+export interface LLMProviderStatus {
+  valid: boolean;
+  tested: boolean;
+  error?: string;
+}
@@ -1,9 +1,21 @@
 /**
  * AssemblyAI Speech-to-Text Provider
- * Direct browser-to-AssemblyAI streaming (low latency)
- * Supports Hindi, English, and Hinglish for medical transcription
+ * Direct browser-to-AssemblyAI streaming (low latency), authenticated with a
+ * short-lived token minted by the relay - the API key never reaches the browser
+ * Realtime streaming is English-only, so other consultation languages fail over
  */
 
+import type { SpeechToTextProvider, STTConfig, STTListenOptions, TranscriptEvent } from "../interfaces";
+import { AudioCapture, type AudioFrame } from "../audio/AudioCapture";
+import { STT_SAMPLE_RATE, arrayBufferToBase64, chunkFrames } from "./pcm";
+import { StreamTimeline } from "./StreamTimeline";
+
+// Non-speech frames kept so the start of an utterance is sent with it (~0.5 s at 128 ms frames)
+const PRE_ROLL_FRAMES = 4;
+// AssemblyAI ends sessions that stop receiving audio, so long silences are
+// still streamed a few frames at a time
+const KEEPALIVE_SECONDS = 10;
+
 interface AssemblyAITranscript {
   message_type: "SessionBegins" | "Transcript" | "FinalTranscript" | "SessionTerminated" | "Error";
   session_id?: string;
@@ -14,112 +26,194 @@ interface AssemblyAITranscript {
   message?: string;
 }
 
-export class AssemblyAIProvider {
+export class AssemblyAIProvider implements SpeechToTextProvider {
+  // Offsets are mapped back to capture time, across the silences that are not streamed
+  readonly timeline = "capture";
   private ws: WebSocket | null = null;
-  private audioContext: AudioContext | null = null;
+  private capture: AudioCapture | null = null;
+  private unsubscribeCapture: (() => void) | null = null;
   private mediaStream: MediaStream | null = null;
+  // Only stop microphone tracks we requested ourselves, never a shared stream
+  private ownsMediaStream = false;
   private isListening = false;
   private backendUrl: string;
-  private onTranscript: ((text: string, isFinal: boolean) => void) | null = null;
+  private getAccessToken: (() => Promise<string | null>) | null = null;
+  private language: string | undefined;
+  private vocabulary: string[] = [];
+  private onTranscript: ((event: TranscriptEvent) => void) | null = null;
   private onError: ((error: string) => void) | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  // Audio sent on the current AssemblyAI session, for mapping its offsets
+  private streamTimeline = new StreamTimeline();
 
   constructor(backendUrl: string = "http://localhost:3002") {
     this.backendUrl = backendUrl;
   }
 
   /**
-   * Initialize connection to AssemblyAI via API key validation
+   * Check the backend has AssemblyAI configured. Tokens are single-use, so one
+   * is only minted when a WebSocket is opened.
+   */
+  async initialize(config: STTConfig = {}): Promise<void> {
+    if (config.endpoint) {
+      this.backendUrl = config.endpoint;
+    }
+    this.getAccessToken = config.getAccessToken || null;
+
+    const isConfigured = await this.checkStatus();
+    if (!isConfigured) {
+      throw new Error("AssemblyAI backend not configured");
+    }
+  }
+
+  /**
+   * Check AssemblyAI service status
    */
-  async initialize(): Promise<void> {
+  async checkStatus(): Promise<boolean> {
     try {
-      console.log("[AssemblyAI] Validating API key with backend...");
-      
-      const tokenRes = await fetch(`${this.backendUrl}/api/assemblyai/token`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
+      const response = await fetch(`${this.backendUrl}/api/assemblyai/status`);
+      const data = await response.json();
+      return data.status === "configured";
+    } catch (error) {
+      console.error("[AssemblyAI] Status check failed:", error);
+      return false;
+    }
+  }
 
-      if (!tokenRes.ok) {
-        const errorText = await tokenRes.text();
-        console.error(`[AssemblyAI] Validation failed: ${tokenRes.status}`, errorText);
-        throw new Error(`API key validation failed: ${tokenRes.status}`);
-      }
+  isSupported(): boolean {
+    return typeof WebSocket !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+  }
 
-      const tokenData = await tokenRes.json();
-      if (!tokenData.token || !tokenData.ready) {
-        console.error("[AssemblyAI] Invalid validation response:", tokenData);
-        throw new Error("API key validation returned invalid response");
-      }
+  getProviderName(): string {
+    return "AssemblyAI (Cloud)";
+  }
 
-      const apiKey = tokenData.token;
-      console.log("[AssemblyAI] API key validated, connecting to WebSocket...");
-
-      return new Promise((resolve, reject) => {
-        try {
-          // Connect directly to AssemblyAI RealtimeTranscriber WebSocket with API key
-          const wsUrl = `wss://api.assemblyai.com/v2/realtime/ws?token=${apiKey}`;
-          console.log("[AssemblyAI] Connecting WebSocket...");
-          
-          this.ws = new WebSocket(wsUrl);
-
-          this.ws.onopen = () => {
-            console.log("[AssemblyAI] WebSocket connected successfully");
-            this.reconnectAttempts = 0;
-            resolve();
-          };
-
-          this.ws.onmessage = (event) => {
-            this.handleMessage(event.data);
-          };
-
-          this.ws.onerror = (error) => {
-            console.error("[AssemblyAI] WebSocket error:", error);
-            reject(new Error("Failed to connect to AssemblyAI"));
-          };
-
-          this.ws.onclose = () => {
-            console.log("[AssemblyAI] WebSocket closed");
-            this.attemptReconnect();
-          };
-        } catch (error) {
-          console.error("[AssemblyAI] WebSocket creation error:", error);
-          reject(error);
-        }
-      });
-    } catch (error: any) {
-      console.error("[AssemblyAI] Initialization error:", error);
-      throw new Error(error.message || "Failed to initialize AssemblyAI");
+  /**
+   * Ask the backend for a temporary token to open the realtime WebSocket.
+   * Tokens are single-use, so every connection needs a fresh one.
+   */
+  private async fetchToken(): Promise<string> {
+    console.log("[AssemblyAI] Requesting streaming token from backend...");
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    const accessToken = this.getAccessToken ? await this.getAccessToken() : null;
+    if (accessToken) {
+      headers.Authorization = `Bearer ${accessToken}`;
     }
+
+    const tokenRes = await fetch(`${this.backendUrl}/api/assemblyai/token`, {
+      method: "POST",
+      headers,
+    });
+
+    if (!tokenRes.ok) {
+      const errorText = await tokenRes.text();
+      console.error(`[AssemblyAI] Token request failed: ${tokenRes.status}`, errorText);
+      throw new Error(`AssemblyAI token request failed: ${tokenRes.status}`);
+    }
+
+    const tokenData = await tokenRes.json();
+    if (!tokenData.token || !tokenData.ready) {
+      console.error("[AssemblyAI] Invalid token response");
+      throw new Error("AssemblyAI token request returned invalid response");
+    }
+
+    return tokenData.token;
+  }
+
+  /**
+   * Open the realtime WebSocket
+   */
+  private async connect(): Promise<void> {
+    const token = await this.fetchToken();
+    console.log("[AssemblyAI] Token received, connecting to WebSocket...");
+
+    return new Promise((resolve, reject) => {
+      try {
+        // Connect directly to AssemblyAI RealtimeTranscriber WebSocket with the temporary token
+        let wsUrl = `wss://api.assemblyai.com/v2/realtime/ws?sample_rate=16000&token=${encodeURIComponent(token)}`;
+        if (this.vocabulary.length) {
+          wsUrl += `&word_boost=${encodeURIComponent(JSON.stringify(this.vocabulary))}`;
+          console.log(`[AssemblyAI] Boosting ${this.vocabulary.length} medical terms`);
+        }
+        console.log("[AssemblyAI] Connecting WebSocket...");
+
+        this.ws = new WebSocket(wsUrl);
+
+        this.ws.onopen = () => {
+          console.log("[AssemblyAI] WebSocket connected successfully");
+          this.reconnectAttempts = 0;
+          // Offsets start over with every session
+          this.streamTimeline.reset();
+          resolve();
+        };
+
+        this.ws.onmessage = (event) => {
+          this.handleMessage(event.data);
+        };
+
+        this.ws.onerror = (error) => {
+          console.error("[AssemblyAI] WebSocket error:", error);
+          reject(new Error("Failed to connect to AssemblyAI"));
+        };
+
+        this.ws.onclose = () => {
+          console.log("[AssemblyAI] WebSocket closed");
+          // Only reconnect connections dropped while we are still streaming
+          if (this.isListening) {
+            this.attemptReconnect();
+          }
+        };
+      } catch (error) {
+        console.error("[AssemblyAI] WebSocket creation error:", error);
+        reject(error);
+      }
+    });
   }
 
   /**
    * Start listening to microphone and stream to AssemblyAI
+   * @param language Language code reported on transcript events
    * @param onTranscript Callback for transcription updates
    * @param onError Callback for errors
-   * @param existingStream Optional existing MediaStream to use
+   * @param options Optional existing MediaStream to use
    */
   async startListening(
-    onTranscript: (text: string, isFinal: boolean) => void,
-    onError?: (error: string) => void,
-    existingStream?: MediaStream
+    language: string,
+    onTranscript: (event: TranscriptEvent) => void,
+    onError: (error: string) => void,
+    options: STTListenOptions = {}
   ): Promise<void> {
     if (this.isListening) {
       console.warn("[AssemblyAI] Already listening");
       return;
     }
 
+    // Realtime transcription is English-only; failover moves on to an engine that can
+    if (!language.startsWith("en") || options.codeMixed) {
+      throw new Error(`AssemblyAI streaming does not support ${language}${options.codeMixed ? " (code-mixed)" : ""}`);
+    }
+
+    this.language = language;
+    this.vocabulary = options.vocabulary || [];
     this.onTranscript = onTranscript;
-    this.onError = onError || null;
+    this.onError = onError;
 
     try {
+      this.reconnectAttempts = 0;
+      await this.connect();
+
+      // Buffered audio goes out before any live frames
+      if (options.replayFrames?.length) {
+        this.replayAudio(options.replayFrames, options.replayStartTime);
+      }
+
       // Use existing stream if provided, otherwise request microphone
-      if (existingStream) {
+      this.ownsMediaStream = !options.mediaStream;
+      if (options.mediaStream) {
         console.log("[AssemblyAI] Using existing MediaStream");
-        this.mediaStream = existingStream;
+        this.mediaStream = options.mediaStream;
       } else {
         console.log("[AssemblyAI] Requesting new MediaStream");
         // Request microphone access with 16kHz sample rate
@@ -133,40 +227,26 @@ export class AssemblyAIProvider {
         });
       }
 
-      // Create audio context at 16kHz
-      const AudioCtx = (window as any).AudioContext || (window as any).webkitAudioContext;
-      try {
-        this.audioContext = new AudioCtx({ sampleRate: 16000 });
-      } catch (e) {
-        this.audioContext = new AudioCtx();
-      }
-
-      const source = (this.audioContext as AudioContext).createMediaStreamSource(this.mediaStream as MediaStream);
-
-      // Try AudioWorklet first, fallback to ScriptProcessor
-      try {
-        await (this.audioContext as any).audioWorklet.addModule(new URL('./pcm-worklet.js', import.meta.url).href);
-        const node = new AudioWorkletNode((this.audioContext as AudioContext), 'pcm-processor');
-        source.connect(node);
-        node.connect((this.audioContext as AudioContext).destination);
-
-        node.port.onmessage = (ev: MessageEvent) => {
-          this.sendAudioToAssemblyAI(new Float32Array(ev.data));
-        };
-
-        (this as any)._processor = node;
-      } catch (e) {
-        console.warn("[AssemblyAI] AudioWorklet not available, using ScriptProcessor");
-        // Fallback to ScriptProcessor
-        const processor = (this.audioContext as AudioContext).createScriptProcessor(2048, 1, 1);
-        processor.onaudioprocess = (evt: AudioProcessingEvent) => {
-          this.sendAudioToAssemblyAI(evt.inputBuffer.getChannelData(0));
-        };
+      this.capture = await AudioCapture.acquire(this.mediaStream);
 
-        source.connect(processor);
-        processor.connect((this.audioContext as AudioContext).destination);
-        (this as any)._processor = processor;
-      }
+      // Only speech is streamed, after a short pre-roll that keeps the start of each utterance
+      const preRollFrames: AudioFrame[] = [];
+      this.unsubscribeCapture = this.capture.subscribe((frame) => {
+        const keepAlive = frame.time - this.streamTimeline.getCaptureTime() >= KEEPALIVE_SECONDS;
+        if (frame.isSpeech || keepAlive) {
+          for (const buffered of preRollFrames.splice(0)) {
+            this.sendAudioToAssemblyAI(buffered.pcm, buffered.time);
+          }
+          this.sendAudioToAssemblyAI(frame.pcm, frame.time);
+        } else {
+          preRollFrames.push(frame);
+          if (preRollFrames.length > PRE_ROLL_FRAMES) preRollFrames.shift();
+        }
+        if (frame.utteranceEnd) {
+          // No more audio is coming for this utterance, so ask for its final transcript now
+          this.forceEndUtterance();
+        }
+      });
 
       this.isListening = true;
       console.log("[AssemblyAI] Listening started (streaming PCM)");
@@ -176,65 +256,70 @@ export class AssemblyAIProvider {
           ? "Microphone access denied. Please allow microphone access."
           : error.message || "Failed to start listening";
 
-      this.onError?.(errorMsg);
+      this.disconnect();
       throw new Error(errorMsg);
     }
   }
 
   /**
-   * Send audio frame to AssemblyAI via WebSocket
+   * Ask AssemblyAI to finish the current utterance without waiting for its silence timeout
    */
-  private sendAudioToAssemblyAI(float32Data: Float32Array): void {
+  private forceEndUtterance(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify({ force_end_utterance: true }));
+  }
+
+  /**
+   * Send 16 kHz PCM to AssemblyAI via WebSocket
+   * @param captureTime - Capture time of the first sample, when known
+   */
+  private sendAudioToAssemblyAI(pcm: Int16Array, captureTime?: number): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       return;
     }
 
     try {
       // AssemblyAI expects 16-bit PCM in base64-encoded message
-      const int16 = this.convertFloat32ToInt16(float32Data);
-      const base64 = this.arrayBufferToBase64(int16.buffer);
-
       this.ws.send(
         JSON.stringify({
           user_id: "browser-client",
           encoding: "pcm_s16le",
           sample_rate: 16000,
-          audio_data: base64,
+          audio_data: arrayBufferToBase64(pcm.buffer),
         })
       );
+      this.streamTimeline.append(pcm.length, captureTime);
     } catch (err) {
       console.error("[AssemblyAI] Error sending audio:", err);
     }
   }
 
   /**
-   * Stop listening to microphone
+   * Replay buffered PCM (e.g. audio captured while failing over from another engine).
+   * Frames are joined into 1s messages - AssemblyAI rejects chunks over 2s.
+   * @param startTime - Capture time of the first frame
    */
-  stopListening(): void {
-    if (!this.isListening) {
-      console.warn("[AssemblyAI] Not currently listening");
+  replayAudio(frames: Int16Array[], startTime?: number): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.warn("[AssemblyAI] Cannot replay audio, WebSocket not connected");
       return;
     }
 
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach((track) => track.stop());
-    }
-
-    const proc = (this as any)._processor;
-    if (proc) {
-      try {
-        proc.disconnect();
-      } catch (e) {}
-      (this as any)._processor = null;
+    let captureTime = startTime;
+    for (const chunk of chunkFrames(frames)) {
+      this.sendAudioToAssemblyAI(chunk, captureTime);
+      if (captureTime !== undefined) captureTime += chunk.length / STT_SAMPLE_RATE;
     }
+  }
 
-    if (this.audioContext) {
-      try {
-        this.audioContext.close();
-      } catch (e) {}
+  /**
+   * Stop listening and close the WebSocket
+   */
+  async stopListening(): Promise<void> {
+    if (!this.isListening) {
+      console.warn("[AssemblyAI] Not currently listening");
     }
-
-    this.isListening = false;
+    this.disconnect();
     console.log("[AssemblyAI] Listening stopped");
   }
 
@@ -242,24 +327,23 @@ export class AssemblyAIProvider {
    * Close the connection
    */
   disconnect(): void {
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach((track) => track.stop());
-    }
+    this.isListening = false;
 
-    const proc = (this as any)._processor;
-    if (proc) {
-      try {
-        proc.disconnect();
-      } catch (e) {}
-      (this as any)._processor = null;
+    this.unsubscribeCapture?.();
+    this.unsubscribeCapture = null;
+    this.capture?.release();
+    this.capture = null;
+
+    if (this.mediaStream && this.ownsMediaStream) {
+      this.mediaStream.getTracks().forEach((track) => track.stop());
     }
+    this.mediaStream = null;
 
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
 
-    this.isListening = false;
     console.log("[AssemblyAI] Disconnected");
   }
 
@@ -286,7 +370,7 @@ export class AssemblyAIProvider {
           // Interim result
           if (message.transcript && this.onTranscript) {
             console.log("[AssemblyAI] Interim:", message.transcript);
-            this.onTranscript(message.transcript, false);
+            this.onTranscript(this.toTranscriptEvent(message, false));
           }
           break;
 
@@ -294,7 +378,7 @@ export class AssemblyAIProvider {
           // Final result
           if (message.transcript && this.onTranscript) {
             console.log("[AssemblyAI] Final:", message.transcript);
-            this.onTranscript(message.transcript, true);
+            this.onTranscript(this.toTranscriptEvent(message, true));
           }
           break;
 
@@ -315,6 +399,22 @@ export class AssemblyAIProvider {
     }
   }
 
+  /**
+   * Map an AssemblyAI message (millisecond offsets into the streamed audio) to a
+   * TranscriptEvent timed on the capture timeline
+   */
+  private toTranscriptEvent(message: AssemblyAITranscript, isFinal: boolean): TranscriptEvent {
+    return {
+      text: message.transcript || "",
+      isFinal,
+      engine: "assemblyai",
+      start: message.audio_start !== undefined ? this.streamTimeline.toCaptureSeconds(message.audio_start / 1000) : undefined,
+      end: message.audio_end !== undefined ? this.streamTimeline.toCaptureSeconds(message.audio_end / 1000, true) : undefined,
+      confidence: message.confidence,
+      language: this.language,
+    };
+  }
+
   /**
    * Attempt to reconnect
    */
@@ -328,7 +428,8 @@ export class AssemblyAIProvider {
       );
 
       setTimeout(() => {
-        this.initialize().catch((error) => {
+        if (!this.isListening) return;
+        this.connect().catch((error) => {
           console.error("[AssemblyAI] Reconnect failed:", error);
         });
       }, delay);
@@ -337,31 +438,6 @@ export class AssemblyAIProvider {
       this.onError?.("Lost connection to AssemblyAI and could not reconnect");
     }
   }
-
-  /**
-   * Convert Float32Array to Int16Array (PCM 16-bit)
-   */
-  private convertFloat32ToInt16(buffer: Float32Array): Int16Array {
-    const l = buffer.length;
-    const result = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      let s = Math.max(-1, Math.min(1, buffer[i]));
-      result[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-    }
-    return result;
-  }
-
-  /**
-   * Convert ArrayBuffer to base64 string
-   */
-  private arrayBufferToBase64(buffer: ArrayBuffer | ArrayBufferLike): string {
-    const bytes = new Uint8Array(buffer);
-    let binary = "";
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
 }
 
 // Export singleton instance
@@ -4,7 +4,7 @@
 // Can be replaced with Google Cloud Speech, Azure, AWS, etc.
 // =========================================
 
-import { SpeechToTextProvider, STTConfig } from '../interfaces';
+import { SpeechToTextProvider, STTConfig, TranscriptEvent } from '../interfaces';
 
 export class BrowserSpeechProvider implements SpeechToTextProvider {
   private recognition: any = null;
@@ -26,9 +26,10 @@ export class BrowserSpeechProvider implements SpeechToTextProvider {
 
   async startListening(
     language: string,
-    onTranscript: (transcript: string, isFinal: boolean) => void,
+    onTranscript: (event: TranscriptEvent) => void,
     onError: (error: string) => void
   ): Promise<void> {
+    // Web Speech captures the microphone itself, so a shared stream is not used
     if (!this.recognition) {
       throw new Error('Speech recognition not initialized');
     }
@@ -38,15 +39,22 @@ export class BrowserSpeechProvider implements SpeechToTextProvider {
 
     this.recognition.onresult = (event: any) => {
       for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcript = event.results[i][0].transcript;
-        const isFinal = event.results[i].isFinal;
-        onTranscript(transcript, isFinal);
+        const alternative = event.results[i][0];
+        onTranscript({
+          text: alternative.transcript,
+          isFinal: event.results[i].isFinal,
+          engine: 'browser',
+          // Chrome reports 0 confidence for interim results
+          confidence: alternative.confidence || undefined,
+          language,
+        });
       }
     };
 
     this.recognition.onerror = (event: any) => {
       console.error('Speech recognition error:', event.error);
-      if (event.error !== 'no-speech') {
+      // 'aborted' is raised by our own stop() call
+      if (event.error !== 'no-speech' && event.error !== 'aborted') {
         onError(`Speech recognition error: ${event.error}`);
       }
     };
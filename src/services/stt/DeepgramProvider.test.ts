@@ -0,0 +1,52 @@
+/**
+ * Deepgram only hears speech, so its offsets skip the silences; results are
+ * mapped back to the capture's clock, which playback of the recording follows
+ */
+
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { TranscriptEvent } from "../interfaces";
+import { FakeCapture, FakeWebSocket, FRAME_SECONDS, stubBrowserModules } from "./test-helpers";
+
+const capture = new FakeCapture();
+
+let DeepgramProvider: typeof import("./DeepgramProvider").DeepgramProvider;
+
+before(async () => {
+  stubBrowserModules(capture);
+  ({ DeepgramProvider } = await import("./DeepgramProvider"));
+});
+
+test("times results on the capture clock across gated silence", async () => {
+  const provider = new DeepgramProvider();
+  const transcripts: TranscriptEvent[] = [];
+  await provider.startListening("en-IN", (event) => transcripts.push(event), () => {}, { mediaStream: {} as MediaStream });
+  const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  ws.receive({ type: "connected", sessionId: "session-1" });
+
+  // Two utterances with 2s of silence between them, of which only the pre-roll is sent
+  capture.emit(8, true, { utteranceEnd: true });
+  capture.emit(16, false);
+  capture.emit(8, true, { utteranceEnd: true });
+  const audio = ws.sent.filter((message) => message instanceof Int16Array);
+  assert.equal(audio.length, 8 + 4 + 8);
+
+  // Deepgram's offsets count only the 2.56s it was sent
+  ws.receive({ type: "transcript", seq: 1, text: "Any fever?", isFinal: true, start: 0.1, end: 1.0 });
+  ws.receive({
+    type: "transcript",
+    seq: 2,
+    text: "Since yesterday",
+    isFinal: true,
+    segments: [{ speaker: 1, text: "Since yesterday", start: 1.6, end: 2.56 }],
+  });
+  assert.equal(transcripts.length, 2);
+
+  assert.equal(transcripts[0].start, 0.1);
+  assert.equal(transcripts[0].end, 1.0);
+  // The second utterance starts 24 frames in: 8 of speech and 16 of silence
+  assert.ok(Math.abs(transcripts[1].start! - (24 * FRAME_SECONDS + 0.064)) < 0.001, `start ${transcripts[1].start}`);
+  assert.ok(Math.abs(transcripts[1].end! - 32 * FRAME_SECONDS) < 0.001, `end ${transcripts[1].end}`);
+
+  provider.disconnect();
+});
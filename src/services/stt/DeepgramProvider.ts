@@ -1,26 +1,93 @@
 /**
  * Deepgram Speech-to-Text Provider
- * Integrates with backend WebSocket for live transcription
+ * Integrates with backend WebSocket for live transcription. The relay
+ * authenticates the doctor with their Supabase session and ties the session to
+ * the consultation.
+ *
+ * Sessions survive network drops: the relay numbers transcript messages and
+ * acknowledges audio, so after a reconnect it replays the results we missed and
+ * we resend the audio it never received.
  */
 
-interface TranscriptEvent {
-  type: "transcript" | "error" | "connected";
+import type {
+  DiarizedSegment,
+  FileTranscription,
+  SpeechToTextProvider,
+  STTConfig,
+  STTListenOptions,
+  TranscriptEvent,
+} from "../interfaces";
+import { AudioCapture, type AudioFrame } from "../audio/AudioCapture";
+import { chunkFrames, STT_SAMPLE_RATE } from "./pcm";
+import { StreamTimeline } from "./StreamTimeline";
+
+// Unacknowledged audio kept for resending after a drop (~30 s)
+const MAX_UNACKED_SAMPLES = 16000 * 30;
+// Supabase session tokens last an hour; the relay gets a fresh one well before that
+const TOKEN_REFRESH_MS = 10 * 60 * 1000;
+// How long stopping waits for the relay to write the transcript to the consultation
+const FINISH_TIMEOUT_MS = 15 * 1000;
+
+interface RelayMessage {
+  type: "transcript" | "error" | "connected" | "resumed" | "ack" | "session_ended";
   text?: string;
   isFinal?: boolean;
+  speaker?: number;
+  start?: number;
+  end?: number;
+  confidence?: number;
+  language?: string;
+  /** Speaker turns of a final result, grouped by the relay from diarized words */
+  segments?: DiarizedSegment[];
   timestamp?: string;
   message?: string;
-  clientId?: string;
+  /** WebSocket close code that follows an error, for rejected connections */
+  code?: number;
+  sessionId?: string;
+  /** Sequence number of a transcript message */
+  seq?: number;
+  /** Audio frames the relay has received in this session */
+  audio_seq?: number;
+  /** Whether the relay wrote the ended session's transcript to the consultation */
+  transcript_saved?: boolean;
 }
 
-export class DeepgramProvider {
+export type { DiarizedSegment, FileTranscription };
+
+export class DeepgramProvider implements SpeechToTextProvider {
+  readonly timeline = "capture";
   private ws: WebSocket | null = null;
-  private audioContext: AudioContext | null = null;
+  private capture: AudioCapture | null = null;
+  private unsubscribeCapture: (() => void) | null = null;
   private mediaStream: MediaStream | null = null;
-  // mediaRecorder removed: using AudioContext + ScriptProcessor for raw PCM capture
+  // Only stop microphone tracks we requested ourselves, never a shared stream
+  private ownsMediaStream = false;
   private isListening = false;
-  private backendUrl: string;
-  private onTranscript: ((text: string, isFinal: boolean) => void) | null = null;
+  protected backendUrl: string;
+  private getAccessToken: (() => Promise<string | null>) | null = null;
+  private consultationId: string | null = null;
+  private vocabulary: string[] = [];
+  // Passed to Deepgram through the relay; "multi" for code-switching speech
+  private language: string | null = null;
+  // Base language codes the relay's engine streams, from the status check (null: not limited)
+  private languages: string[] | null = null;
+  // Resume state for the current relay session
+  private sessionId: string | null = null;
+  private lastSeq = 0;
+  private audioSeq = 0;
+  // streamedAt: seconds of the session's stream before the frame, once transmitted
+  private unacked: { seq: number; pcm: Int16Array; captureTime?: number; streamedAt?: number }[] = [];
+  private unackedSamples = 0;
+  // Deepgram's offsets count the audio the relay forwarded, which skips gated silence
+  private streamTimeline = new StreamTimeline();
+  // Audio is held back from a new socket until the relay says where to continue
+  private awaitingSession = false;
+  private onTranscript: ((event: TranscriptEvent) => void) | null = null;
   private onError: ((error: string) => void) | null = null;
+  // Sends the relay the doctor's refreshed session token while streaming
+  private tokenTimer: ReturnType<typeof setInterval> | null = null;
+  // Set while stopListening() waits for the relay to end the session
+  private onSessionEnded: ((message: RelayMessage) => void) | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
 
@@ -29,37 +96,106 @@ export class DeepgramProvider {
   }
 
   /**
-   * Initialize the Deepgram connection
+   * Check the relay has a Deepgram key configured.
+   * The WebSocket itself is opened when listening starts.
+   */
+  async initialize(config: STTConfig = {}): Promise<void> {
+    if (config.endpoint) {
+      this.backendUrl = config.endpoint;
+    }
+    this.getAccessToken = config.getAccessToken || null;
+
+    const isConfigured = await this.checkStatus();
+    if (!isConfigured) {
+      throw new Error("Deepgram backend not configured");
+    }
+  }
+
+  isSupported(): boolean {
+    return typeof WebSocket !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  getProviderName(): string {
+    return "Deepgram (Cloud)";
+  }
+
+  /**
+   * Relay URL with the doctor's session token, the consultation if known and
+   * the terms for the relay to boost
+   */
+  private async buildRelayUrl(): Promise<{ url: string; display: string }> {
+    const base = this.backendUrl.replace(/^http/, "ws");
+    const params = new URLSearchParams();
+    if (this.language) {
+      params.set("language", this.language);
+    }
+    if (this.consultationId) {
+      params.set("consultation_id", this.consultationId);
+    }
+    if (this.sessionId) {
+      params.set("resume_session", this.sessionId);
+      params.set("last_seq", String(this.lastSeq));
+    }
+    // Not logged - the token is a credential, and the vocabulary is long
+    const display = params.toString() ? `${base}?${params}` : base;
+    if (this.vocabulary.length) {
+      params.set("keywords", this.vocabulary.join(","));
+    }
+
+    const token = this.getAccessToken ? await this.getAccessToken() : null;
+    if (token) {
+      params.set("access_token", token);
+    }
+    const query = params.toString();
+    return { url: query ? `${base}?${query}` : base, display };
+  }
+
+  /**
+   * Open the relay WebSocket
    */
-  async initialize(): Promise<void> {
+  private async connect(): Promise<void> {
+    const { url, display } = await this.buildRelayUrl();
+
     return new Promise((resolve, reject) => {
       try {
-        const wsUrl = this.backendUrl.replace(/^http/, "ws");
-        console.log(`[Deepgram] Connecting to ${wsUrl}`);
+        console.log(`[Deepgram] Connecting to ${display}`);
         
-        this.ws = new WebSocket(wsUrl);
+        const ws = new WebSocket(url);
+        this.ws = ws;
+        this.awaitingSession = true;
 
-        this.ws.onopen = () => {
+        ws.onopen = () => {
           console.log("[Deepgram] WebSocket connected");
           this.reconnectAttempts = 0;
           resolve();
         };
 
-        this.ws.onmessage = (event) => {
+        ws.onmessage = (event) => {
+          if (this.ws !== ws) return;
           this.handleMessage(event.data);
         };
 
-        this.ws.onerror = (error) => {
+        ws.onerror = (error) => {
           console.error("[Deepgram] WebSocket error:", error);
-          this.onError?.(
-            "Failed to connect to Deepgram service. Please check your connection."
-          );
-          reject(error);
+          // Start-up failures are reported by startListening() rejecting; drops
+          // while streaming are retried by onclose and only reported if that fails
+          reject(new Error("Failed to connect to Deepgram service"));
         };
 
-        this.ws.onclose = () => {
-          console.log("[Deepgram] WebSocket closed");
-          this.attemptReconnect();
+        ws.onclose = (event) => {
+          // A socket we already replaced
+          if (this.ws !== ws) return;
+          console.log("[Deepgram] WebSocket closed", event.code);
+          // Closed before the relay said how the session ended
+          this.onSessionEnded?.({ type: "session_ended" });
+          // 4xxx: the relay refused us (not signed in, quota used up) - retrying won't help
+          if (event.code >= 4000 && event.code < 5000) {
+            return;
+          }
+          // Only reconnect connections dropped while we are still streaming
+          if (this.isListening) {
+            this.attemptReconnect();
+          }
         };
       } catch (error) {
         reject(error);
@@ -69,28 +205,48 @@ export class DeepgramProvider {
 
   /**
    * Start listening to microphone input
+   * @param language Locale of the consultation; ignored for code-mixed speech, which Deepgram detects per word
    * @param onTranscript Callback for transcription updates
    * @param onError Callback for errors
-   * @param existingStream Optional existing MediaStream to use instead of requesting microphone
+   * @param options Optional existing MediaStream to use instead of requesting microphone
    */
   async startListening(
-    onTranscript: (text: string, isFinal: boolean) => void,
-    onError?: (error: string) => void,
-    existingStream?: MediaStream
+    language: string,
+    onTranscript: (event: TranscriptEvent) => void,
+    onError: (error: string) => void,
+    options: STTListenOptions = {}
   ): Promise<void> {
     if (this.isListening) {
       console.warn("[Deepgram] Already listening");
       return;
     }
 
+    // Refused by the relay anyway; failing here moves failover on at once
+    if (!options.codeMixed && this.languages && !this.languages.includes(language.split("-")[0])) {
+      throw new Error(`Deepgram streaming does not support ${language}`);
+    }
+
     this.onTranscript = onTranscript;
-    this.onError = onError || null;
+    this.onError = onError;
+    this.consultationId = options.consultationId || null;
+    this.vocabulary = options.vocabulary || [];
+    this.language = options.codeMixed ? "multi" : language;
+    this.resetSessionState();
 
     try {
+      this.reconnectAttempts = 0;
+      await this.connect();
+
+      // Buffered audio goes out before any live frames
+      if (options.replayFrames?.length) {
+        this.replayAudio(options.replayFrames, options.replayStartTime);
+      }
+
       // Use existing stream if provided, otherwise request microphone
-      if (existingStream) {
+      this.ownsMediaStream = !options.mediaStream;
+      if (options.mediaStream) {
         console.log("[Deepgram] Using existing MediaStream");
-        this.mediaStream = existingStream;
+        this.mediaStream = options.mediaStream;
       } else {
         console.log("[Deepgram] Requesting new MediaStream");
         // Request microphone access
@@ -104,174 +260,252 @@ export class DeepgramProvider {
         });
       }
 
-      // Create audio context (request preferred sampleRate 16000)
-      const AudioCtx = (window as any).AudioContext || (window as any).webkitAudioContext;
-      try {
-        this.audioContext = new AudioCtx({ sampleRate: 16000 });
-      } catch (e) {
-        // Fallback if browser doesn't accept sampleRate option
-        this.audioContext = new AudioCtx();
-      }
-
-      const source = (this.audioContext as AudioContext).createMediaStreamSource(this.mediaStream as MediaStream);
-
-      // AudioWorklet path (relative to this module)
-      try {
-        await (this.audioContext as any).audioWorklet.addModule(new URL('./pcm-worklet.js', import.meta.url).href);
-      } catch (e) {
-        console.error('[Deepgram] Failed to load AudioWorklet module, falling back to ScriptProcessor', e);
-        // Fallback to ScriptProcessor (already implemented earlier)
-        const bufferSize = 2048;
-        const processor = (this.audioContext as AudioContext).createScriptProcessor(bufferSize, 1, 1);
-        processor.onaudioprocess = (evt: AudioProcessingEvent) => {
-          const inputBuffer = evt.inputBuffer.getChannelData(0);
-          const downsampled = this.downsampleBuffer(inputBuffer, (this.audioContext as AudioContext).sampleRate, 16000);
-          const pcm16 = this.convertFloat32ToInt16(downsampled);
-          if (this.ws && this.ws.readyState === WebSocket.OPEN && pcm16 && pcm16.byteLength > 0) {
-            try { this.ws.send(pcm16.buffer); } catch (err) { console.error('[Deepgram] Failed to send audio chunk:', err); }
+      this.capture = await AudioCapture.acquire(this.mediaStream);
+
+      // Only speech is streamed (the relay keeps Deepgram alive through silence);
+      // a short pre-roll keeps the start of each utterance
+      const preRollFrames: AudioFrame[] = [];
+      const maxPreRoll = 4; // ~0.5s at 128 ms frames
+      this.unsubscribeCapture = this.capture.subscribe((frame) => {
+        if (frame.isSpeech) {
+          while (preRollFrames.length) {
+            const buffered = preRollFrames.shift()!;
+            this.sendAudio(buffered.pcm, buffered.time);
           }
-        };
-        source.connect(processor);
-        processor.connect((this.audioContext as AudioContext).destination);
-        (this as any)._processor = processor;
-        this.isListening = true;
-        console.log('[Deepgram] Listening started (ScriptProcessor fallback)');
-        return;
-      }
-
-      // Create AudioWorkletNode and wire messages
-      const node = new AudioWorkletNode((this.audioContext as AudioContext), 'pcm-processor');
-      source.connect(node);
-      node.connect((this.audioContext as AudioContext).destination);
-
-      // VAD and pre-roll setup
-      const vadThreshold = 0.01; // RMS threshold, tune as needed
-      const hangoverMs = 300; // keep sending after speech stops
-      const sampleRate = (this.audioContext as AudioContext).sampleRate || 48000;
-      const dstRate = 16000;
-      const preRollFrames: Array<Int16Array> = [];
-      const maxPreRoll = 8; // store ~8 frames for pre-roll
-      let inSpeech = false;
-      let lastSpeechTs = 0;
-
-      node.port.onmessage = (ev: MessageEvent) => {
-        try {
-          const float32 = new Float32Array(ev.data);
-          // downsample to 16k
-          const down = this.downsampleBuffer(float32, sampleRate, dstRate);
-          // VAD - compute RMS
-          let sum = 0;
-          for (let i = 0; i < down.length; i++) { const v = down[i]; sum += v * v; }
-          const rms = Math.sqrt(sum / down.length);
-
-          const pcm16 = this.convertFloat32ToInt16(down);
-
-          // manage pre-roll
-          preRollFrames.push(pcm16);
+          this.sendAudio(frame.pcm, frame.time);
+        } else {
+          preRollFrames.push(frame);
           if (preRollFrames.length > maxPreRoll) preRollFrames.shift();
-
-          const now = Date.now();
-          if (rms >= vadThreshold) {
-            // voice detected
-            inSpeech = true;
-            lastSpeechTs = now;
-            // flush pre-roll first
-            while (preRollFrames.length) {
-              const chunk = preRollFrames.shift()!;
-              if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-                try { this.ws.send(chunk.buffer); } catch (err) { console.error('[Deepgram] send pre-roll failed', err); }
-              }
-            }
-            // send current frame
-            if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-              try { this.ws.send(pcm16.buffer); } catch (err) { console.error('[Deepgram] send failed', err); }
-            }
-          } else {
-            // no voice
-            if (inSpeech) {
-              // still within hangover, send a few more frames
-              if (now - lastSpeechTs <= hangoverMs) {
-                if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-                  try { this.ws.send(pcm16.buffer); } catch (err) { console.error('[Deepgram] send failed', err); }
-                }
-              } else {
-                inSpeech = false;
-                // keep the last frame in pre-roll
-              }
-            }
-          }
-        } catch (err) {
-          console.error('[Deepgram] Error handling worklet message', err);
         }
-      };
+        if (frame.utteranceEnd) {
+          // No more audio is coming for this utterance, so ask for its final result now
+          this.sendControl("Finalize");
+        }
+      });
 
-      // Save node reference for stop
-      (this as any)._processor = node;
       this.isListening = true;
-      console.log('[Deepgram] Listening started (AudioWorklet streaming)');
+      this.startTokenRefresh();
+      console.log('[Deepgram] Listening started (shared audio capture)');
     } catch (error: any) {
       const errorMsg =
         error.name === "NotAllowedError"
           ? "Microphone access denied. Please allow microphone access."
           : error.message || "Failed to start listening";
 
-      this.onError?.(errorMsg);
+      this.disconnect();
       throw new Error(errorMsg);
     }
   }
 
   /**
-   * Stop listening to microphone input
+   * Stop listening and close the relay connection
    */
-  stopListening(): void {
+  async stopListening(): Promise<void> {
     if (!this.isListening) {
       console.warn("[Deepgram] Not currently listening");
+    }
+    const saveError = await this.finishSession();
+    this.disconnect();
+    console.log("[Deepgram] Listening stopped");
+    if (saveError) {
+      throw new Error(`Transcript not saved to the consultation: ${saveError}`);
+    }
+  }
+
+  /**
+   * Ask the relay to end the session and wait until it has written the
+   * transcript to the consultation
+   * @returns the relay's error if the transcript could not be written
+   */
+  private async finishSession(): Promise<string | null> {
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !this.sessionId) {
+      return null;
+    }
+    // No reconnecting and no more audio while the relay wraps up
+    this.isListening = false;
+    this.unsubscribeCapture?.();
+    this.unsubscribeCapture = null;
+
+    const token = this.getAccessToken ? await this.getAccessToken() : null;
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const done = (error: string | null) => {
+        if (timer) clearTimeout(timer);
+        this.onSessionEnded = null;
+        resolve(error);
+      };
+      timer = setTimeout(() => {
+        console.warn("[Deepgram] Relay did not confirm the end of the session");
+        done(null);
+      }, FINISH_TIMEOUT_MS);
+      this.onSessionEnded = (message) =>
+        done(message.transcript_saved === false ? message.message || "unknown error" : null);
+
+      ws.send(JSON.stringify({ type: "finish", access_token: token || undefined }));
+    });
+  }
+
+  /**
+   * Keep the relay's copy of the doctor's session token current - it writes
+   * the transcript to the consultation with it when the session ends
+   */
+  private startTokenRefresh(): void {
+    const getAccessToken = this.getAccessToken;
+    if (!getAccessToken) return;
+
+    this.tokenTimer = setInterval(async () => {
+      const token = await getAccessToken();
+      if (token && this.ws && this.ws.readyState === WebSocket.OPEN) {
+        this.ws.send(JSON.stringify({ type: "auth", access_token: token }));
+      }
+    }, TOKEN_REFRESH_MS);
+  }
+
+  /**
+   * Replay buffered PCM (e.g. audio captured while failing over from another engine)
+   * @param startTime - Capture time of the first frame
+   */
+  replayAudio(frames: Int16Array[], startTime?: number): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.warn("[Deepgram] Cannot replay audio, relay not connected");
       return;
     }
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach((track) => track.stop());
+
+    let captureTime = startTime;
+    for (const chunk of chunkFrames(frames)) {
+      this.sendAudio(chunk, captureTime);
+      if (captureTime !== undefined) captureTime += chunk.length / STT_SAMPLE_RATE;
     }
+  }
 
-    // stop and disconnect processor if present
-    const proc = (this as any)._processor;
-    if (proc) {
-      try { proc.disconnect(); } catch (e) {}
-      (this as any)._processor = null;
+  /**
+   * Tell the relay which consultation this session belongs to.
+   * Also used for the query string of any reconnect.
+   */
+  setConsultationId(consultationId: string): void {
+    this.consultationId = consultationId;
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type: "attach", consultation_id: consultationId }));
     }
+  }
 
-    if (this.audioContext) {
-      try { this.audioContext.close(); } catch (e) {}
+  /**
+   * Control message for the relay to pass on to Deepgram
+   */
+  private sendControl(type: "Finalize" | "KeepAlive"): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify({ type }));
+  }
+
+  /**
+   * Send audio, keeping it until the relay acknowledges it. While the socket is
+   * down the audio is only kept, and goes out once the session is resumed.
+   * @param captureTime - Capture time of the first sample, when known
+   */
+  private sendAudio(pcm: Int16Array, captureTime?: number): void {
+    if (pcm.byteLength === 0) return;
+
+    const entry = { seq: ++this.audioSeq, pcm, captureTime };
+    this.unacked.push(entry);
+    this.unackedSamples += pcm.length;
+    while (this.unackedSamples > MAX_UNACKED_SAMPLES && this.unacked.length > 1) {
+      this.unackedSamples -= this.unacked.shift()!.pcm.length;
     }
 
-    this.isListening = false;
-    console.log("[Deepgram] Listening stopped");
+    if (!this.awaitingSession) {
+      this.transmit(entry);
+    }
+  }
+
+  private transmit(entry: { pcm: Int16Array; captureTime?: number; streamedAt?: number }): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    try {
+      this.ws.send(entry.pcm);
+      entry.streamedAt = this.streamTimeline.getStreamedSeconds();
+      this.streamTimeline.append(entry.pcm.length, entry.captureTime);
+    } catch (err) {
+      console.error("[Deepgram] Failed to send audio chunk:", err);
+    }
   }
 
   /**
-   * Transcribe a pre-recorded audio file
+   * Drop audio the relay has received (frames up to and including `audioSeq`)
    */
-  async transcribeFile(audioBlob: Blob): Promise<string> {
+  private acknowledge(audioSeq: number): void {
+    while (this.unacked.length && this.unacked[0].seq <= audioSeq) {
+      this.unackedSamples -= this.unacked.shift()!.pcm.length;
+    }
+  }
+
+  /**
+   * Resend everything the relay has not received, numbered from its count
+   */
+  private resendUnacked(relayAudioSeq: number): void {
+    this.acknowledge(relayAudioSeq);
+    // What we sent past the relay's count never reached Deepgram
+    const firstLost = this.unacked[0]?.streamedAt;
+    if (firstLost !== undefined) {
+      this.streamTimeline.rewind(firstLost);
+    }
+    let seq = relayAudioSeq;
+    for (const entry of this.unacked) {
+      entry.seq = ++seq;
+      this.transmit(entry);
+    }
+    this.audioSeq = seq;
+    if (this.unacked.length) {
+      console.log(`[Deepgram] Resent ${this.unacked.length} audio frames after reconnect`);
+    }
+  }
+
+  private resetSessionState(): void {
+    this.sessionId = null;
+    this.lastSeq = 0;
+    this.audioSeq = 0;
+    this.unacked = [];
+    this.unackedSamples = 0;
+    this.awaitingSession = false;
+    this.streamTimeline.reset();
+  }
+
+  /**
+   * Transcribe a pre-recorded audio file (WAV/WebM/MP3/M4A/OGG)
+   * Returns the full transcript plus diarized segments with timestamps
+   * @param language Locale of the consultation, or "multi" for code-mixed speech
+   * @param vocabulary Terms for the relay to boost
+   */
+  async transcribeFile(audioBlob: Blob, language?: string, vocabulary: string[] = []): Promise<FileTranscription> {
     const backendUrl = this.backendUrl.replace(/^ws/, "http");
-    
+    const params = new URLSearchParams();
+    if (language) params.set("language", language);
+    if (vocabulary.length) params.set("keywords", vocabulary.join(","));
+    const query = params.toString() ? `?${params}` : "";
+
     try {
-      const formData = new FormData();
-      formData.append("audio", audioBlob);
+      const headers: Record<string, string> = { "Content-Type": audioBlob.type || "audio/wav" };
+      const token = this.getAccessToken ? await this.getAccessToken() : null;
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
 
-      const response = await fetch(`${backendUrl}/api/deepgram/transcribe`, {
+      const response = await fetch(`${backendUrl}/api/deepgram/transcribe${query}`, {
         method: "POST",
         body: audioBlob,
-        headers: {
-          "Content-Type": audioBlob.type || "audio/wav",
-        },
+        headers,
       });
 
       if (!response.ok) {
-        throw new Error(`Server returned ${response.status}`);
+        let detail = "";
+        try {
+          detail = (await response.json()).error || "";
+        } catch (e) {}
+        throw new Error(detail || `Server returned ${response.status}`);
       }
 
-      const data = await response.json();
+      const data: FileTranscription = await response.json();
       if (data.transcript) {
-        return data.transcript;
+        return data;
       }
 
       throw new Error("No transcription received");
@@ -292,6 +526,7 @@ export class DeepgramProvider {
     try {
       const response = await fetch(`${backendUrl}/api/deepgram/status`);
       const data = await response.json();
+      this.languages = Array.isArray(data.languages) ? data.languages : null;
       return data.status === "configured";
     } catch (error) {
       console.error("[Deepgram] Status check failed:", error);
@@ -303,22 +538,30 @@ export class DeepgramProvider {
    * Close the connection
    */
   disconnect(): void {
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach((track) => track.stop());
+    this.isListening = false;
+    if (this.tokenTimer) {
+      clearInterval(this.tokenTimer);
+      this.tokenTimer = null;
     }
 
-    const proc = (this as any)._processor;
-    if (proc) {
-      try { proc.disconnect(); } catch (e) {}
-      (this as any)._processor = null;
+    this.unsubscribeCapture?.();
+    this.unsubscribeCapture = null;
+    this.capture?.release();
+    this.capture = null;
+
+    if (this.mediaStream && this.ownsMediaStream) {
+      this.mediaStream.getTracks().forEach((track) => track.stop());
     }
+    this.mediaStream = null;
 
     if (this.ws) {
-      this.ws.close();
+      // 1000 tells the relay we are done, so it does not hold the session for a resume
+      const ws = this.ws;
       this.ws = null;
+      ws.close(1000, "Client finished");
     }
+    this.resetSessionState();
 
-    this.isListening = false;
     console.log("[Deepgram] Disconnected");
   }
 
@@ -329,65 +572,82 @@ export class DeepgramProvider {
     return this.isListening;
   }
 
-  /**
-   * Downsample a Float32Array buffer from srcRate to dstRate (returns Float32Array)
-   */
-  private downsampleBuffer(buffer: Float32Array, srcRate: number, dstRate: number): Float32Array {
-    if (dstRate === srcRate) {
-      return buffer;
-    }
-
-    const sampleRateRatio = srcRate / dstRate;
-    const newLength = Math.round(buffer.length / sampleRateRatio);
-    const result = new Float32Array(newLength);
-    let offsetResult = 0;
-    let offsetBuffer = 0;
-
-    while (offsetResult < result.length) {
-      const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-      let accum = 0, count = 0;
-      for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-        accum += buffer[i];
-        count++;
-      }
-      result[offsetResult] = count ? accum / count : 0;
-      offsetResult++;
-      offsetBuffer = nextOffsetBuffer;
-    }
-
-    return result;
-  }
-
-  /**
-   * Convert Float32Array (-1..1) to Int16Array (PCM 16-bit little endian)
-   */
-  private convertFloat32ToInt16(buffer: Float32Array): Int16Array {
-    const l = buffer.length;
-    const result = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      let s = Math.max(-1, Math.min(1, buffer[i]));
-      result[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-    }
-    return result;
-  }
-
   /**
    * Handle WebSocket messages from backend
    */
   private handleMessage(data: string): void {
     try {
-      const message: TranscriptEvent = JSON.parse(data);
+      const message: RelayMessage = JSON.parse(data);
       console.log("[Deepgram] Received message:", message.type, message);
 
       switch (message.type) {
         case "connected":
-          console.log("[Deepgram] Connected to service:", message.clientId);
+          console.log("[Deepgram] Connected to service, session", message.sessionId);
+          // Deepgram finished connecting after we had already resumed this session
+          if (message.sessionId && message.sessionId === this.sessionId) {
+            this.awaitingSession = false;
+            break;
+          }
+          // A new session (first connect, or the old one expired): the relay has
+          // none of our audio, so anything unacknowledged is sent again
+          this.sessionId = message.sessionId || null;
+          this.lastSeq = 0;
+          this.awaitingSession = false;
+          this.streamTimeline.reset();
+          this.resendUnacked(0);
+          break;
+
+        case "resumed":
+          console.log(`[Deepgram] Resumed session ${message.sessionId} (relay has ${message.audio_seq} audio frames)`);
+          this.awaitingSession = false;
+          this.resendUnacked(message.audio_seq || 0);
+          break;
+
+        case "ack":
+          this.acknowledge(message.audio_seq || 0);
           break;
 
         case "transcript":
+          // Replayed results we already have
+          if (typeof message.seq === "number") {
+            if (message.seq <= this.lastSeq) break;
+            this.lastSeq = message.seq;
+          }
           console.log("[Deepgram] Transcript received:", message.text, "isFinal:", message.isFinal);
-          if (message.text && this.onTranscript) {
-            this.onTranscript(message.text, !!message.isFinal);
+          if (message.isFinal && message.segments?.length && this.onTranscript) {
+            // One event per speaker turn so each gets its own speaker label
+            for (const segment of message.segments) {
+              this.onTranscript({
+                text: segment.text,
+                isFinal: true,
+                engine: "deepgram",
+                speaker: segment.speaker,
+                start: this.streamTimeline.toCaptureSeconds(segment.start),
+                end: this.streamTimeline.toCaptureSeconds(segment.end, true),
+                confidence: segment.confidence,
+                language: message.language,
+              });
+            }
+          } else if (message.text && this.onTranscript) {
+            this.onTranscript({
+              text: message.text,
+              isFinal: !!message.isFinal,
+              engine: "deepgram",
+              speaker: message.speaker,
+              start: message.start !== undefined ? this.streamTimeline.toCaptureSeconds(message.start) : undefined,
+              end: message.end !== undefined ? this.streamTimeline.toCaptureSeconds(message.end, true) : undefined,
+              confidence: message.confidence,
+              language: message.language,
+            });
+          }
+          break;
+
+        case "session_ended":
+          if (this.onSessionEnded) {
+            this.onSessionEnded(message);
+          } else if (message.transcript_saved === false) {
+            // Ended by the relay (quota, engine gone) - the doctor still needs to know
+            this.onError?.(`Transcript not saved to the consultation: ${message.message}`);
           }
           break;
 
@@ -417,7 +677,8 @@ export class DeepgramProvider {
       );
 
       setTimeout(() => {
-        this.initialize().catch((error) => {
+        if (!this.isListening) return;
+        this.connect().catch((error) => {
           console.error("[Deepgram] Reconnect failed:", error);
         });
       }, delay);
@@ -0,0 +1,35 @@
+/**
+ * On-premise Speech-to-Text Provider
+ * For clinics with poor connectivity: a relay on the clinic machine streams to
+ * a local whisper.cpp or Vosk server (src/backend/local-stt.ts) instead of the
+ * cloud. The relay protocol is the same as Deepgram's, so this is the Deepgram
+ * client pointed at that relay - resume, vocabulary and languages all apply.
+ */
+
+import { DeepgramProvider } from "./DeepgramProvider";
+
+export class LocalSpeechProvider extends DeepgramProvider {
+  constructor(backendUrl: string = "ws://localhost:3003") {
+    super(backendUrl);
+  }
+
+  getProviderName(): string {
+    return "On-premise (Offline)";
+  }
+
+  /**
+   * Check the relay streams to a local engine, not the cloud
+   */
+  async checkStatus(): Promise<boolean> {
+    const backendUrl = this.backendUrl.replace(/^ws/, "http");
+
+    try {
+      const response = await fetch(`${backendUrl}/api/deepgram/status`);
+      const data = await response.json();
+      return data.status === "configured" && data.engine === "local";
+    } catch (error) {
+      console.error("[LocalSTT] Status check failed:", error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Medical term correction
+ * Runs on final transcript text before it reaches the transcript view and the
+ * analysis agent. Words that look or sound like a known medicine or condition
+ * but are spelled differently ("glycomat", "hypertention", "die a betes") are
+ * rewritten to the known term. Every rewrite is reported with what was heard,
+ * so the engine's original text stays available for audit.
+ */
+
+import type { TermCorrection } from "../../types";
+import { CONDITION_LEXICON } from "../database/ConditionLexicon";
+import { MedicineDatabase } from "../database/MedicineDatabase";
+
+// Engines split long drug names into up to this many words ("eco sprin")
+const MAX_WINDOW_WORDS = 3;
+// Terms shorter than this are only matched exactly - too many real words are one edit away
+const MIN_FUZZY_LENGTH = 5;
+// Derived English words ("hypertensive", "arthritic", "migrating") are one or two
+// edits from a term but were heard correctly
+const WORD_FORM_SUFFIX = /(ing|ive|ic|ed|al|ly|ous|ful)$/;
+
+interface LexiconTerm {
+  term: string;
+  kind: TermCorrection["kind"];
+  /** Lowercase letters only, spaces removed */
+  letters: string;
+  phonetic: string;
+}
+
+export interface CorrectionResult {
+  text: string;
+  corrections: TermCorrection[];
+}
+
+function lettersOf(text: string): string {
+  return text.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Rough English sound key: letters that sound alike are merged and vowels after
+ * the first letter dropped, so "sefixim" and "cefixime" share a key
+ */
+export function phoneticKey(letters: string): string {
+  const merged = letters
+    .replace(/ph/g, "f")
+    .replace(/ck/g, "k")
+    .replace(/c(?=[eiy])/g, "s")
+    .replace(/[cq]/g, "k")
+    .replace(/x/g, "ks")
+    .replace(/z/g, "s")
+    .replace(/[dt]h/g, "t")
+    .replace(/gh/g, "g")
+    .replace(/w/g, "v")
+    .replace(/y/g, "i");
+  return (merged[0] + merged.slice(1).replace(/[aeiouh]/g, "")).replace(/(.)\1+/g, "$1");
+}
+
+function allowedDistance(length: number): number {
+  if (length >= 8) return 2;
+  if (length >= MIN_FUZZY_LENGTH) return 1;
+  return 0;
+}
+
+export class MedicalTermCorrector {
+  private terms: LexiconTerm[] = [];
+
+  /**
+   * @param vocabulary - Session vocabulary (formulary, patient medications);
+   *   the medicine database and condition lexicon are always included
+   */
+  constructor(vocabulary: string[] = []) {
+    const seen = new Set<string>();
+    const add = (term: string, kind: TermCorrection["kind"]) => {
+      const letters = lettersOf(term);
+      if (letters.length < 3 || seen.has(letters)) return;
+      seen.add(letters);
+      this.terms.push({ term, kind, letters, phonetic: phoneticKey(letters) });
+    };
+
+    [...vocabulary, ...MedicineDatabase.getVocabulary()].forEach((term) => add(term, "medicine"));
+    CONDITION_LEXICON.forEach((term) => add(term, "condition"));
+  }
+
+  /**
+   * Rewrite likely misrecognitions of medical terms
+   */
+  correct(text: string): CorrectionResult {
+    const tokens = text.split(/(\s+)/);
+    const corrections: TermCorrection[] = [];
+    let output = "";
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (!token || /^\s+$/.test(token)) {
+        output += token;
+        continue;
+      }
+
+      const replacement = this.bestWindow(tokens, i);
+      if (!replacement) {
+        output += token;
+        continue;
+      }
+
+      output += replacement.leading;
+      const start = output.length;
+      output += replacement.term.term;
+      corrections.push({
+        original: replacement.original,
+        corrected: replacement.term.term,
+        start,
+        end: output.length,
+        kind: replacement.term.kind,
+      });
+      output += replacement.trailing;
+      // Skip the words (and the whitespace between them) that were replaced
+      i += (replacement.words - 1) * 2;
+    }
+
+    return { text: output, corrections };
+  }
+
+  /**
+   * Longest run of words starting at `index` that should become a lexicon term
+   */
+  private bestWindow(tokens: string[], index: number) {
+    for (let words = MAX_WINDOW_WORDS; words >= 1; words--) {
+      const parts: string[] = [];
+      for (let w = 0; w < words; w++) {
+        const part = tokens[index + w * 2];
+        if (!part) break;
+        parts.push(part);
+      }
+      if (parts.length !== words) continue;
+
+      const leading = parts[0].match(/^[^\p{L}\p{N}]*/u)![0];
+      const trailing = parts[words - 1].match(/[^\p{L}\p{N}]*$/u)![0];
+      parts[0] = parts[0].slice(leading.length);
+      parts[words - 1] = parts[words - 1].slice(0, parts[words - 1].length - trailing.length);
+      // Only plain words, and never across punctuation
+      if (!parts.every((part) => /^[a-zA-Z]+$/.test(part))) continue;
+
+      const original = parts.join(" ");
+      const term = this.match(parts.join(""), words);
+      if (!term) continue;
+      // Already spelled right (case and spacing aside) - leave it as spoken
+      if (words === term.term.split(" ").length && original.toLowerCase() === term.term.toLowerCase()) {
+        return null;
+      }
+      return { term, original, leading, trailing, words };
+    }
+    return null;
+  }
+
+  private match(heard: string, words: number): LexiconTerm | null {
+    const letters = heard.toLowerCase();
+    const phonetic = phoneticKey(letters);
+    let best: LexiconTerm | null = null;
+    let bestDistance = Infinity;
+
+    for (const term of this.terms) {
+      if (term.letters === letters) return term;
+      if (term.letters.length < MIN_FUZZY_LENGTH) continue;
+      // Misrecognitions nearly always keep the first sound
+      if (term.phonetic[0] !== phonetic[0]) continue;
+      if (Math.abs(term.letters.length - letters.length) > 2) continue;
+      // "Glycomet" is not a misheard "Glycomet GP"
+      if (term.term.toLowerCase().startsWith(`${letters} `)) continue;
+      const suffix = letters.match(WORD_FORM_SUFFIX);
+      if (suffix && !term.letters.endsWith(suffix[1])) continue;
+
+      const allowed = allowedDistance(term.letters.length);
+      const distance = editDistance(letters, term.letters);
+      // A word that sounds the same may be spelled a little further off,
+      // but words joined from several are held to spelling distance alone
+      const soundsAlike = words === 1 && term.phonetic === phonetic;
+      if ((distance <= allowed || (soundsAlike && distance <= allowed + 1)) && distance < bestDistance) {
+        best = term;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+}
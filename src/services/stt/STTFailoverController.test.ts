@@ -0,0 +1,95 @@
+/**
+ * After a failover, transcript segments still line up with the recording: times
+ * are seconds from the start of the session whichever engine produced them
+ */
+
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { SpeechToTextProvider, TranscriptEvent } from "../interfaces";
+import { FakeCapture, FakeWebSocket, FRAME_SECONDS, stubBrowserModules, waitFor } from "./test-helpers";
+
+// The microphone was already open (e.g. for a level meter) before the session started
+const capture = new FakeCapture(5);
+
+/**
+ * An engine timed on its own clock that fails when told to
+ */
+class ScriptedEngine implements SpeechToTextProvider {
+  onTranscript: ((event: TranscriptEvent) => void) | null = null;
+  onError: ((error: string) => void) | null = null;
+
+  async initialize(): Promise<void> {}
+
+  async startListening(_language: string, onTranscript: (event: TranscriptEvent) => void, onError: (error: string) => void): Promise<void> {
+    this.onTranscript = onTranscript;
+    this.onError = onError;
+  }
+
+  async stopListening(): Promise<void> {}
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  getProviderName(): string {
+    return "Scripted";
+  }
+}
+
+let STTFailoverController: typeof import("./STTFailoverController").STTFailoverController;
+let AssemblyAIProvider: typeof import("./AssemblyAIProvider").AssemblyAIProvider;
+
+before(async () => {
+  stubBrowserModules(capture);
+  (globalThis as any).fetch = async () => new Response(JSON.stringify({ token: "temporary-token", ready: true }));
+  ({ STTFailoverController } = await import("./STTFailoverController"));
+  ({ AssemblyAIProvider } = await import("./AssemblyAIProvider"));
+});
+
+function assertTimes(event: TranscriptEvent, start: number, end: number): void {
+  assert.ok(Math.abs(event.start! - start) < 0.05, `start ${event.start} should be ${start}`);
+  assert.ok(Math.abs(event.end! - end) < 0.05, `end ${event.end} should be ${end}`);
+}
+
+test("segments keep session times through a failover to AssemblyAI", async () => {
+  const scripted = new ScriptedEngine();
+  const controller = new STTFailoverController(["scripted", "assemblyai"], async (id) =>
+    id === "scripted" ? scripted : new AssemblyAIProvider()
+  );
+  const transcripts: TranscriptEvent[] = [];
+  await controller.start("en-IN", {} as MediaStream, {
+    onTranscript: (event) => transcripts.push(event),
+    onEngineChange: () => {},
+    onError: () => {},
+  });
+
+  // 0-1.024s: transcribed by the first engine
+  capture.emit(8, true);
+  scripted.onTranscript!({ text: "Any fever?", isFinal: true, engine: "scripted", start: 0.1, end: 1.0 });
+
+  // 1.024-2.048s: heard, then the engine fails before transcribing it
+  capture.emit(8, true);
+  scripted.onError!("connection lost");
+  await waitFor(() => controller.getActiveEngine() === "assemblyai");
+  const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+  // 2.048-3.072s: silence, of which only the pre-roll is sent; 3.072-4.096s: speech
+  capture.emit(8, false);
+  capture.emit(8, true, { utteranceEnd: true });
+  const audioMessages = ws.sent.filter((message) => message.audio_data);
+  assert.equal(audioMessages.length, 1 + 4 + 8, "replay, pre-roll and speech are sent; the rest of the silence is not");
+
+  // AssemblyAI's offsets count only the 2.56s it was sent
+  ws.receive({ message_type: "FinalTranscript", transcript: "Since yesterday", audio_start: 0, audio_end: 1024 });
+  ws.receive({ message_type: "FinalTranscript", transcript: "Take paracetamol", audio_start: 1636, audio_end: 2560 });
+
+  assert.deepEqual(
+    transcripts.map((event) => event.text),
+    ["Any fever?", "Since yesterday", "Take paracetamol"]
+  );
+  assertTimes(transcripts[0], 0.1, 1.0);
+  assertTimes(transcripts[1], 8 * FRAME_SECONDS, 16 * FRAME_SECONDS);
+  assertTimes(transcripts[2], 24 * FRAME_SECONDS + 0.1, 32 * FRAME_SECONDS);
+
+  await controller.stop();
+});
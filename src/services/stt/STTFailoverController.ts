@@ -0,0 +1,318 @@
+/**
+ * STT Failover Controller
+ * Runs the first engine of a chain that starts (e.g. Deepgram → AssemblyAI → Web Speech)
+ * and moves down the chain when the active engine fails mid-consultation.
+ * Microphone audio since the last final transcript is buffered and replayed
+ * into the next engine (when it supports replay) so no speech is lost.
+ */
+
+import type { SpeechToTextProvider, TranscriptEvent } from "../interfaces";
+import { serviceManager } from "../ServiceManager";
+import { AudioCapture, type AudioFrame } from "../audio/AudioCapture";
+import { STT_SAMPLE_RATE } from "./pcm";
+
+export interface EngineSwitchEvent {
+  from: string;
+  to: string;
+  reason: string;
+  /** Seconds of buffered audio replayed into the new engine (0 if it cannot replay) */
+  replayedSeconds: number;
+  /** Seconds since the session started */
+  at: number;
+}
+
+export interface FailoverHandlers {
+  onTranscript: (event: TranscriptEvent) => void;
+  onEngineChange: (event: EngineSwitchEvent) => void;
+  /**
+   * `fatal` means the last engine in the chain failed: the controller has
+   * stopped and the session should be stopped too. Other errors (e.g. a
+   * transcript an engine could not save) leave the session running.
+   */
+  onError: (error: string, fatal: boolean) => void;
+}
+
+// Upper bound on buffered audio if an engine never finalizes anything
+const MAX_BUFFER_SECONDS = 30;
+
+export class STTFailoverController {
+  private chain: string[];
+  private createProvider: (id: string) => Promise<SpeechToTextProvider>;
+  private provider: SpeechToTextProvider | null = null;
+  private activeIndex = -1;
+  private handlers: FailoverHandlers | null = null;
+  private language = "";
+  private mediaStream: MediaStream | null = null;
+  private consultationId: string | null = null;
+  private vocabulary: string[] = [];
+  private codeMixed = false;
+  private running = false;
+  private switching = false;
+  private sessionStart = 0;
+  // Session time (seconds) at which the active engine's own clock started
+  private engineOffset = 0;
+  // Capture time when the session started, for engines timed on the capture's clock
+  private captureOrigin = 0;
+  // Session time of the first interim result since the last final one
+  private utteranceStart: number | null = null;
+
+  // Audio since the last final transcript, from capture time bufferedStartTime on
+  private bufferedFrames: Int16Array[] = [];
+  private bufferedSamples = 0;
+  private bufferedStartTime = 0;
+  private capture: AudioCapture | null = null;
+  private unsubscribeCapture: (() => void) | null = null;
+
+  constructor(
+    chain: string[] = serviceManager.getSTTFailoverChain(),
+    createProvider: (id: string) => Promise<SpeechToTextProvider> = (id) => serviceManager.createSTTProvider(id)
+  ) {
+    this.chain = chain;
+    this.createProvider = createProvider;
+  }
+
+  /**
+   * Start the first engine in the chain that comes up
+   * @returns id of the engine that started
+   */
+  async start(language: string, mediaStream: MediaStream, handlers: FailoverHandlers): Promise<string> {
+    if (this.running) {
+      throw new Error("Failover session already running");
+    }
+
+    this.language = language;
+    this.mediaStream = mediaStream;
+    this.handlers = handlers;
+    this.running = true;
+    this.sessionStart = Date.now();
+    this.captureOrigin = 0;
+    this.utteranceStart = null;
+    this.clearBuffer();
+
+    try {
+      await this.startCapture(mediaStream);
+    } catch (error) {
+      // Failover still works, only without replaying buffered audio
+      console.warn("[Failover] Audio buffering unavailable:", error);
+    }
+
+    const started = await this.startFrom(0, null);
+    if (!started) {
+      await this.stop();
+      throw new Error(`No speech-to-text engine could be started (tried ${this.chain.join(", ")})`);
+    }
+    return this.chain[this.activeIndex];
+  }
+
+  /**
+   * @throws the engine's error if it could not stop cleanly (e.g. the relay
+   * could not save the transcript), after everything has been released
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    const provider = this.provider;
+    this.provider = null;
+    this.activeIndex = -1;
+    let stopError: unknown = null;
+    if (provider) {
+      try {
+        await provider.stopListening();
+      } catch (error) {
+        console.error("[Failover] Error stopping engine:", error);
+        stopError = error;
+      }
+    }
+
+    this.stopCapture();
+    this.clearBuffer();
+    if (stopError) throw stopError;
+  }
+
+  /**
+   * Link the session to its consultation, now and for any engine started later
+   */
+  setConsultationId(consultationId: string): void {
+    this.consultationId = consultationId;
+    this.provider?.setConsultationId?.(consultationId);
+  }
+
+  /**
+   * Terms every engine started from now on should favour
+   */
+  setVocabulary(vocabulary: string[]): void {
+    this.vocabulary = vocabulary;
+  }
+
+  /**
+   * Whether speakers mix the language with English, for engines started from now on
+   */
+  setCodeMixed(codeMixed: boolean): void {
+    this.codeMixed = codeMixed;
+  }
+
+  getActiveEngine(): string | null {
+    return this.activeIndex >= 0 ? this.chain[this.activeIndex] : null;
+  }
+
+  /**
+   * Try engines from `index` onwards until one starts
+   */
+  private async startFrom(index: number, failure: { from: string; reason: string } | null): Promise<boolean> {
+    for (let i = index; i < this.chain.length && this.running; i++) {
+      const id = this.chain[i];
+      let provider: SpeechToTextProvider | null = null;
+
+      try {
+        provider = await this.createProvider(id);
+        const canReplay = typeof provider.replayAudio === "function";
+        const replayFrames = failure && canReplay ? [...this.bufferedFrames] : [];
+        const replayedSeconds = replayFrames.reduce((sum, frame) => sum + frame.length, 0) / STT_SAMPLE_RATE;
+
+        const current = provider;
+        await provider.startListening(
+          this.language,
+          (event) => this.handleTranscript(current, event),
+          (error) => this.handleEngineError(current, error),
+          {
+            mediaStream: this.mediaStream || undefined,
+            replayFrames,
+            replayStartTime: this.bufferedStartTime,
+            consultationId: this.consultationId || undefined,
+            vocabulary: this.vocabulary,
+            codeMixed: this.codeMixed,
+          }
+        );
+
+        if (!this.running) {
+          await provider.stopListening();
+          return false;
+        }
+
+        this.provider = provider;
+        this.activeIndex = i;
+        // Replayed audio is transcribed first, so the engine's clock starts that far back.
+        // Engines on the capture's clock place replayed audio themselves.
+        this.engineOffset = this.elapsedSeconds() - replayedSeconds;
+        console.log(`[Failover] ${id} started${replayedSeconds ? ` (replayed ${replayedSeconds.toFixed(1)}s)` : ""}`);
+
+        if (failure) {
+          this.handlers?.onEngineChange({
+            from: failure.from,
+            to: id,
+            reason: failure.reason,
+            replayedSeconds,
+            at: this.elapsedSeconds(),
+          });
+        }
+        return true;
+      } catch (error: any) {
+        console.warn(`[Failover] ${id} failed to start:`, error);
+        try {
+          await provider?.stopListening();
+        } catch (e) {}
+      }
+    }
+    return false;
+  }
+
+  private handleTranscript(provider: SpeechToTextProvider, event: TranscriptEvent): void {
+    // Ignore late events from an engine we already switched away from
+    if (provider !== this.provider) return;
+
+    // Engines without word timing (Web Speech) get approximate wall-clock times
+    const now = this.elapsedSeconds();
+    if (this.utteranceStart === null) {
+      this.utteranceStart = now;
+    }
+    const offset = provider.timeline === "capture" ? -this.captureOrigin : this.engineOffset;
+    const start = event.start !== undefined ? event.start + offset : this.utteranceStart;
+    const end = event.end !== undefined ? event.end + offset : now;
+
+    if (event.isFinal) {
+      // Everything up to here has been transcribed, nothing to replay
+      this.clearBuffer();
+      this.utteranceStart = null;
+    }
+
+    this.handlers?.onTranscript({ ...event, start, end });
+  }
+
+  private handleEngineError(provider: SpeechToTextProvider, error: string): void {
+    if (provider !== this.provider || !this.running || this.switching) return;
+
+    // Nothing left to fall back to - the session is over, so stop it rather
+    // than leave the UI recording with no engine transcribing
+    if (this.activeIndex >= this.chain.length - 1) {
+      const handlers = this.handlers;
+      console.error(`[Failover] ${this.chain[this.activeIndex]} failed with no engine left: ${error}`);
+      handlers?.onError(`All speech-to-text engines failed. Last error: ${error}`, true);
+      this.stop().catch((stopError) => {
+        handlers?.onError(stopError instanceof Error ? stopError.message : String(stopError), false);
+      });
+      return;
+    }
+
+    this.failover(error);
+  }
+
+  private async failover(reason: string): Promise<void> {
+    this.switching = true;
+    const from = this.chain[this.activeIndex];
+    const failed = this.provider;
+    this.provider = null;
+    console.warn(`[Failover] ${from} failed: ${reason}`);
+
+    try {
+      await failed?.stopListening();
+    } catch (error) {
+      // The engine is gone either way, but e.g. a transcript its relay could not save is worth knowing
+      this.handlers?.onError(error instanceof Error ? error.message : String(error), false);
+    }
+
+    const started = await this.startFrom(this.activeIndex + 1, { from, reason });
+    this.switching = false;
+
+    if (!started && this.running) {
+      this.activeIndex = -1;
+      this.handlers?.onError(`All speech-to-text engines failed. Last error: ${reason}`, true);
+    }
+  }
+
+  private elapsedSeconds(): number {
+    return (Date.now() - this.sessionStart) / 1000;
+  }
+
+  // =========================================
+  // AUDIO BUFFER
+  // =========================================
+  private async startCapture(stream: MediaStream): Promise<void> {
+    this.capture = await AudioCapture.acquire(stream);
+    this.captureOrigin = this.capture.getTime();
+    this.unsubscribeCapture = this.capture.subscribe((frame) => this.bufferFrame(frame));
+  }
+
+  private stopCapture(): void {
+    this.unsubscribeCapture?.();
+    this.unsubscribeCapture = null;
+    this.capture?.release();
+    this.capture = null;
+  }
+
+  private bufferFrame(frame: AudioFrame): void {
+    if (this.bufferedFrames.length === 0) this.bufferedStartTime = frame.time;
+    this.bufferedFrames.push(frame.pcm);
+    this.bufferedSamples += frame.pcm.length;
+
+    while (this.bufferedSamples > MAX_BUFFER_SECONDS * STT_SAMPLE_RATE && this.bufferedFrames.length > 1) {
+      const dropped = this.bufferedFrames.shift()!.length;
+      this.bufferedSamples -= dropped;
+      this.bufferedStartTime += dropped / STT_SAMPLE_RATE;
+    }
+  }
+
+  private clearBuffer(): void {
+    this.bufferedFrames = [];
+    this.bufferedSamples = 0;
+  }
+}
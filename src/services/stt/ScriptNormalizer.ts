@@ -0,0 +1,74 @@
+/**
+ * Transcript script normalization
+ * Engines return Indian languages in whatever script they like - Devanagari,
+ * romanized, or a mix within one sentence. Each final segment is brought into
+ * the output script the doctor chose: romanizing is done locally, converting
+ * romanized text to native script and translating to English go through the
+ * Edge Function.
+ */
+
+import { EdgeFunctionLLM } from "../llm/EdgeFunctionLLM";
+import { loadServiceEnvironment } from "../ServiceConfig";
+import { getSessionAccessToken } from "../ServiceManager";
+import { languageInfo, type OutputScript } from "../../utils/language";
+import { hasIndicScript, romanize } from "../../utils/transliterate";
+
+function defaultEdgeFunction(): EdgeFunctionLLM | null {
+  const env = loadServiceEnvironment();
+  return env.edgeFunctionUrl ? new EdgeFunctionLLM(env.edgeFunctionUrl, env.supabaseAnonKey, getSessionAccessToken) : null;
+}
+
+export class ScriptNormalizer {
+  private language: string;
+  private target: OutputScript;
+  private edgeFunction: EdgeFunctionLLM | null;
+  private warnedUnavailable = false;
+
+  /**
+   * @param language - Consultation language id (e.g. 'hinglish')
+   * @param target - Output script chosen by the doctor
+   */
+  constructor(language: string, target: OutputScript, edgeFunction: EdgeFunctionLLM | null = defaultEdgeFunction()) {
+    this.language = language;
+    this.target = target;
+    this.edgeFunction = edgeFunction;
+  }
+
+  /**
+   * @param segmentLanguage - Detected language of the segment ('hi-Latn' for romanized Hindi)
+   * @returns the text in the output script, or null if it already is
+   */
+  async normalize(text: string, segmentLanguage?: string): Promise<string | null> {
+    switch (this.target) {
+      case "roman":
+        return hasIndicScript(text) ? romanize(text) : null;
+
+      case "native":
+        // English consultations have no other script; English words stay in Latin anyway
+        if (languageInfo(this.language).script === "latin" || segmentLanguage !== "hi-Latn") return null;
+        return this.convertRemotely(text);
+
+      case "english":
+        if (!segmentLanguage || segmentLanguage === "en") return null;
+        return this.convertRemotely(text);
+    }
+  }
+
+  private async convertRemotely(text: string): Promise<string | null> {
+    if (!this.edgeFunction) {
+      if (!this.warnedUnavailable) {
+        console.warn("[ScriptNormalizer] Edge Function not configured, transcript stays as recognized");
+        this.warnedUnavailable = true;
+      }
+      return null;
+    }
+
+    try {
+      const [converted] = await this.edgeFunction.convertScript([text], this.language, this.target);
+      return converted && converted !== text ? converted : null;
+    } catch (error) {
+      console.warn("[ScriptNormalizer] Conversion failed, keeping recognized text:", error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Stream timeline
+ * Engines time their results by the audio they were sent. With voice activity
+ * gating that audio skips the silences, so an engine's offsets fall further
+ * behind the microphone (and the archived recording) with every pause.
+ * Each run of contiguous audio sent is anchored to its capture time
+ * (AudioFrame.time), so engine offsets can be mapped back.
+ */
+
+import { STT_SAMPLE_RATE } from "./pcm";
+
+interface Anchor {
+  /** Seconds of audio sent before the run */
+  streamed: number;
+  /** Capture time of the run's first sample */
+  captured: number;
+}
+
+export class StreamTimeline {
+  private streamed = 0;
+  private anchors: Anchor[] = [];
+  // Capture time the next sample continues from; -1 when the next audio starts a new run
+  private nextCaptureTime = -1;
+
+  /**
+   * Record audio sent to the engine, in the order the engine receives it
+   * @param captureTime - Capture time of the first sample; omitted for audio
+   * with none, which then continues the current run
+   */
+  append(samples: number, captureTime?: number): void {
+    if (captureTime !== undefined && Math.abs(captureTime - this.nextCaptureTime) > 0.001) {
+      this.anchors.push({ streamed: this.streamed, captured: captureTime });
+    }
+    const seconds = samples / STT_SAMPLE_RATE;
+    this.streamed += seconds;
+    if (captureTime !== undefined) {
+      this.nextCaptureTime = captureTime + seconds;
+    } else if (this.nextCaptureTime >= 0) {
+      this.nextCaptureTime += seconds;
+    }
+  }
+
+  /**
+   * Forget the audio from `streamedSeconds` on - the engine never received it
+   * and it is about to be sent again
+   */
+  rewind(streamedSeconds: number): void {
+    this.streamed = Math.min(this.streamed, streamedSeconds);
+    while (this.anchors.length && this.anchors[this.anchors.length - 1].streamed >= this.streamed) {
+      this.anchors.pop();
+    }
+    this.nextCaptureTime = -1;
+  }
+
+  /**
+   * Start over, for a new engine session whose offsets start at 0
+   */
+  reset(): void {
+    this.rewind(0);
+  }
+
+  getStreamedSeconds(): number {
+    return this.streamed;
+  }
+
+  /**
+   * Capture time just after the last audio sent (0 before any)
+   */
+  getCaptureTime(): number {
+    return Math.max(this.nextCaptureTime, 0);
+  }
+
+  /**
+   * Map an engine offset (seconds of audio sent) to capture time
+   * @param isEnd - The offset ends a result, so where two runs meet it belongs to the earlier one
+   */
+  toCaptureSeconds(streamedSeconds: number, isEnd = false): number {
+    let anchor: Anchor | null = null;
+    for (const candidate of this.anchors) {
+      if ((isEnd && anchor) ? candidate.streamed >= streamedSeconds : candidate.streamed > streamedSeconds) break;
+      anchor = candidate;
+    }
+    // Audio sent before the first anchor has no capture time to map to
+    return anchor ? anchor.captured + (streamedSeconds - anchor.streamed) : streamedSeconds;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * PCM helpers shared by the streaming STT providers
+ * All engines receive 16 kHz mono 16-bit little-endian PCM
+ */
+
+import { STT_SAMPLE_RATE } from "../../shared/pcm";
+
+export { STT_SAMPLE_RATE, downsampleBuffer, convertFloat32ToInt16 } from "../../shared/pcm";
+
+/**
+ * Convert ArrayBuffer to base64 string
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer | ArrayBufferLike): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Join small capture frames into chunks of roughly chunkSeconds each,
+ * so replayed audio is sent in sizes the engines accept
+ */
+export function chunkFrames(frames: Int16Array[], chunkSeconds = 1): Int16Array[] {
+  const chunkSamples = Math.round(STT_SAMPLE_RATE * chunkSeconds);
+  const chunks: Int16Array[] = [];
+  let pending: Int16Array[] = [];
+  let pendingSamples = 0;
+
+  const flush = () => {
+    if (pendingSamples === 0) return;
+    const chunk = new Int16Array(pendingSamples);
+    let offset = 0;
+    for (const frame of pending) {
+      chunk.set(frame, offset);
+      offset += frame.length;
+    }
+    chunks.push(chunk);
+    pending = [];
+    pendingSamples = 0;
+  };
+
+  for (const frame of frames) {
+    pending.push(frame);
+    pendingSamples += frame.length;
+    if (pendingSamples >= chunkSamples) flush();
+  }
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,123 @@
+/**
+ * Stand-ins for running the streaming engines under node:test
+ * The browser's shared AudioCapture is replaced by one the test feeds frames
+ * to, and WebSocket by one that records what is sent.
+ */
+
+import Module from "module";
+import type { AudioFrame, AudioFrameListener } from "../audio/AudioCapture";
+import { STT_SAMPLE_RATE } from "./pcm";
+
+export const FRAME_SAMPLES = 2048;
+export const FRAME_SECONDS = FRAME_SAMPLES / STT_SAMPLE_RATE;
+
+export class FakeCapture {
+  private listeners = new Set<AudioFrameListener>();
+  private startTime: number;
+  private framesCaptured = 0;
+
+  /**
+   * @param startTime - Capture time of the first frame, as if capture started earlier
+   */
+  constructor(startTime = 0) {
+    this.startTime = startTime;
+  }
+
+  subscribe(listener: AudioFrameListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getTime(): number {
+    return this.startTime + this.framesCaptured * FRAME_SECONDS;
+  }
+
+  release(): void {}
+
+  /**
+   * Capture `count` frames, each with the given voice activity
+   */
+  emit(count: number, isSpeech: boolean, { utteranceEnd = false } = {}): void {
+    for (let i = 0; i < count; i++) {
+      const frame: AudioFrame = {
+        samples: new Float32Array(FRAME_SAMPLES),
+        pcm: new Int16Array(FRAME_SAMPLES).fill(isSpeech ? 1000 : 0),
+        rms: isSpeech ? 0.1 : 0,
+        peak: isSpeech ? 0.1 : 0,
+        isSpeech,
+        utteranceEnd: utteranceEnd && i === count - 1,
+        features: null,
+        time: this.getTime(),
+      };
+      this.framesCaptured++;
+      this.listeners.forEach((listener) => listener(frame));
+    }
+  }
+}
+
+export class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  url: string;
+  readyState = FakeWebSocket.CONNECTING;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+    setTimeout(() => {
+      this.readyState = FakeWebSocket.OPEN;
+      this.onopen?.();
+    });
+  }
+
+  send(data: any): void {
+    this.sent.push(typeof data === "string" ? JSON.parse(data) : data);
+  }
+
+  close(): void {
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  /** A message from the server */
+  receive(message: object): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+/**
+ * Load the engines with the shared capture replaced by `capture`, and without
+ * the ServiceManager registry (which needs Vite's import.meta.env)
+ */
+export function stubBrowserModules(capture: FakeCapture): void {
+  const stubs: Record<string, unknown> = {
+    "../audio/AudioCapture": { AudioCapture: { acquire: async () => capture } },
+    "../ServiceManager": { serviceManager: {} },
+  };
+  const moduleLoader = Module as any;
+  const load = moduleLoader._load;
+  moduleLoader._load = function (request: string, ...rest: unknown[]) {
+    return request in stubs ? stubs[request] : load.call(this, request, ...rest);
+  };
+  (globalThis as any).WebSocket = FakeWebSocket;
+}
+
+/**
+ * Resolve once `check` passes, polling between timers
+ */
+export async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Medical vocabulary for STT engines
+ * Drug names, Indian brands especially (Dolo, Glycomet, Ecosprin), are routinely
+ * misheard. The vocabulary is built from the medicine database, the clinic's
+ * formulary, terms the doctor corrected in earlier transcripts and the
+ * patient's current medications. Cloud engines boost these
+ * terms while recognising; MedicalTermCorrector also matches results against
+ * them afterwards, which is all Web Speech gets.
+ */
+
+import { MedicineDatabase } from "../database/MedicineDatabase";
+import { editDistance, phoneticKey } from "./MedicalTermCorrector";
+import type { Consultation } from "../../types";
+
+// Deepgram advises against more; extra keywords mostly add false positives
+export const MAX_VOCABULARY_TERMS = 100;
+
+export interface VocabularySources {
+  /** Medicines the clinic prescribes, from settings */
+  formulary?: string[];
+  /** What the patient is taking now - the likeliest names to come up */
+  patientMedications?: string[];
+  /** Terms the doctor re-spelled in earlier transcripts, from settings */
+  learned?: string[];
+}
+
+// Dosage-form prefixes and strengths are not part of the name ("Tab. Dolo 650mg" -> "Dolo")
+const DOSAGE_FORM_PREFIX = /^(tab|tablet|cap|capsule|syp|syrup|inj|injection|oint|drops?)\.?\s+/i;
+const STRENGTH_SUFFIX = /\s+\d.*$/;
+const VALID_TERM = /^[\p{L}\p{N}][\p{L}\p{N} .'-]*$/u;
+
+/**
+ * Reduce a medication as written in a prescription to the name a speaker says
+ * @returns the name, or null if nothing usable is left
+ */
+export function medicationTerm(name: string): string | null {
+  const term = name.trim().replace(DOSAGE_FORM_PREFIX, "").replace(STRENGTH_SUFFIX, "").trim();
+  if (term.length < 3 || term.length > 40 || !VALID_TERM.test(term)) return null;
+  return term;
+}
+
+/**
+ * Medications from the patient's most recent consultation, including what they
+ * reported taking before it
+ */
+export function currentMedications(consultations: Consultation[]): string[] {
+  const latest = consultations
+    .filter((consultation) => consultation.prescription)
+    .sort((a, b) => (b.created_at || "").localeCompare(a.created_at || ""))[0];
+  if (!latest) return [];
+
+  const prescription = latest.prescription;
+  return [
+    ...(prescription.medications || []).map((medication) => medication.name),
+    ...(prescription.previousMedication || []),
+  ];
+}
+
+/**
+ * Combine the sources, most specific first, so the patient's own medications
+ * survive the cap
+ */
+export function buildMedicalVocabulary(sources: VocabularySources = {}): string[] {
+  const candidates = [
+    ...(sources.patientMedications || []),
+    ...(sources.learned || []),
+    ...(sources.formulary || []),
+    ...MedicineDatabase.getVocabulary(),
+  ];
+
+  const seen = new Set<string>();
+  const vocabulary: string[] = [];
+  for (const candidate of candidates) {
+    const term = medicationTerm(candidate);
+    if (!term || seen.has(term.toLowerCase())) continue;
+    seen.add(term.toLowerCase());
+    vocabulary.push(term);
+    if (vocabulary.length >= MAX_VOCABULARY_TERMS) break;
+  }
+  return vocabulary;
+}
+
+// =========================================
+// LEARNING FROM TRANSCRIPT CORRECTIONS
+// A doctor re-spelling a word the engine got nearly right ("glycomat" ->
+// "Glycomet") marks a term worth boosting next time
+// =========================================
+
+// Learned terms kept in settings, newest first
+export const MAX_LEARNED_TERMS = 200;
+// Longest replacement (in words) taken as a single term
+const MAX_LEARNED_WORDS = 3;
+const MIN_LEARNED_LETTERS = 4;
+
+function wordKey(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function stripPunctuation(word: string): string {
+  return word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+}
+
+/**
+ * Runs of words the edit replaced, from a word-level longest-common-subsequence diff
+ */
+function replacedRuns(before: string[], after: string[]): Array<{ removed: string[]; inserted: string[] }> {
+  const m = before.length;
+  const n = after.length;
+  const same = (i: number, j: number) => wordKey(before[i]) === wordKey(after[j]);
+  const lcs = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = same(i, j) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const runs: Array<{ removed: string[]; inserted: string[] }> = [];
+  let run = { removed: [] as string[], inserted: [] as string[] };
+  const flush = () => {
+    if (run.removed.length && run.inserted.length) runs.push(run);
+    run = { removed: [], inserted: [] };
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < m || j < n) {
+    if (i < m && j < n && same(i, j)) {
+      flush();
+      i++;
+      j++;
+    } else if (j < n && (i === m || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      run.inserted.push(after[j++]);
+    } else {
+      run.removed.push(before[i++]);
+    }
+  }
+  flush();
+  return runs;
+}
+
+/**
+ * Terms a transcript correction taught us: replacements that look or sound like
+ * what was heard. Rewording ("fever" -> "high temperature") teaches nothing.
+ */
+export function learnedTermsFromEdit(before: string, after: string): string[] {
+  const split = (text: string) => text.split(/\s+/).filter(Boolean);
+  const terms: string[] = [];
+
+  for (const { removed, inserted } of replacedRuns(split(before), split(after))) {
+    if (inserted.length > MAX_LEARNED_WORDS) continue;
+    const term = medicationTerm(inserted.map(stripPunctuation).join(" "));
+    if (!term) continue;
+
+    const heard = removed.map(wordKey).join("");
+    const corrected = wordKey(term);
+    if (corrected.length < MIN_LEARNED_LETTERS || !/\p{L}/u.test(corrected)) continue;
+    // Only the case changed; joining split words ("eco sprin") still counts
+    if (removed.map(wordKey).join(" ") === term.split(/\s+/).map(wordKey).join(" ")) continue;
+
+    const allowed = Math.max(2, Math.floor(corrected.length * 0.4));
+    const soundsAlike = /^[a-z]+$/.test(heard + corrected) && phoneticKey(heard) === phoneticKey(corrected);
+    if (soundsAlike || editDistance(heard, corrected) <= allowed) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Add newly learned terms in front of the stored ones, without duplicates
+ */
+export function mergeLearnedVocabulary(existing: string[] = [], terms: string[]): string[] {
+  const seen = new Set<string>();
+  return [...terms, ...existing]
+    .filter((term) => {
+      const key = term.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_LEARNED_TERMS);
+}
@@ -0,0 +1,48 @@
+/**
+ * PCM conversion shared by the browser's STT providers and the relay's tools
+ * All engines receive 16 kHz mono 16-bit little-endian PCM
+ */
+
+export const STT_SAMPLE_RATE = 16000;
+
+/**
+ * Downsample a Float32Array buffer from srcRate to dstRate (returns Float32Array)
+ */
+export function downsampleBuffer(buffer: Float32Array, srcRate: number, dstRate: number): Float32Array {
+  if (dstRate === srcRate) {
+    return buffer;
+  }
+
+  const sampleRateRatio = srcRate / dstRate;
+  const newLength = Math.round(buffer.length / sampleRateRatio);
+  const result = new Float32Array(newLength);
+  let offsetResult = 0;
+  let offsetBuffer = 0;
+
+  while (offsetResult < result.length) {
+    const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
+    let accum = 0, count = 0;
+    for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
+      accum += buffer[i];
+      count++;
+    }
+    result[offsetResult] = count ? accum / count : 0;
+    offsetResult++;
+    offsetBuffer = nextOffsetBuffer;
+  }
+
+  return result;
+}
+
+/**
+ * Convert Float32Array (-1..1) to Int16Array (PCM 16-bit little endian)
+ */
+export function convertFloat32ToInt16(buffer: Float32Array): Int16Array {
+  const l = buffer.length;
+  const result = new Int16Array(l);
+  for (let i = 0; i < l; i++) {
+    const s = Math.max(-1, Math.min(1, buffer[i]));
+    result[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return result;
+}
@@ -0,0 +1,22 @@
+/**
+ * Provider ids the app has, per service
+ * ServiceManager registers its built-in providers under these ids, and the relay
+ * only stores clinic selections made of them.
+ */
+
+export const KNOWN_PROVIDERS = {
+  stt: ["browser", "deepgram", "assemblyai", "local"],
+  database: ["supabase"],
+  auth: ["supabase"],
+  llm: ["openai", "claude", "gemini"],
+} as const;
+
+export type KnownServiceKind = keyof typeof KNOWN_PROVIDERS;
+
+export function isKnownServiceKind(kind: string): kind is KnownServiceKind {
+  return Object.prototype.hasOwnProperty.call(KNOWN_PROVIDERS, kind);
+}
+
+export function isKnownProvider(kind: KnownServiceKind, id: unknown): boolean {
+  return typeof id === "string" && (KNOWN_PROVIDERS[kind] as readonly string[]).includes(id);
+}
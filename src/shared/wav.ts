@@ -0,0 +1,96 @@
+/**
+ * Minimal WAV decoder so audio code can be run on fixture recordings
+ * outside the browser (no AudioContext needed)
+ */
+
+export interface DecodedWav {
+  sampleRate: number;
+  /** Mono samples in -1..1 (multi-channel files are mixed down) */
+  samples: Float32Array;
+}
+
+/**
+ * Decode a RIFF/WAVE file with 8/16/24/32-bit PCM or 32-bit float samples
+ */
+export function decodeWav(buffer: ArrayBuffer): DecodedWav {
+  const view = new DataView(buffer);
+  const tag = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+  if (buffer.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunks - fmt and data are not always adjacent
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (format === 0xfffe && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, buffer.byteLength - body);
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  if (!sampleRate || !channels || dataOffset < 0) {
+    throw new Error('WAV file is missing its fmt or data chunk');
+  }
+  if (format !== 1 && format !== 3) {
+    throw new Error(`Unsupported WAV encoding (format ${format}), expected PCM or float`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frameCount);
+
+  const readSample = (position: number): number => {
+    if (format === 3) {
+      return bitsPerSample === 64 ? view.getFloat64(position, true) : view.getFloat32(position, true);
+    }
+    switch (bitsPerSample) {
+      case 8:
+        return (view.getUint8(position) - 128) / 128;
+      case 16:
+        return view.getInt16(position, true) / 0x8000;
+      case 24: {
+        const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+        return value / 0x800000;
+      }
+      case 32:
+        return view.getInt32(position, true) / 0x80000000;
+      default:
+        throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+    }
+  };
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(dataOffset + (frame * channels + channel) * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return { sampleRate, samples };
+}
@@ -1,3 +1,6 @@
+import type { DoctorVoiceProfile } from '../services/speaker-detection/VoiceAnalyzer';
+import type { ConsultationAudio } from '../services/audio/ConsultationRecorder';
+
 export interface Patient {
   member_id: string;
   name: string;
@@ -18,11 +21,24 @@ export interface Medication {
   dosage: string;
   frequency: string;
   duration: string;
+  /** Relative to food or sleep, e.g. "after meal" */
+  timing?: string;
+  /** Salts in the brand, e.g. ["Paracetamol 650mg"] */
+  composition?: string[];
+}
+
+export interface VitalSigns {
+  bloodPressure?: string;
+  temperature?: string;
+  heartRate?: string;
+  respiratoryRate?: string;
 }
 
 export interface Prescription {
   chiefComplaint: string;
   symptoms: string[];
+  /** How long the patient has had the symptoms, e.g. "3 days" */
+  durationOfSymptoms?: string;
   medicalHistory: string;
   previousMedication: string[];
   previousReports: string;
@@ -31,12 +47,86 @@ export interface Prescription {
   investigations: string[];
   advice: string;
   followUp: string;
+  allergies?: string[];
+  vitals?: VitalSigns;
+  /** Examination done and what the doctor found, one per line */
+  examinationFindings?: string[];
+}
+
+export type TranscriptSpeaker = 'Doctor' | 'Patient' | 'Attendant' | 'Unknown';
+
+/**
+ * A word or phrase the STT engine got wrong, rewritten to a known medical term.
+ * Offsets point into the corrected segment text.
+ */
+export interface TermCorrection {
+  original: string;
+  corrected: string;
+  start: number;
+  end: number;
+  kind: 'medicine' | 'condition';
+}
+
+/**
+ * A doctor's correction of a transcript segment after the session
+ */
+export interface TranscriptEdit {
+  /** Segment text before and after the edit */
+  before: string;
+  after: string;
+  edited_at: string;
+}
+
+/**
+ * One speaker turn of a consultation transcript.
+ * Times are seconds from the start of the recording.
+ */
+export interface TranscriptSegment {
+  id: string;
+  speaker: TranscriptSpeaker;
+  /** Raw diarized speaker index, kept so the role mapping can be corrected later */
+  speakerId?: number;
+  text: string;
+  start?: number;
+  end?: number;
+  /** STT engine that produced the text (e.g. 'deepgram', 'browser') */
+  engine: string;
+  confidence?: number;
+  language?: string;
+  /** Text as the engine produced it, kept once terms in it were corrected or the doctor edited it */
+  originalText?: string;
+  corrections?: TermCorrection[];
+  /** `text` in the consultation's output script, when that differs */
+  normalizedText?: string;
+  /** The doctor's corrections, oldest first; `text` is the latest version */
+  edits?: TranscriptEdit[];
+}
+
+/**
+ * Transcript as the STT relay received it, written to the consultation when the
+ * relay session ends. Segments carry Deepgram's numeric speakers, not roles.
+ */
+export interface ServerTranscript {
+  session_id: string;
+  consultation_id: string | null;
+  started_at: string;
+  ended_at: string | null;
+  text: string;
+  segments: { speaker: number; text: string; start: number; end: number; confidence: number }[];
 }
 
 export interface Consultation {
   consultation_id: string;
   member_id: string;
+  // Plain-text transcript, kept for search and older records
   transcript: string;
+  // Plain-text transcript as recognized, before the doctor's corrections
+  raw_transcript?: string;
+  transcript_segments?: TranscriptSegment[];
+  // The relay's copy, used when the browser lost part of the transcript
+  server_transcript?: ServerTranscript;
+  // Present when the consultation audio was recorded (with consent) and archived
+  audio_recording?: ConsultationAudio;
   prescription: Prescription;
   status: 'ongoing' | 'completed';
   created_at: string;
@@ -55,6 +145,11 @@ export interface DoctorSettings {
   clinic_name?: string;
   clinic_address?: string;
   theme_color?: string;
+  voice_profile?: DoctorVoiceProfile | null;
+  // Medicines the clinic prescribes, boosted in speech recognition
+  clinic_formulary?: string[];
+  // Terms the doctor re-spelled in transcripts, boosted like the formulary
+  learned_vocabulary?: string[];
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,127 @@
+/**
+ * Consultation languages and transcript scripts
+ * The language the doctor picks drives the STT engines, how each segment's
+ * language is labelled and what the extraction prompt is told. The output
+ * script is how transcript text is shown and sent for extraction.
+ */
+
+export type ConsultationLanguage = 'hinglish' | 'hindi' | 'english' | 'marathi' | 'tamil' | 'bengali' | 'telugu';
+
+export type Script = 'devanagari' | 'bengali' | 'tamil' | 'telugu' | 'latin';
+
+/** Native script as spoken, romanized, or translated to English */
+export type OutputScript = 'native' | 'roman' | 'english';
+
+export interface ConsultationLanguageInfo {
+  label: string;
+  /** Locale for engines that take one (Web Speech, AssemblyAI) */
+  locale: string;
+  /** Speakers switch between the language and English mid-sentence */
+  codeMixed: boolean;
+  script: Script;
+}
+
+export const CONSULTATION_LANGUAGES: Record<ConsultationLanguage, ConsultationLanguageInfo> = {
+  hinglish: { label: 'Hinglish', locale: 'hi-IN', codeMixed: true, script: 'devanagari' },
+  hindi: { label: 'हिंदी (Hindi)', locale: 'hi-IN', codeMixed: false, script: 'devanagari' },
+  english: { label: 'English', locale: 'en-IN', codeMixed: false, script: 'latin' },
+  marathi: { label: 'मराठी (Marathi)', locale: 'mr-IN', codeMixed: false, script: 'devanagari' },
+  tamil: { label: 'தமிழ் (Tamil)', locale: 'ta-IN', codeMixed: false, script: 'tamil' },
+  bengali: { label: 'বাংলা (Bengali)', locale: 'bn-IN', codeMixed: false, script: 'bengali' },
+  telugu: { label: 'తెలుగు (Telugu)', locale: 'te-IN', codeMixed: false, script: 'telugu' },
+};
+
+export const DEFAULT_CONSULTATION_LANGUAGE: ConsultationLanguage = 'hinglish';
+
+export function languageInfo(language: string): ConsultationLanguageInfo {
+  return CONSULTATION_LANGUAGES[language as ConsultationLanguage] || CONSULTATION_LANGUAGES[DEFAULT_CONSULTATION_LANGUAGE];
+}
+
+const SCRIPT_NAMES: Record<Script, string> = {
+  devanagari: 'Devanagari',
+  bengali: 'Bengali script',
+  tamil: 'Tamil script',
+  telugu: 'Telugu script',
+  latin: 'Latin',
+};
+
+export function outputScriptLabel(script: OutputScript, language: string): string {
+  if (script === 'roman') return 'Romanized';
+  if (script === 'english') return 'English translation';
+  return SCRIPT_NAMES[languageInfo(language).script];
+}
+
+// =========================================
+// PER-SEGMENT LANGUAGE DETECTION
+// =========================================
+
+const SCRIPT_RANGES: Array<{ script: Script; from: number; to: number }> = [
+  { script: 'devanagari', from: 0x0900, to: 0x097f },
+  { script: 'bengali', from: 0x0980, to: 0x09ff },
+  { script: 'tamil', from: 0x0b80, to: 0x0bff },
+  { script: 'telugu', from: 0x0c00, to: 0x0c7f },
+  { script: 'latin', from: 0x0041, to: 0x024f },
+];
+
+// Frequent romanized Hindi words that are not also English words
+const ROMANIZED_HINDI_WORDS = new Set([
+  'hai', 'hain', 'nahi', 'nahin', 'kya', 'mujhe', 'mera', 'meri', 'mere', 'aap', 'aapko', 'aapka',
+  'kab', 'kaise', 'kitne', 'ko', 'ka', 'ke', 'mein', 'bhi', 'tha', 'thi', 'raha', 'rahi', 'rahe',
+  'dard', 'bukhar', 'khansi', 'sardi', 'ulti', 'chakkar', 'haan', 'ji', 'theek', 'thik', 'dawai',
+  'dawa', 'lena', 'lijiye', 'kijiye', 'subah', 'shaam', 'raat', 'khana', 'baad', 'pehle', 'abhi',
+  'se', 'aur', 'lekin', 'kuch', 'bahut', 'zyada', 'kam', 'hota', 'hoti', 'gaya', 'gayi',
+]);
+// Share of words that must be Hindi for Latin text to count as romanized Hindi
+const ROMANIZED_HINDI_RATIO = 0.2;
+
+/**
+ * Script most of the letters in the text are written in
+ */
+export function dominantScript(text: string): Script | null {
+  const counts = new Map<Script, number>();
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (!/\p{L}|\p{M}/u.test(char)) continue;
+    const range = SCRIPT_RANGES.find((r) => code >= r.from && code <= r.to);
+    if (range) counts.set(range.script, (counts.get(range.script) || 0) + 1);
+  }
+
+  let best: Script | null = null;
+  let bestCount = 0;
+  counts.forEach((count, script) => {
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Language of one transcript segment, as a BCP 47 tag ('hi', 'hi-Latn' for
+ * romanized Hindi, 'en', 'ta', ...)
+ * @param language - The consultation language, used where the script is shared
+ */
+export function detectSegmentLanguage(text: string, language: string): string | undefined {
+  const script = dominantScript(text);
+  switch (script) {
+    case 'devanagari':
+      return language === 'marathi' ? 'mr' : 'hi';
+    case 'bengali':
+      return 'bn';
+    case 'tamil':
+      return 'ta';
+    case 'telugu':
+      return 'te';
+    case 'latin': {
+      if (language === 'hinglish' || language === 'hindi') {
+        const words = text.toLowerCase().match(/[a-z]+/g) || [];
+        const hindiWords = words.filter((word) => ROMANIZED_HINDI_WORDS.has(word)).length;
+        if (words.length && hindiWords / words.length >= ROMANIZED_HINDI_RATIO) return 'hi-Latn';
+      }
+      return 'en';
+    }
+    default:
+      return undefined;
+  }
+}
@@ -2,47 +2,62 @@
  * Convert LLM MedicalAnalysis to Prescription format
  */
 
-import { MedicalAnalysis } from '@/services/llm/LLMManager';
+import { emptyMedicalAnalysis, type MedicalAnalysis } from '@/services/llm/types';
 import { Prescription } from '@/types';
 
 export function medicalAnalysisToPrescription(
   analysis: MedicalAnalysis
 ): Prescription {
   return {
-    chiefComplaint: analysis.chiefComplaint || '',
-    symptoms: analysis.symptoms || [],
-    medicalHistory: analysis.medicalHistory || '',
-    previousMedication: analysis.medications?.map((med) => `${med.name} ${med.dosage}`.trim()) || [],
+    chiefComplaint: analysis.chiefComplaint,
+    symptoms: analysis.symptoms,
+    durationOfSymptoms: analysis.durationOfSymptoms,
+    medicalHistory: analysis.medicalHistory || analysis.pastMedicalHistory.join(', '),
+    previousMedication: analysis.medicationHistory.map((med) =>
+      [med.name, med.dosage, med.frequency].filter(Boolean).join(' ')
+    ),
     previousReports: '',
-    diagnosis: analysis.diagnosis || '',
-    medications: analysis.medications?.map((med) => ({
+    diagnosis: analysis.diagnosis,
+    medications: analysis.medications.map((med) => ({
       name: med.name,
       dosage: med.dosage,
       frequency: med.frequency,
-      duration: med.duration
-    })) || [],
-    investigations: analysis.investigationsSuggested || [],
-    advice: analysis.instructions?.join('\n') || '',
-    followUp: analysis.followUp || ''
+      duration: med.duration,
+      timing: med.timing || undefined,
+      composition: med.composition.length > 0 ? med.composition : undefined,
+    })),
+    investigations: analysis.investigationsSuggested,
+    advice: analysis.instructions.join('\n'),
+    followUp: analysis.followUp,
+    allergies: analysis.allergies,
+    vitals: analysis.vitalSigns,
+    examinationFindings: analysis.physicalExamination,
   };
 }
 
 export function prescriptionToMedicalAnalysis(
   prescription: Prescription
-): Partial<MedicalAnalysis> {
+): MedicalAnalysis {
   return {
+    ...emptyMedicalAnalysis(),
     chiefComplaint: prescription.chiefComplaint,
     symptoms: prescription.symptoms || [],
+    durationOfSymptoms: prescription.durationOfSymptoms || '',
     medicalHistory: prescription.medicalHistory,
+    allergies: prescription.allergies || [],
     diagnosis: prescription.diagnosis,
     medications: prescription.medications?.map((med) => ({
       name: med.name,
       dosage: med.dosage,
       frequency: med.frequency || '',
-      duration: med.duration || ''
+      duration: med.duration || '',
+      timing: med.timing || '',
+      composition: med.composition || [],
     })) || [],
     instructions: prescription.advice?.split('\n').filter(Boolean) || [],
     investigationsSuggested: prescription.investigations || [],
-    followUp: prescription.followUp
+    followUp: prescription.followUp,
+    physicalExamination: prescription.examinationFindings || [],
+    vitalSigns: prescription.vitals || {},
   };
 }
@@ -0,0 +1,59 @@
+import type { Medication, Prescription, VitalSigns } from '../types';
+
+/**
+ * Display helpers for prescription sections, shared by the editor, visit
+ * history and the WhatsApp share text
+ */
+
+/**
+ * A blank prescription for a new consultation
+ */
+export function emptyPrescription(): Prescription {
+  return {
+    chiefComplaint: '',
+    symptoms: [],
+    medicalHistory: '',
+    previousMedication: [],
+    previousReports: '',
+    diagnosis: '',
+    medications: [],
+    investigations: [],
+    advice: '',
+    followUp: '',
+  };
+}
+
+export const VITAL_SIGN_FIELDS: Array<{ key: keyof VitalSigns; label: string; placeholder: string }> = [
+  { key: 'bloodPressure', label: 'BP', placeholder: '120/80 mmHg' },
+  { key: 'temperature', label: 'Temp', placeholder: '98.6 °F' },
+  { key: 'heartRate', label: 'Pulse', placeholder: '72 /min' },
+  { key: 'respiratoryRate', label: 'RR', placeholder: '16 /min' },
+];
+
+export function hasVitals(vitals?: VitalSigns): boolean {
+  return VITAL_SIGN_FIELDS.some(({ key }) => vitals?.[key]);
+}
+
+/**
+ * "BP 120/80 mmHg, Pulse 72 /min" - recorded vitals only
+ */
+export function formatVitals(vitals?: VitalSigns): string {
+  return VITAL_SIGN_FIELDS
+    .filter(({ key }) => vitals?.[key])
+    .map(({ key, label }) => `${label} ${vitals![key]}`)
+    .join(', ');
+}
+
+/**
+ * "Paracetamol 650mg + Caffeine 50mg"
+ */
+export function formatComposition(composition?: string[]): string {
+  return composition?.filter(Boolean).join(' + ') || '';
+}
+
+/**
+ * One prescription line: name, dosage, frequency, duration and timing, skipping blanks
+ */
+export function formatMedication(med: Medication): string {
+  return [med.name, med.dosage, med.frequency, med.duration, med.timing].filter(Boolean).join(' - ');
+}
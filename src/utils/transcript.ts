@@ -0,0 +1,184 @@
+import type { Consultation, TranscriptEdit, TranscriptSegment, TranscriptSpeaker } from '../types';
+
+/**
+ * Helpers for working with speaker-attributed transcript segments
+ */
+
+let segmentCounter = 0;
+
+export function createSegmentId(): string {
+  segmentCounter += 1;
+  return `seg-${Date.now().toString(36)}-${segmentCounter}`;
+}
+
+/**
+ * Flatten segments into the plain-text transcript stored alongside them
+ */
+export function segmentsToPlainText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.text).join(' ');
+}
+
+/**
+ * Format segments as "Speaker: text" lines for the LLM, merging consecutive
+ * turns by the same speaker so extraction knows who said what
+ */
+export function formatTranscriptForLLM(segments: TranscriptSegment[]): string {
+  const lines: string[] = [];
+  let lastSpeaker: string | null = null;
+
+  for (const segment of segments) {
+    const text = (segment.normalizedText || segment.text).trim();
+    if (!text) continue;
+
+    if (segment.speaker === lastSpeaker) {
+      lines[lines.length - 1] += ` ${text}`;
+    } else {
+      lines.push(`${segment.speaker}: ${text}`);
+      lastSpeaker = segment.speaker;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// =========================================
+// DOCTOR'S CORRECTIONS
+// =========================================
+
+/**
+ * Apply the doctor's correction to a segment. The doctor edits what they see
+ * (the output-script text when there is one); that becomes the segment text and
+ * the recognized text is kept in originalText.
+ */
+export function editSegment(segment: TranscriptSegment, text: string): TranscriptSegment {
+  const edit: TranscriptEdit = {
+    before: segment.normalizedText || segment.text,
+    after: text,
+    edited_at: new Date().toISOString(),
+  };
+  // Correction highlights and the script conversion describe the old text
+  const { corrections, normalizedText, ...rest } = segment;
+  return {
+    ...rest,
+    text,
+    originalText: segment.originalText ?? segment.text,
+    edits: [...(segment.edits || []), edit],
+  };
+}
+
+/**
+ * Plain text as the engines recognized it, before any correction
+ */
+export function rawTranscriptText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.originalText ?? segment.text).join(' ');
+}
+
+// =========================================
+// SPEAKER ROLES
+// Diarizing engines only number speakers; these map numbers to roles
+// =========================================
+export type SpeakerRoleMap = Record<number, TranscriptSpeaker>;
+
+/**
+ * Give a newly seen diarized speaker a role. The doctor usually opens the
+ * consultation, the patient answers, anyone else is an attendant.
+ */
+export function assignSpeakerRole(roles: SpeakerRoleMap, speakerId: number): SpeakerRoleMap {
+  if (roles[speakerId]) return roles;
+
+  const taken = Object.values(roles);
+  const role: TranscriptSpeaker = !taken.includes('Doctor')
+    ? 'Doctor'
+    : !taken.includes('Patient')
+      ? 'Patient'
+      : 'Attendant';
+  return { ...roles, [speakerId]: role };
+}
+
+export function swapDoctorAndPatient(roles: SpeakerRoleMap): SpeakerRoleMap {
+  const swapped: SpeakerRoleMap = {};
+  for (const [id, role] of Object.entries(roles)) {
+    swapped[Number(id)] = role === 'Doctor' ? 'Patient' : role === 'Patient' ? 'Doctor' : role;
+  }
+  return swapped;
+}
+
+/**
+ * Segments for speaker turns from a diarizing engine (a batch transcription or
+ * the relay's copy), with roles given in order of appearance
+ * @param idPrefix - Segment ids are the prefix and the turn's index
+ */
+export function diarizedToSegments(
+  turns: Array<{ speaker: number; text: string; start: number; end: number; confidence: number }>,
+  engine: string,
+  idPrefix: string
+): { segments: TranscriptSegment[]; roles: SpeakerRoleMap } {
+  let roles: SpeakerRoleMap = {};
+  const segments = turns.map((turn, index) => {
+    roles = assignSpeakerRole(roles, turn.speaker);
+    return {
+      id: `${idPrefix}-${index}`,
+      speaker: roles[turn.speaker],
+      speakerId: turn.speaker,
+      text: turn.text,
+      start: turn.start,
+      end: turn.end,
+      engine,
+      confidence: turn.confidence,
+    };
+  });
+  return { segments, roles };
+}
+
+/**
+ * Re-label diarized segments after the role mapping changed
+ */
+export function applySpeakerRoles(segments: TranscriptSegment[], roles: SpeakerRoleMap): TranscriptSegment[] {
+  return segments.map((segment) =>
+    segment.speakerId !== undefined && roles[segment.speakerId]
+      ? { ...segment, speaker: roles[segment.speakerId] }
+      : segment
+  );
+}
+
+// =========================================
+// RECONCILIATION
+// =========================================
+
+// The browser copy wins unless the relay's is clearly longer (a crash or lost updates)
+const SERVER_TRANSCRIPT_MARGIN = 1.1;
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Segments to show for a saved consultation: what the browser saved, or the
+ * relay's transcript when the browser's copy is missing part of the conversation
+ */
+export function reconcileTranscript(consultation: Consultation): {
+  segments: TranscriptSegment[];
+  source: 'browser' | 'server';
+} {
+  const browserSegments = consultation.transcript_segments || [];
+  const server = consultation.server_transcript;
+  const browserWords = wordCount(segmentsToPlainText(browserSegments) || consultation.transcript || '');
+
+  if (!server?.segments.length || wordCount(server.text) <= browserWords * SERVER_TRANSCRIPT_MARGIN) {
+    return { segments: browserSegments, source: 'browser' };
+  }
+
+  const { segments } = diarizedToSegments(server.segments, 'deepgram', server.session_id);
+  return { segments, source: 'server' };
+}
+
+/**
+ * Format seconds as m:ss for display next to a segment
+ */
+export function formatSegmentTime(seconds?: number): string {
+  if (seconds === undefined || !isFinite(seconds)) return '';
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
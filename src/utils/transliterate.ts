@@ -0,0 +1,124 @@
+/**
+ * Romanization of Indic scripts
+ * Devanagari, Bengali, Tamil and Telugu lay out their Unicode blocks in the same
+ * (ISCII) order, so one table keyed by the offset inside the block covers all
+ * four. The output is the informal spelling doctors type ("bukhar", "dard"),
+ * not a scholarly transliteration.
+ */
+
+interface ScriptBlock {
+  start: number;
+  /** Hindi, Marathi and Bengali do not pronounce the inherent vowel at the end of a word */
+  dropFinalVowel: boolean;
+}
+
+const SCRIPT_BLOCKS: ScriptBlock[] = [
+  { start: 0x0900, dropFinalVowel: true }, // Devanagari
+  { start: 0x0980, dropFinalVowel: true }, // Bengali
+  { start: 0x0b80, dropFinalVowel: false }, // Tamil
+  { start: 0x0c00, dropFinalVowel: false }, // Telugu
+];
+
+const BLOCK_SIZE = 0x80;
+
+// Offsets within a block
+const CONSONANTS: Record<number, string> = {
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'ng',
+  0x1a: 'ch', 0x1b: 'chh', 0x1c: 'j', 0x1d: 'jh', 0x1e: 'ny',
+  0x1f: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n',
+  0x24: 't', 0x25: 'th', 0x26: 'd', 0x27: 'dh', 0x28: 'n', 0x29: 'n',
+  0x2a: 'p', 0x2b: 'ph', 0x2c: 'b', 0x2d: 'bh', 0x2e: 'm',
+  0x2f: 'y', 0x30: 'r', 0x31: 'r', 0x32: 'l', 0x33: 'l', 0x34: 'zh', 0x35: 'v',
+  0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h',
+  // Precomposed nukta forms
+  0x58: 'q', 0x59: 'kh', 0x5a: 'g', 0x5b: 'z', 0x5c: 'r', 0x5d: 'rh', 0x5e: 'f', 0x5f: 'y',
+};
+
+const VOWELS: Record<number, string> = {
+  0x05: 'a', 0x06: 'aa', 0x07: 'i', 0x08: 'ee', 0x09: 'u', 0x0a: 'oo', 0x0b: 'ri',
+  0x0e: 'e', 0x0f: 'e', 0x10: 'ai', 0x12: 'o', 0x13: 'o', 0x14: 'au',
+};
+
+const VOWEL_SIGNS: Record<number, string> = {
+  0x3e: 'a', 0x3f: 'i', 0x40: 'i', 0x41: 'u', 0x42: 'u', 0x43: 'ri',
+  0x46: 'e', 0x47: 'e', 0x48: 'ai', 0x4a: 'o', 0x4b: 'o', 0x4c: 'au', 0x57: 'au',
+};
+
+const MODIFIERS: Record<number, string> = { 0x01: 'n', 0x02: 'n', 0x03: 'h' };
+
+const NUKTA = 0x3c;
+const VIRAMA = 0x4d;
+const DANDAS = [0x64, 0x65];
+const DIGITS_START = 0x66;
+
+function blockOf(code: number): ScriptBlock | null {
+  return SCRIPT_BLOCKS.find((block) => code >= block.start && code < block.start + BLOCK_SIZE) || null;
+}
+
+/**
+ * True if the text contains any Indic-script letters this module can romanize
+ */
+export function hasIndicScript(text: string): boolean {
+  for (const char of text) {
+    if (blockOf(char.codePointAt(0)!)) return true;
+  }
+  return false;
+}
+
+/**
+ * Romanize Devanagari, Bengali, Tamil and Telugu text; anything else is kept
+ */
+export function romanize(text: string): string {
+  let output = '';
+  // A consonant was written and its inherent vowel not yet decided
+  let pendingVowel = false;
+  let dropFinalVowel = false;
+
+  const settle = (atWordEnd: boolean) => {
+    if (pendingVowel && !(atWordEnd && dropFinalVowel)) output += 'a';
+    pendingVowel = false;
+  };
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const block = blockOf(code);
+    if (!block) {
+      settle(true);
+      output += char;
+      continue;
+    }
+
+    const offset = code - block.start;
+    dropFinalVowel = block.dropFinalVowel;
+
+    if (CONSONANTS[offset] !== undefined) {
+      settle(false);
+      output += CONSONANTS[offset];
+      pendingVowel = true;
+    } else if (VOWEL_SIGNS[offset] !== undefined) {
+      output += VOWEL_SIGNS[offset];
+      pendingVowel = false;
+    } else if (offset === VIRAMA) {
+      pendingVowel = false;
+    } else if (offset === NUKTA) {
+      continue;
+    } else if (MODIFIERS[offset] !== undefined) {
+      settle(false);
+      output += MODIFIERS[offset];
+    } else if (VOWELS[offset] !== undefined) {
+      settle(false);
+      output += VOWELS[offset];
+    } else if (offset >= DIGITS_START && offset < DIGITS_START + 10) {
+      settle(true);
+      output += String(offset - DIGITS_START);
+    } else if (DANDAS.includes(offset)) {
+      settle(true);
+      output += '.';
+    } else {
+      settle(false);
+    }
+  }
+  settle(true);
+
+  return output;
+}
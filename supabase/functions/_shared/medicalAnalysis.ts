@@ -0,0 +1,256 @@
+/**
+ * Medical analysis schema
+ * The one definition of what extraction returns, shared by the extract-medical
+ * Edge Function (Deno) and the app (src/services/llm/types.ts). Keep this file
+ * free of imports so both runtimes can load it.
+ *
+ * Bump MEDICAL_ANALYSIS_SCHEMA_VERSION when a field changes meaning or is
+ * removed; parseMedicalAnalysis keeps reading older shapes.
+ *   v1 - unversioned; snake_case duplicates (medications_prescribed, allergies, ...)
+ *   v2 - single camelCase shape; medication timing and composition, allergies
+ */
+
+export const MEDICAL_ANALYSIS_SCHEMA_VERSION = 2;
+
+export interface AnalysisMedication {
+  name: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  /** When to take it relative to food or sleep ("after meal", "at bedtime") */
+  timing: string;
+  /** Salts the brand contains ("Paracetamol 650mg") */
+  composition: string[];
+}
+
+/** A medicine the patient already takes, as reported in the consultation */
+export interface CurrentMedication {
+  name: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+}
+
+export interface VitalSigns {
+  bloodPressure?: string;
+  temperature?: string;
+  heartRate?: string;
+  respiratoryRate?: string;
+}
+
+export interface MedicalAnalysis {
+  schemaVersion: number;
+  chiefComplaint: string;
+  symptoms: string[];
+  durationOfSymptoms: string;
+  medicalHistory: string;
+  pastMedicalHistory: string[];
+  medicationHistory: CurrentMedication[];
+  allergies: string[];
+  diagnosis: string;
+  medications: AnalysisMedication[];
+  /** Instructions and lifestyle advice for the patient */
+  instructions: string[];
+  investigationsSuggested: string[];
+  followUp: string;
+  /** Examination done and the doctor's findings */
+  physicalExamination: string[];
+  vitalSigns: VitalSigns;
+}
+
+export interface MedicalAnalysisParseResult {
+  analysis: MedicalAnalysis;
+  /** Fields that had the wrong type and were coerced or dropped */
+  issues: string[];
+}
+
+const VITAL_SIGN_KEYS: Array<keyof VitalSigns> = ['bloodPressure', 'temperature', 'heartRate', 'respiratoryRate'];
+
+export function emptyMedicalAnalysis(): MedicalAnalysis {
+  return {
+    schemaVersion: MEDICAL_ANALYSIS_SCHEMA_VERSION,
+    chiefComplaint: '',
+    symptoms: [],
+    durationOfSymptoms: '',
+    medicalHistory: '',
+    pastMedicalHistory: [],
+    medicationHistory: [],
+    allergies: [],
+    diagnosis: '',
+    medications: [],
+    instructions: [],
+    investigationsSuggested: [],
+    followUp: '',
+    physicalExamination: [],
+    vitalSigns: {},
+  };
+}
+
+// =========================================
+// RUNTIME VALIDATION
+// Model output is untrusted: every field is checked and coerced to its type
+// =========================================
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown, field: string, issues: string[]): string {
+  if (value == null) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    issues.push(`${field}: expected a string, got a list`);
+    return value.map((v) => readString(v, field, issues)).filter(Boolean).join(', ');
+  }
+  issues.push(`${field}: expected a string`);
+  return '';
+}
+
+function readStringList(value: unknown, field: string, issues: string[]): string[] {
+  if (value == null) return [];
+  if (typeof value === 'string') {
+    return value.split(/,|\n/).map((v) => v.trim()).filter(Boolean);
+  }
+  if (!Array.isArray(value)) {
+    issues.push(`${field}: expected a list`);
+    return [];
+  }
+  return value.map((v) => readString(v, field, issues)).filter(Boolean);
+}
+
+/** Case-insensitive union, keeping the first spelling */
+function mergeLists(...lists: string[][]): string[] {
+  const seen = new Set<string>();
+  return lists.flat().filter((item) => {
+    const key = item.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function readMedication(value: unknown, field: string, issues: string[]): AnalysisMedication | null {
+  if (typeof value === 'string') value = { name: value };
+  if (!isObject(value)) {
+    issues.push(`${field}: expected a medication object`);
+    return null;
+  }
+  const name = readString(value.name, `${field}.name`, issues);
+  if (!name) {
+    issues.push(`${field}: medication without a name dropped`);
+    return null;
+  }
+  return {
+    name,
+    dosage: readString(value.dosage, `${field}.dosage`, issues),
+    frequency: readString(value.frequency, `${field}.frequency`, issues),
+    duration: readString(value.duration, `${field}.duration`, issues),
+    timing: readString(value.timing, `${field}.timing`, issues),
+    composition: typeof value.composition === 'string'
+      ? value.composition.split(/\+|,/).map((c: string) => c.trim()).filter(Boolean)
+      : readStringList(value.composition, `${field}.composition`, issues),
+  };
+}
+
+function readMedications(value: unknown, field: string, issues: string[]): AnalysisMedication[] {
+  if (value == null) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${field}: expected a list`);
+    return [];
+  }
+  return value
+    .map((item, i) => readMedication(item, `${field}[${i}]`, issues))
+    .filter((m): m is AnalysisMedication => m !== null);
+}
+
+function readVitalSigns(value: unknown, issues: string[]): VitalSigns {
+  if (value == null) return {};
+  if (!isObject(value)) {
+    issues.push('vitalSigns: expected an object');
+    return {};
+  }
+  const vitals: VitalSigns = {};
+  for (const key of VITAL_SIGN_KEYS) {
+    const reading = readString(value[key], `vitalSigns.${key}`, issues);
+    // Models write "not mentioned" instead of leaving a vital out
+    if (reading && !/^(null|n\/?a|none|not mentioned|if mentioned)$/i.test(reading)) vitals[key] = reading;
+  }
+  return vitals;
+}
+
+/**
+ * Validate an analysis from a model, the Edge Function or storage
+ * Accepts every schema version; the result is always the current one.
+ * Throws if the input is not an analysis object at all.
+ */
+export function parseMedicalAnalysis(raw: unknown): MedicalAnalysisParseResult {
+  if (!isObject(raw)) {
+    throw new Error('Medical analysis must be a JSON object');
+  }
+  const issues: string[] = [];
+  const version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  if (version > MEDICAL_ANALYSIS_SCHEMA_VERSION) {
+    issues.push(`schemaVersion ${version} is newer than ${MEDICAL_ANALYSIS_SCHEMA_VERSION}; unknown fields ignored`);
+  }
+
+  // v1 answers carry the same facts under snake_case names as well
+  const medications = readMedications(raw.medications, 'medications', issues);
+  const chiefComplaint = readString(raw.chiefComplaint, 'chiefComplaint', issues);
+
+  return {
+    analysis: {
+      schemaVersion: MEDICAL_ANALYSIS_SCHEMA_VERSION,
+      chiefComplaint: chiefComplaint || readStringList(raw.chief_complaints, 'chief_complaints', issues).join(', '),
+      symptoms: readStringList(raw.symptoms, 'symptoms', issues),
+      durationOfSymptoms: readString(raw.durationOfSymptoms ?? raw.duration_of_symptoms, 'durationOfSymptoms', issues),
+      medicalHistory: readString(raw.medicalHistory, 'medicalHistory', issues),
+      pastMedicalHistory: readStringList(raw.pastMedicalHistory ?? raw.past_medical_history, 'pastMedicalHistory', issues),
+      medicationHistory: readMedications(raw.medicationHistory ?? raw.medication_history, 'medicationHistory', issues)
+        .map(({ name, dosage, frequency, duration }) => ({ name, dosage, frequency, duration })),
+      allergies: readStringList(raw.allergies, 'allergies', issues),
+      diagnosis: readString(raw.diagnosis, 'diagnosis', issues),
+      medications: medications.length > 0
+        ? medications
+        : readMedications(raw.medications_prescribed, 'medications_prescribed', issues),
+      instructions: mergeLists(
+        readStringList(raw.instructions, 'instructions', issues),
+        readStringList(raw.advice, 'advice', issues)
+      ),
+      investigationsSuggested: readStringList(raw.investigationsSuggested, 'investigationsSuggested', issues),
+      followUp: readString(raw.followUp, 'followUp', issues) ||
+        readString(raw.follow_up_instructions, 'follow_up_instructions', issues),
+      physicalExamination: mergeLists(
+        readStringList(raw.physicalExamination, 'physicalExamination', issues),
+        readStringList(raw.clinicalFindings ?? raw.clinical_findings, 'clinicalFindings', issues)
+      ),
+      vitalSigns: readVitalSigns(raw.vitalSigns, issues),
+    },
+    issues,
+  };
+}
+
+// =========================================
+// FIELD DELTAS
+// Incremental extraction returns only the fields that changed
+// =========================================
+
+export type MedicalAnalysisDelta = Partial<Omit<MedicalAnalysis, 'schemaVersion'>>;
+
+/**
+ * Fields of next that differ from previous, whole-field (a changed list is sent in full)
+ */
+export function diffMedicalAnalysis(previous: MedicalAnalysis, next: MedicalAnalysis): MedicalAnalysisDelta {
+  const delta: Record<string, unknown> = {};
+  for (const key of Object.keys(next) as Array<keyof MedicalAnalysis>) {
+    if (key === 'schemaVersion') continue;
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      delta[key] = next[key];
+    }
+  }
+  return delta as MedicalAnalysisDelta;
+}
+
+export function applyMedicalAnalysisDelta(base: MedicalAnalysis, delta: MedicalAnalysisDelta): MedicalAnalysis {
+  return { ...base, ...delta, schemaVersion: MEDICAL_ANALYSIS_SCHEMA_VERSION };
+}
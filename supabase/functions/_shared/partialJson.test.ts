@@ -0,0 +1,68 @@
+/**
+ * Fields streamed from a partial model answer are only ever complete values
+ * Runs with `deno test` or, from src/backend, `npm test`.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { completedFields } from "./partialJson.ts";
+
+const answer = {
+  chiefComplaint: "Fever for 3 days, worse at night",
+  medications: [
+    { name: "Dolo 650", dosage: "650 mg", frequency: "thrice daily" },
+    { name: "Cetirizine", dosage: "10 mg", frequency: "at night" },
+  ],
+  vitals: { temperature: "101 F", pulse: "96" },
+  followUp: "3 days",
+};
+
+/** Every prefix of text, with the fields completed at that point */
+function prefixes(text: string, wrapper?: string) {
+  return Array.from({ length: text.length + 1 }, (_, end) => ({
+    prefix: text.slice(0, end),
+    fields: completedFields(text.slice(0, end), wrapper),
+  }));
+}
+
+for (const [name, text] of [
+  ["compact", JSON.stringify(answer)],
+  ["indented", JSON.stringify(answer, null, 2)],
+]) {
+  test(`never returns a field the model is still writing (${name})`, () => {
+    for (const { prefix, fields } of prefixes(text)) {
+      for (const [key, value] of Object.entries(fields)) {
+        assert.deepEqual(value, answer[key as keyof typeof answer], `${key} after ${JSON.stringify(prefix)}`);
+      }
+    }
+    assert.deepEqual(completedFields(text), answer);
+  });
+
+  test(`returns each field once the comma after it is written (${name})`, () => {
+    const keys = Object.keys(answer);
+    keys.slice(1).forEach((next, i) => {
+      // A cut at a top-level comma means the field before it is complete
+      const atComma = text.slice(0, text.lastIndexOf(",", text.indexOf(`"${next}"`)) + 1);
+      assert.deepEqual(Object.keys(completedFields(atComma)), keys.slice(0, i + 1));
+    });
+
+    // A cut at a comma inside the medications list means it is not
+    const betweenMedications = text.slice(0, text.indexOf("}", text.indexOf("Dolo 650")) + 2);
+    assert.ok(betweenMedications.endsWith("},"));
+    assert.deepEqual(Object.keys(completedFields(betweenMedications)), keys.slice(0, 1));
+  });
+}
+
+test("reads the analysis inside an incremental answer", () => {
+  const text = JSON.stringify({ analysis: answer, summary: "Fever, started on Dolo 650" });
+
+  for (const { prefix, fields } of prefixes(text, "analysis")) {
+    for (const [key, value] of Object.entries(fields)) {
+      assert.deepEqual(value, answer[key as keyof typeof answer], `${key} after ${JSON.stringify(prefix)}`);
+    }
+  }
+  const analysisClosed = text.slice(0, text.indexOf(',"summary"') + 1);
+  assert.deepEqual(completedFields(analysisClosed, "analysis"), answer);
+  const inFollowUp = text.slice(0, text.indexOf('"3 days"') + 3);
+  assert.deepEqual(Object.keys(completedFields(inFollowUp, "analysis")), ["chiefComplaint", "medications", "vitals"]);
+});
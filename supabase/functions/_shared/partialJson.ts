@@ -0,0 +1,91 @@
+/**
+ * Reading a JSON answer while the model is still writing it
+ * Used by the extract-medical Edge Function to stream fields as they finish.
+ * Free of imports like medicalAnalysis.ts, so the tests can run it under Node.
+ */
+
+export interface PartialJson {
+  value: any;
+  /** The top-level object has closed */
+  complete: boolean;
+  /** Brackets open where the text was cut (1 = directly inside the top-level object) */
+  openDepth: number;
+}
+
+/**
+ * Parse the start of a JSON object that is still being written
+ * Cuts back to the last complete value and closes the open brackets.
+ */
+export function parsePartialJson(text: string): PartialJson | null {
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Where the text can be cut and closed, with the brackets open at that point
+  let cut = start;
+  let cutStack: string[] = [];
+
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') {
+      inString = true;
+    } else if (c === '{' || c === '[') {
+      stack.push(c === '{' ? '}' : ']');
+      cut = i + 1;
+      cutStack = [...stack];
+    } else if (c === '}' || c === ']') {
+      stack.pop();
+      if (stack.length === 0) {
+        try {
+          return { value: JSON.parse(text.slice(start, i + 1)), complete: true, openDepth: 0 };
+        } catch {
+          return null;
+        }
+      }
+      cut = i + 1;
+      cutStack = [...stack];
+    } else if (c === ',') {
+      cut = i;
+      cutStack = [...stack];
+    }
+  }
+
+  try {
+    return {
+      value: JSON.parse(text.slice(start, cut) + [...cutStack].reverse().join('')),
+      complete: false,
+      openDepth: cutStack.length,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The fields of a partial object that are fully written
+ * A field is left out while the cut falls inside its value. With `wrapper`,
+ * the fields are those of the object under that key when there is one
+ * ({"analysis": {...}, "summary": ...}).
+ */
+export function completedFields(text: string, wrapper?: string): Record<string, any> {
+  const partial = parsePartialJson(text);
+  if (!partial || typeof partial.value !== 'object' || partial.value === null || Array.isArray(partial.value)) return {};
+
+  const inner = wrapper ? partial.value[wrapper] : undefined;
+  const nested = typeof inner === 'object' && inner !== null && !Array.isArray(inner);
+  const raw = nested ? inner : partial.value;
+  // More brackets open than the object's own: the cut is inside its last field
+  const closed = partial.complete || partial.openDepth <= (nested ? 2 : 1);
+
+  const keys = Object.keys(raw);
+  if (!closed) keys.pop();
+  return Object.fromEntries(keys.map((key) => [key, raw[key]]));
+}
@@ -0,0 +1,134 @@
+/**
+ * A live consultation belongs to the doctor who started it: another doctor can
+ * neither continue it, nor read or overwrite its transcript by conversationId
+ * Runs from src/backend with `npm test`; the Deno runtime and the function's
+ * remote imports are replaced by the stand-ins below.
+ */
+
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import Module from "module";
+
+const CONVERSATION_ID = "consultation-1";
+const TRANSCRIPT = "Doctor: Take Dolo 650 twice a day\nPatient: For how long?";
+
+// Session tokens of two doctors
+const SESSIONS: Record<string, string> = { "token-a": "doctor-a", "token-b": "doctor-b" };
+
+// medical_conversations, and every write the function makes to it
+const rows = new Map<string, any>();
+const writes: any[] = [];
+
+function conversationRow() {
+  return {
+    id: CONVERSATION_ID,
+    user_id: "doctor-a",
+    transcript: TRANSCRIPT,
+    analysis: JSON.stringify({ medications: [{ name: "Dolo 650" }] }),
+    summary: "Fever, Dolo 650 prescribed",
+    revision: 1,
+  };
+}
+
+// Just the parts of supabase-js the function uses
+const supabase = {
+  auth: {
+    getUser: async (token: string) =>
+      SESSIONS[token] ? { data: { user: { id: SESSIONS[token] } }, error: null } : { data: null, error: { message: "Invalid token" } },
+  },
+  from: (_table: string) => ({
+    select: (_columns: string) => ({
+      eq: (_column: string, id: string) => {
+        const result = async () => ({ data: rows.get(id) || null, error: null });
+        return { single: result, maybeSingle: result };
+      },
+    }),
+    upsert: async (row: any) => {
+      writes.push(row);
+      rows.set(row.id, { ...rows.get(row.id), ...row });
+      return { error: null };
+    },
+    update: (row: any) => ({
+      eq: async (_column: string, id: string) => {
+        writes.push({ id, ...row });
+        rows.set(id, { ...rows.get(id), ...row });
+        return { error: null };
+      },
+    }),
+  }),
+};
+
+let handler: (req: Request) => Promise<Response>;
+
+const REMOTE_IMPORTS: Record<string, unknown> = {
+  "https://deno.land/std@0.168.0/http/server.ts": {
+    serve: (serveHandler: typeof handler) => {
+      handler = serveHandler;
+    },
+  },
+  "https://cdn.jsdelivr.net/npm/@supabase/supabase-js/+esm": { createClient: () => supabase },
+};
+
+async function post(body: object, token?: string): Promise<{ status: number; text: string }> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const response = await handler(
+    new Request("http://localhost/functions/v1/extract-medical", { method: "POST", headers, body: JSON.stringify(body) })
+  );
+  return { status: response.status, text: await response.text() };
+}
+
+before(async () => {
+  const env: Record<string, string> = { SUPABASE_URL: "http://localhost", SUPABASE_SERVICE_ROLE_KEY: "service-role" };
+  (globalThis as any).Deno = { env: { get: (name: string) => env[name] } };
+
+  const moduleLoader = Module as any;
+  const load = moduleLoader._load;
+  moduleLoader._load = function (request: string, ...rest: unknown[]) {
+    return request in REMOTE_IMPORTS ? REMOTE_IMPORTS[request] : load.call(this, request, ...rest);
+  };
+  await import("./index.ts");
+  moduleLoader._load = load;
+});
+
+test("another doctor cannot continue the conversation", async () => {
+  rows.set(CONVERSATION_ID, conversationRow());
+  writes.length = 0;
+
+  const anonymous = await post({ task: "analyze_increment", conversationId: CONVERSATION_ID, fromLine: 0, lines: ["x"] });
+  assert.equal(anonymous.status, 401);
+
+  const { status, text } = await post(
+    { task: "analyze_increment", conversationId: CONVERSATION_ID, fromLine: 0, lines: ["Patient: Start over"] },
+    "token-b"
+  );
+  assert.equal(status, 403);
+  assert.ok(!text.includes("Dolo"));
+  assert.deepEqual(writes, []);
+  assert.deepEqual(rows.get(CONVERSATION_ID), conversationRow());
+});
+
+test("another doctor cannot read or overwrite the transcript by conversationId", async () => {
+  rows.set(CONVERSATION_ID, conversationRow());
+  writes.length = 0;
+
+  // Overwrite, append to or finalize (and so delete) the stored transcript
+  for (const body of [
+    { conversationId: CONVERSATION_ID, chunk: "Patient: overwritten" },
+    { conversationId: CONVERSATION_ID, chunk: "Patient: appended", append: true },
+    { conversationId: CONVERSATION_ID, finalize: true },
+  ]) {
+    for (const token of [undefined, "token-b"]) {
+      const { status } = await post(body, token);
+      assert.equal(status, 410);
+    }
+  }
+
+  // A full analysis only reads the transcript it is sent
+  const { status, text } = await post({ conversationId: CONVERSATION_ID }, "token-b");
+  assert.equal(status, 400);
+  assert.ok(!text.includes("Dolo"));
+
+  assert.deepEqual(writes, []);
+  assert.deepEqual(rows.get(CONVERSATION_ID), conversationRow());
+});
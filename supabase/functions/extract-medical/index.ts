@@ -3,6 +3,14 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // Supabase client for optional persistence (server-side)
 // @ts-ignore: remote CDN import may not resolve in local TS server but is valid in Deno runtime
 import { createClient } from "https://cdn.jsdelivr.net/npm/@supabase/supabase-js/+esm";
+import {
+  diffMedicalAnalysis,
+  emptyMedicalAnalysis,
+  parseMedicalAnalysis,
+  type AnalysisMedication,
+  type MedicalAnalysis,
+} from "../_shared/medicalAnalysis.ts";
+import { completedFields } from "../_shared/partialJson.ts";
 
 // Provide a lightweight declaration for the Deno runtime for TypeScript checks
 declare const Deno: any;
@@ -12,57 +20,14 @@ interface MedicalAnalysisRequest {
   model?: string;
   provider?: string;
   promptOverride?: string;
+  // Consultation language chosen in the app (e.g. 'hinglish', 'tamil')
+  language?: string;
 }
 
-interface MedicalAnalysis {
-  chiefComplaint: string;
-  symptoms: string[];
-  chief_complaints?: string[] | null;
-  duration_of_symptoms?: string | null;
-  past_medical_history?: string[] | null;
-  medication_history?: Array<{ name: string; dosage?: string | null; frequency?: string | null; duration?: string | null }> | null;
-  allergies?: string[] | null;
-  clinical_findings?: string[] | null;
-  medicalHistory: string;
-  diagnosis: string;
-  medications: Array<{
-    name: string;
-    dosage: string;
-    frequency: string;
-    duration: string;
-    timing?: string | null;
-    composition?: string[] | null;
-  }>;
-  medications_prescribed?: Array<{
-    name: string;
-    dosage: string | null;
-    frequency: string | null;
-    duration: string | null;
-    timing: string | null;
-    composition: string[] | null;
-  }> | null;
-  instructions: string[];
-  advice?: string[] | null;
-  investigationsSuggested: string[];
-  followUp: string;
-  follow_up_instructions?: string | null;
-  physicalExamination: string[];
-  vitalSigns?: {
-    bloodPressure?: string;
-    temperature?: string;
-    heartRate?: string;
-    respiratoryRate?: string;
-  };
-}
-
-type LLMProvider = 'openai';
-
-// Ephemeral in-memory store for streaming/patching of transcripts.
-// Note: This does not persist between cold starts or multiple function instances.
-// For reliable persistence use a database (Supabase) or external store.
-const conversationStore = new Map<string, string>();
+type LLMProvider = 'openai' | 'claude' | 'gemini';
 
-// Optional Supabase persistence (requires a table `medical_conversations` in your DB)
+// Optional Supabase persistence of live consultations (requires a table
+// `medical_conversations` in your DB)
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 let supabaseClient: any = null;
@@ -93,15 +58,14 @@ IMPORTANT: Return ONLY valid JSON with no markdown and no extra text.
 
 Return this exact JSON structure:
 {
+  "schemaVersion": 2,
   "chiefComplaint": "Main reason for visit or null",
   "symptoms": ["symptom1", "symptom2"],
-  "chief_complaints": ["complaint 1", "complaint 2"],
-  "duration_of_symptoms": "duration string or null",
-  "past_medical_history": ["history item"] or null,
-  "medication_history": [{"name":"...","dosage":"...","frequency":"...","duration":"..."}] or null,
-  "allergies": ["allergy"] or null,
-  "clinical_findings": ["doctor observation"] or null,
+  "durationOfSymptoms": "duration string or null",
   "medicalHistory": "Any past medical conditions mentioned",
+  "pastMedicalHistory": ["history item"],
+  "medicationHistory": [{"name":"...","dosage":"...","frequency":"...","duration":"..."}],
+  "allergies": ["allergy"],
   "diagnosis": "Doctor's diagnosis or assessment",
   "medications": [
     {
@@ -113,22 +77,10 @@ Return this exact JSON structure:
       "composition": ["salt/composition if known"]
     }
   ],
-  "medications_prescribed": [
-    {
-      "name": "Medicine name",
-      "dosage": "with units or null",
-      "frequency": "frequency or null",
-      "duration": "duration or null",
-      "timing": "before meal|after meal|with food|at bedtime|null",
-      "composition": ["salt/composition if known"] or null
-    }
-  ],
-  "instructions": ["Special instruction 1", "Special instruction 2"],
-  "advice": ["hydration/rest/diet/lifestyle advice"] or null,
+  "instructions": ["Special instructions and hydration/rest/diet/lifestyle advice"],
   "investigationsSuggested": ["Test/Investigation 1"],
-  "followUp": "When to come back",
-  "follow_up_instructions": "Timeline and follow-up instructions or null",
-  "physicalExamination": ["Examination done"],
+  "followUp": "When to come back, with the timeline",
+  "physicalExamination": ["Examination done and the doctor's findings"],
   "vitalSigns": {
     "bloodPressure": "if mentioned",
     "temperature": "if mentioned",
@@ -139,16 +91,87 @@ Return this exact JSON structure:
 
 Rules:
 1. Extract only what is stated or strongly implied by clinical context.
-2. If missing, return null (not guessed values).
+2. If missing, return null or an empty list (not guessed values).
 3. Extract only real medicines prescribed by doctor.
 4. Do not include conversational words/fillers.
 5. Dosage must include units; parse frequency/duration if implied.
 6. Do not split one medicine into multiple entries.
 7. Include lifestyle advice and follow-up timeline when present.
-8. Keep both legacy fields and new fields populated consistently.
+8. medicationHistory is what the patient already takes; medications is what the doctor prescribes now.
+9. Lines may start with the speaker ("Doctor:", "Patient:"). Take diagnosis and prescribed medicines from the Doctor's turns; symptoms and history usually come from the Patient.
 
 Conversation transcript:`;
 
+// How the app's consultation languages are described to the model
+const LANGUAGE_DESCRIPTIONS: Record<string, string> = {
+  hinglish: 'Hinglish - Hindi and English mixed within sentences, in Devanagari and/or romanized',
+  hindi: 'Hindi',
+  english: 'English (Indian)',
+  marathi: 'Marathi',
+  tamil: 'Tamil',
+  bengali: 'Bengali',
+  telugu: 'Telugu',
+};
+
+/**
+ * Tell the model which language the transcript is in, and that the extraction
+ * itself is always written in English
+ */
+function languageContext(language?: string): string {
+  const description = language ? LANGUAGE_DESCRIPTIONS[language] : undefined;
+  if (!description) return '';
+  return `Consultation language: ${description}.
+Write every extracted field in English, translating what was said. Keep medicine brand names as spoken (in Latin script).
+
+`;
+}
+
+// The app converts transcript segments a few at a time; anything bigger is not
+// a transcript
+const MAX_CONVERT_LINES = 20;
+const MAX_CONVERT_CHARS = 4000;
+
+const SCRIPT_TARGETS: Record<string, string> = {
+  native: 'the native script of the language (e.g. Devanagari for Hindi), keeping English words and medicine names in Latin script',
+  roman: 'romanized form, in the informal spelling Indians type (e.g. "mujhe bukhar hai")',
+  english: 'English, translating the meaning',
+};
+
+/**
+ * Convert transcript lines to the output script the doctor chose
+ * Returns the input unchanged if no provider can convert them.
+ */
+async function convertScript(texts: string[], language: string | undefined, target: string, provider: LLMProvider, model?: string): Promise<string[]> {
+  const instruction = SCRIPT_TARGETS[target];
+  if (!instruction || texts.length === 0) return texts;
+
+  const description = (language && LANGUAGE_DESCRIPTIONS[language]) || 'an Indian language';
+  try {
+    const { result } = await completeWithFallback(
+      provider,
+      model,
+      {
+        system: `You convert lines of a doctor-patient conversation in ${description} to ${instruction}. ` +
+          'Do not add, drop or explain anything. Return ONLY a JSON array of strings, one per input line, in order.',
+        user: JSON.stringify(texts),
+        temperature: 0,
+        maxTokens: 2000,
+      },
+      (content) => {
+        const converted = parseModelJson(content);
+        if (!Array.isArray(converted) || converted.length !== texts.length) {
+          throw new Error('Unexpected response shape');
+        }
+        return converted;
+      }
+    );
+    return result.map((text: any, i: number) => (typeof text === 'string' && text.trim() ? text : texts[i]));
+  } catch (err) {
+    console.error('[convertScript] Conversion failed, keeping original text:', err instanceof Error ? err.message : err);
+    return texts;
+  }
+}
+
 function resolveMedicalPrompt(promptOverride?: string): string {
   const envPrompt = Deno.env.get("MEDICAL_ANALYSIS_SYSTEM_PROMPT");
   if (promptOverride && promptOverride.trim().length > 0) return promptOverride;
@@ -156,37 +179,18 @@ function resolveMedicalPrompt(promptOverride?: string): string {
   return DEFAULT_MEDICAL_ANALYSIS_PROMPT;
 }
 
-function ensureStringArray(value: any): string[] {
-  if (Array.isArray(value)) {
-    return value.map((v) => String(v ?? '').trim()).filter(Boolean);
-  }
-  if (typeof value === 'string') {
-    return value
-      .split(/,|\n/)
-      .map((v) => v.trim())
-      .filter(Boolean);
-  }
-  return [];
-}
-
-function sanitizeMedicationEntries(input: any): Array<{ name: string; dosage: string; frequency: string; duration: string; timing?: string | null; composition?: string[] | null }> {
-  const source = Array.isArray(input) ? input : [];
+/**
+ * Drop entries that are not real prescriptions: conversational words the model
+ * mistook for medicines, or names with no dosage, frequency or duration
+ */
+function sanitizeMedicationEntries(medications: AnalysisMedication[]): AnalysisMedication[] {
   const stopWords = new Set([
     'i', 'you', 'we', 'he', 'she', 'it', 'they', 'my', 'your', 'patient', 'doctor', 'medicine',
     'take', 'takes', 'taking', 'had', 'have', 'has', 'feeling', 'pain', 'fever', 'cough', 'cold',
     'yes', 'no', 'okay', 'ok', 'hmm', 'hmmm', 'hmm.', 'thank', 'thanks', 'hello', 'hi'
   ]);
 
-  const cleaned = source
-    .map((m: any) => {
-      const name = String(m?.name ?? '').trim();
-      const dosage = String(m?.dosage ?? '').trim();
-      const frequency = String(m?.frequency ?? '').trim();
-      const duration = String(m?.duration ?? '').trim();
-      const timing = m?.timing == null ? null : String(m.timing);
-      const composition = Array.isArray(m?.composition) ? m.composition.map((c: any) => String(c).trim()).filter(Boolean) : null;
-      return { name, dosage, frequency, duration, timing, composition };
-    })
+  const cleaned = medications
     .filter((m) => m.name.length >= 3)
     .filter((m) => !stopWords.has(m.name.toLowerCase()))
     .filter((m) => /^[a-zA-Z0-9+\-\s()./]+$/.test(m.name))
@@ -198,7 +202,7 @@ function sanitizeMedicationEntries(input: any): Array<{ name: string; dosage: st
       return hasDosageUnit || hasFrequency || hasDuration;
     });
 
-  const unique = new Map<string, { name: string; dosage: string; frequency: string; duration: string; timing?: string | null; composition?: string[] | null }>();
+  const unique = new Map<string, AnalysisMedication>();
   for (const med of cleaned) {
     const key = med.name.toLowerCase();
     if (!unique.has(key)) unique.set(key, med);
@@ -206,158 +210,704 @@ function sanitizeMedicationEntries(input: any): Array<{ name: string; dosage: st
   return Array.from(unique.values());
 }
 
+/**
+ * Validate a model answer against the shared schema; throws if it is not an analysis
+ */
 function sanitizeMedicalAnalysis(raw: any): MedicalAnalysis {
-  const medicationsFromPrimary = sanitizeMedicationEntries(raw?.medications);
-  const medicationsFromSecondary = sanitizeMedicationEntries(raw?.medications_prescribed);
-  const medications = medicationsFromPrimary.length > 0 ? medicationsFromPrimary : medicationsFromSecondary;
-
-  return {
-    chiefComplaint: String(raw?.chiefComplaint ?? ''),
-    symptoms: ensureStringArray(raw?.symptoms),
-    chief_complaints: ensureStringArray(raw?.chief_complaints),
-    duration_of_symptoms: raw?.duration_of_symptoms ?? null,
-    past_medical_history: ensureStringArray(raw?.past_medical_history),
-    medication_history: Array.isArray(raw?.medication_history) ? raw.medication_history : null,
-    allergies: ensureStringArray(raw?.allergies),
-    clinical_findings: ensureStringArray(raw?.clinical_findings),
-    medicalHistory: String(raw?.medicalHistory ?? ''),
-    diagnosis: String(raw?.diagnosis ?? ''),
-    medications,
-    medications_prescribed: medications.map((m) => ({
-      name: m.name,
-      dosage: m.dosage || null,
-      frequency: m.frequency || null,
-      duration: m.duration || null,
-      timing: m.timing ?? null,
-      composition: m.composition ?? null,
-    })),
-    instructions: ensureStringArray(raw?.instructions),
-    advice: ensureStringArray(raw?.advice),
-    investigationsSuggested: ensureStringArray(raw?.investigationsSuggested),
-    followUp: String(raw?.followUp ?? ''),
-    follow_up_instructions: raw?.follow_up_instructions ?? null,
-    physicalExamination: ensureStringArray(raw?.physicalExamination),
-    vitalSigns: raw?.vitalSigns && typeof raw.vitalSigns === 'object' ? raw.vitalSigns : {},
-  } as MedicalAnalysis;
-}
-
-async function callOpenAI(model: string, transcript: string, promptOverride?: string): Promise<MedicalAnalysis> {
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-  const systemPrompt = resolveMedicalPrompt(promptOverride);
-
-  // Server-side lightweight fallback extractor if no API key or calls fail
-  function localFallbackAnalyzeServer(text: string): MedicalAnalysis {
-    const complainMatch = text.match(/(fever|cough|pain|headache|stomach|vomit|diarrhoea|cold|sore throat)/i);
-    const chiefComplaint = complainMatch ? complainMatch[0] : '';
-    return {
-      chiefComplaint,
-      symptoms: [],
-      medicalHistory: '',
-      diagnosis: '',
-      medications: [],
-      instructions: [],
-      investigationsSuggested: [],
-      followUp: '',
-      physicalExamination: [],
-      vitalSigns: {},
-    } as MedicalAnalysis;
+  const { analysis, issues } = parseMedicalAnalysis(raw);
+  if (issues.length > 0) {
+    console.warn('[extract-medical] Analysis schema issues:', issues);
   }
+  return { ...analysis, medications: sanitizeMedicationEntries(analysis.medications) };
+}
+
+// =========================================
+// LLM PROVIDERS
+// Each provider's API key is a function secret: OPENAI_API_KEY,
+// ANTHROPIC_API_KEY, GEMINI_API_KEY. The requested provider is tried first,
+// then the others in LLM_FALLBACK_ORDER (comma-separated provider ids).
+// =========================================
+
+const PROVIDER_API_KEYS: Record<LLMProvider, string> = {
+  openai: 'OPENAI_API_KEY',
+  claude: 'ANTHROPIC_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+};
+
+const DEFAULT_MODELS: Record<LLMProvider, string> = {
+  openai: 'gpt-4o-mini',
+  claude: 'claude-sonnet-4-5',
+  gemini: 'gemini-2.5-flash',
+};
+
+const DEFAULT_FALLBACK_ORDER: LLMProvider[] = ['openai', 'claude', 'gemini'];
+
+// Attempts per provider before falling back to the next one
+const MAX_ATTEMPTS = 3;
+const ANTHROPIC_VERSION = '2023-06-01';
 
-  if (!apiKey) {
-    console.warn('[callOpenAI] OPENAI_API_KEY not configured — using server-side fallback analyzer');
-    return localFallbackAnalyzeServer(transcript);
+interface CompletionRequest {
+  system: string;
+  user: string;
+  temperature: number;
+  maxTokens: number;
+  /** Stream the answer; called with the text so far as it arrives */
+  onPartial?: (content: string) => void;
+}
+
+/**
+ * Provider call failure; rate limits, server errors and network failures are
+ * retried, anything else (bad key, unknown model) moves on to the next provider
+ */
+class ProviderError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.retryable = retryable;
   }
+}
 
-  console.log(`[callOpenAI] Calling OpenAI with model: ${model}`);
+function isProvider(value: any): value is LLMProvider {
+  return value === 'openai' || value === 'claude' || value === 'gemini';
+}
 
-  // retry/backoff helper
-  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-  const maxAttempts = 3;
-  let lastError: any = null;
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            {
-              role: "system",
-              content: systemPrompt,
-            },
-            {
-              role: "user",
-              content: transcript,
-            },
-          ],
-          temperature: 0.3,
-          max_tokens: 2000,
-        }),
-      });
+/**
+ * Provider a model id belongs to, for requests that name only a model
+ */
+function providerForModel(model?: string): LLMProvider | null {
+  if (!model) return null;
+  if (model.startsWith('claude-')) return 'claude';
+  if (model.startsWith('gemini-')) return 'gemini';
+  if (/^(gpt-|o\d)/.test(model)) return 'openai';
+  return null;
+}
 
-      if (!response.ok) {
-        let errorText = await response.text();
-        let errorData: any = null;
-        try { errorData = JSON.parse(errorText); } catch (_e) { errorData = errorText; }
-        console.error(`[callOpenAI] OpenAI API error (attempt ${attempt}):`, errorData);
-        lastError = new Error(`OpenAI API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`);
-        // If not last attempt, wait and retry
-        if (attempt < maxAttempts) await sleep(200 * attempt);
-        continue;
-      }
+function apiKeyFor(provider: LLMProvider): string | undefined {
+  return Deno.env.get(PROVIDER_API_KEYS[provider]) || undefined;
+}
+
+function fallbackOrder(): LLMProvider[] {
+  const configured = (Deno.env.get('LLM_FALLBACK_ORDER') || '')
+    .split(',')
+    .map((id: string) => id.trim())
+    .filter(isProvider);
+  return configured.length > 0 ? configured : DEFAULT_FALLBACK_ORDER;
+}
+
+/**
+ * The requested provider, then the fallback order - only providers with a key
+ */
+function providerChain(requested: LLMProvider): LLMProvider[] {
+  return [requested, ...fallbackOrder().filter((p) => p !== requested)].filter((p) => !!apiKeyFor(p));
+}
+
+/**
+ * The requested model applies to the requested provider only; fallbacks use their default
+ */
+function modelFor(provider: LLMProvider, requested: LLMProvider, model?: string): string {
+  if (provider === requested && model && providerForModel(model) === provider) return model;
+  return DEFAULT_MODELS[provider];
+}
+
+function parseModelJson(content: string): any {
+  return JSON.parse(content.replace(/```json\n?|\n?```/g, "").trim());
+}
+
+async function providerError(provider: LLMProvider, response: Response): Promise<ProviderError> {
+  const errorText = await response.text();
+  const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+  return new ProviderError(`${provider} API error: ${response.status} ${response.statusText} - ${errorText.slice(0, 500)}`, retryable);
+}
+
+async function readProviderResponse(provider: LLMProvider, response: Response): Promise<any> {
+  if (!response.ok) throw await providerError(provider, response);
+  return await response.json();
+}
 
-      const data = await response.json();
-      const contentText = data.choices?.[0]?.message?.content;
+/**
+ * Read a streamed (server-sent events) answer
+ * onPartial gets the whole answer so far after each piece; resolves with all of it.
+ */
+async function readProviderStream(
+  provider: LLMProvider,
+  response: Response,
+  textOf: (event: any) => string,
+  onPartial: (content: string) => void
+): Promise<string> {
+  if (!response.ok) throw await providerError(provider, response);
+  if (!response.body) throw new ProviderError(`${provider} returned no stream`, true);
 
-      if (!contentText) {
-        console.error("[callOpenAI] No content in OpenAI response:", data);
-        lastError = new Error("Empty response from OpenAI");
-        if (attempt < maxAttempts) await sleep(200 * attempt);
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let content = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') continue;
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch {
         continue;
       }
+      if (event.type === 'error' || event.error) {
+        throw new ProviderError(`${provider} stream error: ${JSON.stringify(event.error || event).slice(0, 500)}`, true);
+      }
+      const text = textOf(event);
+      if (text) {
+        content += text;
+        onPartial(content);
+      }
+    }
+  }
+  return content;
+}
+
+async function completeOpenAI(model: string, apiKey: string, request: CompletionRequest): Promise<string> {
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: "system", content: request.system },
+        { role: "user", content: request.user },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: !!request.onPartial,
+    }),
+  });
+  if (request.onPartial) {
+    return readProviderStream('openai', response, (event) => event.choices?.[0]?.delta?.content || '', request.onPartial);
+  }
+  const data = await readProviderResponse('openai', response);
+  return data.choices?.[0]?.message?.content || '';
+}
+
+async function completeClaude(model: string, apiKey: string, request: CompletionRequest): Promise<string> {
+  const response = await fetch("https://api.anthropic.com/v1/messages", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model,
+      system: request.system,
+      messages: [{ role: "user", content: request.user }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: !!request.onPartial,
+    }),
+  });
+  if (request.onPartial) {
+    const textOf = (event: any) => (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' ? event.delta.text : '');
+    return readProviderStream('claude', response, textOf, request.onPartial);
+  }
+  const data = await readProviderResponse('claude', response);
+  return (data.content || [])
+    .filter((block: any) => block.type === 'text')
+    .map((block: any) => block.text)
+    .join('');
+}
 
-      console.log(`[callOpenAI] Received response, parsing JSON...`);
-      const cleanedContent = contentText.replace(/```json\n?|\n?```/g, "").trim();
-      const analysis = JSON.parse(cleanedContent);
-      return sanitizeMedicalAnalysis(analysis);
+async function completeGemini(model: string, apiKey: string, request: CompletionRequest): Promise<string> {
+  const method = request.onPartial ? 'streamGenerateContent?alt=sse' : 'generateContent';
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:${method}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": apiKey,
+    },
+    body: JSON.stringify({
+      systemInstruction: { parts: [{ text: request.system }] },
+      contents: [{ role: "user", parts: [{ text: request.user }] }],
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        responseMimeType: "application/json",
+      },
+    }),
+  });
+  const textOf = (event: any) => (event.candidates?.[0]?.content?.parts || []).map((part: any) => part.text || '').join('');
+  if (request.onPartial) {
+    return readProviderStream('gemini', response, textOf, request.onPartial);
+  }
+  const data = await readProviderResponse('gemini', response);
+  return textOf(data);
+}
+
+const COMPLETIONS: Record<LLMProvider, (model: string, apiKey: string, request: CompletionRequest) => Promise<string>> = {
+  openai: completeOpenAI,
+  claude: completeClaude,
+  gemini: completeGemini,
+};
+
+/**
+ * Call one provider, retrying transient failures and unparseable answers
+ */
+async function completeWithRetries<T>(
+  provider: LLMProvider,
+  model: string,
+  request: CompletionRequest,
+  parse: (content: string) => T
+): Promise<T> {
+  const apiKey = apiKeyFor(provider)!;
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+  let lastError: any = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const content = await COMPLETIONS[provider](model, apiKey, request);
+      if (!content) throw new ProviderError(`Empty response from ${provider}`, true);
+      return parse(content);
     } catch (err) {
-      console.error(`[callOpenAI] Fetch error (attempt ${attempt}):`, err instanceof Error ? err.message : err);
       lastError = err;
-      if (attempt < maxAttempts) await sleep(200 * attempt);
+      const retryable = !(err instanceof ProviderError) || err.retryable;
+      console.error(`[${provider}] Attempt ${attempt}/${MAX_ATTEMPTS} failed (model ${model}):`, err instanceof Error ? err.message : err);
+      if (!retryable) break;
+      if (attempt < MAX_ATTEMPTS) await sleep(300 * attempt);
     }
   }
+  throw lastError;
+}
+
+/**
+ * Call the requested provider, falling back along the provider chain
+ * Resolves with the result and the provider/model that produced it.
+ */
+async function completeWithFallback<T>(
+  requested: LLMProvider,
+  model: string | undefined,
+  request: CompletionRequest,
+  parse: (content: string) => T
+): Promise<{ result: T; provider: LLMProvider; model: string }> {
+  const chain = providerChain(requested);
+  if (chain.length === 0) {
+    throw new Error('No LLM provider configured - set OPENAI_API_KEY, ANTHROPIC_API_KEY or GEMINI_API_KEY');
+  }
 
-  console.error('[callOpenAI] All attempts failed, falling back to server-side analyzer', lastError);
-  return localFallbackAnalyzeServer(transcript);
+  const failures: string[] = [];
+  for (const provider of chain) {
+    const providerModel = modelFor(provider, requested, model);
+    try {
+      const result = await completeWithRetries(provider, providerModel, request, parse);
+      if (provider !== requested) {
+        console.warn(`[extract-medical] ${requested} unavailable, answered by ${provider} (${providerModel})`);
+      }
+      return { result, provider, model: providerModel };
+    } catch (err) {
+      failures.push(`${provider}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  throw new Error(`All LLM providers failed - ${failures.join('; ')}`);
 }
 
-async function validateOpenAI(): Promise<{ ok: boolean; detail?: any }> {
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-  if (!apiKey) return { ok: false, detail: "OPENAI_API_KEY missing" };
+// Server-side lightweight fallback extractor if no provider is configured or all of them fail
+function localFallbackAnalyzeServer(text: string): MedicalAnalysis {
+  const complainMatch = text.match(/(fever|cough|pain|headache|stomach|vomit|diarrhoea|cold|sore throat)/i);
+  return { ...emptyMedicalAnalysis(), chiefComplaint: complainMatch ? complainMatch[0] : '' };
+}
 
+async function analyzeTranscript(
+  requested: LLMProvider,
+  model: string | undefined,
+  transcript: string,
+  promptOverride?: string,
+  language?: string,
+  onPartial?: (content: string) => void
+): Promise<{ analysis: MedicalAnalysis; provider: LLMProvider | null; model: string | null }> {
   try {
-    const resp = await fetch("https://api.openai.com/v1/models", {
-      method: "GET",
+    const { result, provider, model: usedModel } = await completeWithFallback(
+      requested,
+      model,
+      {
+        system: resolveMedicalPrompt(promptOverride),
+        user: languageContext(language) + transcript,
+        temperature: 0.3,
+        maxTokens: 2000,
+        onPartial,
+      },
+      (content) => sanitizeMedicalAnalysis(parseModelJson(content))
+    );
+    return { analysis: result, provider, model: usedModel };
+  } catch (err) {
+    console.error('[extract-medical] Falling back to server-side analyzer:', err instanceof Error ? err.message : err);
+    return { analysis: localFallbackAnalyzeServer(transcript), provider: null, model: null };
+  }
+}
+
+// =========================================
+// DOCTOR SESSIONS
+// Tasks that keep state for a consultation need the doctor's Supabase session
+// in the Authorization header, not just the anon key.
+// =========================================
+
+/**
+ * The signed-in doctor making the request, or null for a missing, expired or
+ * anon token
+ */
+async function authenticateDoctor(req: Request): Promise<{ id: string } | null> {
+  const token = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return null;
+  if (!supabaseClient) {
+    console.error('[extract-medical] Cannot verify sessions without SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabaseClient.auth.getUser(token);
+    if (error || !data?.user?.id) return null;
+    return { id: data.user.id };
+  } catch (e) {
+    console.warn('[extract-medical] Session check failed:', e instanceof Error ? e.message : e);
+    return null;
+  }
+}
+
+// =========================================
+// INCREMENTAL EXTRACTION
+// During a live consultation the app sends only the transcript lines added
+// since its last call (task 'analyze_increment'). The function keeps each
+// conversation's lines, its extraction and a rolling summary, asks the model
+// to update the extraction from the new lines, and answers with the fields
+// that changed.
+// =========================================
+
+interface IncrementalState {
+  /** Doctor who started the conversation; only they can continue it */
+  doctorId: string;
+  lines: string[];
+  analysis: MedicalAnalysis;
+  /** Short running summary of the consultation, carried between calls */
+  summary: string;
+  /** Bumped on every update; the client echoes it back to receive deltas */
+  revision: number;
+  updatedAt: number;
+}
+
+// Per function instance and lost on cold start; the database copy (when
+// configured) is read back, otherwise the app resends the whole transcript
+// when the function answers with resync.
+const incrementalStore = new Map<string, IncrementalState>();
+
+const INCREMENTAL_IDLE_MS = 2 * 60 * 60 * 1000;
+// Lines before the new ones, given to the model so it can read them in context
+const INCREMENTAL_CONTEXT_LINES = 12;
+const MAX_INCREMENT_CHARS = 20000;
+
+const INCREMENTAL_INSTRUCTIONS = `
+This consultation is still in progress. You receive the extraction so far, a short summary of the conversation so far, the last few lines for context, and the new lines of the transcript.
+Update the extraction with what the new lines add or change. Keep facts from the extraction so far unless the new lines correct or contradict them.
+Return ONLY this JSON: {"analysis": <the complete updated extraction in the structure above>, "summary": "<the consultation so far in at most 150 words>"}`;
+
+function sweepIncrementalStore(now: number) {
+  for (const [id, state] of incrementalStore) {
+    if (now - state.updatedAt > INCREMENTAL_IDLE_MS) incrementalStore.delete(id);
+  }
+}
+
+/**
+ * Doctor a conversation belongs to, or null for a new one
+ * @throws if the database cannot be read, so a conversation is never handed to
+ * another doctor on a transient error
+ */
+async function conversationOwner(conversationId: string): Promise<string | null> {
+  const cached = incrementalStore.get(conversationId);
+  if (cached) return cached.doctorId;
+  if (!supabaseClient) return null;
+
+  const { data, error } = await supabaseClient
+    .from('medical_conversations')
+    .select('user_id')
+    .eq('id', conversationId)
+    .maybeSingle();
+  if (error) throw new Error(`Could not read conversation owner: ${error.message}`);
+  return data?.user_id || null;
+}
+
+async function loadIncrementalState(conversationId: string): Promise<IncrementalState | null> {
+  const cached = incrementalStore.get(conversationId);
+  if (cached) return cached;
+  if (!supabaseClient) return null;
+
+  // Columns from supabase/migrations/20261019000000_incremental_extraction.sql
+  try {
+    const { data, error } = await supabaseClient
+      .from('medical_conversations')
+      .select('user_id, transcript, analysis, summary, revision')
+      .eq('id', conversationId)
+      .single();
+    if (error || !data || !data.user_id || typeof data.revision !== 'number' || !data.analysis) return null;
+    const state: IncrementalState = {
+      doctorId: data.user_id,
+      lines: String(data.transcript || '').split('\n'),
+      analysis: parseMedicalAnalysis(typeof data.analysis === 'string' ? JSON.parse(data.analysis) : data.analysis).analysis,
+      summary: data.summary || '',
+      revision: data.revision,
+      updatedAt: Date.now(),
+    };
+    incrementalStore.set(conversationId, state);
+    console.log('[extract-medical] Loaded incremental state from DB for', conversationId);
+    return state;
+  } catch (e) {
+    console.warn('[extract-medical] Failed to load incremental state from DB:', e instanceof Error ? e.message : e);
+    return null;
+  }
+}
+
+async function persistIncrementalState(conversationId: string, state: IncrementalState) {
+  if (!supabaseClient) return;
+  try {
+    const { error } = await supabaseClient
+      .from('medical_conversations')
+      .upsert({
+        id: conversationId,
+        user_id: state.doctorId,
+        transcript: state.lines.join('\n'),
+        analysis: JSON.stringify(state.analysis),
+        summary: state.summary,
+        revision: state.revision,
+        finalized: false,
+        updated_at: new Date().toISOString(),
+      });
+    // Not fatal: this instance keeps the state, others ask the client to resync
+    if (error) throw new Error(error.message);
+  } catch (e) {
+    console.error('[extract-medical] Supabase incremental upsert failed:', e instanceof Error ? e.message : e);
+  }
+}
+
+function incrementalPrompt(state: IncrementalState, fromLine: number, newLines: string[], language?: string): string {
+  const context = state.lines.slice(Math.max(0, fromLine - INCREMENTAL_CONTEXT_LINES), fromLine);
+  let added = newLines.join('\n');
+  if (added.length > MAX_INCREMENT_CHARS) added = added.slice(-MAX_INCREMENT_CHARS);
+
+  return languageContext(language) +
+    `Extraction so far:\n${JSON.stringify(state.analysis)}\n\n` +
+    `Summary so far:\n${state.summary || '(consultation just started)'}\n\n` +
+    (context.length > 0 ? `Earlier lines, for context only:\n${context.join('\n')}\n\n` : '') +
+    `New lines:\n${added}`;
+}
+
+/**
+ * Apply one increment to a conversation
+ * fromLine is the index of the first line the client is sending: lines before
+ * it are unchanged, lines from it on replace what the function has (the last
+ * line grows while a speaker keeps talking). fromLine 0 starts over.
+ */
+async function analyzeIncrement(
+  conversationId: string,
+  doctorId: string,
+  fromLine: number,
+  newLines: string[],
+  requested: LLMProvider,
+  model: string | undefined,
+  promptOverride?: string,
+  language?: string,
+  onPartial?: (content: string) => void
+): Promise<{ state: IncrementalState; previous: IncrementalState; provider: LLMProvider; model: string } | null> {
+  const now = Date.now();
+  sweepIncrementalStore(now);
+
+  const stored = fromLine > 0 ? await loadIncrementalState(conversationId) : null;
+  if (fromLine > 0 && (!stored || fromLine > stored.lines.length)) return null;
+
+  const previous: IncrementalState = stored ||
+    { doctorId, lines: [], analysis: emptyMedicalAnalysis(), summary: '', revision: incrementalStore.get(conversationId)?.revision || 0, updatedAt: now };
+
+  // The trailing "Conversation transcript:" of the prompt does not apply here
+  const system = resolveMedicalPrompt(promptOverride).replace(/\s*Conversation transcript:\s*$/, '') + '\n' + INCREMENTAL_INSTRUCTIONS;
+
+  const { result, provider, model: usedModel } = await completeWithFallback(
+    requested,
+    model,
+    {
+      system,
+      user: incrementalPrompt(previous, fromLine, newLines, language),
+      temperature: 0.3,
+      maxTokens: 2500,
+      onPartial,
+    },
+    (content) => {
+      const parsed = parseModelJson(content);
+      // Some models answer with the bare extraction and no summary
+      const raw = parsed && typeof parsed.analysis === 'object' ? parsed.analysis : parsed;
+      return {
+        analysis: sanitizeMedicalAnalysis(raw),
+        summary: typeof parsed?.summary === 'string' ? parsed.summary.trim() : previous.summary,
+      };
+    }
+  );
+
+  const state: IncrementalState = {
+    doctorId,
+    lines: previous.lines.slice(0, fromLine).concat(newLines),
+    analysis: result.analysis,
+    summary: result.summary,
+    revision: previous.revision + 1,
+    updatedAt: now,
+  };
+  incrementalStore.set(conversationId, state);
+  await persistIncrementalState(conversationId, state);
+  return { state, previous, provider, model: usedModel };
+}
+
+// =========================================
+// STREAMED ANSWERS
+// With stream: true the function answers with server-sent events: "partial"
+// events carry extracted fields as the model finishes writing them, so the
+// diagnosis shows up before the medications are done, then "result" carries
+// the same body as the non-streamed answer ("error" if there is none).
+// =========================================
+
+/**
+ * The analysis fields the model has finished writing, validated
+ * The field being written is left out until the next one starts.
+ */
+function completedAnalysisFields(content: string): Record<string, any> {
+  // Incremental answers wrap the extraction: {"analysis": {...}, "summary": ...}
+  const raw = completedFields(content, 'analysis');
+  const keys = Object.keys(raw).filter((key) => key !== 'schemaVersion');
+  if (keys.length === 0) return {};
+
+  const { analysis } = parseMedicalAnalysis(Object.fromEntries(keys.map((key) => [key, raw[key]])));
+  const fields: Record<string, any> = {};
+  for (const key of keys) {
+    if (!(key in analysis)) continue;
+    fields[key] = key === 'medications'
+      ? sanitizeMedicationEntries(analysis.medications)
+      : analysis[key as keyof MedicalAnalysis];
+  }
+  return fields;
+}
+
+type SendEvent = (event: 'partial' | 'result' | 'error', data: any) => void;
+
+/**
+ * onPartial handler that sends each field once it is complete, and again if it changes
+ */
+function partialFieldEmitter(send: SendEvent): (content: string) => void {
+  const sent: Record<string, string> = {};
+  let parsedLength = 0;
+
+  return (content: string) => {
+    // A retry or fallback provider starts its answer over
+    if (content.length < parsedLength) parsedLength = 0;
+    // Only a comma or a closing bracket can complete a field
+    if (!/[,}\]]/.test(content.slice(parsedLength))) return;
+    parsedLength = content.length;
+
+    const changed: Record<string, any> = {};
+    for (const [key, value] of Object.entries(completedAnalysisFields(content))) {
+      const json = JSON.stringify(value);
+      if (sent[key] !== json) {
+        sent[key] = json;
+        changed[key] = value;
+      }
+    }
+    if (Object.keys(changed).length > 0) send('partial', { fields: changed });
+  };
+}
+
+function sseResponse(run: (send: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      try {
+        await run(send);
+      } catch (err) {
+        console.error('[extract-medical] Streamed request failed:', err instanceof Error ? err.message : err);
+        send('error', { error: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+interface ProviderStatus {
+  configured: boolean;
+  ok: boolean;
+  error?: string;
+}
+
+// The app asks for provider status on every load, and each check calls the
+// provider's API, so results are reused for a while (per function instance)
+const STATUS_CACHE_MS = 10 * 60 * 1000;
+let providerStatusCache: { checkedAt: number; statuses: Promise<Record<string, ProviderStatus>> } | null = null;
+
+/**
+ * Check a provider's key by listing its models
+ */
+async function validateProvider(provider: LLMProvider): Promise<ProviderStatus> {
+  const apiKey = apiKeyFor(provider);
+  if (!apiKey) return { configured: false, ok: false, error: `${PROVIDER_API_KEYS[provider]} missing` };
+
+  const requests: Record<LLMProvider, () => Promise<Response>> = {
+    openai: () => fetch("https://api.openai.com/v1/models", {
       headers: { Authorization: `Bearer ${apiKey}` },
-    });
+    }),
+    claude: () => fetch("https://api.anthropic.com/v1/models", {
+      headers: { "x-api-key": apiKey, "anthropic-version": ANTHROPIC_VERSION },
+    }),
+    gemini: () => fetch("https://generativelanguage.googleapis.com/v1beta/models", {
+      headers: { "x-goog-api-key": apiKey },
+    }),
+  };
 
+  try {
+    const resp = await requests[provider]();
     if (!resp.ok) {
-      const text = await resp.text();
-      return { ok: false, detail: text };
+      return { configured: true, ok: false, error: `${resp.status} ${(await resp.text()).slice(0, 300)}` };
     }
-
-    const json = await resp.json();
-    return { ok: true, detail: json };
+    return { configured: true, ok: true };
   } catch (err) {
-    return { ok: false, detail: err instanceof Error ? err.message : String(err) };
+    return { configured: true, ok: false, error: err instanceof Error ? err.message : String(err) };
   }
 }
 
-// Gemini support removed — OpenAI is the only provider used by the function now.
+/**
+ * Status of every provider, checked at most once per STATUS_CACHE_MS.
+ * Requests arriving during a check share it.
+ */
+function providerStatuses(): Promise<Record<string, ProviderStatus>> {
+  if (providerStatusCache && Date.now() - providerStatusCache.checkedAt < STATUS_CACHE_MS) {
+    return providerStatusCache.statuses;
+  }
+
+  const statuses = (async () => {
+    const providers: Record<string, ProviderStatus> = {};
+    for (const provider of DEFAULT_FALLBACK_ORDER) {
+      providers[provider] = await validateProvider(provider);
+    }
+    return providers;
+  })();
+  providerStatusCache = { checkedAt: Date.now(), statuses };
+  return statuses;
+}
 
 serve(async (req: Request) => {
   // Small helper to mask sensitive headers for logs
@@ -398,17 +948,19 @@ serve(async (req: Request) => {
     return new Response("OK", {
       headers: {
         "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "POST, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization, apikey",
       },
     });
   }
 
-  // Support GET for a quick OpenAI validation check
+  // GET reports which providers are configured and reachable, so the app
+  // only offers those
   if (req.method === "GET") {
-    const validation = await validateOpenAI();
-    return new Response(JSON.stringify({ validation }), {
-      status: validation.ok ? 200 : 500,
+    const providers = await providerStatuses();
+    const anyOk = Object.values(providers).some((status) => status.ok);
+    return new Response(JSON.stringify({ providers, fallbackOrder: fallbackOrder() }), {
+      status: anyOk ? 200 : 500,
       headers: {
         "Content-Type": "application/json",
         "Access-Control-Allow-Origin": "*",
@@ -435,74 +987,145 @@ serve(async (req: Request) => {
 
     const {
       transcript: incomingTranscript,
-      model = "gpt-4o-mini",
+      model,
       provider,
       promptOverride,
       conversationId,
       chunk,
-      append = false,
       finalize = false,
+      language,
+      task,
     } = body as any;
 
-    // Additional debug log for commonly used fields
-    console.log('[extract-medical] Parsed request fields', {
-      conversationId: conversationId || null,
-      hasChunk: typeof chunk === 'string',
-      append,
-      finalize,
-      model,
-      provider,
-      hasPromptOverride: !!promptOverride,
-      incomingTranscriptPreview: incomingTranscript ? (incomingTranscript.length > 500 ? incomingTranscript.slice(0, 500) + '...[truncated]' : incomingTranscript) : null,
-    });
-
-    // If client sends a chunk with conversationId, append or overwrite the stored transcript
-    if (conversationId && typeof chunk === 'string') {
-      const existing = conversationStore.get(conversationId) || '';
-      const updated = append && existing ? (existing + '\n' + chunk) : chunk;
-      conversationStore.set(conversationId, updated);
+    // Requested provider; older clients send only a model
+    const requestedProvider: LLMProvider = isProvider(provider) ? provider : providerForModel(model) || 'openai';
 
-      // Persist to Supabase if client configured (upsert)
-      if (supabaseClient) {
-        try {
-          await supabaseClient
-            .from('medical_conversations')
-            .upsert({ id: conversationId, transcript: updated, finalized: false, updated_at: new Date().toISOString() });
-        } catch (e) {
-          console.error('[extract-medical] Supabase upsert failed:', e instanceof Error ? e.message : e);
-        }
+    // Script conversion of transcript lines for display, separate from analysis
+    if (task === 'convert_script') {
+      const doctor = await authenticateDoctor(req);
+      if (!doctor) {
+        return new Response(JSON.stringify({ error: "convert_script needs the doctor's session" }), {
+          status: 401,
+          headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        });
       }
-
-      // If not finalizing, acknowledge the patch
-      if (!finalize) {
-        return new Response(JSON.stringify({ ok: true, conversationId }), {
-          status: 200,
+      const texts = Array.isArray(body.texts) ? body.texts.map((t: any) => String(t ?? '')) : [];
+      const chars = texts.reduce((total: number, text: string) => total + text.length, 0);
+      if (texts.length > MAX_CONVERT_LINES || chars > MAX_CONVERT_CHARS) {
+        return new Response(JSON.stringify({ error: `convert_script takes at most ${MAX_CONVERT_LINES} lines and ${MAX_CONVERT_CHARS} characters` }), {
+          status: 413,
           headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
         });
       }
-      // if finalize is true, fall through to analysis using the stored transcript
+      const converted = await convertScript(texts, language, String(body.target || ''), requestedProvider, model);
+      return new Response(JSON.stringify({ texts: converted }), {
+        status: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+      });
     }
 
-    // Choose transcript: prefer in-memory store, otherwise fall back to DB (if available), otherwise incoming
-    let transcript = (conversationId && conversationStore.get(conversationId)) || incomingTranscript;
+    // Live consultation: only the new transcript lines, answered with the fields that changed
+    if (task === 'analyze_increment') {
+      const fromLine = Number(body.fromLine);
+      const lines = Array.isArray(body.lines) ? body.lines.map((l: any) => String(l ?? '')) : null;
+      if (!conversationId || !Number.isInteger(fromLine) || fromLine < 0 || !lines) {
+        return new Response(JSON.stringify({ error: "analyze_increment needs conversationId, fromLine and lines" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        });
+      }
 
-    // If no transcript in-memory and we have a Supabase client, try to fetch the persisted transcript
-    if ((!transcript || transcript.trim().length === 0) && conversationId && supabaseClient) {
+      const doctor = await authenticateDoctor(req);
+      if (!doctor) {
+        return new Response(JSON.stringify({ error: "analyze_increment needs the doctor's session" }), {
+          status: 401,
+          headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        });
+      }
+      let owner: string | null;
       try {
-        const { data, error } = await supabaseClient
-          .from('medical_conversations')
-          .select('transcript')
-          .eq('id', conversationId)
-          .single();
-        if (!error && data && data.transcript) {
-          transcript = data.transcript;
-          console.log('[extract-medical] Loaded transcript from DB for', conversationId);
+        owner = await conversationOwner(conversationId);
+      } catch (err) {
+        console.error('[extract-medical] Ownership check failed:', err instanceof Error ? err.message : err);
+        return new Response(JSON.stringify({ error: "Could not check the conversation" }), {
+          status: 503,
+          headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        });
+      }
+      if (owner && owner !== doctor.id) {
+        console.warn(`[extract-medical] Doctor ${doctor.id} denied conversation ${conversationId}`);
+        return new Response(JSON.stringify({ error: "This consultation belongs to another doctor" }), {
+          status: 403,
+          headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        });
+      }
+
+      const runIncrement = async (onPartial?: (content: string) => void): Promise<{ status: number; payload: any }> => {
+        let increment;
+        try {
+          increment = await analyzeIncrement(conversationId, doctor.id, fromLine, lines, requestedProvider, model, promptOverride, language, onPartial);
+        } catch (err) {
+          // Keep the stored state; the client sends the same lines again next time
+          console.error('[extract-medical] Incremental analysis failed:', err instanceof Error ? err.message : err);
+          return { status: 502, payload: { error: err instanceof Error ? err.message : 'Incremental analysis failed' } };
+        }
+
+        if (!increment) {
+          console.warn(`[extract-medical] No state for ${conversationId} at line ${fromLine}, asking client to resync`);
+          return { status: 409, payload: { error: "Conversation state not found", resync: true } };
         }
-      } catch (e) {
-        console.warn('[extract-medical] Failed to load transcript from DB:', e instanceof Error ? e.message : e);
+
+        const { state, previous } = increment;
+        // A client that missed a revision gets the whole extraction instead of a delta
+        const upToDate = fromLine > 0 && Number(body.revision) === previous.revision;
+        return {
+          status: 200,
+          payload: {
+            conversationId,
+            revision: state.revision,
+            ...(upToDate ? { delta: diffMedicalAnalysis(previous.analysis, state.analysis) } : { analysis: state.analysis }),
+            summary: state.summary,
+            provider: increment.provider,
+            model: increment.model,
+          },
+        };
+      };
+
+      if (body.stream) {
+        return sseResponse(async (send) => {
+          const { status, payload } = await runIncrement(partialFieldEmitter(send));
+          send(status === 200 ? 'result' : 'error', payload);
+        });
       }
+      const { status, payload } = await runIncrement();
+      return new Response(JSON.stringify(payload), {
+        status,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+      });
     }
 
+    // Transcript chunks stored per conversationId were replaced by task
+    // 'analyze_increment', which only lets the doctor who started a
+    // conversation read or change it
+    if (typeof chunk === 'string' || finalize) {
+      return new Response(JSON.stringify({ error: "Transcript chunks are no longer stored; live consultations use task 'analyze_increment'" }), {
+        status: 410,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+      });
+    }
+
+    // Additional debug log for commonly used fields
+    console.log('[extract-medical] Parsed request fields', {
+      model,
+      provider,
+      hasPromptOverride: !!promptOverride,
+      language: language || null,
+      incomingTranscriptPreview: incomingTranscript ? (incomingTranscript.length > 500 ? incomingTranscript.slice(0, 500) + '...[truncated]' : incomingTranscript) : null,
+    });
+
+    // A full analysis reads only the transcript in the request, never a stored conversation
+    const transcript = typeof incomingTranscript === 'string' ? incomingTranscript : '';
+
     if (!transcript || transcript.trim().length === 0) {
       return new Response(
         JSON.stringify({ error: "Transcript is required and cannot be empty" }),
@@ -516,38 +1139,26 @@ serve(async (req: Request) => {
       );
     }
 
-    // Use OpenAI for analysis
-    const detectedProvider: LLMProvider = 'openai';
-    console.log(`[extract-medical] Processing with provider: ${detectedProvider}, model: ${model}`);
+    console.log(`[extract-medical] Processing with provider: ${requestedProvider}, model: ${model || DEFAULT_MODELS[requestedProvider]}`);
 
     // Clip transcript to reasonable size to avoid huge requests
     const MAX_TRANSCRIPT_CHARS = 20000;
     const clippedTranscript = transcript.length > MAX_TRANSCRIPT_CHARS ? transcript.slice(-MAX_TRANSCRIPT_CHARS) : transcript;
 
-    let analysis: MedicalAnalysis;
+    const runAnalysis = async (onPartial?: (content: string) => void) => {
+      const { analysis, provider: answeredBy, model: answeredModel } =
+        await analyzeTranscript(requestedProvider, model, clippedTranscript, promptOverride, language, onPartial);
 
-    // Only OpenAI provider is supported here
-    analysis = await callOpenAI(model, clippedTranscript, promptOverride);
-    analysis = sanitizeMedicalAnalysis(analysis);
+      // provider/model are null when the server-side fallback analyzer answered
+      return { analysis, provider: answeredBy, model: answeredModel };
+    };
 
-    // If we finalized this conversation, delete its stored transcript
-    if (conversationId && finalize) {
-      conversationStore.delete(conversationId);
-      // Persist final transcript/analysis to Supabase (if available)
-      if (supabaseClient) {
-        try {
-          await supabaseClient
-            .from('medical_conversations')
-            .update({ transcript: clippedTranscript, finalized: true, analysis: JSON.stringify(analysis), finalized_at: new Date().toISOString() })
-            .eq('id', conversationId);
-        } catch (e) {
-          console.error('[extract-medical] Supabase finalize update failed:', e instanceof Error ? e.message : e);
-        }
-      }
+    if (body.stream) {
+      return sseResponse(async (send) => send('result', await runAnalysis(partialFieldEmitter(send))));
     }
 
     return new Response(
-      JSON.stringify({ analysis }),
+      JSON.stringify(await runAnalysis()),
       {
         status: 200,
         headers: {
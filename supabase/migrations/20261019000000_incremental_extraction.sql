@@ -0,0 +1,29 @@
+-- =========================================
+-- INCREMENTAL EXTRACTION STATE
+-- Live consultations are analyzed increment by increment by the extract-medical
+-- Edge Function (task 'analyze_increment'). It keeps a rolling summary and a
+-- revision per conversation, and the doctor the conversation belongs to.
+-- =========================================
+
+CREATE TABLE IF NOT EXISTS medical_conversations (
+  id TEXT PRIMARY KEY,
+  transcript TEXT,
+  analysis TEXT,
+  finalized BOOLEAN DEFAULT FALSE,
+  finalized_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Rolling summary of the consultation so far, given to the model with each increment
+ALTER TABLE medical_conversations ADD COLUMN IF NOT EXISTS summary TEXT;
+
+-- Bumped on every update; NULL for conversations that were never analyzed incrementally
+ALTER TABLE medical_conversations ADD COLUMN IF NOT EXISTS revision INTEGER;
+
+-- Doctor who started the conversation; only they can continue it
+ALTER TABLE medical_conversations ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_medical_conversations_user ON medical_conversations(user_id);
+
+-- Only the Edge Function (service role) reads and writes conversation state
+ALTER TABLE medical_conversations ENABLE ROW LEVEL SECURITY;